@@ -4,6 +4,7 @@ import * as path from 'path'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import icon from '../../resources/icon.png?asset'
 import { connectToDatabase } from './lib/mongodb'
+import { dropStoreWideNumberIndexes } from './lib/numbering'
 import { registerIpcHandlers } from './ipc/handlers'
 
 function createWindow(): void {
@@ -67,7 +68,7 @@ app.whenReady().then(() => {
   })
 
   // Connect to Database and Register handlers
-  connectToDatabase().catch(console.error)
+  connectToDatabase().then(dropStoreWideNumberIndexes).catch(console.error)
   registerIpcHandlers()
 
   createWindow()
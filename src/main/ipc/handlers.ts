@@ -4,6 +4,63 @@ import * as bcrypt from 'bcryptjs'
 import mongoose from 'mongoose'
 import * as fs from 'fs'
 import * as path from 'path'
+import { runInTransaction } from '../lib/mongodb'
+import type { IAccount } from '../models/Account'
+import type { IGoodsReceipt, IGoodsReceiptItem } from '../models/PurchaseOrder'
+import type { IStockCount, IStockCountItem } from '../models/StockCount'
+import type { ISupplierReturnItem } from '../models/SupplierReturn'
+import {
+  ensureDefaultAccounts,
+  expenseAccountKey,
+  getFinancialStatements,
+  NON_PAYMENT_ASSET_KEYS,
+  paymentAccountKey,
+  postJournal,
+  reverseJournals
+} from '../lib/accounting'
+import {
+  allocateSupplierPayment,
+  buildSupplierStatement,
+  getOutstandingPurchaseOrders,
+  purchaseOrderDue,
+  purchaseOrderPayable,
+  purchasePaymentStatus
+} from '../lib/payables'
+import { logOverride, verifyManagerApproval } from '../lib/approvals'
+import { priceSale, roundMoney } from '../lib/checkout'
+import { comboPiecesKey } from '../lib/combos'
+import { buildDiscountReport, getDiscountLimit } from '../lib/discounts'
+import { heldQuantities, holdCart } from '../lib/holds'
+import {
+  applyInstallmentPayment,
+  buildInstallmentPlan,
+  buildOverdueInstallments
+} from '../lib/installments'
+import { nextDocumentNumber } from '../lib/numbering'
+import { buildTaxReport, linePaidAmount } from '../lib/tax'
+import { buildShiftReport, canWorkShift, countedCashFrom, findOpenShift } from '../lib/shifts'
+import { settleTenders, tenderTotals } from '../lib/tenders'
+import {
+  buildCustomerStatement,
+  buildReceivablesAging,
+  checkCustomerCredit,
+  CREDIT_PAYMENT_METHODS
+} from '../lib/receivables'
+import {
+  ADJUSTMENT_REASONS,
+  addCostLayer,
+  adjustStock,
+  consumeCostLayers,
+  costOutgoingStock,
+  getAverageCosts,
+  getCostingMethod,
+  receiveAtAverageCost,
+  recordStockMovement,
+  resetAverageCost,
+  restoreCostLayers,
+  roundQuantity,
+  type AdjustmentReason
+} from '../lib/stock'
 
 // Helper to ensure data is cloneable for Electron IPC (Structured Clone Algorithm)
 // Mongoose ObjectIds and other internal types can cause "An object could not be cloned" errors.
@@ -17,86 +74,24 @@ const toJSON = (data: any) => {
   }
 }
 
-const createAccountTransaction = async ({
-  storeId,
-  createdBy,
-  description,
-  referenceType,
-  referenceId,
-  accountId,
-  entryType,
-  amount,
-  transactionDate
-}: {
-  storeId: string
-  createdBy: string
-  description: string
-  referenceType: string
-  referenceId?: string
-  accountId: string
-  entryType: 'DEBIT' | 'CREDIT'
-  amount: number
-  transactionDate?: Date
-}) => {
-  if (!accountId || amount <= 0) return
-  await models.Transaction.create({
-    transactionDate: transactionDate || new Date(),
-    referenceType,
-    referenceId,
-    description,
-    entries: [
-      {
-        account: accountId,
-        entryType,
-        amount
-      }
-    ],
-    totalAmount: amount,
-    store: storeId,
-    createdBy
-  })
+// Response for a handler whose transaction was aborted, so the renderer can tell the user
+// that nothing was saved rather than showing a generic failure.
+const rolledBackError = (
+  action: string,
+  error: Error
+): { success: false; rolledBack: true; error: string } => {
+  console.error(`❌ ${action} rolled back:`, error)
+  return {
+    success: false,
+    rolledBack: true,
+    error: `${action} failed and no changes were saved: ${error.message}`
+  }
 }
 
 export function registerIpcHandlers() {
   console.log('📡 Registering IPC handlers...')
   console.log('Available models:', mongoose.modelNames())
 
-  const ensureDefaultAccounts = async (storeId: string) => {
-    const cashAccount = await models.Account.findOne({
-      store: storeId,
-      accountName: 'Cash in Hand'
-    })
-
-    const bankAccount = await models.Account.findOne({
-      store: storeId,
-      accountName: 'Bank'
-    })
-
-    const cash =
-      cashAccount ||
-      (await models.Account.create({
-        accountCode: '1001',
-        accountName: 'Cash in Hand',
-        accountType: 'ASSET',
-        store: storeId,
-        openingBalance: 0,
-        currentBalance: 0
-      }))
-
-    const bank =
-      bankAccount ||
-      (await models.Account.create({
-        accountCode: '1002',
-        accountName: 'Bank',
-        accountType: 'ASSET',
-        store: storeId,
-        openingBalance: 0,
-        currentBalance: 0
-      }))
-
-    return { cash, bank }
-  }
-
   // Auth Handlers
   ipcMain.handle('auth:login', async (_event, { email, password }) => {
     try {
@@ -448,6 +443,540 @@ export function registerIpcHandlers() {
     }
   })
 
+  // Every stock change for a product, newest first, with the document that caused it
+  ipcMain.handle('inventory:getMovements', async (_event, { productId, limit = 50 }) => {
+    try {
+      const movements = await models.StockTransaction.find({ product: productId })
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .populate('createdBy', 'fullName')
+        .lean()
+
+      const idsOf = (types: string[]): mongoose.Types.ObjectId[] =>
+        movements.filter((m) => types.includes(m.referenceType)).map((m) => m.referenceId)
+
+      const [sales, purchaseOrders, supplierReturns] = await Promise.all([
+        models.Sale.find({ _id: { $in: idsOf(['SALE', 'SALE_REVERSAL', 'REFUND']) } })
+          .select('invoiceNumber')
+          .lean(),
+        models.PurchaseOrder.find({ _id: { $in: idsOf(['PURCHASE_ORDER']) } })
+          .select('poNumber')
+          .lean(),
+        models.SupplierReturn.find({ _id: { $in: idsOf(['SUPPLIER_RETURN']) } })
+          .select('returnNumber')
+          .lean()
+      ])
+      const documentNumbers = new Map<string, string>([
+        ...sales.map((sale): [string, string] => [String(sale._id), sale.invoiceNumber]),
+        ...purchaseOrders.map((po): [string, string] => [String(po._id), po.poNumber]),
+        ...supplierReturns.map((doc): [string, string] => [String(doc._id), doc.returnNumber])
+      ])
+
+      const data = movements.map((movement) => ({
+        ...movement,
+        referenceNumber: documentNumbers.get(String(movement.referenceId)) || null
+      }))
+
+      return toJSON({ success: true, data })
+    } catch (error: any) {
+      return { success: false, error: error.message, data: [] }
+    }
+  })
+
+  // Manual stock correction (damage, shrinkage, found stock). `quantity` is signed; the
+  // stock value moved is written off to, or recovered from, Inventory Shrinkage & Damage.
+  ipcMain.handle(
+    'inventory:adjust',
+    async (_event, { productId, quantity, reason, notes, photo, createdBy }) => {
+      try {
+        const rule = ADJUSTMENT_REASONS[reason as AdjustmentReason]
+        if (!rule) return { success: false, error: 'Select a reason for the adjustment' }
+
+        const change = Number(quantity) || 0
+        if (change === 0) return { success: false, error: 'Quantity must not be zero' }
+        if (rule.direction === 'OUT' && change > 0) {
+          return { success: false, error: `${rule.label} can only remove stock` }
+        }
+        if (rule.direction === 'IN' && change < 0) {
+          return { success: false, error: `${rule.label} can only add stock` }
+        }
+
+        return await runInTransaction(async (session) => {
+          const product = await models.Product.findById(productId).session(session)
+          if (!product) return { success: false, error: 'Product not found' }
+          if (change < 0 && -change > (product.stockLevel || 0)) {
+            return {
+              success: false,
+              error: `Cannot remove more than the ${product.stockLevel || 0} in stock`
+            }
+          }
+
+          const adjustmentId = new mongoose.Types.ObjectId()
+          const method = await getCostingMethod(product.store, session)
+          // Stock removed is costed by the store's method; found stock opens a layer at average cost
+          const unitCost =
+            change < 0
+              ? (
+                  await costOutgoingStock({
+                    productId: product._id,
+                    quantity: -change,
+                    method,
+                    session
+                  })
+                ).unitCost
+              : (await getAverageCosts([product._id], session)).get(String(product._id)) || 0
+          if (change > 0) {
+            await addCostLayer({
+              storeId: product.store,
+              productId: product._id,
+              quantity: change,
+              unitCost,
+              entryType: 'ADJUSTMENT',
+              unit: product.productKind === 'RAW_MATERIAL' ? 'meter' : product.baseUnit,
+              notes: `${rule.label}${notes ? ` - ${notes}` : ''}`,
+              session
+            })
+          }
+          const movement = await adjustStock({
+            productId: product._id,
+            transactionType: rule.transactionType,
+            referenceType: 'STOCK_ADJUSTMENT',
+            referenceId: adjustmentId,
+            quantity: change,
+            unitCost,
+            notes,
+            reason,
+            photo,
+            createdBy,
+            session
+          })
+
+          const value = Math.abs(change) * unitCost
+          const accounts = await ensureDefaultAccounts(String(product.store), session)
+          await postJournal({
+            storeId: String(product.store),
+            createdBy,
+            description: `Stock adjustment (${rule.label}) - ${product.name}`,
+            referenceType: 'STOCK_ADJUSTMENT',
+            referenceId: String(adjustmentId),
+            session,
+            lines: [
+              {
+                account: accounts.INVENTORY_LOSS,
+                entryType: change < 0 ? 'DEBIT' : 'CREDIT',
+                amount: value
+              },
+              {
+                account: accounts.INVENTORY,
+                entryType: change < 0 ? 'CREDIT' : 'DEBIT',
+                amount: value
+              }
+            ]
+          })
+
+          return toJSON({ success: true, data: movement })
+        })
+      } catch (error: any) {
+        return rolledBackError('Stock adjustment', error)
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'inventory:getAdjustments',
+    async (_event, { storeId, startDate, endDate, reason }) => {
+      try {
+        // Posted count variances are adjustments too, with reason COUNT_CORRECTION
+        const query: any = {
+          store: storeId,
+          referenceType: { $in: ['STOCK_ADJUSTMENT', 'STOCK_COUNT'] }
+        }
+        if (reason && reason !== 'all') query.reason = reason
+        if (startDate || endDate) {
+          query.createdAt = {}
+          if (startDate) query.createdAt.$gte = new Date(startDate)
+          if (endDate) {
+            const end = new Date(endDate)
+            end.setHours(23, 59, 59, 999)
+            query.createdAt.$lte = end
+          }
+        }
+
+        const rows = await models.StockTransaction.find(query)
+          .sort({ createdAt: -1 })
+          .populate('product', 'name sku productKind')
+          .populate('createdBy', 'fullName')
+          .lean()
+
+        // Value is signed like quantity: negative is stock written off
+        type Totals = { count: number; quantity: number; value: number }
+        const byReason = new Map<string, Totals>()
+        const byUser = new Map<string, Totals>()
+        const addTo = (groups: Map<string, Totals>, key: string, row: any): void => {
+          const totals = groups.get(key) || { count: 0, quantity: 0, value: 0 }
+          totals.count += 1
+          totals.quantity += row.quantity
+          totals.value += row.quantity * (row.unitCost || 0)
+          groups.set(key, totals)
+        }
+        for (const row of rows) {
+          addTo(byReason, row.reason || 'OTHER', row)
+          addTo(byUser, (row.createdBy as any)?.fullName || 'Unknown', row)
+        }
+
+        return toJSON({
+          success: true,
+          data: {
+            rows,
+            byReason: [...byReason].map(([reasonKey, totals]) => ({
+              reason: reasonKey,
+              label: ADJUSTMENT_REASONS[reasonKey as AdjustmentReason]?.label || reasonKey,
+              ...totals
+            })),
+            byUser: [...byUser].map(([user, totals]) => ({ user, ...totals }))
+          }
+        })
+      } catch (error: any) {
+        return { success: false, error: error.message }
+      }
+    }
+  )
+
+  // Open cost layers: each purchase lot with stock left and what it cost. Per product the
+  // layered quantity is set against stock on hand; the gap is stock from before layers
+  // were kept (or oversold), which is costed at the average.
+  ipcMain.handle('inventory:getCostLayers', async (_event, { storeId, productId }) => {
+    try {
+      const query: any = { store: storeId, remainingQuantity: { $gt: 0 } }
+      if (productId) query.product = productId
+
+      const layers = await models.StockEntry.find(query)
+        .sort({ purchaseDate: 1, createdAt: 1 })
+        .populate('product', 'name sku productKind stockLevel')
+        .populate('supplier', 'name')
+        .populate('purchaseOrder', 'poNumber')
+        .lean()
+
+      const byProduct = new Map<string, any>()
+      for (const layer of layers as any[]) {
+        if (!layer.product) continue
+        const key = String(layer.product._id)
+        const totals = byProduct.get(key) || {
+          product: layer.product._id,
+          name: layer.product.name,
+          sku: layer.product.sku,
+          unit: layer.product.productKind === 'RAW_MATERIAL' ? 'meter' : layer.unit || 'pcs',
+          stockLevel: layer.product.stockLevel || 0,
+          layers: 0,
+          quantity: 0,
+          value: 0
+        }
+        totals.layers += 1
+        totals.quantity += layer.remainingQuantity
+        totals.value += layer.remainingQuantity * layer.buyingPrice
+        byProduct.set(key, totals)
+      }
+
+      return toJSON({
+        success: true,
+        data: {
+          method: await getCostingMethod(storeId),
+          layers,
+          products: [...byProduct.values()].sort((a, b) => b.value - a.value)
+        }
+      })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
+
+  // ============================================================
+  // STOCK COUNT HANDLERS
+  // ============================================================
+
+  ipcMain.handle('stockCounts:getAll', async (_event, { storeId, status }) => {
+    try {
+      const query: any = { store: storeId }
+      if (status && status !== 'all') query.status = status
+      const counts = await models.StockCount.find(query)
+        .sort({ createdAt: -1 })
+        .populate('createdBy', 'fullName')
+        .populate('postedBy', 'fullName')
+        .lean()
+      return toJSON({ success: true, data: counts })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('stockCounts:getById', async (_event, id) => {
+    try {
+      const count = await models.StockCount.findById(id)
+        .populate('createdBy', 'fullName')
+        .populate('postedBy', 'fullName')
+        .lean<IStockCount>()
+      if (!count) return { success: false, error: 'Stock count not found' }
+
+      // While the count is open the till keeps selling, so each line carries the stock on hand
+      // now; that is what the count is posted against
+      if (count.status === 'IN_PROGRESS') {
+        const products = await models.Product.find({
+          _id: { $in: count.items.map((item) => item.product) }
+        })
+          .select('stockLevel')
+          .lean<Array<{ _id: mongoose.Types.ObjectId; stockLevel?: number }>>()
+        const onHand = new Map(products.map((product) => [String(product._id), product.stockLevel]))
+        count.items = count.items.map((item) => ({
+          ...item,
+          currentQuantity: onHand.get(String(item.product)) ?? 0
+        }))
+      }
+      return toJSON({ success: true, data: count })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('stockCounts:getLocations', async (_event, { storeId }) => {
+    try {
+      const locations = await models.Product.distinct('location', {
+        store: storeId,
+        location: { $nin: [null, ''] }
+      })
+      return { success: true, data: locations.sort() }
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
+
+  // Starts a session by freezing the current stock of every product in scope.
+  // Combo sets are skipped: their stock is derived from their components.
+  ipcMain.handle(
+    'stockCounts:create',
+    async (_event, { storeId, scopeType = 'ALL', scopeValue, notes, createdBy }) => {
+      try {
+        const query: any = {
+          store: storeId,
+          isActive: true,
+          productKind: { $ne: 'COMBO_SET' }
+        }
+        let scopeLabel = 'All products'
+
+        if (scopeType === 'CATEGORY') {
+          const category = await models.Category.findById(scopeValue).select('name').lean()
+          if (!category) return { success: false, error: 'Category not found' }
+          query.$or = [{ category: scopeValue }, { subcategory: scopeValue }]
+          scopeLabel = `Category: ${category.name}`
+        } else if (scopeType === 'BRAND') {
+          const brand = await models.Brand.findById(scopeValue).select('name').lean()
+          if (!brand) return { success: false, error: 'Brand not found' }
+          query.brand = scopeValue
+          scopeLabel = `Brand: ${brand.name}`
+        } else if (scopeType === 'LOCATION') {
+          if (!scopeValue) return { success: false, error: 'Select a location to count' }
+          query.location = scopeValue
+          scopeLabel = `Location: ${scopeValue}`
+        }
+
+        const products = await models.Product.find(query).sort({ name: 1 }).lean()
+        if (products.length === 0) {
+          return { success: false, error: 'No products match this count scope' }
+        }
+        const averageCosts = await getAverageCosts(products.map((product) => product._id))
+
+        return await runInTransaction(async (session) => {
+          const countNumber = await nextDocumentNumber({
+            storeId,
+            documentType: 'STOCK_COUNT',
+            session
+          })
+          const [count] = await models.StockCount.create(
+            [
+              {
+                countNumber,
+                store: storeId,
+                scopeType,
+                scopeValue: scopeType === 'ALL' ? undefined : scopeValue,
+                scopeLabel,
+                notes,
+                createdBy,
+                items: products.map((product) => ({
+                  product: product._id,
+                  productName: product.name,
+                  sku: product.sku,
+                  barcode: product.barcode,
+                  unit:
+                    product.productKind === 'RAW_MATERIAL' ? 'meter' : product.baseUnit || 'pcs',
+                  expectedQuantity: product.stockLevel || 0,
+                  countedQuantity: null,
+                  unitCost: averageCosts.get(String(product._id)) || 0
+                }))
+              }
+            ],
+            { session }
+          )
+          return toJSON({ success: true, data: count })
+        })
+      } catch (error: any) {
+        return rolledBackError('Starting the stock count', error)
+      }
+    }
+  )
+
+  // Saves counted quantities; `counts` only needs the lines that changed.
+  // A null countedQuantity clears the line back to "not counted".
+  ipcMain.handle('stockCounts:saveCounts', async (_event, { id, counts }) => {
+    try {
+      const count = await models.StockCount.findById(id)
+      if (!count) return { success: false, error: 'Stock count not found' }
+      if (count.status !== 'IN_PROGRESS') {
+        return { success: false, error: 'This count has already been closed' }
+      }
+
+      const byProduct = new Map<string, IStockCountItem>(
+        count.items.map((item: IStockCountItem) => [String(item.product), item])
+      )
+      for (const entry of counts || []) {
+        const item = byProduct.get(String(entry.product))
+        if (!item) continue
+        const counted = entry.countedQuantity
+        if (counted !== null && (Number.isNaN(Number(counted)) || Number(counted) < 0)) {
+          return { success: false, error: `Invalid count for ${item.productName}` }
+        }
+        item.countedQuantity = counted === null ? null : Number(counted)
+      }
+
+      count.markModified('items')
+      await count.save()
+      return toJSON({ success: true, data: count })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
+
+  // Posts every counted line's variance as one stock adjustment each, and the net value as a
+  // single journal, all in one transaction. The count is taken to be what is on the shelf at
+  // posting, so the variance is counted minus the stock on hand then: sales, receipts and
+  // adjustments made while the count was open are not applied a second time.
+  // Lines left uncounted are treated as "not checked", not as zero.
+  ipcMain.handle('stockCounts:post', async (_event, { id, postedBy }) => {
+    try {
+      return await runInTransaction(async (session) => {
+        const count = await models.StockCount.findById(id).session(session)
+        if (!count) return { success: false, error: 'Stock count not found' }
+        if (count.status !== 'IN_PROGRESS') {
+          return { success: false, error: 'This count has already been closed' }
+        }
+
+        const rule = ADJUSTMENT_REASONS.COUNT_CORRECTION
+        const method = await getCostingMethod(count.store, session)
+        let shortageValue = 0
+        let excessValue = 0
+        let adjustedLines = 0
+
+        for (const item of count.items) {
+          if (item.countedQuantity === null || item.countedQuantity === undefined) continue
+          const product = await models.Product.findById(item.product)
+            .select('stockLevel')
+            .session(session)
+          const onHand = product?.stockLevel || 0
+          item.postedQuantity = onHand
+          const variance = roundQuantity(item.countedQuantity - onHand)
+          if (variance === 0) continue
+
+          // Missing stock leaves by the store's costing method; surplus opens a layer at the
+          // cost frozen when the count started
+          const unitCost =
+            variance < 0
+              ? (
+                  await costOutgoingStock({
+                    productId: item.product,
+                    quantity: -variance,
+                    method,
+                    session
+                  })
+                ).unitCost
+              : item.unitCost
+          if (variance > 0) {
+            await addCostLayer({
+              storeId: count.store,
+              productId: item.product,
+              quantity: variance,
+              unitCost,
+              entryType: 'ADJUSTMENT',
+              unit: item.unit,
+              notes: `Stock count ${count.countNumber}`,
+              session
+            })
+          }
+
+          await adjustStock({
+            productId: item.product,
+            storeId: count.store,
+            transactionType: rule.transactionType,
+            referenceType: 'STOCK_COUNT',
+            referenceId: count._id,
+            quantity: variance,
+            unitCost,
+            reason: 'COUNT_CORRECTION',
+            notes: `Stock count ${count.countNumber}`,
+            createdBy: postedBy,
+            session
+          })
+
+          const value = Math.abs(variance) * unitCost
+          if (variance < 0) shortageValue += value
+          else excessValue += value
+          adjustedLines += 1
+        }
+
+        const accounts = await ensureDefaultAccounts(String(count.store), session)
+        await postJournal({
+          storeId: String(count.store),
+          createdBy: postedBy,
+          description: `Stock count ${count.countNumber} (${count.scopeLabel})`,
+          referenceType: 'STOCK_COUNT',
+          referenceId: String(count._id),
+          session,
+          lines: [
+            { account: accounts.INVENTORY_LOSS, entryType: 'DEBIT', amount: shortageValue },
+            { account: accounts.INVENTORY, entryType: 'CREDIT', amount: shortageValue },
+            { account: accounts.INVENTORY, entryType: 'DEBIT', amount: excessValue },
+            { account: accounts.INVENTORY_LOSS, entryType: 'CREDIT', amount: excessValue }
+          ]
+        })
+
+        count.status = 'POSTED'
+        count.postedBy = postedBy
+        count.postedAt = new Date()
+        count.markModified('items')
+        await count.save({ session })
+
+        return toJSON({
+          success: true,
+          data: { count, adjustedLines, shortageValue, excessValue }
+        })
+      })
+    } catch (error: any) {
+      return rolledBackError('Posting the stock count', error)
+    }
+  })
+
+  ipcMain.handle('stockCounts:cancel', async (_event, id) => {
+    try {
+      const count = await models.StockCount.findById(id)
+      if (!count) return { success: false, error: 'Stock count not found' }
+      if (count.status !== 'IN_PROGRESS') {
+        return { success: false, error: 'Only counts in progress can be cancelled' }
+      }
+      count.status = 'CANCELLED'
+      await count.save()
+      return toJSON({ success: true, data: count })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
+
   // Category Handlers
   ipcMain.handle('categories:getAll', async (_event, { storeId, includeInactive = false } = {}) => {
     try {
@@ -663,6 +1192,7 @@ export function registerIpcHandlers() {
         invoiceNumber,
         purchaseDate,
         notes,
+        createdBy,
         ...productData
       } = data
 
@@ -680,6 +1210,8 @@ export function registerIpcHandlers() {
         }
         productData.sku = sku
       }
+      // Blank means the product is taxed like its category
+      productData.taxClass = productData.taxClass || null
 
       // ============================================================
       // PRODUCT TYPE SPECIFIC HANDLING
@@ -724,95 +1256,196 @@ export function registerIpcHandlers() {
       // ============================================================
       // CREATE PRODUCT
       // ============================================================
-      // Removed session
-      const product = await models.Product.create(productData)
-      // product is not an array when created without array argument, but create(data) returns document
-      // Wait, create([data], {session}) returns array. create(data) returns doc.
-      // Let's safe check. If we pass object, it returns object.
-      const createdProduct = product
+      // The product, its opening stock and the journal for it are saved together
+      return await runInTransaction(async (session) => {
+        const [createdProduct] = await models.Product.create([productData], { session })
 
-      // ============================================================
-      // CREATE STOCK ENTRY & UPDATE SUPPLIER
-      // ============================================================
-      if (stockQuantity > 0) {
-        // Create stock entry record
-        await models.StockEntry.create({
-          store: productData.store,
-          product: createdProduct._id,
-          supplier: supplier || null,
-          quantity: stockQuantity, // Meters for raw material, pieces for simple
-          unit: productData.baseUnit, // Store the unit for reference
-          buyingPrice: buyingPrice,
-          totalCost: totalCost,
-          invoiceNumber: invoiceNumber || null,
-          purchaseDate: purchaseDate || new Date(),
-          entryType: 'INITIAL_STOCK',
-          notes: notes || `Initial stock - ${productData.productKind} product`
-        })
+        // ============================================================
+        // CREATE STOCK ENTRY & UPDATE SUPPLIER
+        // ============================================================
+        if (stockQuantity > 0) {
+          // Create stock entry record
+          const [stockEntry] = await models.StockEntry.create(
+            [
+              {
+                store: productData.store,
+                product: createdProduct._id,
+                supplier: supplier || null,
+                quantity: stockQuantity, // Meters for raw material, pieces for simple
+                remainingQuantity: stockQuantity, // First cost layer for this product
+                unit: productData.baseUnit, // Store the unit for reference
+                buyingPrice: buyingPrice,
+                totalCost: totalCost,
+                invoiceNumber: invoiceNumber || null,
+                purchaseDate: purchaseDate || new Date(),
+                entryType: 'INITIAL_STOCK',
+                notes: notes || `Initial stock - ${productData.productKind} product`
+              }
+            ],
+            { session }
+          )
 
-        // Update supplier balance
-        if (supplier && supplier !== null && totalCost > 0) {
-          await models.Supplier.findByIdAndUpdate(supplier, {
-            $inc: { currentBalance: totalCost },
-            $addToSet: { products: createdProduct._id }
+          await recordStockMovement({
+            productId: createdProduct._id,
+            transactionType: 'PURCHASE',
+            referenceType: 'INITIAL_STOCK',
+            referenceId: stockEntry._id,
+            quantity: stockQuantity,
+            unitCost: buyingPrice,
+            balanceAfter: createdProduct.stockLevel,
+            notes: notes || 'Initial stock',
+            createdBy,
+            session
           })
 
-          console.log(`✅ Supplier balance increased by Rs. ${totalCost}`)
+          // Update supplier balance
+          if (supplier && supplier !== null && totalCost > 0) {
+            await models.Supplier.findByIdAndUpdate(
+              supplier,
+              {
+                $inc: { currentBalance: totalCost },
+                $addToSet: { products: createdProduct._id }
+              },
+              { session }
+            )
+
+            console.log(`✅ Supplier balance increased by Rs. ${totalCost}`)
+          }
+
+          // Stock bought on credit is owed to the supplier; without one it is the owner's stake
+          const accounts = await ensureDefaultAccounts(productData.store, session)
+          await postJournal({
+            storeId: productData.store,
+            createdBy,
+            description: `Initial stock - ${productData.name}`,
+            referenceType: 'INITIAL_STOCK',
+            referenceId: String(createdProduct._id),
+            transactionDate: purchaseDate ? new Date(purchaseDate) : undefined,
+            session,
+            lines: [
+              { account: accounts.INVENTORY, entryType: 'DEBIT', amount: totalCost },
+              {
+                account: supplier ? accounts.ACCOUNTS_PAYABLE : accounts.OWNER_EQUITY,
+                entryType: 'CREDIT',
+                amount: totalCost
+              }
+            ]
+          })
         }
-      }
 
-      console.log(`✅ Product created: ${productData.name}`)
-      console.log(`   Type: ${productData.productKind}`)
-      console.log(`   Stock: ${productData.stockLevel} ${productData.baseUnit}`)
+        console.log(`✅ Product created: ${productData.name}`)
+        console.log(`   Type: ${productData.productKind}`)
+        console.log(`   Stock: ${productData.stockLevel} ${productData.baseUnit}`)
 
-      return { success: true, data: createdProduct.toObject() }
+        return { success: true, data: createdProduct.toObject() }
+      })
     } catch (error: any) {
-      console.error('❌ Product creation failed:', error)
-      return { success: false, error: error.message }
+      return rolledBackError('Creating the product', error)
     }
   })
 
   ipcMain.handle(
     'products:restock',
-    async (_event, { productId, supplierId, quantity, unitCost, sellingPrice }) => {
+    async (_event, { productId, supplierId, quantity, unitCost, sellingPrice, createdBy }) => {
       try {
-        // 1. Find product first
-        const product = await models.Product.findById(productId)
+        return await runInTransaction(async (session) => {
+          // 1. Find product first
+          const product = await models.Product.findById(productId).session(session)
 
-        if (!product) {
-          return { success: false, error: 'Product not found' }
-        }
+          if (!product) {
+            return { success: false, error: 'Product not found' }
+          }
 
-        // 2. Update fields based on product type
-        if (product.productKind === 'RAW_MATERIAL') {
-          // For Raw Material, quantity represents meters
-          product.totalMeters = (product.totalMeters || 0) + quantity
-          // stockLevel will be auto-calculated in pre-save hook
-        } else {
-          // For Simple Product, quantity represents units
-          product.stockLevel = (product.stockLevel || 0) + quantity
-        }
+          await receiveAtAverageCost({
+            productId: product._id,
+            onHand: product.stockLevel || 0,
+            quantity,
+            unitCost,
+            fallbackCost: product.buyingPrice,
+            session
+          })
 
-        // Update prices
-        product.buyingPrice = unitCost
-        product.sellingPrice = sellingPrice
+          // 2. Update fields based on product type
+          if (product.productKind === 'RAW_MATERIAL') {
+            // For Raw Material, quantity represents meters
+            product.totalMeters = (product.totalMeters || 0) + quantity
+            // stockLevel will be auto-calculated in pre-save hook
+          } else {
+            // For Simple Product, quantity represents units
+            product.stockLevel = (product.stockLevel || 0) + quantity
+          }
 
-        // 3. Save product (triggers pre-save hook for calculations)
-        await product.save()
+          // Update prices
+          product.buyingPrice = unitCost
+          product.sellingPrice = sellingPrice
+
+          // 3. Save product (triggers pre-save hook for calculations)
+          await product.save({ session })
+
+          const layer = await addCostLayer({
+            storeId: product.store,
+            productId: product._id,
+            quantity,
+            unitCost,
+            entryType: 'RESTOCK',
+            unit: product.productKind === 'RAW_MATERIAL' ? 'meter' : product.baseUnit,
+            supplierId,
+            notes: 'Quick restock',
+            session
+          })
 
-        // 4. Update supplier balance and add product to supplier's products array
-        // For Raw Material: unitCost (per meter) * quantity (meters) = Total Cost
-        // For Simple: unitCost (per unit) * quantity (units) = Total Cost
-        const totalCost = unitCost * quantity
+          await recordStockMovement({
+            productId: product._id,
+            transactionType: 'PURCHASE',
+            referenceType: 'RESTOCK',
+            referenceId: layer?._id || product._id,
+            quantity,
+            unitCost,
+            balanceAfter: product.stockLevel,
+            notes: 'Quick restock',
+            createdBy,
+            session
+          })
 
-        await models.Supplier.findByIdAndUpdate(supplierId, {
-          $inc: { currentBalance: totalCost },
-          $addToSet: { products: productId }
-        })
+          // 4. Update supplier balance and add product to supplier's products array
+          // For Raw Material: unitCost (per meter) * quantity (meters) = Total Cost
+          // For Simple: unitCost (per unit) * quantity (units) = Total Cost
+          const totalCost = unitCost * quantity
+
+          if (supplierId) {
+            await models.Supplier.findByIdAndUpdate(
+              supplierId,
+              {
+                $inc: { currentBalance: totalCost },
+                $addToSet: { products: productId }
+              },
+              { session }
+            )
+          }
+
+          // Stock bought on credit is owed to the supplier; without one it is the owner's stake
+          const accounts = await ensureDefaultAccounts(String(product.store), session)
+          await postJournal({
+            storeId: String(product.store),
+            createdBy,
+            description: `Restock - ${product.name}`,
+            referenceType: 'RESTOCK',
+            referenceId: String(product._id),
+            session,
+            lines: [
+              { account: accounts.INVENTORY, entryType: 'DEBIT', amount: totalCost },
+              {
+                account: supplierId ? accounts.ACCOUNTS_PAYABLE : accounts.OWNER_EQUITY,
+                entryType: 'CREDIT',
+                amount: totalCost
+              }
+            ]
+          })
 
-        return toJSON({ success: true, data: product.toObject() })
+          return toJSON({ success: true, data: product.toObject() })
+        })
       } catch (error: any) {
-        return { success: false, error: error.message }
+        return rolledBackError('Restock', error)
       }
     }
   )
@@ -834,6 +1467,7 @@ export function registerIpcHandlers() {
         barcode,
         category,
         subcategory,
+        taxClass,
         brand,
         description,
         specifications,
@@ -849,6 +1483,7 @@ export function registerIpcHandlers() {
         totalMeters,
         // Raw material specific
         metersPerUnit,
+        minCutLength,
         // ✅ NEW: Supplier field
         supplier,
         // Combo specific
@@ -862,240 +1497,283 @@ export function registerIpcHandlers() {
         fabricType,
         pattern,
         designNumber,
-        isActive
+        location,
+        isActive,
+        createdBy
       } = data
 
-      // Find existing product
-      const existingProduct = await models.Product.findById(id)
-      if (!existingProduct) {
-        return { success: false, error: 'Product not found' }
-      }
+      // The initial stock entry, supplier balances, journal and product change together
+      return await runInTransaction(async (session) => {
+        // Find existing product
+        const existingProduct = await models.Product.findById(id).session(session)
+        if (!existingProduct) {
+          return { success: false, error: 'Product not found' }
+        }
 
-      // ============================================================
-      // CHECK IF SALES EXIST - SINGLE SOURCE OF TRUTH
-      // ============================================================
-      const salesCount = await models.Sale.countDocuments({
-        'items.product': id
-      })
+        // ============================================================
+        // CHECK IF SALES EXIST - SINGLE SOURCE OF TRUTH
+        // ============================================================
+        const salesCount = await models.Sale.countDocuments({
+          'items.product': id
+        }).session(session)
 
-      const hasSales = salesCount > 0
-      console.log(`📊 Product has ${salesCount} sales - Locked: ${hasSales}`)
+        const hasSales = salesCount > 0
+        console.log(`📊 Product has ${salesCount} sales - Locked: ${hasSales}`)
 
-      // ============================================================
-      // VALIDATION: SKU & BARCODE
-      // ============================================================
-      if (sku !== existingProduct.sku) {
-        const skuExists = await models.Product.findOne({
-          store: storeId,
-          sku: sku,
-          _id: { $ne: id }
-        })
-        if (skuExists) {
-          return { success: false, error: 'SKU already exists for another product in this store' }
+        // ============================================================
+        // VALIDATION: SKU & BARCODE
+        // ============================================================
+        if (sku !== existingProduct.sku) {
+          const skuExists = await models.Product.findOne({
+            store: storeId,
+            sku: sku,
+            _id: { $ne: id }
+          }).session(session)
+          if (skuExists) {
+            return { success: false, error: 'SKU already exists for another product in this store' }
+          }
         }
-      }
 
-      if (barcode && barcode !== existingProduct.barcode) {
-        const barcodeExists = await models.Product.findOne({
-          store: storeId,
-          barcode: barcode,
-          _id: { $ne: id }
-        })
-        if (barcodeExists) {
-          return { success: false, error: 'Barcode already exists for another product' }
+        if (barcode && barcode !== existingProduct.barcode) {
+          const barcodeExists = await models.Product.findOne({
+            store: storeId,
+            barcode: barcode,
+            _id: { $ne: id }
+          }).session(session)
+          if (barcodeExists) {
+            return { success: false, error: 'Barcode already exists for another product' }
+          }
         }
-      }
 
-      // ============================================================
-      // DETERMINE WHAT CAN BE UPDATED
-      // ============================================================
-      let finalStockLevel = existingProduct.stockLevel
-      let finalTotalMeters = existingProduct.totalMeters || 0
-      let finalBuyingPrice = existingProduct.buyingPrice
-      let finalSellingPrice = existingProduct.sellingPrice
-      let finalSupplier: string | null = null // ✅ Track supplier
-      let stockChanged = false
-      let priceChanged = false
-      let supplierChanged = false // ✅ NEW
+        // ============================================================
+        // DETERMINE WHAT CAN BE UPDATED
+        // ============================================================
+        let finalStockLevel = existingProduct.stockLevel
+        let finalTotalMeters = existingProduct.totalMeters || 0
+        let finalBuyingPrice = existingProduct.buyingPrice
+        let finalSellingPrice = existingProduct.sellingPrice
+        let finalSupplier: string | null = null // ✅ Track supplier
+        let stockChanged = false
+        let priceChanged = false
+        let supplierChanged = false // ✅ NEW
+
+        if (hasSales) {
+          // 🔒 LOCKED MODE - Sales exist
+          console.log('🔒 Sales exist - Prices, stock, and supplier are LOCKED')
+
+          // Keep existing prices, stock, and supplier
+          finalBuyingPrice = existingProduct.buyingPrice
+          finalSellingPrice = existingProduct.sellingPrice
+          finalStockLevel = existingProduct.stockLevel
+          finalTotalMeters = existingProduct.totalMeters || 0
+          // Supplier cannot be changed - we'll just ignore it
+        } else {
+          // ✏️ FULL EDIT MODE - No sales yet
+          console.log('✏️ No sales - Full editing allowed')
+
+          // Allow price changes
+          const newBuyingPrice = Number(buyingPrice) || 0
+          const newSellingPrice = Number(sellingPrice) || 0
+
+          if (
+            newBuyingPrice !== existingProduct.buyingPrice ||
+            newSellingPrice !== existingProduct.sellingPrice
+          ) {
+            priceChanged = true
+            finalBuyingPrice = newBuyingPrice
+            finalSellingPrice = newSellingPrice
+            console.log(`💰 Prices updated: Buy ${newBuyingPrice}, Sell ${newSellingPrice}`)
+          }
 
-      if (hasSales) {
-        // 🔒 LOCKED MODE - Sales exist
-        console.log('🔒 Sales exist - Prices, stock, and supplier are LOCKED')
-
-        // Keep existing prices, stock, and supplier
-        finalBuyingPrice = existingProduct.buyingPrice
-        finalSellingPrice = existingProduct.sellingPrice
-        finalStockLevel = existingProduct.stockLevel
-        finalTotalMeters = existingProduct.totalMeters || 0
-        // Supplier cannot be changed - we'll just ignore it
-      } else {
-        // ✏️ FULL EDIT MODE - No sales yet
-        console.log('✏️ No sales - Full editing allowed')
+          // Allow stock changes based on product type
+          if (productKind === 'RAW_MATERIAL') {
+            const newTotalMeters = Number(totalMeters) || 0
+            if (newTotalMeters !== (existingProduct.totalMeters || 0)) {
+              stockChanged = true
+              finalTotalMeters = newTotalMeters
+              finalStockLevel = newTotalMeters
+              console.log(`📏 Meters updated: ${newTotalMeters}`)
+            }
+          } else {
+            const newStockLevel = Number(stockLevel) || 0
+            if (newStockLevel !== existingProduct.stockLevel) {
+              stockChanged = true
+              finalStockLevel = newStockLevel
+              console.log(`📦 Stock updated: ${newStockLevel}`)
+            }
+          }
 
-        // Allow price changes
-        const newBuyingPrice = Number(buyingPrice) || 0
-        const newSellingPrice = Number(sellingPrice) || 0
+          // ✅ NEW: Check if supplier changed
+          const newSupplier = supplier || null
 
-        if (
-          newBuyingPrice !== existingProduct.buyingPrice ||
-          newSellingPrice !== existingProduct.sellingPrice
-        ) {
-          priceChanged = true
-          finalBuyingPrice = newBuyingPrice
-          finalSellingPrice = newSellingPrice
-          console.log(`💰 Prices updated: Buy ${newBuyingPrice}, Sell ${newSellingPrice}`)
-        }
+          // Get old supplier from stock entry
+          const oldStockEntry = await models.StockEntry.findOne({
+            product: id,
+            store: storeId,
+            entryType: 'INITIAL_STOCK'
+          })
+            .sort({ createdAt: 1 })
+            .session(session)
 
-        // Allow stock changes based on product type
-        if (productKind === 'RAW_MATERIAL') {
-          const newTotalMeters = Number(totalMeters) || 0
-          if (newTotalMeters !== (existingProduct.totalMeters || 0)) {
-            stockChanged = true
-            finalTotalMeters = newTotalMeters
-            finalStockLevel = newTotalMeters
-            console.log(`📏 Meters updated: ${newTotalMeters}`)
+          const oldSupplier = oldStockEntry?.supplier?.toString() || null
+
+          if (newSupplier !== oldSupplier) {
+            supplierChanged = true
+            finalSupplier = newSupplier
+            console.log(`🏢 Supplier changed: ${oldSupplier} → ${newSupplier}`)
+          } else {
+            finalSupplier = oldSupplier
           }
-        } else {
-          const newStockLevel = Number(stockLevel) || 0
-          if (newStockLevel !== existingProduct.stockLevel) {
-            stockChanged = true
-            finalStockLevel = newStockLevel
-            console.log(`📦 Stock updated: ${newStockLevel}`)
+
+          // ============================================================
+          // UPDATE STOCK ENTRY & SUPPLIER BALANCE IF CHANGED
+          // ============================================================
+          if (stockChanged || priceChanged || supplierChanged) {
+            await updateInitialStockEntry({
+              productId: id,
+              storeId,
+              oldQuantity:
+                productKind === 'RAW_MATERIAL'
+                  ? existingProduct.totalMeters || 0
+                  : existingProduct.stockLevel,
+              newQuantity: productKind === 'RAW_MATERIAL' ? finalTotalMeters : finalStockLevel,
+              oldBuyingPrice: existingProduct.buyingPrice,
+              newBuyingPrice: finalBuyingPrice,
+              oldSupplier: oldSupplier, // ✅ NEW
+              newSupplier: finalSupplier, // ✅ NEW
+              createdBy,
+              unit:
+                productKind === 'RAW_MATERIAL'
+                  ? 'meter'
+                  : productKind === 'COMBO_SET'
+                    ? 'set'
+                    : 'pcs',
+              session
+            })
           }
         }
 
-        // ✅ NEW: Check if supplier changed
-        const newSupplier = supplier || null
-
-        // Get old supplier from stock entry
-        const oldStockEntry = await models.StockEntry.findOne({
-          product: id,
+        // ============================================================
+        // BUILD UPDATE DATA
+        // ============================================================
+        const updateData: any = {
+          name,
+          sku,
+          barcode: barcode || '',
           store: storeId,
-          entryType: 'INITIAL_STOCK'
-        }).sort({ createdAt: 1 })
-
-        const oldSupplier = oldStockEntry?.supplier?.toString() || null
+          category: category || null,
+          subcategory: subcategory || null,
+          taxClass: taxClass || null,
+          brand: brand || null,
+          description: description || '',
+          specifications: specifications || {},
+          images: images || [],
+          productKind,
+          baseUnit,
+          sellByUnit,
+          buyingPrice: finalBuyingPrice,
+          sellingPrice: finalSellingPrice,
+          stockLevel: finalStockLevel,
+          minStockLevel: Number(minStockLevel) || 5,
+          color: color || '',
+          fabricType: fabricType || '',
+          pattern: pattern || '',
+          designNumber: designNumber || '',
+          location: location || '',
+          isActive: isActive !== undefined ? isActive : true
+        }
 
-        if (newSupplier !== oldSupplier) {
-          supplierChanged = true
-          finalSupplier = newSupplier
-          console.log(`🏢 Supplier changed: ${oldSupplier} → ${newSupplier}`)
+        // Type-specific fields
+        if (productKind === 'RAW_MATERIAL') {
+          updateData.totalMeters = finalTotalMeters
+          updateData.metersPerUnit = Number(metersPerUnit) || 0
+          updateData.calculatedUnits =
+            metersPerUnit > 0 ? Math.floor(finalTotalMeters / Number(metersPerUnit)) : 0
+          updateData.minCutLength = Number(minCutLength) || 0
+          updateData.isComboSet = false
+          updateData.totalComboMeters = 0
+          updateData.canSellSeparate = false
+          updateData.canSellPartialSet = false
+          updateData.comboComponents = []
+          updateData.twoComponentPrices = []
+        } else if (productKind === 'COMBO_SET') {
+          updateData.isComboSet = true
+          updateData.totalComboMeters = Number(totalComboMeters) || 0
+          updateData.canSellSeparate = canSellSeparate || false
+          updateData.canSellPartialSet = canSellPartialSet || false
+          updateData.comboComponents = comboComponents || []
+          updateData.twoComponentPrices = twoComponentPrices || []
+          updateData.totalMeters = 0
+          updateData.metersPerUnit = 0
+          updateData.calculatedUnits = 0
         } else {
-          finalSupplier = oldSupplier
+          updateData.totalMeters = 0
+          updateData.metersPerUnit = 0
+          updateData.calculatedUnits = 0
+          updateData.isComboSet = false
+          updateData.totalComboMeters = 0
+          updateData.canSellSeparate = false
+          updateData.canSellPartialSet = false
+          updateData.comboComponents = []
+          updateData.twoComponentPrices = []
         }
 
         // ============================================================
-        // UPDATE STOCK ENTRY & SUPPLIER BALANCE IF CHANGED
+        // UPDATE THE PRODUCT
         // ============================================================
-        if (stockChanged || priceChanged || supplierChanged) {
-          await updateInitialStockEntry({
-            productId: id,
-            storeId,
-            oldQuantity:
-              productKind === 'RAW_MATERIAL'
-                ? existingProduct.totalMeters || 0
-                : existingProduct.stockLevel,
-            newQuantity: productKind === 'RAW_MATERIAL' ? finalTotalMeters : finalStockLevel,
-            oldBuyingPrice: existingProduct.buyingPrice,
-            newBuyingPrice: finalBuyingPrice,
-            oldSupplier: oldSupplier, // ✅ NEW
-            newSupplier: finalSupplier, // ✅ NEW
-            unit:
-              productKind === 'RAW_MATERIAL' ? 'meter' : productKind === 'COMBO_SET' ? 'set' : 'pcs'
+        const updatedProduct = await models.Product.findByIdAndUpdate(id, updateData, {
+          new: true,
+          runValidators: true,
+          session
+        })
+          .populate('category')
+          .populate('subcategory')
+          .populate('brand')
+
+        if (!updatedProduct) {
+          return { success: false, error: 'Failed to update product' }
+        }
+
+        if (stockChanged) {
+          await recordStockMovement({
+            productId: updatedProduct._id,
+            transactionType: 'ADJUSTMENT',
+            referenceType: 'INITIAL_STOCK',
+            referenceId: updatedProduct._id,
+            quantity: updatedProduct.stockLevel - existingProduct.stockLevel,
+            unitCost: finalBuyingPrice,
+            balanceAfter: updatedProduct.stockLevel,
+            notes: 'Initial stock corrected',
+            createdBy,
+            session
           })
         }
-      }
 
-      // ============================================================
-      // BUILD UPDATE DATA
-      // ============================================================
-      const updateData: any = {
-        name,
-        sku,
-        barcode: barcode || '',
-        store: storeId,
-        category: category || null,
-        subcategory: subcategory || null,
-        brand: brand || null,
-        description: description || '',
-        specifications: specifications || {},
-        images: images || [],
-        productKind,
-        baseUnit,
-        sellByUnit,
-        buyingPrice: finalBuyingPrice,
-        sellingPrice: finalSellingPrice,
-        stockLevel: finalStockLevel,
-        minStockLevel: Number(minStockLevel) || 5,
-        color: color || '',
-        fabricType: fabricType || '',
-        pattern: pattern || '',
-        designNumber: designNumber || '',
-        isActive: isActive !== undefined ? isActive : true
-      }
+        // Until something else is received, the corrected initial stock is all the average covers
+        if ((stockChanged || priceChanged) && !hasSales) {
+          const laterReceipt = await models.StockTransaction.exists({
+            product: id,
+            transactionType: 'PURCHASE',
+            referenceType: { $ne: 'INITIAL_STOCK' }
+          }).session(session)
+          if (!laterReceipt) {
+            await resetAverageCost({ productId: id, unitCost: finalBuyingPrice, session })
+          }
+        }
 
-      // Type-specific fields
-      if (productKind === 'RAW_MATERIAL') {
-        updateData.totalMeters = finalTotalMeters
-        updateData.metersPerUnit = Number(metersPerUnit) || 0
-        updateData.calculatedUnits =
-          metersPerUnit > 0 ? Math.floor(finalTotalMeters / Number(metersPerUnit)) : 0
-        updateData.isComboSet = false
-        updateData.totalComboMeters = 0
-        updateData.canSellSeparate = false
-        updateData.canSellPartialSet = false
-        updateData.comboComponents = []
-        updateData.twoComponentPrices = []
-      } else if (productKind === 'COMBO_SET') {
-        updateData.isComboSet = true
-        updateData.totalComboMeters = Number(totalComboMeters) || 0
-        updateData.canSellSeparate = canSellSeparate || false
-        updateData.canSellPartialSet = canSellPartialSet || false
-        updateData.comboComponents = comboComponents || []
-        updateData.twoComponentPrices = twoComponentPrices || []
-        updateData.totalMeters = 0
-        updateData.metersPerUnit = 0
-        updateData.calculatedUnits = 0
-      } else {
-        updateData.totalMeters = 0
-        updateData.metersPerUnit = 0
-        updateData.calculatedUnits = 0
-        updateData.isComboSet = false
-        updateData.totalComboMeters = 0
-        updateData.canSellSeparate = false
-        updateData.canSellPartialSet = false
-        updateData.comboComponents = []
-        updateData.twoComponentPrices = []
-      }
+        console.log(`✅ Product updated: ${updatedProduct.name} (${updatedProduct.sku})`)
+        if (hasSales) {
+          console.log(`🔒 Prices, stock & supplier preserved (sales exist)`)
+        } else {
+          if (stockChanged) console.log(`✅ Stock corrected`)
+          if (priceChanged) console.log(`✅ Prices updated`)
+          if (supplierChanged) console.log(`✅ Supplier updated`)
+        }
 
-      // ============================================================
-      // UPDATE THE PRODUCT
-      // ============================================================
-      const updatedProduct = await models.Product.findByIdAndUpdate(id, updateData, {
-        new: true,
-        runValidators: true
+        return { success: true, data: updatedProduct.toObject() }
       })
-        .populate('category')
-        .populate('subcategory')
-        .populate('brand')
-
-      if (!updatedProduct) {
-        return { success: false, error: 'Failed to update product' }
-      }
-
-      console.log(`✅ Product updated: ${updatedProduct.name} (${updatedProduct.sku})`)
-      if (hasSales) {
-        console.log(`🔒 Prices, stock & supplier preserved (sales exist)`)
-      } else {
-        if (stockChanged) console.log(`✅ Stock corrected`)
-        if (priceChanged) console.log(`✅ Prices updated`)
-        if (supplierChanged) console.log(`✅ Supplier updated`)
-      }
-
-      return { success: true, data: updatedProduct.toObject() }
     } catch (error: any) {
-      console.error('❌ Failed to update product:', error)
-      return { success: false, error: error.message }
+      return rolledBackError('Updating the product', error)
     }
   })
 
@@ -1158,7 +1836,9 @@ export function registerIpcHandlers() {
     newBuyingPrice,
     oldSupplier, // ✅ NEW
     newSupplier, // ✅ NEW
-    unit
+    createdBy,
+    unit,
+    session
   }: {
     productId: string
     storeId: string
@@ -1168,7 +1848,9 @@ export function registerIpcHandlers() {
     newBuyingPrice: number
     oldSupplier: string | null // ✅ NEW
     newSupplier: string | null // ✅ NEW
+    createdBy: string
     unit: string
+    session: mongoose.ClientSession
   }) {
     try {
       // Find the INITIAL_STOCK entry
@@ -1176,7 +1858,9 @@ export function registerIpcHandlers() {
         product: productId,
         store: storeId,
         entryType: 'INITIAL_STOCK'
-      }).sort({ createdAt: 1 })
+      })
+        .sort({ createdAt: 1 })
+        .session(session)
 
       if (!initialStockEntry) {
         console.warn('⚠️ No initial stock entry found')
@@ -1193,6 +1877,12 @@ export function registerIpcHandlers() {
       console.log(`   New: ${newQuantity} × Rs.${newBuyingPrice} = Rs.${newTotal}`)
       console.log(`   Difference: Rs.${difference}`)
 
+      // Nothing has been sold yet, so the initial layer moves by the same amount as its quantity
+      const initialLayerRemaining = Math.max(
+        0,
+        (initialStockEntry.remainingQuantity ?? oldQuantity) + newQuantity - oldQuantity
+      )
+
       // ✅ Check if supplier changed
       const supplierChanged = oldSupplier !== newSupplier
 
@@ -1203,46 +1893,85 @@ export function registerIpcHandlers() {
 
         // Remove balance from old supplier
         if (oldSupplier) {
-          await models.Supplier.findByIdAndUpdate(oldSupplier, {
-            $inc: { currentBalance: -oldTotal }, // Reverse the old amount
-            $pull: { products: productId } // Remove product from old supplier
-          })
+          await models.Supplier.findByIdAndUpdate(
+            oldSupplier,
+            {
+              $inc: { currentBalance: -oldTotal }, // Reverse the old amount
+              $pull: { products: productId } // Remove product from old supplier
+            },
+            { session }
+          )
           console.log(`✅ Removed Rs.${oldTotal} from old supplier balance`)
         }
 
         // Add balance to new supplier
         if (newSupplier) {
-          await models.Supplier.findByIdAndUpdate(newSupplier, {
-            $inc: { currentBalance: newTotal }, // Add new amount
-            $addToSet: { products: productId } // Add product to new supplier
-          })
+          await models.Supplier.findByIdAndUpdate(
+            newSupplier,
+            {
+              $inc: { currentBalance: newTotal }, // Add new amount
+              $addToSet: { products: productId } // Add product to new supplier
+            },
+            { session }
+          )
           console.log(`✅ Added Rs.${newTotal} to new supplier balance`)
         }
 
         // Update stock entry with new supplier
-        await models.StockEntry.findByIdAndUpdate(initialStockEntry._id, {
-          quantity: newQuantity,
-          buyingPrice: newBuyingPrice,
-          totalCost: newTotal,
-          supplier: newSupplier // ✅ Update supplier in stock entry
-        })
+        await models.StockEntry.findByIdAndUpdate(
+          initialStockEntry._id,
+          {
+            remainingQuantity: initialLayerRemaining,
+            quantity: newQuantity,
+            buyingPrice: newBuyingPrice,
+            totalCost: newTotal,
+            supplier: newSupplier // ✅ Update supplier in stock entry
+          },
+          { session }
+        )
       } else {
         // Supplier didn't change, just adjust the balance
         if (initialStockEntry.supplier) {
-          await models.Supplier.findByIdAndUpdate(initialStockEntry.supplier, {
-            $inc: { currentBalance: difference }
-          })
+          await models.Supplier.findByIdAndUpdate(
+            initialStockEntry.supplier,
+            { $inc: { currentBalance: difference } },
+            { session }
+          )
           console.log(`✅ Supplier balance adjusted by Rs.${difference}`)
         }
 
         // Update the stock entry
-        await models.StockEntry.findByIdAndUpdate(initialStockEntry._id, {
-          quantity: newQuantity,
-          buyingPrice: newBuyingPrice,
-          totalCost: newTotal
-        })
+        await models.StockEntry.findByIdAndUpdate(
+          initialStockEntry._id,
+          {
+            remainingQuantity: initialLayerRemaining,
+            quantity: newQuantity,
+            buyingPrice: newBuyingPrice,
+            totalCost: newTotal
+          },
+          { session }
+        )
       }
 
+      // Swap the old initial-stock posting for the new one; the journal nets the two
+      const accounts = await ensureDefaultAccounts(storeId, session)
+      const creditAccount = (supplierId: string | null): typeof accounts.INVENTORY =>
+        supplierId ? accounts.ACCOUNTS_PAYABLE : accounts.OWNER_EQUITY
+      await postJournal({
+        storeId,
+        createdBy,
+        description: 'Initial stock corrected',
+        referenceType: 'INITIAL_STOCK',
+        referenceId: productId,
+        session,
+        lines: [
+          { account: accounts.INVENTORY, entryType: 'CREDIT', amount: oldTotal },
+          { account: creditAccount(oldSupplier), entryType: 'DEBIT', amount: oldTotal },
+          { account: accounts.INVENTORY, entryType: 'DEBIT', amount: newTotal },
+          { account: creditAccount(newSupplier), entryType: 'CREDIT', amount: newTotal }
+        ]
+      })
+
       console.log(`✅ Stock entry updated: ${newQuantity} ${unit}`)
     } catch (error) {
       console.error('❌ Failed to update stock entry:', error)
@@ -1257,7 +1986,11 @@ export function registerIpcHandlers() {
         .populate('brand')
         .lean()
       if (!product) return { success: false, error: 'Product not found' }
-      return toJSON({ success: true, data: product })
+      const averageCosts = await getAverageCosts([product._id])
+      return toJSON({
+        success: true,
+        data: { ...product, avgCostPrice: averageCosts.get(String(product._id)) || 0 }
+      })
     } catch (error: any) {
       return { success: false, error: error.message }
     }
@@ -1375,7 +2108,11 @@ export function registerIpcHandlers() {
 
   ipcMain.handle('suppliers:create', async (_event, data) => {
     try {
-      const supplier = await models.Supplier.create(data)
+      // The opening balance is the first thing owed to the supplier
+      const supplier = await models.Supplier.create({
+        ...data,
+        currentBalance: Number(data.openingBalance) || 0
+      })
       return toJSON({ success: true, data: supplier })
     } catch (error: any) {
       return { success: false, error: error.message }
@@ -1384,13 +2121,38 @@ export function registerIpcHandlers() {
 
   ipcMain.handle('suppliers:update', async (_event, { id, data }) => {
     try {
-      const supplier = await models.Supplier.findByIdAndUpdate(id, data, { new: true })
+      // The running balance only moves through stock, orders, returns and payments
+      const changes = { ...data }
+      delete changes.currentBalance
+      const existing = await models.Supplier.findById(id)
+      if (!existing) return { success: false, error: 'Supplier not found' }
+
+      // Correcting the opening balance shifts the running balance by the same amount
+      const update: any = { $set: changes }
+      if (changes.openingBalance !== undefined) {
+        const difference = (Number(changes.openingBalance) || 0) - (existing.openingBalance || 0)
+        if (difference !== 0) update.$inc = { currentBalance: difference }
+      }
+      const supplier = await models.Supplier.findByIdAndUpdate(id, update, { new: true })
       return toJSON({ success: true, data: supplier })
     } catch (error: any) {
       return { success: false, error: error.message }
     }
   })
 
+  ipcMain.handle('suppliers:getStatement', async (_event, { supplierId, startDate, endDate }) => {
+    try {
+      const statement = await buildSupplierStatement({
+        supplierId,
+        startDate: startDate ? new Date(startDate) : undefined,
+        endDate: endDate ? new Date(endDate) : undefined
+      })
+      return toJSON({ success: true, data: statement })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
+
   ipcMain.handle('suppliers:delete', async (_event, id) => {
     try {
       await models.Supplier.findByIdAndDelete(id)
@@ -1418,70 +2180,115 @@ export function registerIpcHandlers() {
     }
   })
 
+  // A payment reduces the supplier balance and is allocated to their received purchase
+  // orders, oldest first unless the orders are picked by hand
   ipcMain.handle('suppliers:recordPayment', async (_event, { supplierId, paymentData }) => {
     try {
-      const { amount, accountId, notes, paymentDate, recordedBy, method } = paymentData || {}
+      const { amount, accountId, notes, paymentDate, recordedBy, method, allocations } =
+        paymentData || {}
       const paymentAmount = Number(amount || 0)
       if (!supplierId || paymentAmount <= 0) {
         return { success: false, error: 'Invalid supplier payment data' }
       }
 
-      const supplier = await models.Supplier.findById(supplierId)
-      if (!supplier) {
-        return { success: false, error: 'Supplier not found' }
-      }
+      return await runInTransaction(async (session) => {
+        const supplier = await models.Supplier.findById(supplierId).session(session)
+        if (!supplier) {
+          return { success: false, error: 'Supplier not found' }
+        }
 
-      const accounts = await ensureDefaultAccounts(String(supplier.store))
-      const resolvedAccountId = accountId
-        ? String(accountId)
-        : String(accounts.cash?._id || accounts.bank?._id)
+        const paidOn = paymentDate ? new Date(paymentDate) : new Date()
+        const allocated = await allocateSupplierPayment({
+          supplierId: supplier._id,
+          amount: paymentAmount,
+          requested: allocations,
+          session
+        })
 
-      await models.Supplier.findByIdAndUpdate(supplierId, {
-        $inc: { currentBalance: -paymentAmount }
-      })
+        const accounts = await ensureDefaultAccounts(String(supplier.store), session)
+        const resolvedAccountId = accountId
+          ? String(accountId)
+          : String(accounts[paymentAccountKey(method)]._id)
+
+        await models.Supplier.findByIdAndUpdate(
+          supplierId,
+          { $inc: { currentBalance: -paymentAmount } },
+          { session }
+        )
+
+        const descriptionParts = [`Supplier payment: ${supplier.name}`]
+        if (allocated.length) {
+          descriptionParts.push(allocated.map((entry) => entry.purchaseOrder.poNumber).join(', '))
+        }
+        if (notes) descriptionParts.push(String(notes))
 
-      if (resolvedAccountId) {
-        await models.Account.findByIdAndUpdate(resolvedAccountId, {
-          $inc: { currentBalance: -paymentAmount }
+        const expenseNumber = await nextDocumentNumber({
+          storeId: supplier.store,
+          documentType: 'EXPENSE',
+          date: paidOn,
+          session
         })
-      }
 
-      const descriptionParts = [`Supplier payment: ${supplier.name}`]
-      if (notes) descriptionParts.push(String(notes))
-
-      const expenseCount = await models.Expense.countDocuments()
-      const expenseNumber = `EXP-${Date.now()}-${expenseCount + 1}`
-
-      const expense = await models.Expense.create({
-        expenseNumber,
-        store: supplier.store,
-        description: descriptionParts.join(' - '),
-        amount: paymentAmount,
-        category: 'Supplier Payment',
-        account: resolvedAccountId,
-        transactionType: 'CREDIT',
-        expenseDate: paymentDate ? new Date(paymentDate) : new Date(),
-        createdBy: recordedBy,
-        paymentMethod: method || 'Account Transfer'
-      })
+        const [expense] = await models.Expense.create(
+          [
+            {
+              expenseNumber,
+              store: supplier.store,
+              supplier: supplier._id,
+              description: descriptionParts.join(' - '),
+              amount: paymentAmount,
+              category: 'Supplier Payment',
+              account: resolvedAccountId,
+              transactionType: 'CREDIT',
+              expenseDate: paidOn,
+              createdBy: recordedBy,
+              paymentMethod: method || 'Account Transfer'
+            }
+          ],
+          { session }
+        )
 
-      if (resolvedAccountId) {
-        await createAccountTransaction({
+        for (const { purchaseOrder: po, amount: share } of allocated) {
+          po.paidAmount = Math.round(((po.paidAmount || 0) + share) * 100) / 100
+          po.paymentStatus = purchasePaymentStatus(po.paidAmount, po.totalAmount)
+          po.paymentMethod = method || 'Account Transfer'
+          po.payments.push({
+            expense: expense._id,
+            amount: share,
+            paymentDate: paidOn,
+            method: method || 'Account Transfer',
+            recordedBy
+          })
+          await po.save({ session })
+        }
+
+        // Paying a supplier settles what we owe them; it is not a new expense
+        await postJournal({
           storeId: String(supplier.store),
           createdBy: recordedBy ? String(recordedBy) : String(supplier._id),
           description: `Supplier payment ${supplier.name}`,
           referenceType: 'SUPPLIER_PAYMENT',
           referenceId: String(expense._id),
-          accountId: resolvedAccountId,
-          entryType: 'CREDIT',
-          amount: paymentAmount,
-          transactionDate: paymentDate ? new Date(paymentDate) : new Date()
+          transactionDate: paidOn,
+          session,
+          lines: [
+            { account: resolvedAccountId, entryType: 'CREDIT', amount: paymentAmount },
+            { account: accounts.ACCOUNTS_PAYABLE, entryType: 'DEBIT', amount: paymentAmount }
+          ]
         })
-      }
 
-      return toJSON({ success: true, data: expense })
+        return toJSON({
+          success: true,
+          data: expense,
+          allocations: allocated.map(({ purchaseOrder: po, amount: share }) => ({
+            purchaseOrder: po._id,
+            poNumber: po.poNumber,
+            amount: share
+          }))
+        })
+      })
     } catch (error: any) {
-      return { success: false, error: error.message }
+      return rolledBackError('Recording the supplier payment', error)
     }
   })
 
@@ -1559,100 +2366,150 @@ export function registerIpcHandlers() {
     }
   })
 
-  ipcMain.handle('customers:recordPayment', async (_event, { customerId, paymentData }) => {
+  ipcMain.handle('customers:getStatement', async (_event, { customerId, startDate, endDate }) => {
     try {
-      const customer = await models.Customer.findById(customerId)
-      if (!customer) return { success: false, error: 'Customer not found' }
-
-      const outstandingSales = await models.Sale.find({
-        customer: customerId,
-        paymentStatus: { $in: ['PENDING', 'PARTIAL'] }
-      }).sort({ saleDate: 1 })
+      const statement = await buildCustomerStatement({
+        customerId,
+        startDate: startDate ? new Date(startDate) : undefined,
+        endDate: endDate ? new Date(endDate) : undefined
+      })
+      return toJSON({ success: true, data: statement })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
 
-      const totalOutstanding = outstandingSales.reduce(
-        (sum, sale) => sum + Math.max(0, sale.totalAmount - sale.paidAmount),
-        0
-      )
+  ipcMain.handle('customers:getReceivablesAging', async (_event, { storeId, asOf }) => {
+    try {
+      const report = await buildReceivablesAging({
+        storeId,
+        asOf: asOf ? new Date(asOf) : undefined
+      })
+      return toJSON({ success: true, data: report })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
 
-      if (totalOutstanding <= 0) {
-        return { success: false, error: 'Customer has no outstanding balance' }
-      }
+  // Lets the till warn before checkout; sales:create runs the same check again
+  ipcMain.handle('customers:checkCredit', async (_event, { customerId, amount }) => {
+    try {
+      const result = await checkCustomerCredit({ customerId, amount: Number(amount) || 0 })
+      return { success: true, data: result }
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
 
-      let remainingPayment = Math.min(Number(paymentData.amount) || 0, totalOutstanding)
-      if (remainingPayment <= 0) {
-        return { success: false, error: 'Payment amount must be greater than zero' }
-      }
+  ipcMain.handle('customers:recordPayment', async (_event, { customerId, paymentData }) => {
+    try {
+      return await runInTransaction(async (session) => {
+        const customer = await models.Customer.findById(customerId).session(session)
+        if (!customer) return { success: false, error: 'Customer not found' }
 
-      for (const sale of outstandingSales) {
-        if (remainingPayment <= 0) break
+        const outstandingSales = await models.Sale.find({
+          customer: customerId,
+          paymentStatus: { $in: ['PENDING', 'PARTIAL'] }
+        })
+          .sort({ saleDate: 1 })
+          .session(session)
 
-        const saleRemaining = Math.max(0, sale.totalAmount - sale.paidAmount)
-        if (saleRemaining <= 0) continue
+        const totalOutstanding = outstandingSales.reduce(
+          (sum, sale) => sum + Math.max(0, sale.totalAmount - sale.paidAmount),
+          0
+        )
 
-        const appliedAmount = Math.min(remainingPayment, saleRemaining)
-        sale.paidAmount += appliedAmount
-        sale.paymentHistory.push({
-          date: new Date(),
-          amount: appliedAmount,
-          method: paymentData.method,
-          notes: paymentData.notes || '',
-          recordedBy: paymentData.recordedBy
-        })
+        if (totalOutstanding <= 0) {
+          return { success: false, error: 'Customer has no outstanding balance' }
+        }
 
-        if (sale.paidAmount >= sale.totalAmount) {
-          sale.paymentStatus = 'PAID'
-        } else {
-          sale.paymentStatus = 'PARTIAL'
+        let remainingPayment = Math.min(Number(paymentData.amount) || 0, totalOutstanding)
+        if (remainingPayment <= 0) {
+          return { success: false, error: 'Payment amount must be greater than zero' }
         }
 
-        await sale.save()
-        remainingPayment -= appliedAmount
-      }
+        // Taken through the drawer of the shift the cashier has open, if any
+        const shift = paymentData.recordedBy
+          ? await findOpenShift({
+              storeId: customer.store,
+              userId: paymentData.recordedBy,
+              session
+            })
+          : null
 
-      const appliedTotal = Math.min(Number(paymentData.amount) || 0, totalOutstanding)
-      customer.balance = Math.max(0, customer.balance - appliedTotal)
-      await customer.save()
-
-      if (appliedTotal > 0) {
-        const storeId = String((customer as any).store?._id || customer.store)
-        const accounts = await ensureDefaultAccounts(storeId)
-        const method = String(paymentData?.method || 'Cash')
-        const useBank = method === 'Bank Transfer' || method === 'Card'
-        const resolvedAccountId = paymentData?.accountId
-          ? String(paymentData.accountId)
-          : useBank
-            ? String(accounts.bank._id)
-            : String(accounts.cash._id)
-        const transactionDate = paymentData?.paymentDate
-          ? new Date(paymentData.paymentDate)
-          : new Date()
-
-        if (resolvedAccountId) {
-          await models.Account.findByIdAndUpdate(resolvedAccountId, {
-            $inc: { currentBalance: appliedTotal }
-          })
+        const allocations: Array<{ sale: (typeof outstandingSales)[number]; amount: number }> = []
+        for (const sale of outstandingSales) {
+          if (remainingPayment <= 0) break
 
-          await createAccountTransaction({
-            storeId,
-            createdBy: String(paymentData?.recordedBy || customer._id),
-            description: `Customer payment ${customer.name}`,
-            referenceType: 'PAYMENT',
-            referenceId: String(customer._id),
-            accountId: resolvedAccountId,
-            entryType: 'DEBIT',
-            amount: appliedTotal,
-            transactionDate
+          const saleRemaining = Math.max(0, sale.totalAmount - sale.paidAmount)
+          if (saleRemaining <= 0) continue
+
+          const appliedAmount = Math.min(remainingPayment, saleRemaining)
+          sale.paidAmount += appliedAmount
+          if (sale.installmentPlan) {
+            applyInstallmentPayment(sale.installmentPlan.installments, appliedAmount)
+          }
+          sale.paymentHistory.push({
+            date: new Date(),
+            amount: appliedAmount,
+            method: paymentData.method,
+            notes: paymentData.notes || '',
+            recordedBy: paymentData.recordedBy,
+            shift: shift?._id
           })
+
+          if (sale.paidAmount >= sale.totalAmount) {
+            sale.paymentStatus = 'PAID'
+          } else {
+            sale.paymentStatus = 'PARTIAL'
+          }
+
+          await sale.save({ session })
+          allocations.push({ sale, amount: appliedAmount })
+          remainingPayment -= appliedAmount
         }
-      }
 
-      return toJSON({
-        success: true,
-        data: customer.toObject(),
-        appliedAmount: appliedTotal
+        const appliedTotal = Math.min(Number(paymentData.amount) || 0, totalOutstanding)
+        customer.balance = Math.max(0, customer.balance - appliedTotal)
+        await customer.save({ session })
+
+        if (appliedTotal > 0) {
+          const storeId = String((customer as any).store?._id || customer.store)
+          const accounts = await ensureDefaultAccounts(storeId, session)
+          const resolvedAccountId = paymentData?.accountId
+            ? String(paymentData.accountId)
+            : String(accounts[paymentAccountKey(paymentData?.method)]._id)
+          const transactionDate = paymentData?.paymentDate
+            ? new Date(paymentData.paymentDate)
+            : new Date()
+
+          // One journal per sale paid, referenced like sales:recordPayment's, so deleting or
+          // refunding a sale reverses its share of the payment
+          for (const { sale, amount } of allocations) {
+            await postJournal({
+              storeId,
+              createdBy: String(paymentData?.recordedBy || customer._id),
+              description: `Customer payment ${customer.name} for ${sale.invoiceNumber || sale._id}`,
+              referenceType: 'PAYMENT',
+              referenceId: String(sale._id),
+              transactionDate,
+              session,
+              lines: [
+                { account: resolvedAccountId, entryType: 'DEBIT', amount },
+                { account: accounts.ACCOUNTS_RECEIVABLE, entryType: 'CREDIT', amount }
+              ]
+            })
+          }
+        }
+
+        return toJSON({
+          success: true,
+          data: customer.toObject(),
+          appliedAmount: appliedTotal
+        })
       })
     } catch (error: any) {
-      return { success: false, error: error.message }
+      return rolledBackError('Payment', error)
     }
   })
 
@@ -1687,6 +2544,9 @@ export function registerIpcHandlers() {
       const po = await models.PurchaseOrder.findById(id)
         .populate('supplier')
         .populate('items.product')
+        .populate('receipts.receivedBy', 'fullName')
+        .populate('payments.recordedBy', 'fullName')
+        .populate('payments.expense', 'expenseNumber')
         .lean()
       return toJSON({ success: true, data: po })
     } catch (error: any) {
@@ -1720,35 +2580,63 @@ export function registerIpcHandlers() {
     }
   })
 
-  ipcMain.handle('purchaseOrders:create', async (_event, data) => {
+  // Received orders for a supplier that still have something to pay, oldest first
+  ipcMain.handle('purchaseOrders:getOutstanding', async (_event, { supplierId }) => {
     try {
-      if (!data.poNumber) {
-        data.poNumber = `PO-${Date.now()}`
-      }
-
-      const po = await models.PurchaseOrder.create(data)
-
-      // Update product stock and prices
-      if (po.items && po.items.length > 0) {
-        for (const item of po.items) {
-          const product = await models.Product.findById(item.product).select('productKind')
-          const stockInc: any = { stockLevel: item.quantity }
-          if (product?.productKind === 'RAW_MATERIAL') {
-            stockInc.totalMeters = item.quantity
-          }
+      const orders = await getOutstandingPurchaseOrders(supplierId)
+      return toJSON({
+        success: true,
+        data: orders.map((po) => ({
+          _id: po._id,
+          poNumber: po.poNumber,
+          purchaseDate: po.purchaseDate,
+          status: po.status,
+          totalAmount: po.totalAmount,
+          paidAmount: po.paidAmount,
+          payableAmount: purchaseOrderPayable(po),
+          dueAmount: purchaseOrderDue(po)
+        }))
+      })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
 
-          const updateData: any = {
-            $inc: stockInc,
-            $set: { buyingPrice: item.unitCost }
-          }
+  // Receiving a line updates the product's buying price, and its selling price when given
+  const purchasePriceUpdate = (item: {
+    unitCost: number
+    sellingPrice?: number
+  }): Record<string, number> => ({
+    buyingPrice: item.unitCost,
+    ...(item.sellingPrice && item.sellingPrice > 0 ? { sellingPrice: item.sellingPrice } : {})
+  })
 
-          if (item.sellingPrice && item.sellingPrice > 0) {
-            updateData.$set.sellingPrice = item.sellingPrice
-          }
+  // Orders start as drafts, or confirmed straight away. Nothing touches stock or the
+  // ledger until goods are received against the order.
+  ipcMain.handle('purchaseOrders:create', async (_event, data) => {
+    try {
+      data.poNumber = await nextDocumentNumber({
+        storeId: data.store,
+        documentType: 'PURCHASE_ORDER',
+        date: data.purchaseDate ? new Date(data.purchaseDate) : new Date()
+      })
 
-          await models.Product.findByIdAndUpdate(item.product, updateData)
-        }
-      }
+      const status = data.status === 'CONFIRMED' ? 'CONFIRMED' : 'DRAFT'
+      const po = await models.PurchaseOrder.create({
+        ...data,
+        status,
+        confirmedAt: status === 'CONFIRMED' ? new Date() : undefined,
+        receipts: [],
+        payments: [],
+        paidAmount: 0,
+        returnedAmount: 0,
+        paymentStatus: 'UNPAID',
+        items: (data.items || []).map((item: any) => ({
+          ...item,
+          receivedQuantity: 0,
+          returnedQuantity: 0
+        }))
+      })
 
       return toJSON({ success: true, data: po })
     } catch (error: any) {
@@ -1756,337 +2644,1251 @@ export function registerIpcHandlers() {
     }
   })
 
+  // Only orders with nothing received yet can be edited
   ipcMain.handle('purchaseOrders:update', async (_event, { id, data }) => {
     try {
-      // 1. Get the existing PO to revert stock changes
-      const oldPO = await models.PurchaseOrder.findById(id)
-
-      if (oldPO && oldPO.items && oldPO.items.length > 0) {
-        // Revert stock from old items
-        for (const item of oldPO.items) {
-          const product = await models.Product.findById(item.product).select('productKind')
-          const stockInc: any = { stockLevel: -item.quantity }
-          if (product?.productKind === 'RAW_MATERIAL') {
-            stockInc.totalMeters = -item.quantity
-          }
-          await models.Product.findByIdAndUpdate(item.product, {
-            $inc: stockInc
-          })
+      const existing = await models.PurchaseOrder.findById(id)
+      if (!existing) return { success: false, error: 'Purchase order not found' }
+      if (existing.status !== 'DRAFT' && existing.status !== 'CONFIRMED') {
+        return {
+          success: false,
+          error: `A ${existing.status.toLowerCase()} purchase order can no longer be edited`
         }
       }
 
-      // 2. Update the PO
-      const po = await models.PurchaseOrder.findByIdAndUpdate(id, data, { new: true })
-
-      // 3. Apply new stock and price changes
-      if (po && po.items && po.items.length > 0) {
-        for (const item of po.items) {
-          const product = await models.Product.findById(item.product).select('productKind')
-          const stockInc: any = { stockLevel: item.quantity }
-          if (product?.productKind === 'RAW_MATERIAL') {
-            stockInc.totalMeters = item.quantity
-          }
-
-          const updateData: any = {
-            $inc: stockInc,
-            $set: { buyingPrice: item.unitCost }
-          }
-
-          if (item.sellingPrice && item.sellingPrice > 0) {
-            updateData.$set.sellingPrice = item.sellingPrice
-          }
-
-          await models.Product.findByIdAndUpdate(item.product, updateData)
-        }
+      // Status, receipts and payments only change through their own handlers
+      const update = { ...data }
+      delete update.status
+      delete update.receipts
+      delete update.payments
+      delete update.paidAmount
+      delete update.paymentStatus
+      delete update.returnedAmount
+      delete update.receivedBy
+      delete update.receivedAt
+      if (update.items) {
+        update.items = update.items.map((item: any) => ({
+          ...item,
+          receivedQuantity: 0,
+          returnedQuantity: 0
+        }))
       }
 
+      const po = await models.PurchaseOrder.findByIdAndUpdate(id, update, {
+        new: true,
+        runValidators: true
+      })
       return toJSON({ success: true, data: po })
     } catch (error: any) {
       return { success: false, error: error.message }
     }
   })
 
-  ipcMain.handle('purchaseOrders:delete', async (_event, id) => {
+  ipcMain.handle('purchaseOrders:confirm', async (_event, id) => {
     try {
-      await models.PurchaseOrder.findByIdAndDelete(id)
-      return { success: true }
+      const po = await models.PurchaseOrder.findById(id)
+      if (!po) return { success: false, error: 'Purchase order not found' }
+      if (po.status !== 'DRAFT') {
+        return { success: false, error: 'Only draft purchase orders can be confirmed' }
+      }
+      if (!po.items?.length) {
+        return { success: false, error: 'Add at least one item before confirming' }
+      }
+
+      po.status = 'CONFIRMED'
+      po.confirmedAt = new Date()
+      await po.save()
+      return toJSON({ success: true, data: po })
     } catch (error: any) {
       return { success: false, error: error.message }
     }
   })
 
-  // Sales Handlers
+  // Records one delivery (goods received note) against a confirmed order. Only what
+  // arrived moves stock and is owed to the supplier; the order stays PARTIAL until every
+  // line is in.
+  ipcMain.handle(
+    'purchaseOrders:receive',
+    async (_event, { id, grnNumber, receivedDate, items, notes, receivedBy }) => {
+      try {
+        return await runInTransaction(async (session) => {
+          const po = await models.PurchaseOrder.findById(id).session(session)
+          if (!po) return { success: false, error: 'Purchase order not found' }
+          if (po.status !== 'CONFIRMED' && po.status !== 'PARTIAL') {
+            return {
+              success: false,
+              error:
+                po.status === 'DRAFT'
+                  ? 'Confirm the purchase order before receiving goods'
+                  : `A ${po.status.toLowerCase()} purchase order cannot receive goods`
+            }
+          }
 
-  ipcMain.handle('sales:create', async (_event, data) => {
-    try {
-      const saleData = { ...data }
-      const totalAmount = Number(saleData.totalAmount) || 0
-      const paidAmount = Math.min(Number(saleData.paidAmount) || 0, totalAmount)
-      saleData.paidAmount = paidAmount
+          const lines: IGoodsReceiptItem[] = []
+          for (const entry of items || []) {
+            const quantity = roundQuantity(Number(entry.quantity) || 0)
+            if (quantity <= 0) continue
+            const item = po.items.find((line) => String(line.product) === String(entry.product))
+            if (!item) return { success: false, error: 'Item is not on this purchase order' }
+            const outstanding = roundQuantity(item.quantity - (item.receivedQuantity || 0))
+            if (quantity > outstanding) {
+              return {
+                success: false,
+                error: `Only ${outstanding} of ${item.productName} is still to be received`
+              }
+            }
+            lines.push({ product: item.product, quantity, unitCost: item.unitCost })
+          }
+          if (lines.length === 0) {
+            return { success: false, error: 'Enter the quantity received for at least one item' }
+          }
 
-      let customerId: mongoose.Types.ObjectId | null = null
-      if (saleData.customer) {
-        customerId = new mongoose.Types.ObjectId(String(saleData.customer))
-      }
+          const receiptDate = receivedDate ? new Date(receivedDate) : new Date()
+          const grn =
+            String(grnNumber || '').trim() ||
+            (await nextDocumentNumber({
+              storeId: po.store,
+              documentType: 'GOODS_RECEIPT',
+              date: receiptDate,
+              session
+            }))
+
+          // Tax, shipping and discount are spread over deliveries by goods value; the last
+          // delivery takes the remainder so the order posts exactly its total
+          const fullyReceived = po.items.every((item) => {
+            const line = lines.find((entry) => String(entry.product) === String(item.product))
+            return (item.receivedQuantity || 0) + (line?.quantity || 0) >= item.quantity
+          })
+          const postedSoFar = (po.receipts || []).reduce(
+            (sum, receipt) => sum + (receipt.value || 0),
+            0
+          )
+          const goodsValue = lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0)
+          const value = fullyReceived
+            ? po.totalAmount - postedSoFar
+            : Math.round(goodsValue * (po.subtotal ? po.totalAmount / po.subtotal : 1) * 100) / 100
+
+          // Stock is costed at the landed cost: the same share of the order's extras, so the
+          // cost layers and the weighted average add up to what the journal posts
+          const landedFactor = goodsValue > 0 ? value / goodsValue : 1
+          for (const line of lines) {
+            line.unitCost = Math.round(line.unitCost * landedFactor * 10000) / 10000
+          }
 
-      if (
-        saleData.paymentMethod === 'Credit' &&
-        !saleData.customer &&
-        saleData.customerName &&
-        saleData.customerPhone
-      ) {
-        const trimmedName = String(saleData.customerName).trim()
-        const trimmedPhone = String(saleData.customerPhone).trim()
-
-        const customer = await models.Customer.findOneAndUpdate(
-          { store: saleData.store, phone: trimmedPhone },
-          {
-            $set: {
-              name: trimmedName,
-              phone: trimmedPhone
-            },
-            $setOnInsert: {
-              balance: 0,
-              store: saleData.store
-            }
-          },
-          { new: true, upsert: true }
-        )
+          for (const line of lines) {
+            const item = po.items.find((entry) => String(entry.product) === String(line.product))!
+            await adjustStock({
+              productId: line.product,
+              storeId: po.store,
+              transactionType: 'PURCHASE',
+              referenceType: 'PURCHASE_ORDER',
+              referenceId: po._id,
+              quantity: line.quantity,
+              unitCost: line.unitCost,
+              notes: `${grn} - purchase order ${po.poNumber}`,
+              createdBy: receivedBy,
+              set: purchasePriceUpdate(item),
+              session
+            })
+            await addCostLayer({
+              storeId: po.store,
+              productId: line.product,
+              quantity: line.quantity,
+              unitCost: line.unitCost,
+              entryType: 'PURCHASE_ORDER',
+              supplierId: po.supplier,
+              purchaseOrderId: po._id,
+              notes: `${grn} - purchase order ${po.poNumber}`,
+              session
+            })
+            item.receivedQuantity = roundQuantity((item.receivedQuantity || 0) + line.quantity)
+          }
 
-        customerId = customer._id
-        saleData.customer = customerId
-      }
+          po.receipts.push({
+            grnNumber: grn,
+            receivedDate: receiptDate,
+            items: lines,
+            value,
+            notes,
+            receivedBy
+          } as IGoodsReceipt)
+          po.status = fullyReceived ? 'RECEIVED' : 'PARTIAL'
+          po.receivedBy = receivedBy
+          if (fullyReceived) po.receivedAt = receiptDate
+          await po.save({ session })
+
+          await models.Supplier.findByIdAndUpdate(
+            po.supplier,
+            { $inc: { currentBalance: value } },
+            { session }
+          )
 
-      delete saleData.customerName
-      delete saleData.customerPhone
-      delete saleData.customerEmail
+          // Goods received come in on credit: stock value up, owed to the supplier
+          const accounts = await ensureDefaultAccounts(String(po.store), session)
+          await postJournal({
+            storeId: String(po.store),
+            createdBy: String(receivedBy || po.createdBy),
+            description: `${grn} - purchase order ${po.poNumber}`,
+            referenceType: 'PURCHASE_ORDER',
+            referenceId: String(po._id),
+            transactionDate: receiptDate,
+            session,
+            lines: [
+              { account: accounts.INVENTORY, entryType: 'DEBIT', amount: value },
+              { account: accounts.ACCOUNTS_PAYABLE, entryType: 'CREDIT', amount: value }
+            ]
+          })
 
-      const remainingAmount = Math.max(0, totalAmount - paidAmount)
-      if (saleData.paymentMethod === 'Credit') {
-        saleData.paymentStatus =
-          remainingAmount === 0 ? 'PAID' : paidAmount > 0 ? 'PARTIAL' : 'PENDING'
+          return toJSON({ success: true, data: po })
+        })
+      } catch (error: any) {
+        return rolledBackError('Receiving goods', error)
       }
+    }
+  )
 
-      if (saleData.paymentMethod === 'Credit' && paidAmount > 0) {
-        saleData.paymentHistory = [
-          {
-            date: new Date(),
-            amount: paidAmount,
-            method: saleData.paymentMethod,
-            notes: 'Initial payment',
-            recordedBy: saleData.soldBy
+  // Cancelling before delivery just closes the order. Once goods are in they are taken
+  // back out of stock and the receipt journals reversed; that is refused when some of
+  // the stock has already been sold.
+  ipcMain.handle('purchaseOrders:cancel', async (_event, { id, reason, cancelledBy }) => {
+    try {
+      return await runInTransaction(async (session) => {
+        const po = await models.PurchaseOrder.findById(id).session(session)
+        if (!po) return { success: false, error: 'Purchase order not found' }
+        if (po.status === 'CANCELLED') {
+          return { success: false, error: 'This purchase order is already cancelled' }
+        }
+        if ((po.paidAmount || 0) > 0) {
+          return {
+            success: false,
+            error: `Rs. ${po.paidAmount.toLocaleString()} has been paid against this order, so it can no longer be cancelled`
           }
-        ]
-      }
-
-      // 1. Create Sale
-      const sale = await models.Sale.create(saleData)
+        }
+        if (po.items.some((item) => (item.returnedQuantity || 0) > 0)) {
+          return {
+            success: false,
+            error:
+              'Goods from this order have been returned to the supplier, so it can no longer be cancelled'
+          }
+        }
 
-      // 2. Update Product Stock (Decrease)
-      if (sale.items && sale.items.length > 0) {
-        for (const item of sale.items) {
-          if (item.product) {
-            const product = await models.Product.findById(item.product).select('productKind')
-            const stockInc: any = { stockLevel: -item.quantity }
-            if (product?.productKind === 'RAW_MATERIAL') {
-              stockInc.totalMeters = -item.quantity
+        const received = po.items.filter((item) => (item.receivedQuantity || 0) > 0)
+        for (const item of received) {
+          const product = await models.Product.findById(item.product)
+            .select('stockLevel')
+            .session(session)
+          if ((product?.stockLevel || 0) < item.receivedQuantity) {
+            return {
+              success: false,
+              error: `${item.productName}: ${item.receivedQuantity} were received but only ${product?.stockLevel || 0} are left in stock, so this order can no longer be cancelled`
             }
-            await models.Product.findByIdAndUpdate(item.product, {
-              $inc: stockInc
-            })
           }
         }
-      }
 
-      if (customerId && remainingAmount > 0) {
-        await models.Customer.findByIdAndUpdate(customerId, {
-          $inc: { balance: remainingAmount }
-        })
-      }
-
-      if (paidAmount > 0) {
-        const accounts = await ensureDefaultAccounts(String(saleData.store))
-        const accountId =
-          saleData.paymentMethod === 'Bank Transfer'
-            ? String(accounts.bank._id)
-            : String(accounts.cash._id)
-        if (saleData.paymentMethod === 'Bank Transfer') {
-          await models.Account.findByIdAndUpdate(accounts.bank._id, {
-            $inc: { currentBalance: paidAmount }
+        for (const item of received) {
+          // Backed out of the average at the landed cost it went in at
+          const deliveries = (po.receipts || [])
+            .flatMap((receipt) => receipt.items)
+            .filter((line) => String(line.product) === String(item.product))
+          const deliveredQuantity = deliveries.reduce((sum, line) => sum + line.quantity, 0)
+          const landedCost = deliveredQuantity
+            ? deliveries.reduce((sum, line) => sum + line.quantity * line.unitCost, 0) /
+              deliveredQuantity
+            : item.unitCost
+
+          await consumeCostLayers({
+            productId: item.product,
+            quantity: item.receivedQuantity,
+            preferred: (entry) => String(entry.purchaseOrder) === String(po._id),
+            session
           })
-        } else {
-          await models.Account.findByIdAndUpdate(accounts.cash._id, {
-            $inc: { currentBalance: paidAmount }
+          await adjustStock({
+            productId: item.product,
+            storeId: po.store,
+            transactionType: 'PURCHASE',
+            referenceType: 'PURCHASE_ORDER',
+            referenceId: po._id,
+            quantity: -item.receivedQuantity,
+            unitCost: landedCost,
+            notes: `Purchase order ${po.poNumber} cancelled`,
+            createdBy: cancelledBy,
+            session
           })
+          item.receivedQuantity = 0
         }
 
-        await createAccountTransaction({
-          storeId: String(saleData.store),
-          createdBy: String(saleData.soldBy),
-          description: `Sale ${sale.invoiceNumber || sale._id}`,
-          referenceType: 'SALE',
-          referenceId: String(sale._id),
-          accountId,
-          entryType: 'DEBIT',
-          amount: paidAmount,
-          transactionDate: sale.saleDate || new Date()
+        if (received.length > 0) {
+          await models.Supplier.findByIdAndUpdate(
+            po.supplier,
+            { $inc: { currentBalance: -purchaseOrderPayable(po) } },
+            { session }
+          )
+          await reverseJournals({
+            storeId: String(po.store),
+            referenceId: String(po._id),
+            referenceType: 'PURCHASE_ORDER_CANCELLED',
+            createdBy: String(cancelledBy || po.createdBy),
+            description: `Purchase order ${po.poNumber} cancelled`,
+            session
+          })
+        }
+
+        po.status = 'CANCELLED'
+        po.cancelledAt = new Date()
+        po.cancelReason = reason
+        await po.save({ session })
+
+        return toJSON({ success: true, data: po })
+      })
+    } catch (error: any) {
+      return rolledBackError('Cancelling the purchase order', error)
+    }
+  })
+
+  ipcMain.handle('purchaseOrders:delete', async (_event, id) => {
+    try {
+      const po = await models.PurchaseOrder.findById(id)
+      if (!po) return { success: false, error: 'Purchase order not found' }
+      if (po.items.some((item) => (item.receivedQuantity || 0) > 0)) {
+        return {
+          success: false,
+          error: 'Goods have been received against this order. Cancel it to reverse them first.'
+        }
+      }
+      await models.PurchaseOrder.findByIdAndDelete(id)
+      return { success: true }
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
+
+  // Supplier Returns Handlers
+  ipcMain.handle(
+    'supplierReturns:getAll',
+    async (_event, { storeId, supplierId, page = 1, pageSize = 20, search = '' }) => {
+      try {
+        const query: any = { store: storeId }
+        if (supplierId) query.supplier = supplierId
+        if (search) query.returnNumber = { $regex: search, $options: 'i' }
+
+        const returns = await models.SupplierReturn.find(query)
+          .populate('supplier', 'name phone')
+          .populate('purchaseOrder', 'poNumber')
+          .populate('createdBy', 'fullName')
+          .sort({ returnDate: -1, createdAt: -1 })
+          .skip((page - 1) * pageSize)
+          .limit(pageSize)
+          .lean()
+        const total = await models.SupplierReturn.countDocuments(query)
+        return toJSON({
+          success: true,
+          data: returns,
+          total,
+          totalPages: Math.ceil(total / pageSize)
         })
+      } catch (error: any) {
+        return { success: false, error: error.message }
       }
+    }
+  )
 
-      return toJSON({ success: true, data: sale })
+  // What can still be sent back to a supplier: received purchase order lines, and the
+  // restocks and opening stock bought from them outside an order
+  ipcMain.handle('supplierReturns:getSources', async (_event, { supplierId }) => {
+    try {
+      const orders = await models.PurchaseOrder.find({
+        supplier: supplierId,
+        status: { $in: ['PARTIAL', 'RECEIVED'] }
+      })
+        .populate('items.product', 'baseUnit productKind')
+        .sort({ purchaseDate: -1 })
+        .lean()
+
+      const entries = await models.StockEntry.find({
+        supplier: supplierId,
+        entryType: { $in: ['INITIAL_STOCK', 'RESTOCK'] }
+      })
+        .populate('product', 'name productKind')
+        .sort({ purchaseDate: -1 })
+        .limit(100)
+        .lean()
+      const returned = await models.SupplierReturn.aggregate([
+        { $match: { stockEntry: { $in: entries.map((entry) => entry._id) } } },
+        { $unwind: '$items' },
+        { $group: { _id: '$stockEntry', quantity: { $sum: '$items.quantity' } } }
+      ])
+      const returnedByEntry = new Map(returned.map((row) => [String(row._id), row.quantity]))
+
+      const purchaseOrders = orders
+        .map((po: any) => ({
+          _id: po._id,
+          poNumber: po.poNumber,
+          purchaseDate: po.purchaseDate,
+          items: po.items
+            .map((item: any) => ({
+              product: item.product?._id || item.product,
+              productName: item.productName,
+              unit:
+                item.product?.productKind === 'RAW_MATERIAL'
+                  ? 'meter'
+                  : item.product?.baseUnit || 'pcs',
+              unitCost: item.unitCost,
+              returnable: roundQuantity((item.receivedQuantity || 0) - (item.returnedQuantity || 0))
+            }))
+            .filter((item: any) => item.returnable > 0)
+        }))
+        .filter((po) => po.items.length > 0)
+
+      const stockEntries = entries
+        .map((entry: any) => ({
+          _id: entry._id,
+          entryType: entry.entryType,
+          invoiceNumber: entry.invoiceNumber,
+          purchaseDate: entry.purchaseDate,
+          product: entry.product?._id,
+          productName: entry.product?.name || 'Deleted product',
+          unit: entry.product?.productKind === 'RAW_MATERIAL' ? 'meter' : entry.unit || 'pcs',
+          unitCost: entry.buyingPrice,
+          returnable: entry.quantity - (returnedByEntry.get(String(entry._id)) || 0)
+        }))
+        .filter((entry) => entry.product && entry.returnable > 0)
+
+      return toJSON({ success: true, data: { purchaseOrders, stockEntries } })
     } catch (error: any) {
       return { success: false, error: error.message }
     }
   })
 
-  ipcMain.handle('sales:delete', async (_event, id) => {
+  // Sends goods back to a supplier. The stock leaves at the cost it came in at, and the
+  // return is a debit note: it comes off the supplier balance and, when tied to an order,
+  // off what that order still owes.
+  ipcMain.handle('supplierReturns:create', async (_event, data) => {
     try {
-      const sale = await models.Sale.findById(id)
-      if (!sale) return { success: false, error: 'Sale record not found' }
+      const {
+        storeId,
+        supplierId,
+        purchaseOrderId,
+        stockEntryId,
+        items,
+        reason,
+        notes,
+        returnDate,
+        createdBy
+      } = data || {}
+      if (!reason) return { success: false, error: 'Select a reason for the return' }
+      if (!purchaseOrderId && !stockEntryId) {
+        return { success: false, error: 'Choose the purchase order or restock being returned' }
+      }
 
-      // Revert stock (Increase back)
-      if (sale.items && sale.items.length > 0) {
-        for (const item of sale.items) {
-          if (item.product) {
-            const product = await models.Product.findById(item.product).select('productKind')
-            const stockInc: any = { stockLevel: item.quantity }
-            if (product?.productKind === 'RAW_MATERIAL') {
-              stockInc.totalMeters = item.quantity
+      return await runInTransaction(async (session) => {
+        const supplier = await models.Supplier.findById(supplierId).session(session)
+        if (!supplier) return { success: false, error: 'Supplier not found' }
+
+        const po = purchaseOrderId
+          ? await models.PurchaseOrder.findById(purchaseOrderId).session(session)
+          : null
+        const entry = stockEntryId
+          ? await models.StockEntry.findById(stockEntryId).session(session)
+          : null
+        if (purchaseOrderId && (!po || String(po.supplier) !== String(supplier._id))) {
+          return { success: false, error: 'Purchase order not found for this supplier' }
+        }
+        if (stockEntryId && (!entry || String(entry.supplier) !== String(supplier._id))) {
+          return { success: false, error: 'Stock entry not found for this supplier' }
+        }
+
+        const alreadyReturned = entry
+          ? (
+              await models.SupplierReturn.find({ stockEntry: entry._id })
+                .select('items.quantity')
+                .session(session)
+                .lean()
+            ).reduce(
+              (sum: number, doc: any) =>
+                sum + doc.items.reduce((total: number, line: any) => total + line.quantity, 0),
+              0
+            )
+          : 0
+
+        const lines: ISupplierReturnItem[] = []
+        for (const requested of items || []) {
+          const quantity = roundQuantity(Number(requested.quantity) || 0)
+          if (quantity <= 0) continue
+
+          const product = await models.Product.findById(requested.product)
+            .select('name productKind baseUnit stockLevel')
+            .session(session)
+          if (!product) return { success: false, error: 'Product not found' }
+
+          let unitCost = 0
+          let returnable = 0
+          if (po) {
+            const item = po.items.find((line) => String(line.product) === String(product._id))
+            if (!item) return { success: false, error: `${product.name} is not on ${po.poNumber}` }
+            unitCost = item.unitCost
+            returnable = roundQuantity((item.receivedQuantity || 0) - (item.returnedQuantity || 0))
+          } else if (entry) {
+            if (String(entry.product) !== String(product._id)) {
+              return { success: false, error: 'Product does not match the selected restock' }
+            }
+            unitCost = entry.buyingPrice
+            returnable = roundQuantity(entry.quantity - alreadyReturned)
+          }
+
+          if (quantity > returnable) {
+            return {
+              success: false,
+              error: `Only ${returnable} of ${product.name} can still be returned`
             }
-            await models.Product.findByIdAndUpdate(item.product, {
-              $inc: stockInc
-            })
           }
+          if (quantity > (product.stockLevel || 0)) {
+            return {
+              success: false,
+              error: `Only ${product.stockLevel || 0} of ${product.name} is in stock`
+            }
+          }
+
+          lines.push({
+            product: product._id,
+            productName: product.name,
+            quantity,
+            unit: product.productKind === 'RAW_MATERIAL' ? 'meter' : product.baseUnit || 'pcs',
+            unitCost,
+            totalCost: Math.round(quantity * unitCost * 100) / 100
+          })
         }
-      }
+        if (lines.length === 0) {
+          return { success: false, error: 'Enter the quantity to return for at least one item' }
+        }
+
+        const totalAmount = lines.reduce((sum, line) => sum + line.totalCost, 0)
+        const store = storeId || supplier.store
+        const date = returnDate ? new Date(returnDate) : new Date()
+        const [supplierReturn] = await models.SupplierReturn.create(
+          [
+            {
+              returnNumber: await nextDocumentNumber({
+                storeId: store,
+                documentType: 'SUPPLIER_RETURN',
+                date,
+                session
+              }),
+              store,
+              supplier: supplier._id,
+              purchaseOrder: po?._id,
+              stockEntry: entry?._id,
+              returnDate: date,
+              items: lines,
+              totalAmount,
+              reason,
+              notes,
+              createdBy
+            }
+          ],
+          { session }
+        )
 
-      const remainingAmount = Math.max(0, sale.totalAmount - sale.paidAmount)
-      if (sale.customer && remainingAmount > 0) {
-        await models.Customer.findByIdAndUpdate(sale.customer, {
-          $inc: { balance: -remainingAmount }
+        for (const line of lines) {
+          // Take the stock out of the lot it came in with, where that lot is still open
+          await consumeCostLayers({
+            productId: line.product,
+            quantity: line.quantity,
+            preferred: (layer) =>
+              po
+                ? String(layer.purchaseOrder) === String(po._id)
+                : String(layer._id) === String(entry?._id),
+            session
+          })
+          await adjustStock({
+            productId: line.product,
+            storeId: supplier.store,
+            transactionType: 'RETURN',
+            referenceType: 'SUPPLIER_RETURN',
+            referenceId: supplierReturn._id,
+            quantity: -line.quantity,
+            unitCost: line.unitCost,
+            notes: `${supplierReturn.returnNumber} - returned to ${supplier.name}`,
+            createdBy,
+            session
+          })
+        }
+
+        if (po) {
+          for (const line of lines) {
+            const item = po.items.find((entry) => String(entry.product) === String(line.product))!
+            item.returnedQuantity = roundQuantity((item.returnedQuantity || 0) + line.quantity)
+          }
+          po.returnedAmount = Math.round(((po.returnedAmount || 0) + totalAmount) * 100) / 100
+          await po.save({ session })
+        }
+
+        await models.Supplier.findByIdAndUpdate(
+          supplier._id,
+          { $inc: { currentBalance: -totalAmount } },
+          { session }
+        )
+
+        // The debit note cuts what we owe the supplier by the stock value sent back
+        const accounts = await ensureDefaultAccounts(String(supplier.store), session)
+        await postJournal({
+          storeId: String(supplier.store),
+          createdBy: String(createdBy),
+          description: `${supplierReturn.returnNumber} - return to ${supplier.name}`,
+          referenceType: 'SUPPLIER_RETURN',
+          referenceId: String(supplierReturn._id),
+          transactionDate: supplierReturn.returnDate,
+          session,
+          lines: [
+            { account: accounts.ACCOUNTS_PAYABLE, entryType: 'DEBIT', amount: totalAmount },
+            { account: accounts.INVENTORY, entryType: 'CREDIT', amount: totalAmount }
+          ]
         })
-      }
 
-      await models.Sale.findByIdAndDelete(id)
-      return { success: true }
+        return toJSON({ success: true, data: supplierReturn })
+      })
     } catch (error: any) {
-      return { success: false, error: error.message }
+      return rolledBackError('Recording the supplier return', error)
     }
   })
 
-  ipcMain.handle(
-    'sales:refund',
-    async (_event, { saleId, refundItems, method, reason, processedBy }) => {
-      try {
-        const sale = await models.Sale.findById(saleId)
-        if (!sale) return { success: false, error: 'Sale not found' }
+  // Sales Handlers
+  // Sale writes touch stock, customer balance, account balances and the ledger, so each
+  // handler below runs in one transaction and a failure part-way leaves none of them applied.
 
-        const refundedAmount = Number(sale.refundedAmount || 0)
-        const maxRefundable = Math.max(0, (sale.paidAmount || 0) - refundedAmount)
-        if (maxRefundable <= 0) {
-          return { success: false, error: 'No refundable amount available.' }
+  ipcMain.handle('sales:create', async (_event, data) => {
+    try {
+      const { maxDiscountPercent } = await getDiscountLimit({
+        userId: data.soldBy,
+        storeId: data.store
+      })
+
+      return await runInTransaction(async (session) => {
+        // Prices, totals and stock are settled here from the catalogue, in the same
+        // transaction as the writes; the till's own figures only have to agree with them.
+        const priced = await priceSale({
+          storeId: data.store,
+          items: data.items,
+          subtotal: data.subtotal,
+          discountAmount: data.discountAmount,
+          discountPercent: data.discountPercent,
+          taxAmount: data.taxAmount,
+          totalAmount: data.totalAmount,
+          maxDiscountPercent,
+          session
+        })
+
+        if (data.quotation) {
+          const quotation = await models.Quotation.findById(data.quotation)
+            .select('status validUntil quotationNumber')
+            .session(session)
+            .lean<{ status: string; validUntil: Date; quotationNumber: string }>()
+          if (!quotation) return { success: false, error: 'Quotation not found' }
+          if (quotation.status !== 'OPEN' || quotation.validUntil < new Date()) {
+            return {
+              success: false,
+              error: `Quotation ${quotation.quotationNumber} is no longer open and cannot be sold`
+            }
+          }
         }
 
-        const refundItemsNormalized = (refundItems || [])
-          .map((item: any) => ({
-            product: String(item.product),
-            quantity: Number(item.quantity || 0)
+        // An instalment sale is paid off on a schedule, so it needs a customer to collect from.
+        // The markup on what is financed is added to the sale's total.
+        let installmentPlan: ReturnType<typeof buildInstallmentPlan> | null = null
+        if (data.paymentMethod === 'Installment') {
+          if (!data.customer && !(data.customerName && data.customerPhone)) {
+            return { success: false, error: 'Select or add the customer paying in instalments' }
+          }
+          if (!data.installmentPlan) {
+            return { success: false, error: 'Set up the instalment plan for this sale' }
+          }
+          installmentPlan = buildInstallmentPlan({
+            saleAmount: priced.totalAmount,
+            downPayment: data.paidAmount,
+            numberOfInstallments: data.installmentPlan.numberOfInstallments,
+            frequency: data.installmentPlan.frequency,
+            markupPercent: data.installmentPlan.markupPercent,
+            firstDueDate: data.installmentPlan.firstDueDate
+          })
+        }
+        const markupAmount = installmentPlan?.markupAmount || 0
+        const saleTotal = roundMoney(priced.totalAmount + markupAmount)
+
+        // A sale paid in full can be split across tenders; credit and instalment sales take
+        // their part payment as a single amount
+        const settled =
+          Array.isArray(data.tenders) &&
+          data.tenders.length > 0 &&
+          !CREDIT_PAYMENT_METHODS.includes(data.paymentMethod)
+            ? settleTenders(data.tenders, saleTotal)
+            : null
+
+        // Credit rules are checked before anything is written. A blocked sale goes through
+        // only with a manager's login, and the override is logged with the sale.
+        let creditApproval: { manager: { _id: any; fullName: string }; check: any } | null = null
+        const owedOnSale = Math.max(
+          0,
+          saleTotal - Math.min(Number(data.paidAmount) || 0, priced.totalAmount)
+        )
+        if (CREDIT_PAYMENT_METHODS.includes(data.paymentMethod) && owedOnSale > 0) {
+          const existingCustomer = data.customer
+            ? { _id: data.customer }
+            : data.customerPhone
+              ? await models.Customer.findOne({
+                  store: data.store,
+                  phone: String(data.customerPhone).trim()
+                })
+                  .select('_id')
+                  .session(session)
+                  .lean()
+              : null
+          if (existingCustomer) {
+            const check = await checkCustomerCredit({
+              customerId: String((existingCustomer as any)._id),
+              amount: owedOnSale,
+              session
+            })
+            if (!check.allowed) {
+              if (!data.creditOverride) {
+                return {
+                  success: false,
+                  creditBlocked: true,
+                  rule: check.rule,
+                  error: check.message
+                }
+              }
+              try {
+                const manager = await verifyManagerApproval({
+                  credentials: data.creditOverride,
+                  storeId: data.store
+                })
+                creditApproval = { manager, check }
+              } catch (error: any) {
+                return {
+                  success: false,
+                  creditBlocked: true,
+                  rule: check.rule,
+                  error: error.message
+                }
+              }
+            }
+          }
+        }
+
+        // Every sale goes through a cashier's open shift so the drawer can be cashed up
+        const shift = await findOpenShift({ storeId: data.store, userId: data.soldBy, session })
+        if (!shift) {
+          return { success: false, error: 'Open a till shift before taking sales' }
+        }
+
+        const saleData = {
+          ...data,
+          shift: shift._id,
+          subtotal: priced.subtotal,
+          discountAmount: priced.discountAmount,
+          discountPercent: priced.discountPercent,
+          taxAmount: priced.taxAmount,
+          taxBreakdown: priced.taxBreakdown,
+          pricesIncludeTax: priced.pricesIncludeTax,
+          totalAmount: saleTotal,
+          installmentPlan: installmentPlan || undefined
+        }
+        delete saleData.creditOverride
+        delete saleData.tenders
+        const totalAmount = saleTotal
+        const paidAmount = settled
+          ? settled.paidAmount
+          : Math.min(Number(saleData.paidAmount) || 0, priced.totalAmount)
+        saleData.paidAmount = paidAmount
+
+        if (settled) {
+          const methods = [...new Set(settled.tenders.map((tender) => tender.method))]
+          saleData.paymentMethod = methods.length > 1 ? 'Split' : methods[0]
+          saleData.paymentChannel =
+            settled.tenders.length === 1 ? settled.tenders[0].channel : undefined
+          saleData.changeGiven = settled.changeGiven
+          saleData.paymentHistory = settled.tenders.map((tender) => ({
+            date: new Date(),
+            amount: tender.amount,
+            method: tender.method,
+            channel: tender.channel,
+            atSale: true,
+            notes:
+              tender.tendered > tender.amount
+                ? `Tendered Rs. ${tender.tendered.toLocaleString()}, change Rs. ${roundMoney(tender.tendered - tender.amount).toLocaleString()}`
+                : '',
+            recordedBy: saleData.soldBy
           }))
-          .filter((item: any) => item.product && item.quantity > 0)
+        }
 
-        if (refundItemsNormalized.length === 0) {
-          return { success: false, error: 'Select at least one item to refund.' }
+        let customerId: mongoose.Types.ObjectId | null = null
+        if (saleData.customer) {
+          customerId = new mongoose.Types.ObjectId(String(saleData.customer))
         }
 
-        const refundedQtyByProduct = new Map<string, number>()
-        if (sale.refundHistory?.length) {
-          sale.refundHistory.forEach((record) => {
-            record.items?.forEach((item: any) => {
-              const key = String(item.product)
-              refundedQtyByProduct.set(key, (refundedQtyByProduct.get(key) || 0) + item.quantity)
-            })
-          })
+        if (
+          CREDIT_PAYMENT_METHODS.includes(saleData.paymentMethod) &&
+          !saleData.customer &&
+          saleData.customerName &&
+          saleData.customerPhone
+        ) {
+          const trimmedName = String(saleData.customerName).trim()
+          const trimmedPhone = String(saleData.customerPhone).trim()
+
+          const customer = await models.Customer.findOneAndUpdate(
+            { store: saleData.store, phone: trimmedPhone },
+            {
+              $set: {
+                name: trimmedName,
+                phone: trimmedPhone
+              },
+              $setOnInsert: {
+                balance: 0,
+                store: saleData.store
+              }
+            },
+            { new: true, upsert: true, session }
+          )
+
+          customerId = customer._id
+          saleData.customer = customerId
         }
 
-        let totalRefund = 0
-        const refundLineItems = [] as Array<{ product: any; quantity: number; amount: number }>
+        delete saleData.customerName
+        delete saleData.customerPhone
+        delete saleData.customerEmail
+
+        const remainingAmount = roundMoney(Math.max(0, totalAmount - paidAmount))
+        saleData.paymentStatus =
+          remainingAmount === 0 ? 'PAID' : paidAmount > 0 ? 'PARTIAL' : 'PENDING'
 
-        for (const refundItem of refundItemsNormalized) {
-          const saleItem = sale.items.find(
-            (item: any) => String(item.product) === refundItem.product
+        if (CREDIT_PAYMENT_METHODS.includes(saleData.paymentMethod) && paidAmount > 0) {
+          saleData.paymentHistory = [
+            {
+              date: new Date(),
+              amount: paidAmount,
+              method: saleData.paymentMethod,
+              atSale: true,
+              notes: installmentPlan ? 'Down payment' : 'Initial payment',
+              recordedBy: saleData.soldBy
+            }
+          ]
+        }
+
+        // Cost and profit come from the store's costing method, not the price the till sent.
+        // Each line draws its stock out of the purchase layers, which refunds later restore.
+        const method = await getCostingMethod(saleData.store, session)
+        let itemsProfit = 0
+        const costedItems: any[] = []
+        for (const { componentCost, ...item } of priced.items) {
+          const { unitCost, layers } =
+            componentCost !== null
+              ? { unitCost: componentCost, layers: [] }
+              : await costOutgoingStock({
+                  productId: item.product,
+                  quantity: item.quantity,
+                  method,
+                  session
+                })
+          // Earned on what the line brought in net of tax, its share of the cart discount taken off
+          const profitAmount = roundMoney(item.taxableAmount - unitCost * item.quantity)
+          itemsProfit += profitAmount
+          costedItems.push({ ...item, costPrice: unitCost, costLayers: layers, profitAmount })
+        }
+        saleData.items = costedItems
+        // Instalment markup is earned on top of the goods' margin
+        saleData.profitAmount = roundMoney(itemsProfit + markupAmount)
+
+        // Numbered inside the transaction, so a sale that rolls back gives its number back
+        saleData.invoiceNumber = await nextDocumentNumber({
+          storeId: saleData.store,
+          documentType: 'INVOICE',
+          session
+        })
+
+        // 1. Create Sale
+        const [sale] = await models.Sale.create([saleData], { session })
+
+        // A quotation is sold once; if another till got there first the whole sale rolls back
+        if (saleData.quotation) {
+          const accepted = await models.Quotation.findOneAndUpdate(
+            { _id: saleData.quotation, status: 'OPEN', validUntil: { $gte: new Date() } },
+            { $set: { status: 'ACCEPTED', sale: sale._id, acceptedAt: new Date() } },
+            { session }
           )
-          if (!saleItem) {
-            return { success: false, error: 'Invalid refund item.' }
-          }
+          if (!accepted) throw new Error('This quotation has already been sold or has expired')
+        }
 
-          const alreadyRefunded = refundedQtyByProduct.get(refundItem.product) || 0
-          const availableQty = saleItem.quantity - alreadyRefunded
-          if (refundItem.quantity > availableQty) {
-            return { success: false, error: 'Refund quantity exceeds sold quantity.' }
+        // 2. Update Product Stock (Decrease)
+        for (const item of sale.items || []) {
+          if (item.product) {
+            await adjustStock({
+              productId: item.product,
+              transactionType: 'SALE',
+              referenceType: 'SALE',
+              referenceId: sale._id,
+              quantity: -item.quantity,
+              unitCost: item.costPrice,
+              comboPieces: item.comboSelection?.pieces,
+              notes: `Sale ${sale.invoiceNumber || sale._id}`,
+              createdBy: saleData.soldBy,
+              session
+            })
           }
+        }
 
-          const lineAmount = (saleItem.sellingPrice || 0) * refundItem.quantity
-          totalRefund += lineAmount
-          refundLineItems.push({
-            product: saleItem.product,
-            quantity: refundItem.quantity,
-            amount: lineAmount
-          })
+        if (customerId && remainingAmount > 0) {
+          await models.Customer.findByIdAndUpdate(
+            customerId,
+            {
+              $inc: { balance: remainingAmount }
+            },
+            { session }
+          )
         }
 
-        if (totalRefund <= 0) {
-          return { success: false, error: 'Refund amount must be greater than 0.' }
+        // Revenue is recognised in full now; whatever was not paid is owed by the customer.
+        // Each tender lands in the account its method settles into.
+        const accounts = await ensureDefaultAccounts(String(saleData.store), session)
+        const taxAmount = Number(sale.taxAmount) || 0
+        const receipts = settled
+          ? settled.tenders
+          : [{ method: saleData.paymentMethod, amount: paidAmount }]
+        await postJournal({
+          storeId: String(saleData.store),
+          createdBy: String(saleData.soldBy),
+          description: `Sale ${sale.invoiceNumber || sale._id}`,
+          referenceType: 'SALE',
+          referenceId: String(sale._id),
+          transactionDate: sale.saleDate || new Date(),
+          session,
+          lines: [
+            ...receipts.map((receipt) => ({
+              account: accounts[paymentAccountKey(receipt.method)],
+              entryType: 'DEBIT' as const,
+              amount: receipt.amount
+            })),
+            { account: accounts.ACCOUNTS_RECEIVABLE, entryType: 'DEBIT', amount: remainingAmount },
+            {
+              account: accounts.SALES_REVENUE,
+              entryType: 'CREDIT',
+              amount: totalAmount - markupAmount - taxAmount
+            },
+            { account: accounts.INSTALLMENT_INCOME, entryType: 'CREDIT', amount: markupAmount },
+            { account: accounts.SALES_TAX_PAYABLE, entryType: 'CREDIT', amount: taxAmount }
+          ]
+        })
+
+        const costOfSale = (sale.items || []).reduce(
+          (sum, item) => sum + (item.costPrice || 0) * item.quantity,
+          0
+        )
+        await postJournal({
+          storeId: String(saleData.store),
+          createdBy: String(saleData.soldBy),
+          description: `Cost of sale ${sale.invoiceNumber || sale._id}`,
+          referenceType: 'COST_OF_SALES',
+          referenceId: String(sale._id),
+          transactionDate: sale.saleDate || new Date(),
+          session,
+          lines: [
+            { account: accounts.COST_OF_GOODS_SOLD, entryType: 'DEBIT', amount: costOfSale },
+            { account: accounts.INVENTORY, entryType: 'CREDIT', amount: costOfSale }
+          ]
+        })
+
+        if (creditApproval) {
+          await logOverride({
+            approvedBy: creditApproval.manager._id,
+            module: 'SALES',
+            recordId: sale._id,
+            details: {
+              type: 'CREDIT_CHECK',
+              rule: creditApproval.check.rule,
+              message: creditApproval.check.message,
+              reason: data.creditOverride?.reason || '',
+              customer: customerId,
+              amountOnAccount: remainingAmount,
+              requestedBy: saleData.soldBy
+            },
+            session
+          })
         }
 
-        if (totalRefund > maxRefundable) {
-          return { success: false, error: 'Refund amount exceeds paid amount.' }
+        return toJSON({ success: true, data: sale })
+      })
+    } catch (error: any) {
+      return rolledBackError('Sale', error)
+    }
+  })
+
+  ipcMain.handle('sales:delete', async (_event, id) => {
+    try {
+      return await runInTransaction(async (session) => {
+        const sale = await models.Sale.findById(id).session(session)
+        if (!sale) return { success: false, error: 'Sale record not found' }
+
+        // Refunds have already put their units back on the shelf and into the cost layers
+        const lineKey = (product: unknown, pieces?: string[]): string =>
+          `${String(product)}|${comboPiecesKey(pieces)}`
+        const refundedByLine = new Map<string, number>()
+        for (const record of sale.refundHistory || []) {
+          for (const refunded of record.items || []) {
+            const key = lineKey(refunded.product, refunded.comboPieces)
+            refundedByLine.set(
+              key,
+              roundQuantity((refundedByLine.get(key) || 0) + refunded.quantity)
+            )
+          }
         }
 
-        for (const refundItem of refundLineItems) {
-          const product = await models.Product.findById(refundItem.product).select('productKind')
-          const stockInc: any = { stockLevel: refundItem.quantity }
-          if (product?.productKind === 'RAW_MATERIAL') {
-            stockInc.totalMeters = refundItem.quantity
+        // Revert stock (Increase back)
+        for (const item of sale.items || []) {
+          const key = lineKey(item.product, item.comboSelection?.pieces)
+          const refunded = Math.min(item.quantity, refundedByLine.get(key) || 0)
+          refundedByLine.set(key, roundQuantity((refundedByLine.get(key) || 0) - refunded))
+          const unitsSold = roundQuantity(item.quantity - refunded)
+          if (item.product && unitsSold > 0) {
+            await restoreCostLayers({
+              layers: item.costLayers || [],
+              quantity: unitsSold,
+              session
+            })
+            await adjustStock({
+              productId: item.product,
+              transactionType: 'SALE',
+              referenceType: 'SALE_REVERSAL',
+              referenceId: sale._id,
+              quantity: unitsSold,
+              unitCost: item.costPrice,
+              comboPieces: item.comboSelection?.pieces,
+              notes: `Sale ${sale.invoiceNumber || sale._id} deleted`,
+              createdBy: sale.soldBy,
+              session
+            })
           }
-          await models.Product.findByIdAndUpdate(refundItem.product, {
-            $inc: stockInc
-          })
         }
 
-        sale.refundedAmount = refundedAmount + totalRefund
-        sale.refundHistory = sale.refundHistory || []
-        sale.refundHistory.push({
-          date: new Date(),
-          amount: totalRefund,
-          method: method || 'Cash',
-          reason,
-          processedBy,
-          items: refundLineItems
-        } as any)
-
-        await sale.save()
-
-        const accounts = await ensureDefaultAccounts(String(sale.store))
-        const accountId =
-          method === 'Bank Transfer' ? String(accounts.bank._id) : String(accounts.cash._id)
-        await models.Account.findByIdAndUpdate(accountId, {
-          $inc: { currentBalance: -totalRefund }
-        })
+        const remainingAmount = Math.max(0, sale.totalAmount - sale.paidAmount)
+        if (sale.customer && remainingAmount > 0) {
+          await models.Customer.findByIdAndUpdate(
+            sale.customer,
+            {
+              $inc: { balance: -remainingAmount }
+            },
+            { session }
+          )
+        }
 
-        await createAccountTransaction({
+        await reverseJournals({
           storeId: String(sale.store),
-          createdBy: String(processedBy || sale.soldBy),
-          description: `Refund ${sale.invoiceNumber || sale._id}`,
-          referenceType: 'REFUND',
           referenceId: String(sale._id),
-          accountId,
-          entryType: 'CREDIT',
-          amount: totalRefund
+          referenceType: 'SALE_REVERSAL',
+          createdBy: String(sale.soldBy),
+          description: `Sale ${sale.invoiceNumber || sale._id} deleted`,
+          session
         })
 
-        return toJSON({ success: true, data: sale })
+        // The quotation it was sold from can be sold again; it expires as usual once past date
+        if (sale.quotation) {
+          await models.Quotation.updateOne(
+            { _id: sale.quotation, sale: sale._id },
+            { $set: { status: 'OPEN' }, $unset: { sale: 1, acceptedAt: 1 } },
+            { session }
+          )
+        }
+
+        await models.Sale.findByIdAndDelete(id, { session })
+        return { success: true }
+      })
+    } catch (error: any) {
+      return rolledBackError('Deleting the sale', error)
+    }
+  })
+
+  ipcMain.handle(
+    'sales:refund',
+    async (_event, { saleId, refundItems, method, reason, processedBy }) => {
+      try {
+        return await runInTransaction(async (session) => {
+          const sale = await models.Sale.findById(saleId).session(session)
+          if (!sale) return { success: false, error: 'Sale not found' }
+
+          const refundedAmount = Number(sale.refundedAmount || 0)
+          const maxRefundable = Math.max(0, (sale.paidAmount || 0) - refundedAmount)
+          if (maxRefundable <= 0) {
+            return { success: false, error: 'No refundable amount available.' }
+          }
+
+          const refundItemsNormalized = (refundItems || [])
+            .map((item: any) => ({
+              product: String(item.product),
+              comboPieces: Array.isArray(item.comboPieces)
+                ? item.comboPieces.map(String)
+                : undefined,
+              quantity: roundQuantity(Number(item.quantity || 0))
+            }))
+            .filter((item: any) => item.product && item.quantity > 0)
+
+          if (refundItemsNormalized.length === 0) {
+            return { success: false, error: 'Select at least one item to refund.' }
+          }
+
+          // A combo set can be on the sale more than once (full set, single pieces), so lines
+          // are matched on the product and the pieces sold
+          const lineKey = (product: unknown, pieces?: string[]): string =>
+            `${String(product)}|${comboPiecesKey(pieces)}`
+          const findSaleItem = (product: unknown, pieces?: string[]) =>
+            sale.items.find(
+              (item) =>
+                lineKey(item.product, item.comboSelection?.pieces) === lineKey(product, pieces)
+            )
+
+          const refundedQtyByLine = new Map<string, number>()
+          if (sale.refundHistory?.length) {
+            sale.refundHistory.forEach((record) => {
+              record.items?.forEach((item: any) => {
+                const key = lineKey(item.product, item.comboPieces)
+                refundedQtyByLine.set(
+                  key,
+                  roundQuantity((refundedQtyByLine.get(key) || 0) + item.quantity)
+                )
+              })
+            })
+          }
+
+          let totalRefund = 0
+          let refundedTax = 0
+          const refundLineItems = [] as Array<{
+            product: any
+            comboPieces?: string[]
+            quantity: number
+            amount: number
+          }>
+
+          for (const refundItem of refundItemsNormalized) {
+            const saleItem = findSaleItem(refundItem.product, refundItem.comboPieces)
+            if (!saleItem) {
+              return { success: false, error: 'Invalid refund item.' }
+            }
+
+            const alreadyRefunded =
+              refundedQtyByLine.get(lineKey(refundItem.product, refundItem.comboPieces)) || 0
+            const availableQty = roundQuantity(saleItem.quantity - alreadyRefunded)
+            if (refundItem.quantity > availableQty) {
+              return { success: false, error: 'Refund quantity exceeds sold quantity.' }
+            }
+
+            // Refunded at what the customer paid per unit, discounts off and tax included
+            const netUnitPrice = linePaidAmount(saleItem) / saleItem.quantity
+            const lineAmount = Math.round(netUnitPrice * refundItem.quantity * 100) / 100
+            totalRefund += lineAmount
+            refundedTax += ((saleItem.taxAmount || 0) * refundItem.quantity) / saleItem.quantity
+            refundLineItems.push({
+              product: saleItem.product,
+              comboPieces: saleItem.comboSelection?.pieces,
+              quantity: refundItem.quantity,
+              amount: lineAmount
+            })
+          }
+
+          if (totalRefund <= 0) {
+            return { success: false, error: 'Refund amount must be greater than 0.' }
+          }
+
+          if (totalRefund > maxRefundable) {
+            return { success: false, error: 'Refund amount exceeds paid amount.' }
+          }
+
+          for (const refundItem of refundLineItems) {
+            const saleItem = findSaleItem(refundItem.product, refundItem.comboPieces)
+            await restoreCostLayers({
+              layers: saleItem?.costLayers || [],
+              quantity: refundItem.quantity,
+              session
+            })
+            await adjustStock({
+              productId: refundItem.product,
+              transactionType: 'RETURN',
+              referenceType: 'REFUND',
+              referenceId: sale._id,
+              quantity: refundItem.quantity,
+              unitCost: saleItem?.costPrice,
+              comboPieces: refundItem.comboPieces,
+              notes: reason || `Refund ${sale.invoiceNumber || sale._id}`,
+              createdBy: processedBy || sale.soldBy,
+              session
+            })
+          }
+
+          // Paid out of the drawer of the shift the cashier has open, if any
+          const shift = processedBy
+            ? await findOpenShift({ storeId: sale.store, userId: processedBy, session })
+            : null
+
+          sale.refundedAmount = refundedAmount + totalRefund
+          sale.refundHistory = sale.refundHistory || []
+          sale.refundHistory.push({
+            date: new Date(),
+            amount: totalRefund,
+            method: method || 'Cash',
+            reason,
+            processedBy,
+            shift: shift?._id,
+            items: refundLineItems
+          } as any)
+
+          await sale.save({ session })
+
+          const accounts = await ensureDefaultAccounts(String(sale.store), session)
+          await postJournal({
+            storeId: String(sale.store),
+            createdBy: String(processedBy || sale.soldBy),
+            description: `Refund ${sale.invoiceNumber || sale._id}`,
+            referenceType: 'REFUND',
+            referenceId: String(sale._id),
+            session,
+            lines: [
+              {
+                account: accounts[paymentAccountKey(method)],
+                entryType: 'CREDIT',
+                amount: totalRefund
+              },
+              // The tax on returned items is no longer owed
+              {
+                account: accounts.SALES_REVENUE,
+                entryType: 'DEBIT',
+                amount: roundMoney(totalRefund - roundMoney(refundedTax))
+              },
+              {
+                account: accounts.SALES_TAX_PAYABLE,
+                entryType: 'DEBIT',
+                amount: roundMoney(refundedTax)
+              }
+            ]
+          })
+
+          // Returned goods go back on the shelf at what they cost
+          const returnedCost = refundLineItems.reduce((sum, refundItem) => {
+            const saleItem = findSaleItem(refundItem.product, refundItem.comboPieces)
+            return sum + (saleItem?.costPrice || 0) * refundItem.quantity
+          }, 0)
+          await postJournal({
+            storeId: String(sale.store),
+            createdBy: String(processedBy || sale.soldBy),
+            description: `Returned stock ${sale.invoiceNumber || sale._id}`,
+            referenceType: 'COST_OF_SALES',
+            referenceId: String(sale._id),
+            session,
+            lines: [
+              { account: accounts.INVENTORY, entryType: 'DEBIT', amount: returnedCost },
+              { account: accounts.COST_OF_GOODS_SOLD, entryType: 'CREDIT', amount: returnedCost }
+            ]
+          })
+
+          return toJSON({ success: true, data: sale })
+        })
       } catch (error: any) {
-        return { success: false, error: error.message }
+        return rolledBackError('Refund', error)
       }
     }
   )
@@ -2188,189 +3990,705 @@ export function registerIpcHandlers() {
           }
         )
 
-        summary.totalPending = Math.max(0, summary.totalSales - summary.totalPaid)
+        summary.totalPending = Math.max(0, summary.totalSales - summary.totalPaid)
+        const tenders = tenderTotals(sales)
+
+        const formatMap = {
+          day: '%Y-%m-%d',
+          week: '%G-W%V',
+          month: '%Y-%m'
+        }
+
+        const periodFormat = formatMap[groupBy] || formatMap.day
+
+        const grouped = await models.Sale.aggregate([
+          { $match: query },
+          {
+            $group: {
+              _id: {
+                $dateToString: {
+                  format: periodFormat,
+                  date: '$saleDate'
+                }
+              },
+              totalAmount: { $sum: '$totalAmount' },
+              paidAmount: { $sum: '$paidAmount' },
+              discountAmount: { $sum: '$discountAmount' },
+              taxAmount: { $sum: '$taxAmount' },
+              profitAmount: { $sum: '$profitAmount' },
+              count: { $sum: 1 }
+            }
+          },
+          { $sort: { _id: 1 } }
+        ])
+
+        return toJSON({
+          success: true,
+          data: {
+            summary,
+            tenders,
+            grouped,
+            sales
+          }
+        })
+      } catch (error: any) {
+        return { success: false, error: error.message }
+      }
+    }
+  )
+
+  ipcMain.handle('sales:getById', async (_event, id) => {
+    try {
+      const sale = await models.Sale.findById(id)
+        .populate('customer', 'name phone')
+        .populate('soldBy', 'fullName')
+        .populate('paymentHistory.recordedBy', 'fullName')
+        .lean()
+
+      if (!sale) return { success: false, error: 'Sale not found' }
+
+      // Populate product details (productKind, baseUnit) for each item
+      if (sale.items && sale.items.length > 0) {
+        for (let i = 0; i < sale.items.length; i++) {
+          const item = sale.items[i] as any
+          if (item.product) {
+            const product = await models.Product.findById(item.product)
+              .select('productKind baseUnit sellByUnit')
+              .lean()
+            if (product) {
+              item.productKind = product.productKind
+              item.baseUnit = product.baseUnit || 'pcs'
+              item.sellByUnit = product.sellByUnit || 'pcs'
+            }
+          }
+        }
+      }
+
+      return toJSON({ success: true, data: sale })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('sales:recordPayment', async (_event, { saleId, paymentData }) => {
+    try {
+      return await runInTransaction(async (session) => {
+        const sale = await models.Sale.findById(saleId).session(session)
+        if (!sale) return { success: false, error: 'Sale not found' }
+
+        const remaining = Math.max(0, sale.totalAmount - sale.paidAmount)
+        const appliedAmount = Math.min(Number(paymentData.amount) || 0, remaining)
+        if (appliedAmount <= 0) {
+          return { success: false, error: 'No outstanding balance for this sale' }
+        }
+
+        // Taken through the drawer of the shift the cashier has open, if any
+        const shift = paymentData.recordedBy
+          ? await findOpenShift({
+              storeId: sale.store,
+              userId: paymentData.recordedBy,
+              session
+            })
+          : null
+
+        // Update paid amount and add to payment history
+        sale.paidAmount += appliedAmount
+        if (sale.installmentPlan) {
+          applyInstallmentPayment(sale.installmentPlan.installments, appliedAmount)
+        }
+        sale.paymentHistory.push({
+          date: new Date(),
+          amount: appliedAmount,
+          method: paymentData.method,
+          notes: paymentData.notes || '',
+          recordedBy: paymentData.recordedBy,
+          shift: shift?._id
+        })
+
+        // Update payment status
+        if (sale.paidAmount >= sale.totalAmount) {
+          sale.paymentStatus = 'PAID'
+        } else if (sale.paidAmount > 0) {
+          sale.paymentStatus = 'PARTIAL'
+        }
+
+        await sale.save({ session })
+
+        if (sale.customer) {
+          await models.Customer.findByIdAndUpdate(
+            sale.customer,
+            {
+              $inc: { balance: -appliedAmount }
+            },
+            { session }
+          )
+        }
+
+        const accounts = await ensureDefaultAccounts(String(sale.store), session)
+        await postJournal({
+          storeId: String(sale.store),
+          createdBy: String(paymentData?.recordedBy || sale.soldBy),
+          description: `Payment for ${sale.invoiceNumber || sale._id}`,
+          referenceType: 'PAYMENT',
+          referenceId: String(sale._id),
+          session,
+          lines: [
+            {
+              account: accounts[paymentAccountKey(paymentData?.method)],
+              entryType: 'DEBIT',
+              amount: appliedAmount
+            },
+            { account: accounts.ACCOUNTS_RECEIVABLE, entryType: 'CREDIT', amount: appliedAmount }
+          ]
+        })
+
+        return toJSON({ success: true, data: sale })
+      })
+    } catch (error: any) {
+      return rolledBackError('Payment', error)
+    }
+  })
+
+  // Lets the till stop a discount before checkout; sales:create enforces the same limit
+  ipcMain.handle('sales:getDiscountLimit', async (_event, { storeId, userId }) => {
+    try {
+      const limit = await getDiscountLimit({ userId, storeId })
+      return { success: true, data: limit }
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('sales:getDiscountReport', async (_event, { storeId, startDate, endDate }) => {
+    try {
+      const end = endDate ? new Date(endDate) : new Date()
+      end.setHours(23, 59, 59, 999)
+      const report = await buildDiscountReport({
+        storeId,
+        startDate: startDate ? new Date(startDate) : new Date(0),
+        endDate: end
+      })
+      return toJSON({ success: true, data: report })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('sales:getTaxReport', async (_event, { storeId, startDate, endDate }) => {
+    try {
+      const end = endDate ? new Date(endDate) : new Date()
+      end.setHours(23, 59, 59, 999)
+      const report = await buildTaxReport({
+        storeId,
+        startDate: startDate ? new Date(startDate) : new Date(0),
+        endDate: end
+      })
+      return toJSON({ success: true, data: report })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('sales:getPendingStats', async (_event, { storeId }) => {
+    try {
+      const pendingSales = await models.Sale.find({
+        store: storeId,
+        paymentStatus: { $in: ['PENDING', 'PARTIAL'] }
+      }).lean()
+
+      const totalPending = pendingSales.reduce((sum, sale) => {
+        return sum + (sale.totalAmount - sale.paidAmount)
+      }, 0)
+
+      const totalCreditSales = pendingSales.reduce((sum, sale) => sum + sale.totalAmount, 0)
+
+      return toJSON({
+        success: true,
+        data: {
+          pendingCount: pendingSales.length,
+          totalPendingAmount: totalPending,
+          totalCreditSalesAmount: totalCreditSales,
+          recentPending: pendingSales.slice(0, 5)
+        }
+      })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('sales:getOverdueInstallments', async (_event, { storeId, customerId }) => {
+    try {
+      const report = await buildOverdueInstallments({ storeId, customerId })
+      return toJSON({ success: true, data: report })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
 
-        const formatMap = {
-          day: '%Y-%m-%d',
-          week: '%G-W%V',
-          month: '%Y-%m'
-        }
+  // Quotations Handlers
 
-        const periodFormat = formatMap[groupBy] || formatMap.day
+  // An open quotation past its validity date reads as expired. Nothing is written back on
+  // read; the sale that would accept it checks the date itself.
+  const quotationStatusFilter = (status: string): Record<string, unknown> => {
+    const now = new Date()
+    if (status === 'OPEN') return { status: 'OPEN', validUntil: { $gte: now } }
+    if (status === 'EXPIRED') {
+      return { $or: [{ status: 'EXPIRED' }, { status: 'OPEN', validUntil: { $lt: now } }] }
+    }
+    return { status }
+  }
+  const withExpiry = <T extends { status: string; validUntil: Date }>(quotation: T): T =>
+    quotation.status === 'OPEN' && new Date(quotation.validUntil) < new Date()
+      ? { ...quotation, status: 'EXPIRED' }
+      : quotation
 
-        const grouped = await models.Sale.aggregate([
-          { $match: query },
-          {
-            $group: {
-              _id: {
-                $dateToString: {
-                  format: periodFormat,
-                  date: '$saleDate'
-                }
-              },
-              totalAmount: { $sum: '$totalAmount' },
-              paidAmount: { $sum: '$paidAmount' },
-              discountAmount: { $sum: '$discountAmount' },
-              taxAmount: { $sum: '$taxAmount' },
-              profitAmount: { $sum: '$profitAmount' },
-              count: { $sum: 1 }
+  ipcMain.handle('quotations:create', async (_event, data) => {
+    try {
+      const validUntil = new Date(data.validUntil)
+      if (Number.isNaN(validUntil.getTime()))
+        throw new Error('Enter the date the quote is valid until')
+      validUntil.setHours(23, 59, 59, 999)
+      if (validUntil < new Date()) throw new Error('The validity date cannot be in the past')
+
+      // Quoted at the catalogue's prices and within the creator's discount limit, like a sale
+      const { maxDiscountPercent } = await getDiscountLimit({
+        userId: data.createdBy,
+        storeId: data.store
+      })
+      const priced = await priceSale({
+        storeId: data.store,
+        items: data.items,
+        subtotal: data.subtotal,
+        discountAmount: data.discountAmount,
+        discountPercent: data.discountPercent,
+        taxAmount: data.taxAmount,
+        totalAmount: data.totalAmount,
+        maxDiscountPercent,
+        checkStock: false
+      })
+
+      return await runInTransaction(async (session) => {
+        const quotationNumber = await nextDocumentNumber({
+          storeId: data.store,
+          documentType: 'QUOTATION',
+          session
+        })
+        const [quotation] = await models.Quotation.create(
+          [
+            {
+              quotationNumber,
+              store: data.store,
+              customer: data.customer || undefined,
+              customerName: data.customerName ? String(data.customerName).trim() : undefined,
+              items: priced.items,
+              subtotal: priced.subtotal,
+              discountAmount: priced.discountAmount,
+              discountPercent: priced.discountPercent,
+              taxAmount: priced.taxAmount,
+              taxBreakdown: priced.taxBreakdown,
+              pricesIncludeTax: priced.pricesIncludeTax,
+              totalAmount: priced.totalAmount,
+              validUntil,
+              notes: data.notes,
+              createdBy: data.createdBy
             }
-          },
-          { $sort: { _id: 1 } }
-        ])
+          ],
+          { session }
+        )
+        return toJSON({ success: true, data: quotation })
+      })
+    } catch (error: any) {
+      return rolledBackError('Saving the quotation', error)
+    }
+  })
 
-        return toJSON({
-          success: true,
-          data: {
-            summary,
-            grouped,
-            sales
-          }
+  ipcMain.handle('quotations:getAll', async (_event, { storeId, status, search }) => {
+    try {
+      const query: any = { store: storeId }
+      const conditions: Record<string, unknown>[] = []
+      if (status) conditions.push(quotationStatusFilter(status))
+      // Search by quotation number or customer
+      if (search) {
+        const searchRegex = new RegExp(search, 'i')
+        const customers = await models.Customer.find({
+          store: storeId,
+          $or: [{ name: searchRegex }, { phone: searchRegex }]
+        })
+          .select('_id')
+          .lean()
+        conditions.push({
+          $or: [
+            { quotationNumber: searchRegex },
+            { customerName: searchRegex },
+            { customer: { $in: customers.map((customer) => customer._id) } }
+          ]
         })
-      } catch (error: any) {
-        return { success: false, error: error.message }
       }
+      if (conditions.length > 0) query.$and = conditions
+      const quotations = await models.Quotation.find(query)
+        .populate('customer', 'name phone')
+        .populate('createdBy', 'fullName')
+        .populate('sale', 'invoiceNumber')
+        .sort({ createdAt: -1 })
+        .lean()
+      return toJSON({ success: true, data: quotations.map(withExpiry) })
+    } catch (error: any) {
+      return { success: false, error: error.message }
     }
-  )
+  })
 
-  ipcMain.handle('sales:getById', async (_event, id) => {
+  ipcMain.handle('quotations:getById', async (_event, id) => {
     try {
-      const sale = await models.Sale.findById(id)
+      const quotation = await models.Quotation.findById(id)
         .populate('customer', 'name phone')
-        .populate('soldBy', 'fullName')
-        .populate('paymentHistory.recordedBy', 'fullName')
+        .populate('createdBy', 'fullName')
+        .populate('sale', 'invoiceNumber')
         .lean()
+      if (!quotation) return { success: false, error: 'Quotation not found' }
+      return toJSON({ success: true, data: withExpiry(quotation) })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
 
-      if (!sale) return { success: false, error: 'Sale not found' }
+  // Held Carts Handlers
+  ipcMain.handle('heldCarts:getAll', async (_event, { storeId }) => {
+    try {
+      const carts = await models.HeldCart.find({ store: storeId, expiresAt: { $gt: new Date() } })
+        .populate('customer', 'name phone')
+        .populate('heldBy', 'fullName')
+        .sort({ createdAt: -1 })
+        .lean()
+      return toJSON({ success: true, data: carts })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
 
-      // Populate product details (productKind, baseUnit) for each item
-      if (sale.items && sale.items.length > 0) {
-        for (let i = 0; i < sale.items.length; i++) {
-          const item = sale.items[i] as any
-          if (item.product) {
-            const product = await models.Product.findById(item.product)
-              .select('productKind baseUnit sellByUnit')
-              .lean()
-            if (product) {
-              item.productKind = product.productKind
-              item.baseUnit = product.baseUnit || 'pcs'
-              item.sellByUnit = product.sellByUnit || 'pcs'
-            }
-          }
-        }
+  ipcMain.handle('heldCarts:hold', async (_event, data) => {
+    try {
+      const cart = await holdCart({
+        storeId: data.storeId,
+        label: data.label,
+        customer: data.customer,
+        items: data.items,
+        discountAmount: data.discountAmount,
+        discountPercent: data.discountPercent,
+        heldBy: data.heldBy
+      })
+      return toJSON({ success: true, data: cart })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
+
+  // Taking the cart off the shelf deletes it in the same step, so two terminals can't both
+  // resume it
+  ipcMain.handle('heldCarts:resume', async (_event, id) => {
+    try {
+      const cart = await models.HeldCart.findOneAndDelete({
+        _id: id,
+        expiresAt: { $gt: new Date() }
+      })
+        .populate('customer', 'name phone')
+        .lean()
+      if (!cart) {
+        return { success: false, error: 'This cart has already been resumed or has expired' }
       }
+      return toJSON({ success: true, data: cart })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
 
-      return toJSON({ success: true, data: sale })
+  ipcMain.handle('heldCarts:delete', async (_event, id) => {
+    try {
+      await models.HeldCart.findByIdAndDelete(id)
+      return { success: true }
     } catch (error: any) {
       return { success: false, error: error.message }
     }
   })
 
-  ipcMain.handle('sales:recordPayment', async (_event, { saleId, paymentData }) => {
+  ipcMain.handle('heldCarts:getHeldStock', async (_event, { storeId }) => {
     try {
-      const sale = await models.Sale.findById(saleId)
-      if (!sale) return { success: false, error: 'Sale not found' }
+      const held = await heldQuantities(storeId)
+      return { success: true, data: held }
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
 
-      const remaining = Math.max(0, sale.totalAmount - sale.paidAmount)
-      const appliedAmount = Math.min(Number(paymentData.amount) || 0, remaining)
-      if (appliedAmount <= 0) {
-        return { success: false, error: 'No outstanding balance for this sale' }
-      }
+  // Shifts Handlers
+  ipcMain.handle('shifts:getCurrent', async (_event, { storeId, userId }) => {
+    try {
+      const shift = await findOpenShift({ storeId, userId })
+      if (shift) await shift.populate('openedBy', 'fullName')
+      return toJSON({ success: true, data: shift ? shift.toObject() : null })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
 
-      // Update paid amount and add to payment history
-      sale.paidAmount += appliedAmount
-      sale.paymentHistory.push({
-        date: new Date(),
-        amount: appliedAmount,
-        method: paymentData.method,
-        notes: paymentData.notes || '',
-        recordedBy: paymentData.recordedBy
-      })
+  ipcMain.handle('shifts:getAll', async (_event, { storeId, status }) => {
+    try {
+      const query: Record<string, unknown> = { store: storeId }
+      if (status) query.status = status
+      const shifts = await models.Shift.find(query)
+        .populate('openedBy', 'fullName')
+        .populate('closedBy', 'fullName')
+        .sort({ openedAt: -1 })
+        .lean()
+      return toJSON({ success: true, data: shifts })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
 
-      // Update payment status
-      if (sale.paidAmount >= sale.totalAmount) {
-        sale.paymentStatus = 'PAID'
-      } else if (sale.paidAmount > 0) {
-        sale.paymentStatus = 'PARTIAL'
-      }
+  ipcMain.handle('shifts:open', async (_event, { storeId, userId, openingFloat }) => {
+    try {
+      const float = roundMoney(Number(openingFloat) || 0)
+      if (float < 0) return { success: false, error: 'Opening float cannot be negative' }
 
-      await sale.save()
+      return await runInTransaction(async (session) => {
+        const existing = await findOpenShift({ storeId, userId, session })
+        if (existing) {
+          return { success: false, error: `Shift ${existing.shiftNumber} is already open` }
+        }
 
-      if (sale.customer) {
-        await models.Customer.findByIdAndUpdate(sale.customer, {
-          $inc: { balance: -appliedAmount }
+        const shiftNumber = await nextDocumentNumber({
+          storeId,
+          documentType: 'SHIFT',
+          session
         })
-      }
+        const [shift] = await models.Shift.create(
+          [
+            {
+              shiftNumber,
+              store: storeId,
+              openedBy: userId,
+              openedAt: new Date(),
+              openingFloat: float
+            }
+          ],
+          { session }
+        )
+        return toJSON({ success: true, data: shift })
+      })
+    } catch (error: any) {
+      return rolledBackError('Opening the shift', error)
+    }
+  })
+
+  // Cash put into the drawer comes from the owner; cash taken out is a petty expense
+  ipcMain.handle(
+    'shifts:recordCashMovement',
+    async (_event, { shiftId, type, amount, reason, userId }) => {
+      try {
+        const value = roundMoney(Number(amount) || 0)
+        if (type !== 'PAY_IN' && type !== 'PAY_OUT') {
+          return { success: false, error: 'Choose pay in or pay out' }
+        }
+        if (value <= 0) return { success: false, error: 'Amount must be greater than zero' }
+        if (!reason || !String(reason).trim()) {
+          return { success: false, error: 'Enter a reason for the cash movement' }
+        }
+
+        return await runInTransaction(async (session) => {
+          const shift = await models.Shift.findById(shiftId).session(session)
+          if (!shift) return { success: false, error: 'Shift not found' }
+          if (shift.status !== 'OPEN') {
+            return { success: false, error: `Shift ${shift.shiftNumber} is already closed` }
+          }
+          if (!(await canWorkShift({ shift, userId, session }))) {
+            return {
+              success: false,
+              error: `Only the cashier who opened ${shift.shiftNumber} or a manager can pay cash in or out of it`
+            }
+          }
 
-      if (appliedAmount > 0) {
-        const accounts = await ensureDefaultAccounts(String(sale.store))
-        const method = String(paymentData?.method || '')
-        const accountId =
-          method === 'Bank Transfer' ? String(accounts.bank._id) : String(accounts.cash._id)
-        if (method === 'Bank Transfer') {
-          await models.Account.findByIdAndUpdate(accounts.bank._id, {
-            $inc: { currentBalance: appliedAmount }
+          shift.cashMovements.push({
+            type,
+            amount: value,
+            reason: String(reason).trim(),
+            date: new Date(),
+            recordedBy: userId
           })
-        } else {
-          await models.Account.findByIdAndUpdate(accounts.cash._id, {
-            $inc: { currentBalance: appliedAmount }
+          await shift.save({ session })
+
+          const accounts = await ensureDefaultAccounts(String(shift.store), session)
+          await postJournal({
+            storeId: String(shift.store),
+            createdBy: String(userId),
+            description: `${type === 'PAY_IN' ? 'Pay in' : 'Pay out'} ${shift.shiftNumber}: ${String(reason).trim()}`,
+            referenceType: 'SHIFT',
+            referenceId: String(shift._id),
+            session,
+            lines:
+              type === 'PAY_IN'
+                ? [
+                    { account: accounts.CASH, entryType: 'DEBIT', amount: value },
+                    { account: accounts.OWNER_EQUITY, entryType: 'CREDIT', amount: value }
+                  ]
+                : [
+                    { account: accounts.OPERATING_EXPENSES, entryType: 'DEBIT', amount: value },
+                    { account: accounts.CASH, entryType: 'CREDIT', amount: value }
+                  ]
           })
-        }
 
-        await createAccountTransaction({
-          storeId: String(sale.store),
-          createdBy: String(paymentData?.recordedBy || sale.soldBy),
-          description: `Payment for ${sale.invoiceNumber || sale._id}`,
-          referenceType: 'PAYMENT',
-          referenceId: String(sale._id),
-          accountId,
-          entryType: 'DEBIT',
-          amount: appliedAmount
+          return toJSON({ success: true, data: shift })
         })
+      } catch (error: any) {
+        return rolledBackError('Recording the cash movement', error)
       }
+    }
+  )
 
-      return toJSON({ success: true, data: sale })
+  // The X report while the shift is open, the Z report once it is closed
+  ipcMain.handle('shifts:getReport', async (_event, id) => {
+    try {
+      const shift = await models.Shift.findById(id)
+      if (!shift) return { success: false, error: 'Shift not found' }
+      const report = await buildShiftReport(shift)
+      await shift.populate([
+        { path: 'openedBy', select: 'fullName' },
+        { path: 'closedBy', select: 'fullName' },
+        { path: 'cashMovements.recordedBy', select: 'fullName' }
+      ])
+      return toJSON({ success: true, data: { shift: shift.toObject(), report } })
     } catch (error: any) {
       return { success: false, error: error.message }
     }
   })
 
-  ipcMain.handle('sales:getPendingStats', async (_event, { storeId }) => {
+  // Cash-up: the counted notes and coins against what the drawer should hold. Any difference
+  // is booked to Cash Over/Short so Cash in Hand matches the drawer.
+  ipcMain.handle('shifts:close', async (_event, { shiftId, denominations, notes, userId }) => {
     try {
-      const pendingSales = await models.Sale.find({
-        store: storeId,
-        paymentStatus: { $in: ['PENDING', 'PARTIAL'] }
-      }).lean()
-
-      const totalPending = pendingSales.reduce((sum, sale) => {
-        return sum + (sale.totalAmount - sale.paidAmount)
-      }, 0)
+      const lines = (Array.isArray(denominations) ? denominations : []).map((line: any) => ({
+        value: Number(line.value) || 0,
+        count: Math.floor(Number(line.count) || 0)
+      }))
+      if (lines.some((line) => line.count < 0)) {
+        return { success: false, error: 'Counts cannot be negative' }
+      }
+      const counts = lines.filter((line) => line.value > 0 && line.count > 0)
 
-      const totalCreditSales = pendingSales.reduce((sum, sale) => sum + sale.totalAmount, 0)
+      return await runInTransaction(async (session) => {
+        const shift = await models.Shift.findById(shiftId).session(session)
+        if (!shift) return { success: false, error: 'Shift not found' }
+        if (shift.status !== 'OPEN') {
+          return { success: false, error: `Shift ${shift.shiftNumber} is already closed` }
+        }
+        if (!(await canWorkShift({ shift, userId, session }))) {
+          return {
+            success: false,
+            error: `Only the cashier who opened ${shift.shiftNumber} or a manager can close it`
+          }
+        }
 
-      return toJSON({
-        success: true,
-        data: {
-          pendingCount: pendingSales.length,
-          totalPendingAmount: totalPending,
-          totalCreditSalesAmount: totalCreditSales,
-          recentPending: pendingSales.slice(0, 5)
+        shift.closedAt = new Date()
+        const report = await buildShiftReport(shift, session)
+        const countedCash = countedCashFrom(counts)
+        const overShort = roundMoney(countedCash - report.cash.expected)
+
+        shift.status = 'CLOSED'
+        shift.closedBy = userId
+        shift.denominations = counts
+        shift.countedCash = countedCash
+        shift.expectedCash = report.cash.expected
+        shift.overShort = overShort
+        shift.notes = notes || undefined
+        await shift.save({ session })
+
+        if (overShort !== 0) {
+          const accounts = await ensureDefaultAccounts(String(shift.store), session)
+          const difference = Math.abs(overShort)
+          await postJournal({
+            storeId: String(shift.store),
+            createdBy: String(userId),
+            description: `Cash ${overShort > 0 ? 'over' : 'short'} ${shift.shiftNumber}`,
+            referenceType: 'SHIFT',
+            referenceId: String(shift._id),
+            session,
+            lines:
+              overShort > 0
+                ? [
+                    { account: accounts.CASH, entryType: 'DEBIT', amount: difference },
+                    { account: accounts.CASH_OVER_SHORT, entryType: 'CREDIT', amount: difference }
+                  ]
+                : [
+                    { account: accounts.CASH_OVER_SHORT, entryType: 'DEBIT', amount: difference },
+                    { account: accounts.CASH, entryType: 'CREDIT', amount: difference }
+                  ]
+          })
         }
+
+        return toJSON({ success: true, data: { shift, report } })
       })
     } catch (error: any) {
-      return { success: false, error: error.message }
+      return rolledBackError('Closing the shift', error)
     }
   })
 
   // Accounts Handlers
+
+  // Moves `account` by `amount` in its own normal direction, with owner's equity on the
+  // other side. Used for opening balances and manual balance corrections.
+  const postOpeningBalance = async ({
+    account,
+    equity,
+    amount,
+    createdBy,
+    referenceType,
+    description,
+    session
+  }: {
+    account: IAccount
+    equity: IAccount
+    amount: number
+    createdBy: string
+    referenceType: string
+    description: string
+    session: mongoose.ClientSession
+  }): Promise<void> => {
+    if (!amount || String(account._id) === String(equity._id)) return
+    const debitNormal = account.accountType === 'ASSET' || account.accountType === 'EXPENSE'
+    const increase = amount > 0
+    const accountSide = debitNormal === increase ? 'DEBIT' : 'CREDIT'
+    await postJournal({
+      storeId: String(account.store),
+      createdBy,
+      description,
+      referenceType,
+      referenceId: String(account._id),
+      session,
+      lines: [
+        { account, entryType: accountSide, amount: Math.abs(amount) },
+        {
+          account: equity,
+          entryType: accountSide === 'DEBIT' ? 'CREDIT' : 'DEBIT',
+          amount: Math.abs(amount)
+        }
+      ]
+    })
+  }
+
   ipcMain.handle(
     'accounts:getAll',
-    async (_event, { storeId, page = 1, pageSize = 20, search = '' }) => {
+    async (_event, { storeId, page = 1, pageSize = 20, search = '', paymentAccountsOnly }) => {
       try {
+        const systemAccounts = await ensureDefaultAccounts(storeId)
+
         const query: any = { store: storeId }
         if (search) {
           query.accountName = { $regex: search, $options: 'i' }
         }
+        // Only accounts money can be paid from or into (cash, bank, other asset accounts)
+        if (paymentAccountsOnly) {
+          query.accountType = 'ASSET'
+          query._id = { $nin: NON_PAYMENT_ASSET_KEYS.map((key) => systemAccounts[key]._id) }
+        }
 
         const total = await models.Account.countDocuments(query)
         const data = await models.Account.find(query)
@@ -2408,33 +4726,93 @@ export function registerIpcHandlers() {
 
   ipcMain.handle('accounts:create', async (_event, data) => {
     try {
-      // Set opening balance as initial current balance
-      const accountData = {
-        ...data,
-        currentBalance: data.currentBalance || 0,
-        openingBalance: data.currentBalance || 0
-      }
-      const account = await models.Account.create(accountData)
-      return toJSON({ success: true, data: account })
+      const { createdBy, currentBalance, ...accountData } = data
+      const openingBalance = Number(currentBalance) || 0
+
+      return await runInTransaction(async (session) => {
+        const systemAccounts = await ensureDefaultAccounts(accountData.store, session)
+
+        // The balance comes from the opening journal below, so it is never set directly
+        const [account] = await models.Account.create(
+          [{ ...accountData, openingBalance, currentBalance: 0 }],
+          { session }
+        )
+
+        await postOpeningBalance({
+          account,
+          equity: systemAccounts.OWNER_EQUITY,
+          amount: openingBalance,
+          createdBy,
+          referenceType: 'OPENING_BALANCE',
+          description: `Opening balance ${account.accountName}`,
+          session
+        })
+
+        const created = await models.Account.findById(account._id).session(session).lean()
+        return toJSON({ success: true, data: created })
+      })
     } catch (error: any) {
-      return { success: false, error: error.message }
+      return rolledBackError('Creating the account', error)
     }
   })
 
   ipcMain.handle('accounts:update', async (_event, { id, data }) => {
     try {
-      const account = await models.Account.findByIdAndUpdate(id, data, { new: true })
-      return toJSON({ success: true, data: account })
+      const { createdBy, currentBalance, ...updateData } = data
+      delete updateData.systemKey
+      delete updateData.openingBalance
+
+      return await runInTransaction(async (session) => {
+        const existing = await models.Account.findById(id).session(session)
+        if (!existing) return { success: false, error: 'Account not found' }
+        if (
+          existing.systemKey &&
+          updateData.accountType &&
+          updateData.accountType !== existing.accountType
+        ) {
+          return { success: false, error: 'The type of a system account cannot be changed' }
+        }
+
+        const account = await models.Account.findByIdAndUpdate(id, updateData, {
+          new: true,
+          session
+        })
+
+        // A corrected balance is booked against owner's equity so the ledger stays balanced
+        if (currentBalance !== undefined && account) {
+          const systemAccounts = await ensureDefaultAccounts(String(account.store), session)
+          await postOpeningBalance({
+            account,
+            equity: systemAccounts.OWNER_EQUITY,
+            amount: (Number(currentBalance) || 0) - account.currentBalance,
+            createdBy,
+            referenceType: 'BALANCE_ADJUSTMENT',
+            description: `Balance adjustment ${account.accountName}`,
+            session
+          })
+        }
+
+        const updated = await models.Account.findById(id).session(session).lean()
+        return toJSON({ success: true, data: updated })
+      })
     } catch (error: any) {
-      return { success: false, error: error.message }
+      return rolledBackError('Updating the account', error)
     }
   })
 
   ipcMain.handle('accounts:delete', async (_event, id) => {
     try {
+      const account = await models.Account.findById(id)
+      if (!account) return { success: false, error: 'Account not found' }
+      if (account.systemKey) {
+        return { success: false, error: 'System accounts cannot be deleted' }
+      }
+
       // Check for transactions (optional but recommended)
       const hasExpenses = await models.Expense.exists({ account: id })
-      if (hasExpenses) {
+      const hasEntries = await models.Transaction.exists({ 'entries.account': id })
+      const hasChildren = await models.Account.exists({ parent: id })
+      if (hasExpenses || hasEntries || hasChildren) {
         return { success: false, error: 'Cannot delete account with existing transactions' }
       }
       await models.Account.findByIdAndDelete(id)
@@ -2444,6 +4822,19 @@ export function registerIpcHandlers() {
     }
   })
 
+  ipcMain.handle('accounts:getStatements', async (_event, { storeId, startDate, endDate }) => {
+    try {
+      const start = startDate ? new Date(startDate) : new Date(0)
+      const end = endDate ? new Date(endDate) : new Date()
+      end.setHours(23, 59, 59, 999)
+
+      const data = await getFinancialStatements({ storeId, startDate: start, endDate: end })
+      return toJSON({ success: true, data })
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
+
   // Expenses Handlers
   ipcMain.handle(
     'expenses:getAll',
@@ -2476,35 +4867,46 @@ export function registerIpcHandlers() {
 
   ipcMain.handle('expenses:create', async (_event, data) => {
     try {
-      // Generate unique expense number
-      const count = await models.Expense.countDocuments()
-      const expenseNumber = `EXP-${Date.now()}-${count + 1}`
-
-      const expense = await models.Expense.create({ ...data, expenseNumber })
-
-      // Update Account Balance (Decrease)
-      if (data.account) {
-        const delta = data.transactionType === 'DEBIT' ? data.amount : -data.amount
-        await models.Account.findByIdAndUpdate(data.account, {
-          $inc: { currentBalance: delta }
+      return await runInTransaction(async (session) => {
+        const expenseNumber = await nextDocumentNumber({
+          storeId: data.store,
+          documentType: 'EXPENSE',
+          date: data.expenseDate ? new Date(data.expenseDate) : new Date(),
+          session
         })
 
-        await createAccountTransaction({
+        const [expense] = await models.Expense.create([{ ...data, expenseNumber }], { session })
+
+        // CREDIT means money went out of the payment account into the expense; DEBIT undoes one
+        const accounts = await ensureDefaultAccounts(String(data.store), session)
+        const paymentAccount = data.account || accounts.CASH
+        const paidOut = data.transactionType !== 'DEBIT'
+        await postJournal({
           storeId: String(data.store),
           createdBy: String(data.createdBy),
           description: `Expense ${expense.expenseNumber}`,
           referenceType: 'EXPENSE',
           referenceId: String(expense._id),
-          accountId: String(data.account),
-          entryType: data.transactionType === 'DEBIT' ? 'DEBIT' : 'CREDIT',
-          amount: data.amount,
-          transactionDate: data.expenseDate ? new Date(data.expenseDate) : new Date()
+          transactionDate: data.expenseDate ? new Date(data.expenseDate) : new Date(),
+          session,
+          lines: [
+            {
+              account: paymentAccount,
+              entryType: paidOut ? 'CREDIT' : 'DEBIT',
+              amount: data.amount
+            },
+            {
+              account: accounts[expenseAccountKey(data.category)],
+              entryType: paidOut ? 'DEBIT' : 'CREDIT',
+              amount: data.amount
+            }
+          ]
         })
-      }
 
-      return toJSON({ success: true, data: expense })
+        return toJSON({ success: true, data: expense })
+      })
     } catch (error: any) {
-      return { success: false, error: error.message }
+      return rolledBackError('Recording the expense', error)
     }
   })
 
@@ -0,0 +1,586 @@
+import mongoose from 'mongoose'
+import * as models from '../models'
+import type { IAccount } from '../models/Account'
+import type { ITransaction, ITransactionEntry } from '../models/Transaction'
+
+// ============================================================
+// CHART OF ACCOUNTS
+// ============================================================
+
+export type SystemAccountKey =
+  | 'CASH'
+  | 'BANK'
+  | 'ACCOUNTS_RECEIVABLE'
+  | 'INVENTORY'
+  | 'ACCOUNTS_PAYABLE'
+  | 'SALES_TAX_PAYABLE'
+  | 'OWNER_EQUITY'
+  | 'SALES_REVENUE'
+  | 'INSTALLMENT_INCOME'
+  | 'COST_OF_GOODS_SOLD'
+  | 'INVENTORY_LOSS'
+  | 'CASH_OVER_SHORT'
+  | 'OPERATING_EXPENSES'
+  | 'RENT_EXPENSE'
+  | 'UTILITIES_EXPENSE'
+  | 'SALARY_EXPENSE'
+  | 'MARKETING_EXPENSE'
+  | 'MAINTENANCE_EXPENSE'
+  | 'OTHER_EXPENSE'
+
+type AccountType = 'ASSET' | 'LIABILITY' | 'EQUITY' | 'REVENUE' | 'EXPENSE'
+
+interface ChartAccount {
+  key: SystemAccountKey
+  code: string
+  name: string
+  type: AccountType
+  parentKey?: SystemAccountKey
+}
+
+// Parents must be listed before their children so they exist when the child is created
+const DEFAULT_CHART: ChartAccount[] = [
+  { key: 'CASH', code: '1001', name: 'Cash in Hand', type: 'ASSET' },
+  { key: 'BANK', code: '1002', name: 'Bank', type: 'ASSET' },
+  { key: 'ACCOUNTS_RECEIVABLE', code: '1100', name: 'Accounts Receivable', type: 'ASSET' },
+  { key: 'INVENTORY', code: '1200', name: 'Inventory', type: 'ASSET' },
+  { key: 'ACCOUNTS_PAYABLE', code: '2001', name: 'Accounts Payable', type: 'LIABILITY' },
+  { key: 'SALES_TAX_PAYABLE', code: '2100', name: 'Sales Tax Payable', type: 'LIABILITY' },
+  { key: 'OWNER_EQUITY', code: '3001', name: "Owner's Equity", type: 'EQUITY' },
+  { key: 'SALES_REVENUE', code: '4001', name: 'Sales Revenue', type: 'REVENUE' },
+  {
+    key: 'INSTALLMENT_INCOME',
+    code: '4100',
+    name: 'Installment Markup Income',
+    type: 'REVENUE'
+  },
+  { key: 'COST_OF_GOODS_SOLD', code: '5001', name: 'Cost of Goods Sold', type: 'EXPENSE' },
+  { key: 'OPERATING_EXPENSES', code: '5100', name: 'Operating Expenses', type: 'EXPENSE' },
+  {
+    key: 'RENT_EXPENSE',
+    code: '5101',
+    name: 'Rent Expense',
+    type: 'EXPENSE',
+    parentKey: 'OPERATING_EXPENSES'
+  },
+  {
+    key: 'UTILITIES_EXPENSE',
+    code: '5102',
+    name: 'Utilities Expense',
+    type: 'EXPENSE',
+    parentKey: 'OPERATING_EXPENSES'
+  },
+  {
+    key: 'SALARY_EXPENSE',
+    code: '5103',
+    name: 'Salary Expense',
+    type: 'EXPENSE',
+    parentKey: 'OPERATING_EXPENSES'
+  },
+  {
+    key: 'MARKETING_EXPENSE',
+    code: '5104',
+    name: 'Marketing Expense',
+    type: 'EXPENSE',
+    parentKey: 'OPERATING_EXPENSES'
+  },
+  {
+    key: 'MAINTENANCE_EXPENSE',
+    code: '5105',
+    name: 'Maintenance Expense',
+    type: 'EXPENSE',
+    parentKey: 'OPERATING_EXPENSES'
+  },
+  {
+    key: 'OTHER_EXPENSE',
+    code: '5199',
+    name: 'Other Expenses',
+    type: 'EXPENSE',
+    parentKey: 'OPERATING_EXPENSES'
+  },
+  { key: 'INVENTORY_LOSS', code: '5200', name: 'Inventory Shrinkage & Damage', type: 'EXPENSE' },
+  { key: 'CASH_OVER_SHORT', code: '5300', name: 'Cash Over/Short', type: 'EXPENSE' }
+]
+
+export type SystemAccounts = Record<SystemAccountKey, IAccount>
+
+// Accounts that money actually moves through; the rest of the ASSET accounts are ledgers
+export const NON_PAYMENT_ASSET_KEYS: SystemAccountKey[] = ['ACCOUNTS_RECEIVABLE', 'INVENTORY']
+
+/**
+ * Seeds the store's chart of accounts and returns the system accounts by key.
+ * Accounts created before the chart existed (e.g. "Cash in Hand") are adopted by name,
+ * and a taken code is bumped to the next free one instead of failing.
+ */
+export async function ensureDefaultAccounts(
+  storeId: string,
+  session?: mongoose.ClientSession
+): Promise<SystemAccounts> {
+  const existing = await models.Account.find({ store: storeId }).session(session || null)
+  const result = {} as SystemAccounts
+
+  for (const definition of DEFAULT_CHART) {
+    let account =
+      existing.find((acc) => acc.systemKey === definition.key) ||
+      existing.find(
+        (acc) =>
+          !acc.systemKey &&
+          acc.accountType === definition.type &&
+          String(acc.accountName).toLowerCase() === definition.name.toLowerCase()
+      )
+
+    if (account && !account.systemKey) {
+      account.systemKey = definition.key
+      await account.save({ session })
+    }
+
+    if (!account) {
+      let code = definition.code
+      while (existing.some((acc) => acc.accountCode === code)) {
+        code = String(Number(code) + 1)
+      }
+
+      const [created] = await models.Account.create(
+        [
+          {
+            accountCode: code,
+            accountName: definition.name,
+            accountType: definition.type,
+            systemKey: definition.key,
+            parent: definition.parentKey ? result[definition.parentKey]?._id : undefined,
+            store: storeId,
+            openingBalance: 0,
+            currentBalance: 0
+          }
+        ],
+        { session }
+      )
+      existing.push(created)
+      account = created
+    }
+
+    result[definition.key] = account
+  }
+
+  return result
+}
+
+// Bank Transfer and Card settle into the bank account, everything else is cash in the drawer
+export const paymentAccountKey = (method?: string): SystemAccountKey =>
+  method === 'Bank Transfer' || method === 'Card' ? 'BANK' : 'CASH'
+
+const EXPENSE_CATEGORY_ACCOUNTS: Record<string, SystemAccountKey> = {
+  Rent: 'RENT_EXPENSE',
+  Utilities: 'UTILITIES_EXPENSE',
+  Salary: 'SALARY_EXPENSE',
+  Marketing: 'MARKETING_EXPENSE',
+  Maintenance: 'MAINTENANCE_EXPENSE',
+  'Supplier Payment': 'ACCOUNTS_PAYABLE'
+}
+
+export const expenseAccountKey = (category?: string): SystemAccountKey =>
+  (category && EXPENSE_CATEGORY_ACCOUNTS[category]) || 'OTHER_EXPENSE'
+
+// ============================================================
+// JOURNAL POSTING
+// ============================================================
+
+export interface JournalLine {
+  account: IAccount | mongoose.Types.ObjectId | string
+  entryType: 'DEBIT' | 'CREDIT'
+  amount: number
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+// ASSET and EXPENSE accounts grow with debits, the other types grow with credits
+const isDebitNormal = (accountType: string): boolean =>
+  accountType === 'ASSET' || accountType === 'EXPENSE'
+
+/**
+ * Writes one balanced journal and moves each account's `currentBalance` by its lines.
+ * Lines on the same account are netted, zero lines are dropped, and an unbalanced
+ * journal throws so the surrounding transaction rolls back.
+ * List the primary line (usually cash/bank) first: list views show `entries[0]`.
+ */
+export async function postJournal({
+  storeId,
+  createdBy,
+  description,
+  referenceType,
+  referenceId,
+  transactionDate,
+  lines,
+  session
+}: {
+  storeId: string
+  createdBy: string
+  description: string
+  referenceType: string
+  referenceId?: string
+  transactionDate?: Date
+  lines: JournalLine[]
+  session?: mongoose.ClientSession
+}): Promise<ITransaction | null> {
+  const netByAccount = new Map<string, number>()
+  for (const line of lines) {
+    const amount = round2(Number(line.amount) || 0)
+    if (!line.account || amount === 0) continue
+    const key = String(
+      typeof line.account === 'object' && '_id' in line.account ? line.account._id : line.account
+    )
+    const signed = line.entryType === 'DEBIT' ? amount : -amount
+    netByAccount.set(key, round2((netByAccount.get(key) || 0) + signed))
+  }
+
+  const entries = Array.from(netByAccount.entries())
+    .filter(([, net]) => net !== 0)
+    .map(([account, net]) => ({
+      account,
+      entryType: (net > 0 ? 'DEBIT' : 'CREDIT') as 'DEBIT' | 'CREDIT',
+      amount: Math.abs(net)
+    }))
+
+  if (entries.length === 0) return null
+
+  const totalDebit = round2(
+    entries.filter((e) => e.entryType === 'DEBIT').reduce((sum, e) => sum + e.amount, 0)
+  )
+  const totalCredit = round2(
+    entries.filter((e) => e.entryType === 'CREDIT').reduce((sum, e) => sum + e.amount, 0)
+  )
+  if (totalDebit !== totalCredit) {
+    throw new Error(
+      `Unbalanced journal "${description}": debits ${totalDebit} vs credits ${totalCredit}`
+    )
+  }
+
+  const accounts = await models.Account.find({ _id: { $in: entries.map((e) => e.account) } })
+    .select('accountType')
+    .session(session || null)
+    .lean()
+  const typeById = new Map<string, string>(
+    accounts.map((acc: IAccount) => [String(acc._id), acc.accountType])
+  )
+
+  for (const entry of entries) {
+    const accountType = typeById.get(entry.account)
+    if (!accountType) throw new Error(`Account ${entry.account} not found for "${description}"`)
+    const grows = isDebitNormal(accountType) === (entry.entryType === 'DEBIT')
+    await models.Account.findByIdAndUpdate(
+      entry.account,
+      { $inc: { currentBalance: grows ? entry.amount : -entry.amount } },
+      { session }
+    )
+  }
+
+  const [transaction] = await models.Transaction.create(
+    [
+      {
+        transactionDate: transactionDate || new Date(),
+        referenceType,
+        referenceId,
+        description,
+        entries,
+        totalAmount: totalDebit,
+        store: storeId,
+        createdBy
+      }
+    ],
+    { session }
+  )
+
+  return transaction
+}
+
+/**
+ * Posts a mirror image of every journal recorded against `referenceId`, e.g. when a
+ * sale is deleted. Earlier reversals are skipped so running it twice is harmless.
+ */
+export async function reverseJournals({
+  storeId,
+  referenceId,
+  referenceType,
+  createdBy,
+  description,
+  session
+}: {
+  storeId: string
+  referenceId: string
+  referenceType: string
+  createdBy: string
+  description: string
+  session?: mongoose.ClientSession
+}): Promise<void> {
+  const journals = await models.Transaction.find({
+    store: storeId,
+    referenceId,
+    referenceType: { $ne: referenceType }
+  })
+    .session(session || null)
+    .lean()
+
+  const alreadyReversed = await models.Transaction.exists({
+    store: storeId,
+    referenceId,
+    referenceType
+  }).session(session || null)
+  if (alreadyReversed || journals.length === 0) return
+
+  const lines: JournalLine[] = journals.flatMap((journal: ITransaction) =>
+    (journal.entries || []).map((entry: ITransactionEntry) => ({
+      account: entry.account,
+      entryType: entry.entryType === 'DEBIT' ? 'CREDIT' : 'DEBIT',
+      amount: entry.amount
+    }))
+  )
+
+  await postJournal({
+    storeId,
+    createdBy,
+    description,
+    referenceType,
+    referenceId,
+    lines,
+    session
+  })
+}
+
+// ============================================================
+// FINANCIAL STATEMENTS
+// ============================================================
+
+export interface StatementLine {
+  accountId: string
+  accountCode: string
+  accountName: string
+  accountType: AccountType
+  level: number
+  isGroup: boolean
+  amount: number
+}
+
+export interface TrialBalanceRow {
+  accountId: string
+  accountCode: string
+  accountName: string
+  accountType: AccountType
+  debit: number
+  credit: number
+}
+
+export interface FinancialStatements {
+  startDate: Date
+  endDate: Date
+  trialBalance: { rows: TrialBalanceRow[]; totalDebit: number; totalCredit: number }
+  incomeStatement: {
+    revenue: StatementLine[]
+    totalRevenue: number
+    expenses: StatementLine[]
+    totalExpenses: number
+    netProfit: number
+  }
+  balanceSheet: {
+    assets: StatementLine[]
+    totalAssets: number
+    liabilities: StatementLine[]
+    totalLiabilities: number
+    equity: StatementLine[]
+    retainedEarnings: number
+    totalEquity: number
+    totalLiabilitiesAndEquity: number
+  }
+}
+
+interface AccountMovement {
+  debit: number
+  credit: number
+}
+
+// Signed so that a normal balance is positive (e.g. a debit on an expense, a credit on revenue)
+const normalBalance = (accountType: string, movement?: AccountMovement): number => {
+  if (!movement) return 0
+  const net = movement.debit - movement.credit
+  return round2(isDebitNormal(accountType) ? net : -net)
+}
+
+/**
+ * Lists the accounts of one type as a tree: each account is followed by its sub-accounts
+ * (via `parent`) and a parent's amount includes everything below it. Accounts with nothing
+ * in them, and no sub-accounts with anything in them, are left out.
+ */
+const buildStatementSection = (
+  accounts: IAccount[],
+  accountType: AccountType,
+  amountById: Map<string, number>
+): { lines: StatementLine[]; total: number } => {
+  const ofType = accounts.filter((acc) => acc.accountType === accountType)
+  const ids = new Set(ofType.map((acc) => String(acc._id)))
+  const childrenOf = new Map<string, IAccount[]>()
+  const roots: IAccount[] = []
+
+  for (const account of ofType) {
+    const parentId = account.parent ? String(account.parent) : ''
+    // A parent of another type cannot be rolled into this section, so treat it as a root
+    if (parentId && ids.has(parentId)) {
+      childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), account])
+    } else {
+      roots.push(account)
+    }
+  }
+
+  const byCode = (a: IAccount, b: IAccount): number =>
+    String(a.accountCode).localeCompare(String(b.accountCode), undefined, { numeric: true })
+
+  const visit = (account: IAccount, level: number): { lines: StatementLine[]; total: number } => {
+    const children = (childrenOf.get(String(account._id)) || []).sort(byCode)
+    const childResults = children.map((child) => visit(child, level + 1))
+    const own = amountById.get(String(account._id)) || 0
+    const total = round2(own + childResults.reduce((sum, result) => sum + result.total, 0))
+    const childLines = childResults.flatMap((result) => result.lines)
+
+    if (total === 0 && own === 0 && childLines.length === 0) return { lines: [], total: 0 }
+
+    return {
+      lines: [
+        {
+          accountId: String(account._id),
+          accountCode: account.accountCode,
+          accountName: account.accountName,
+          accountType,
+          level,
+          isGroup: children.length > 0,
+          amount: total
+        },
+        ...childLines
+      ],
+      total
+    }
+  }
+
+  const results = roots.sort(byCode).map((root) => visit(root, 0))
+  return {
+    lines: results.flatMap((result) => result.lines),
+    total: round2(results.reduce((sum, result) => sum + result.total, 0))
+  }
+}
+
+/**
+ * Builds the trial balance and balance sheet as at `endDate` and the income statement for
+ * `startDate`..`endDate`, all from the posted journal entries.
+ */
+export async function getFinancialStatements({
+  storeId,
+  startDate,
+  endDate
+}: {
+  storeId: string
+  startDate: Date
+  endDate: Date
+}): Promise<FinancialStatements> {
+  await ensureDefaultAccounts(storeId)
+  const accounts: IAccount[] = await models.Account.find({ store: storeId }).lean()
+
+  const movements = await models.Transaction.aggregate([
+    {
+      $match: {
+        store: new mongoose.Types.ObjectId(storeId),
+        transactionDate: { $lte: endDate }
+      }
+    },
+    { $unwind: '$entries' },
+    {
+      $group: {
+        _id: {
+          account: '$entries.account',
+          inPeriod: { $gte: ['$transactionDate', startDate] }
+        },
+        debit: {
+          $sum: { $cond: [{ $eq: ['$entries.entryType', 'DEBIT'] }, '$entries.amount', 0] }
+        },
+        credit: {
+          $sum: { $cond: [{ $eq: ['$entries.entryType', 'CREDIT'] }, '$entries.amount', 0] }
+        }
+      }
+    }
+  ])
+
+  // Everything up to the end date feeds the balances; only the range feeds profit & loss
+  const toDate = new Map<string, AccountMovement>()
+  const inPeriod = new Map<string, AccountMovement>()
+  for (const row of movements) {
+    const key = String(row._id.account)
+    const cumulative = toDate.get(key) || { debit: 0, credit: 0 }
+    toDate.set(key, {
+      debit: cumulative.debit + row.debit,
+      credit: cumulative.credit + row.credit
+    })
+    if (row._id.inPeriod) inPeriod.set(key, { debit: row.debit, credit: row.credit })
+  }
+
+  const balancesAt = (source: Map<string, AccountMovement>): Map<string, number> =>
+    new Map(
+      accounts.map((acc) => [
+        String(acc._id),
+        normalBalance(acc.accountType, source.get(String(acc._id)))
+      ])
+    )
+  const closing = balancesAt(toDate)
+  const period = balancesAt(inPeriod)
+
+  const trialRows: TrialBalanceRow[] = accounts
+    .map((acc) => {
+      const movement = toDate.get(String(acc._id))
+      const net = round2((movement?.debit || 0) - (movement?.credit || 0))
+      return {
+        accountId: String(acc._id),
+        accountCode: acc.accountCode,
+        accountName: acc.accountName,
+        accountType: acc.accountType,
+        debit: net > 0 ? net : 0,
+        credit: net < 0 ? -net : 0
+      }
+    })
+    .filter((row) => row.debit !== 0 || row.credit !== 0)
+    .sort((a, b) => a.accountCode.localeCompare(b.accountCode, undefined, { numeric: true }))
+
+  const revenue = buildStatementSection(accounts, 'REVENUE', period)
+  const expenses = buildStatementSection(accounts, 'EXPENSE', period)
+  const assets = buildStatementSection(accounts, 'ASSET', closing)
+  const liabilities = buildStatementSection(accounts, 'LIABILITY', closing)
+  const equity = buildStatementSection(accounts, 'EQUITY', closing)
+
+  // Profit is never closed into an equity account, so the balance sheet carries it separately
+  const retainedEarnings = round2(
+    buildStatementSection(accounts, 'REVENUE', closing).total -
+      buildStatementSection(accounts, 'EXPENSE', closing).total
+  )
+  const totalEquity = round2(equity.total + retainedEarnings)
+
+  return {
+    startDate,
+    endDate,
+    trialBalance: {
+      rows: trialRows,
+      totalDebit: round2(trialRows.reduce((sum, row) => sum + row.debit, 0)),
+      totalCredit: round2(trialRows.reduce((sum, row) => sum + row.credit, 0))
+    },
+    incomeStatement: {
+      revenue: revenue.lines,
+      totalRevenue: revenue.total,
+      expenses: expenses.lines,
+      totalExpenses: expenses.total,
+      netProfit: round2(revenue.total - expenses.total)
+    },
+    balanceSheet: {
+      assets: assets.lines,
+      totalAssets: assets.total,
+      liabilities: liabilities.lines,
+      totalLiabilities: liabilities.total,
+      equity: equity.lines,
+      retainedEarnings,
+      totalEquity,
+      totalLiabilitiesAndEquity: round2(liabilities.total + totalEquity)
+    }
+  }
+}
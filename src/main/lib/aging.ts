@@ -0,0 +1,48 @@
+// ============================================================
+// AGING
+// ============================================================
+
+export interface AgingBuckets {
+  current: number
+  days31to60: number
+  days61to90: number
+  over90: number
+  total: number
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+export const daysBetween = (from: Date, to: Date): number =>
+  Math.max(0, Math.floor((to.getTime() - new Date(from).getTime()) / 86400000))
+
+// Buckets open amounts by how many days old they are at `asOf`: 0-30, 31-60, 61-90, 90+
+export function ageAmounts(items: Array<{ date: Date; amount: number }>, asOf: Date): AgingBuckets {
+  const buckets: AgingBuckets = { current: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 }
+  for (const item of items) {
+    if (item.amount <= 0) continue
+    const days = daysBetween(item.date, asOf)
+    if (days <= 30) buckets.current += item.amount
+    else if (days <= 60) buckets.days31to60 += item.amount
+    else if (days <= 90) buckets.days61to90 += item.amount
+    else buckets.over90 += item.amount
+  }
+  buckets.current = round2(buckets.current)
+  buckets.days31to60 = round2(buckets.days31to60)
+  buckets.days61to90 = round2(buckets.days61to90)
+  buckets.over90 = round2(buckets.over90)
+  buckets.total = round2(buckets.current + buckets.days31to60 + buckets.days61to90 + buckets.over90)
+  return buckets
+}
+
+export function sumAging(buckets: AgingBuckets[]): AgingBuckets {
+  return buckets.reduce(
+    (sum, bucket) => ({
+      current: round2(sum.current + bucket.current),
+      days31to60: round2(sum.days31to60 + bucket.days31to60),
+      days61to90: round2(sum.days61to90 + bucket.days61to90),
+      over90: round2(sum.over90 + bucket.over90),
+      total: round2(sum.total + bucket.total)
+    }),
+    { current: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 }
+  )
+}
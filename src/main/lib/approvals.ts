@@ -0,0 +1,89 @@
+import mongoose from 'mongoose'
+import * as bcrypt from 'bcryptjs'
+import * as models from '../models'
+
+// ============================================================
+// MANAGER APPROVALS
+// ============================================================
+
+export interface ManagerCredentials {
+  email: string
+  password: string
+}
+
+const MANAGER_STORE_ROLES = ['OWNER', 'MANAGER']
+
+// Admins manage every store; otherwise the user must be an active owner or manager of it
+export async function isStoreManager({
+  userId,
+  storeId,
+  session
+}: {
+  userId: mongoose.Types.ObjectId | string
+  storeId: mongoose.Types.ObjectId | string
+  session?: mongoose.ClientSession
+}): Promise<boolean> {
+  const user = await models.User.findById(userId)
+    .select('globalRole')
+    .session(session || null)
+    .lean<{ globalRole?: string }>()
+  if (!user) return false
+  if (user.globalRole === 'ADMIN') return true
+
+  const membership = await models.UserStore.findOne({
+    user: userId,
+    store: storeId,
+    isActive: true
+  })
+    .session(session || null)
+    .lean<{ role: string }>()
+  return !!membership && MANAGER_STORE_ROLES.includes(membership.role)
+}
+
+/**
+ * Checks a manager's login for an action the signed-in cashier may not do alone. Admins
+ * approve anywhere; otherwise the user must be an active owner or manager of the store.
+ * Throws with a message for the till when the login is wrong or lacks the authority.
+ */
+export async function verifyManagerApproval({
+  credentials,
+  storeId
+}: {
+  credentials: ManagerCredentials
+  storeId: mongoose.Types.ObjectId | string
+}): Promise<{ _id: mongoose.Types.ObjectId; fullName: string }> {
+  const email = String(credentials?.email || '')
+    .trim()
+    .toLowerCase()
+  const user = email ? await models.User.findOne({ email }) : null
+  if (!user || !(await bcrypt.compare(String(credentials.password || ''), user.password))) {
+    throw new Error('Manager email or password is incorrect')
+  }
+  if (!user.isActive) throw new Error('That manager account is deactivated')
+
+  if (!(await isStoreManager({ userId: user._id, storeId }))) {
+    throw new Error(`${user.fullName} is not a manager of this store`)
+  }
+
+  return { _id: user._id, fullName: user.fullName }
+}
+
+// Overrides are written to the activity log against the approving manager
+export async function logOverride({
+  approvedBy,
+  module,
+  recordId,
+  details,
+  session
+}: {
+  approvedBy: mongoose.Types.ObjectId | string
+  module: string
+  recordId?: mongoose.Types.ObjectId | string
+  details: Record<string, unknown>
+  session?: mongoose.ClientSession
+}): Promise<void> {
+  await models.ActivityLog.create(
+    [{ user: approvedBy, action: 'OVERRIDE', module, recordId, changes: details }],
+    { session }
+  )
+}
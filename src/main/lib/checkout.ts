@@ -0,0 +1,261 @@
+import mongoose from 'mongoose'
+import * as models from '../models'
+import type { IProduct } from '../models/Product'
+import type { ISaleComboSelection, ISaleTaxLine } from '../models/Sale'
+import type { TaxClass } from '../models/Store'
+import { resolveComboSelection } from './combos'
+import { getMeterStep, roundQuantity, saleQuantityError } from './stock'
+import { getTaxSettings, resolveTaxClass, taxLines, type TaxedLine } from './tax'
+
+// ============================================================
+// SALE PRICING
+// ============================================================
+
+export const roundMoney = (value: number): number => Math.round(value * 100) / 100
+
+// What the till and the main process may disagree by before a sale is refused
+const MONEY_TOLERANCE = 0.01
+
+export interface PricedSaleLine extends TaxedLine {
+  product: mongoose.Types.ObjectId
+  productName: string
+  quantity: number
+  listPrice: number
+  sellingPrice: number
+  discountAmount: number
+  discountPercent?: number
+  totalAmount: number
+  comboSelection?: ISaleComboSelection
+  // Part of a combo set is costed from its components' buying prices; null means the
+  // line draws on the purchase layers like any other product
+  componentCost: number | null
+}
+
+export interface PricedSale {
+  items: PricedSaleLine[]
+  subtotal: number
+  discountAmount: number
+  discountPercent: number
+  taxAmount: number
+  taxBreakdown: ISaleTaxLine[]
+  pricesIncludeTax: boolean
+  totalAmount: number
+}
+
+interface SaleLineInput {
+  product: string
+  quantity: number
+  // The catalogue price the till showed, and the price it is charging when overridden
+  listPrice?: number
+  sellingPrice?: number
+  discountAmount?: number
+  discountPercent?: number
+  totalAmount?: number
+  comboSelection?: { pieces?: string[] }
+}
+
+const differs = (claimed: unknown, actual: number): boolean =>
+  claimed !== undefined && claimed !== null && Math.abs(Number(claimed) - actual) > MONEY_TOLERANCE
+
+// Percent of `listAmount` the customer is let off when charged `chargedAmount`
+const percentOff = (listAmount: number, chargedAmount: number): number =>
+  listAmount > 0 ? Math.round(((listAmount - chargedAmount) / listAmount) * 10000) / 100 : 0
+
+/**
+ * Prices a sale from the catalogue as it is now, not from what the till sent. Each line is
+ * reloaded and priced at the product's (or combo selection's) list price, quantities are
+ * checked against the store's cutting rules and stock on hand, line discounts and the cart
+ * discount are applied to the recomputed amounts, and each line is taxed at its tax class's
+ * rate. A price override or discount may take no line, and not the sale as a whole, further
+ * below list than `maxDiscountPercent`.
+ * Throws when the till's prices or totals do not match, so a stale or tampered screen
+ * cannot book a sale. Quotations are priced the same way with `checkStock` off, since an
+ * estimate holds nothing back; stock is checked again when one is sold.
+ */
+export async function priceSale({
+  storeId,
+  items,
+  subtotal,
+  discountAmount,
+  discountPercent,
+  taxAmount,
+  totalAmount,
+  maxDiscountPercent = 100,
+  checkStock = true,
+  session
+}: {
+  storeId: mongoose.Types.ObjectId | string
+  items: SaleLineInput[]
+  subtotal?: number
+  discountAmount?: number
+  discountPercent?: number
+  taxAmount?: number
+  totalAmount?: number
+  maxDiscountPercent?: number
+  checkStock?: boolean
+  session?: mongoose.ClientSession
+}): Promise<PricedSale> {
+  if (!items?.length) throw new Error('A sale needs at least one item')
+
+  const meterStep = await getMeterStep(storeId, session)
+  const lines: Array<Omit<PricedSaleLine, keyof TaxedLine>> = []
+  const taxClasses: TaxClass[] = []
+  // Stock each line asks for, per product or per combo piece, checked once all lines are in
+  const demand = new Map<string, { label: string; available: number; quantity: number }>()
+  const take = (key: string, label: string, available: number, quantity: number): void => {
+    const entry = demand.get(key) || { label, available, quantity: 0 }
+    entry.quantity = roundQuantity(entry.quantity + quantity)
+    demand.set(key, entry)
+  }
+
+  for (const item of items) {
+    const product = await models.Product.findById(item.product)
+      .select(
+        'name store category taxClass productKind baseUnit minCutLength sellingPrice buyingPrice stockLevel isActive comboComponents canSellSeparate canSellPartialSet twoComponentPrices'
+      )
+      .session(session || null)
+      .lean<IProduct>()
+    if (!product || !product.isActive || String(product.store) !== String(storeId)) {
+      throw new Error('An item in the cart is no longer available. Refresh the POS.')
+    }
+
+    const quantity = roundQuantity(Number(item.quantity))
+    const quantityError = saleQuantityError(product, quantity, meterStep)
+    if (quantityError) throw new Error(quantityError)
+
+    let listPrice = product.sellingPrice || product.buyingPrice || 0
+    let comboSelection: ISaleComboSelection | undefined
+    let componentCost: number | null = null
+    if (item.comboSelection) {
+      const resolved = resolveComboSelection(product, item.comboSelection.pieces)
+      comboSelection = { mode: resolved.mode, pieces: resolved.pieces }
+      listPrice = resolved.sellingPrice
+      if (resolved.mode !== 'FULL_SET') componentCost = resolved.componentCost
+      for (const component of product.comboComponents || []) {
+        if (!resolved.pieces.includes(component.name)) continue
+        take(
+          `${product._id}:${component.name}`,
+          `${product.name} (${component.name})`,
+          component.stockLevel || 0,
+          quantity
+        )
+      }
+    } else {
+      take(String(product._id), product.name, product.stockLevel || 0, quantity)
+    }
+
+    // The till says which list price it showed; without one, the price it charges must be it
+    if (differs(item.listPrice ?? item.sellingPrice, listPrice)) {
+      throw new Error(
+        `The price of ${product.name} is now Rs. ${listPrice.toLocaleString()}. Refresh the POS and try again.`
+      )
+    }
+    const sellingPrice =
+      item.listPrice !== undefined && item.sellingPrice !== undefined
+        ? roundMoney(Number(item.sellingPrice))
+        : listPrice
+    if (!(sellingPrice >= 0)) throw new Error(`Enter a price for ${product.name}`)
+
+    const lineAmount = roundMoney(sellingPrice * quantity)
+    const linePercent = Number(item.discountPercent) || 0
+    const lineFlat = Number(item.discountAmount) || 0
+    if (linePercent < 0 || linePercent > 100 || lineFlat < 0) {
+      throw new Error(`The discount on ${product.name} must be between 0 and the line total`)
+    }
+    const lineDiscount = roundMoney(lineFlat > 0 ? lineFlat : lineAmount * (linePercent / 100))
+    if (lineDiscount > lineAmount) {
+      throw new Error(`The discount on ${product.name} is more than the line total`)
+    }
+
+    const lineOff = percentOff(roundMoney(listPrice * quantity), lineAmount - lineDiscount)
+    if (lineOff > maxDiscountPercent) {
+      throw new Error(
+        `${product.name} is ${lineOff}% below its list price; you may give up to ${maxDiscountPercent}%`
+      )
+    }
+
+    lines.push({
+      product: product._id as mongoose.Types.ObjectId,
+      productName: product.name,
+      quantity,
+      listPrice,
+      sellingPrice,
+      discountAmount: lineDiscount,
+      discountPercent: lineFlat > 0 || !linePercent ? undefined : linePercent,
+      totalAmount: lineAmount,
+      comboSelection,
+      componentCost
+    })
+    taxClasses.push(await resolveTaxClass(product, session))
+  }
+
+  for (const { label, available, quantity } of demand.values()) {
+    if (checkStock && quantity > roundQuantity(available)) {
+      throw new Error(`Only ${roundQuantity(Math.max(0, available))} of ${label} left in stock`)
+    }
+  }
+
+  // Line discounts come off before the cart discount is worked out
+  const pricedSubtotal = roundMoney(
+    lines.reduce((sum, line) => sum + line.totalAmount - line.discountAmount, 0)
+  )
+
+  const percent = Number(discountPercent) || 0
+  const flatDiscount = Number(discountAmount) || 0
+  if (percent < 0 || percent > 100 || flatDiscount < 0) {
+    throw new Error('Discount must be between 0 and the sale subtotal')
+  }
+  const pricedDiscount = roundMoney(
+    flatDiscount > 0 ? flatDiscount : pricedSubtotal * (percent / 100)
+  )
+  if (pricedDiscount > pricedSubtotal) {
+    throw new Error('Discount cannot be more than the sale subtotal')
+  }
+
+  const listTotal = roundMoney(lines.reduce((sum, line) => sum + line.listPrice * line.quantity, 0))
+  const saleOff = percentOff(listTotal, pricedSubtotal - pricedDiscount)
+  if (saleOff > maxDiscountPercent) {
+    throw new Error(
+      `This sale is ${saleOff}% below list price in total; you may give up to ${maxDiscountPercent}%`
+    )
+  }
+
+  const taxSettings = await getTaxSettings(storeId, session)
+  const tax = taxLines({
+    lines: lines.map((line, index) => ({
+      amount: roundMoney(line.totalAmount - line.discountAmount),
+      taxClass: taxClasses[index]
+    })),
+    cartDiscount: pricedDiscount,
+    settings: taxSettings
+  })
+
+  // Tax-inclusive prices already carry the tax, so it is only added on top when they do not
+  const pricedTotal = roundMoney(
+    pricedSubtotal - pricedDiscount + (taxSettings.pricesIncludeTax ? 0 : tax.taxAmount)
+  )
+  const lineMismatch = items.some((item, index) =>
+    differs(item.totalAmount, lines[index].totalAmount)
+  )
+  if (
+    lineMismatch ||
+    differs(subtotal, pricedSubtotal) ||
+    differs(taxAmount, tax.taxAmount) ||
+    differs(totalAmount, pricedTotal)
+  ) {
+    throw new Error(
+      `The sale total should be Rs. ${pricedTotal.toLocaleString()}. Refresh the POS and try again.`
+    )
+  }
+
+  return {
+    items: lines.map((line, index) => ({ ...line, ...tax.lines[index] })),
+    subtotal: pricedSubtotal,
+    discountAmount: pricedDiscount,
+    discountPercent: flatDiscount > 0 ? 0 : percent,
+    taxAmount: tax.taxAmount,
+    taxBreakdown: tax.breakdown,
+    pricesIncludeTax: taxSettings.pricesIncludeTax,
+    totalAmount: pricedTotal
+  }
+}
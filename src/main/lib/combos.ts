@@ -0,0 +1,86 @@
+import type { IProduct } from '../models/Product'
+import type { ISaleComboSelection } from '../models/Sale'
+
+// ============================================================
+// COMBO SETS
+// ============================================================
+
+// Order-independent key for a set of pieces, so "Qameez + Shalwar" matches "Shalwar + Qameez"
+export const comboPiecesKey = (pieces?: string[]): string => [...(pieces || [])].sort().join('+')
+
+export interface ResolvedComboSelection extends ISaleComboSelection {
+  sellingPrice: number
+  // What the selected pieces cost, from the components' buying prices
+  componentCost: number
+}
+
+/**
+ * Works out what a combo set line is selling. No pieces (or every piece) is the full set at
+ * the product's price; one piece needs `canSellSeparate` and sells at the component's price;
+ * two pieces need `canSellPartialSet` and a matching entry in `twoComponentPrices`.
+ * Throws when the product does not allow the selection.
+ */
+export function resolveComboSelection(
+  product: Pick<
+    IProduct,
+    | 'name'
+    | 'sellingPrice'
+    | 'comboComponents'
+    | 'canSellSeparate'
+    | 'canSellPartialSet'
+    | 'twoComponentPrices'
+  >,
+  pieces?: string[]
+): ResolvedComboSelection {
+  const components = product.comboComponents || []
+  if (components.length === 0) {
+    throw new Error(`${product.name} has no set components configured`)
+  }
+
+  const names = components.map((component) => component.name)
+  const requested = Array.from(new Set(pieces || []))
+  const unknown = requested.find((piece) => !names.includes(piece))
+  if (unknown) throw new Error(`${product.name} has no ${unknown} piece`)
+
+  const selected = components.filter((component) => requested.includes(component.name))
+  const componentCost = (requested.length ? selected : components).reduce(
+    (sum, component) => sum + (component.buyingPrice || 0),
+    0
+  )
+
+  if (requested.length === 0 || requested.length === names.length) {
+    return {
+      mode: 'FULL_SET',
+      pieces: names,
+      sellingPrice: product.sellingPrice || 0,
+      componentCost
+    }
+  }
+
+  if (requested.length === 1) {
+    if (!product.canSellSeparate) {
+      throw new Error(`${product.name} cannot be sold as single pieces`)
+    }
+    return {
+      mode: 'SINGLE',
+      pieces: requested,
+      sellingPrice: selected[0].sellingPrice || 0,
+      componentCost
+    }
+  }
+
+  if (requested.length === 2) {
+    if (!product.canSellPartialSet) {
+      throw new Error(`${product.name} cannot be sold as a 2-piece set`)
+    }
+    const pair = (product.twoComponentPrices || []).find(
+      (entry) => comboPiecesKey(entry.components) === comboPiecesKey(requested)
+    )
+    if (!pair) {
+      throw new Error(`${product.name} has no price for ${requested.join(' + ')}`)
+    }
+    return { mode: 'PAIR', pieces: requested, sellingPrice: pair.sellingPrice, componentCost }
+  }
+
+  throw new Error(`${product.name} can only be sold as a full set, a single piece or a pair`)
+}
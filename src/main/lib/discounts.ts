@@ -0,0 +1,168 @@
+import mongoose from 'mongoose'
+import * as models from '../models'
+import type { ISale } from '../models/Sale'
+import { roundMoney } from './checkout'
+
+// ============================================================
+// DISCOUNT LIMITS
+// ============================================================
+
+type StoreRole = 'OWNER' | 'MANAGER' | 'CASHIER'
+
+const DEFAULT_MAX_DISCOUNT: Record<StoreRole, number> = { OWNER: 100, MANAGER: 25, CASHIER: 10 }
+
+/**
+ * The largest discount, as a percent off list price, the user may give in this store. Admins
+ * are not limited; everyone else gets their store role's limit from the store settings, and
+ * a user who is not an active member of the store may give none.
+ */
+export async function getDiscountLimit({
+  userId,
+  storeId,
+  session
+}: {
+  userId: mongoose.Types.ObjectId | string
+  storeId: mongoose.Types.ObjectId | string
+  session?: mongoose.ClientSession
+}): Promise<{ role: StoreRole | 'ADMIN' | null; maxDiscountPercent: number }> {
+  const user = await models.User.findById(userId)
+    .select('globalRole')
+    .session(session || null)
+    .lean<{ globalRole?: string }>()
+  if (user?.globalRole === 'ADMIN') return { role: 'ADMIN', maxDiscountPercent: 100 }
+
+  const membership = await models.UserStore.findOne({
+    user: userId,
+    store: storeId,
+    isActive: true
+  })
+    .select('role')
+    .session(session || null)
+    .lean<{ role: StoreRole }>()
+  if (!membership) return { role: null, maxDiscountPercent: 0 }
+
+  const store = await models.Store.findById(storeId)
+    .select('settings.maxDiscountPercent')
+    .session(session || null)
+    .lean<{ settings?: { maxDiscountPercent?: Partial<Record<StoreRole, number>> } }>()
+  const limit = store?.settings?.maxDiscountPercent?.[membership.role]
+  return {
+    role: membership.role,
+    maxDiscountPercent: limit ?? DEFAULT_MAX_DISCOUNT[membership.role] ?? 0
+  }
+}
+
+// ============================================================
+// DISCOUNT REPORT
+// ============================================================
+
+export interface DiscountReportRow {
+  sale: string
+  invoiceNumber: string
+  saleDate: Date
+  soldBy: string
+  type: 'LINE_DISCOUNT' | 'PRICE_OVERRIDE' | 'CART_DISCOUNT'
+  productName: string
+  quantity: number
+  listPrice: number
+  sellingPrice: number
+  // What the customer was let off
+  amount: number
+}
+
+/**
+ * Everything given away on sales in a period: line discounts, prices overridden below list
+ * and cart-wide discounts, each as its own row, with totals by type and by who sold.
+ */
+export async function buildDiscountReport({
+  storeId,
+  startDate,
+  endDate
+}: {
+  storeId: mongoose.Types.ObjectId | string
+  startDate: Date
+  endDate: Date
+}): Promise<{
+  rows: DiscountReportRow[]
+  totals: {
+    lineDiscounts: number
+    priceOverrides: number
+    cartDiscounts: number
+    total: number
+    sales: number
+  }
+  bySeller: Array<{ name: string; sales: number; amount: number }>
+}> {
+  const sales = await models.Sale.find({
+    store: storeId,
+    saleDate: { $gte: startDate, $lte: endDate }
+  })
+    .select('invoiceNumber saleDate soldBy items discountAmount')
+    .populate('soldBy', 'fullName')
+    .sort({ saleDate: -1 })
+    .lean<Array<ISale & { soldBy?: { fullName?: string } }>>()
+
+  const rows: DiscountReportRow[] = []
+  for (const sale of sales) {
+    const base = {
+      sale: String(sale._id),
+      invoiceNumber: sale.invoiceNumber,
+      saleDate: sale.saleDate,
+      soldBy: sale.soldBy?.fullName || 'Unknown'
+    }
+    for (const item of sale.items || []) {
+      const listPrice = item.listPrice ?? item.sellingPrice
+      const line = {
+        ...base,
+        productName: item.productName,
+        quantity: item.quantity,
+        listPrice,
+        sellingPrice: item.sellingPrice
+      }
+      const overridden = roundMoney((listPrice - item.sellingPrice) * item.quantity)
+      if (overridden > 0) rows.push({ ...line, type: 'PRICE_OVERRIDE', amount: overridden })
+      if ((item.discountAmount || 0) > 0) {
+        rows.push({ ...line, type: 'LINE_DISCOUNT', amount: item.discountAmount })
+      }
+    }
+    if ((sale.discountAmount || 0) > 0) {
+      rows.push({
+        ...base,
+        type: 'CART_DISCOUNT',
+        productName: 'Whole sale',
+        quantity: 0,
+        listPrice: 0,
+        sellingPrice: 0,
+        amount: sale.discountAmount
+      })
+    }
+  }
+
+  const sumOf = (type: DiscountReportRow['type']): number =>
+    roundMoney(rows.filter((row) => row.type === type).reduce((sum, row) => sum + row.amount, 0))
+  const lineDiscounts = sumOf('LINE_DISCOUNT')
+  const priceOverrides = sumOf('PRICE_OVERRIDE')
+  const cartDiscounts = sumOf('CART_DISCOUNT')
+
+  const sellers = new Map<string, { name: string; sales: Set<string>; amount: number }>()
+  for (const row of rows) {
+    const seller = sellers.get(row.soldBy) || { name: row.soldBy, sales: new Set(), amount: 0 }
+    seller.sales.add(row.sale)
+    seller.amount = roundMoney(seller.amount + row.amount)
+    sellers.set(row.soldBy, seller)
+  }
+
+  return {
+    rows,
+    totals: {
+      lineDiscounts,
+      priceOverrides,
+      cartDiscounts,
+      total: roundMoney(lineDiscounts + priceOverrides + cartDiscounts),
+      sales: new Set(rows.map((row) => row.sale)).size
+    },
+    bySeller: Array.from(sellers.values())
+      .map((seller) => ({ name: seller.name, sales: seller.sales.size, amount: seller.amount }))
+      .sort((a, b) => b.amount - a.amount)
+  }
+}
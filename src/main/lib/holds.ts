@@ -0,0 +1,122 @@
+import mongoose from 'mongoose'
+import * as models from '../models'
+import type { IHeldCart, IHeldCartItem } from '../models/HeldCart'
+import { roundQuantity } from './stock'
+
+// ============================================================
+// HELD CARTS
+// ============================================================
+
+const DEFAULT_HELD_CART_HOURS = 24
+
+interface HeldCartItemInput {
+  product: string
+  quantity: number
+  comboSelection?: { mode?: string; pieces?: string[] }
+  listPrice?: number
+  sellingPrice?: number
+  discount?: { type?: string; value?: number }
+}
+
+/**
+ * Parks a POS cart under a label so any terminal of the store can pick it up later. Nothing
+ * is taken out of stock; the quantities only show as held until the cart is resumed, deleted
+ * or expires after the store's hold time.
+ */
+export async function holdCart({
+  storeId,
+  label,
+  customer,
+  items,
+  discountAmount,
+  discountPercent,
+  heldBy
+}: {
+  storeId: mongoose.Types.ObjectId | string
+  label: string
+  customer?: string
+  items: HeldCartItemInput[]
+  discountAmount?: number
+  discountPercent?: number
+  heldBy: mongoose.Types.ObjectId | string
+}): Promise<IHeldCart> {
+  const trimmedLabel = String(label || '').trim()
+  if (!trimmedLabel) throw new Error('Enter a name or note to hold the cart under')
+  if (!items?.length) throw new Error('There is nothing in the cart to hold')
+
+  const store = await models.Store.findById(storeId)
+    .select('settings.heldCartHours')
+    .lean<{ settings?: { heldCartHours?: number } }>()
+  if (!store) throw new Error('Store not found')
+
+  const products = await models.Product.find({
+    _id: { $in: items.map((item) => item.product) },
+    store: storeId
+  })
+    .select('name')
+    .lean<Array<{ _id: mongoose.Types.ObjectId; name: string }>>()
+  const nameById = new Map(products.map((product) => [String(product._id), product.name]))
+
+  const heldItems: IHeldCartItem[] = items.map((item) => {
+    const productName = nameById.get(String(item.product))
+    if (!productName) throw new Error('An item in the cart is no longer available')
+    const quantity = roundQuantity(Number(item.quantity))
+    if (!(quantity > 0)) throw new Error(`Enter a quantity for ${productName}`)
+    return {
+      product: new mongoose.Types.ObjectId(String(item.product)),
+      productName,
+      quantity,
+      comboSelection: item.comboSelection?.pieces?.length
+        ? {
+            mode: item.comboSelection.mode as 'FULL_SET' | 'SINGLE' | 'PAIR',
+            pieces: item.comboSelection.pieces.map(String)
+          }
+        : undefined,
+      listPrice: Number(item.listPrice) || 0,
+      sellingPrice: Number(item.sellingPrice) || 0,
+      discount:
+        item.discount && Number(item.discount.value) > 0
+          ? {
+              type: item.discount.type === 'PERCENT' ? 'PERCENT' : 'AMOUNT',
+              value: Number(item.discount.value)
+            }
+          : undefined
+    }
+  })
+
+  const hours = store.settings?.heldCartHours || DEFAULT_HELD_CART_HOURS
+  return models.HeldCart.create({
+    store: storeId,
+    label: trimmedLabel,
+    customer: customer || undefined,
+    items: heldItems,
+    discountAmount: Math.max(0, Number(discountAmount) || 0),
+    discountPercent: Math.min(100, Math.max(0, Number(discountPercent) || 0)),
+    heldBy,
+    expiresAt: new Date(Date.now() + hours * 60 * 60 * 1000)
+  })
+}
+
+// Quantities sitting in the store's parked carts, per product and per combo piece
+// (`productId:piece`), so the POS can show them as soft-held
+export async function heldQuantities(
+  storeId: mongoose.Types.ObjectId | string
+): Promise<Record<string, number>> {
+  const carts = await models.HeldCart.find({ store: storeId, expiresAt: { $gt: new Date() } })
+    .select('items.product items.quantity items.comboSelection')
+    .lean<Array<Pick<IHeldCart, 'items'>>>()
+
+  const held: Record<string, number> = {}
+  const add = (key: string, quantity: number): void => {
+    held[key] = roundQuantity((held[key] || 0) + quantity)
+  }
+  for (const cart of carts) {
+    for (const item of cart.items || []) {
+      add(String(item.product), item.quantity)
+      for (const piece of item.comboSelection?.pieces || []) {
+        add(`${item.product}:${piece}`, item.quantity)
+      }
+    }
+  }
+  return held
+}
@@ -0,0 +1,172 @@
+import mongoose from 'mongoose'
+import { addMonths, addWeeks, startOfDay } from 'date-fns'
+import * as models from '../models'
+import type { IInstallment, IInstallmentPlan, ISale, InstallmentFrequency } from '../models/Sale'
+import { daysBetween } from './aging'
+import { roundMoney } from './checkout'
+
+// ============================================================
+// INSTALLMENT PLANS
+// ============================================================
+
+export const INSTALLMENT_FREQUENCIES: InstallmentFrequency[] = ['WEEKLY', 'BIWEEKLY', 'MONTHLY']
+
+const MAX_INSTALLMENTS = 60
+
+const dueDateAt = (first: Date, frequency: InstallmentFrequency, index: number): Date =>
+  frequency === 'MONTHLY'
+    ? addMonths(first, index)
+    : addWeeks(first, frequency === 'BIWEEKLY' ? index * 2 : index)
+
+/**
+ * Splits what is left of a sale after the down payment, plus the markup on it, into equal
+ * instalments; the last one takes the rounding so the schedule adds up to the cent.
+ */
+export function buildInstallmentPlan({
+  saleAmount,
+  downPayment,
+  numberOfInstallments,
+  frequency,
+  markupPercent,
+  firstDueDate
+}: {
+  saleAmount: number
+  downPayment?: number
+  numberOfInstallments: number
+  frequency: string
+  markupPercent?: number
+  firstDueDate: Date | string
+}): IInstallmentPlan {
+  const down = roundMoney(Math.max(0, Number(downPayment) || 0))
+  const financedAmount = roundMoney(saleAmount - down)
+  if (financedAmount <= 0) {
+    throw new Error('The down payment covers the whole sale; take it as a cash sale instead')
+  }
+
+  const count = Number(numberOfInstallments)
+  if (!Number.isInteger(count) || count < 1 || count > MAX_INSTALLMENTS) {
+    throw new Error(`Number of instalments must be a whole number from 1 to ${MAX_INSTALLMENTS}`)
+  }
+  if (!INSTALLMENT_FREQUENCIES.includes(frequency as InstallmentFrequency)) {
+    throw new Error('Choose how often the instalments are due')
+  }
+
+  const percent = Number(markupPercent) || 0
+  if (percent < 0 || percent > 100) throw new Error('Markup must be between 0% and 100%')
+
+  const first = startOfDay(new Date(firstDueDate))
+  if (Number.isNaN(first.getTime())) throw new Error('Enter the date the first instalment is due')
+  if (first < startOfDay(new Date())) {
+    throw new Error('The first instalment cannot be due in the past')
+  }
+
+  const markupAmount = roundMoney((financedAmount * percent) / 100)
+  const repayable = roundMoney(financedAmount + markupAmount)
+  const regular = Math.floor((repayable / count) * 100) / 100
+  const installments: IInstallment[] = Array.from({ length: count }, (_, index) => ({
+    number: index + 1,
+    dueDate: dueDateAt(first, frequency as InstallmentFrequency, index),
+    amount: index === count - 1 ? roundMoney(repayable - regular * (count - 1)) : regular,
+    paidAmount: 0
+  }))
+
+  return {
+    downPayment: down,
+    financedAmount,
+    markupPercent: percent,
+    markupAmount,
+    numberOfInstallments: count,
+    frequency: frequency as InstallmentFrequency,
+    firstDueDate: first,
+    installments
+  }
+}
+
+// Pays instalments off oldest first; returns whatever is left once every one is paid
+export function applyInstallmentPayment(
+  installments: IInstallment[],
+  amount: number,
+  date: Date = new Date()
+): number {
+  let remaining = roundMoney(amount)
+  for (const installment of [...installments].sort((a, b) => a.number - b.number)) {
+    if (remaining <= 0) break
+    const open = roundMoney(installment.amount - (installment.paidAmount || 0))
+    if (open <= 0) continue
+    const applied = Math.min(open, remaining)
+    installment.paidAmount = roundMoney((installment.paidAmount || 0) + applied)
+    if (installment.paidAmount >= installment.amount) installment.paidAt = date
+    remaining = roundMoney(remaining - applied)
+  }
+  return remaining
+}
+
+export interface OverdueInstallmentRow {
+  sale: string
+  invoiceNumber: string
+  customer: string | null
+  customerName: string
+  phone: string
+  number: number
+  numberOfInstallments: number
+  dueDate: Date
+  amount: number
+  paidAmount: number
+  due: number
+  daysOverdue: number
+}
+
+/**
+ * Instalments past their due date and not fully paid, longest overdue first. A payment due
+ * today is not overdue until the day is over.
+ */
+export async function buildOverdueInstallments({
+  storeId,
+  customerId,
+  asOf = new Date()
+}: {
+  storeId?: mongoose.Types.ObjectId | string
+  customerId?: mongoose.Types.ObjectId | string
+  asOf?: Date
+}): Promise<{ rows: OverdueInstallmentRow[]; totalDue: number }> {
+  const cutoff = startOfDay(asOf)
+  const query: Record<string, unknown> = {
+    paymentStatus: { $in: ['PENDING', 'PARTIAL'] },
+    'installmentPlan.installments.dueDate': { $lt: cutoff }
+  }
+  if (storeId) query.store = storeId
+  if (customerId) query.customer = customerId
+
+  const sales: ISale[] = await models.Sale.find(query)
+    .select('invoiceNumber customer installmentPlan')
+    .populate('customer', 'name phone')
+    .lean()
+
+  const rows: OverdueInstallmentRow[] = []
+  for (const sale of sales) {
+    const customer: any = sale.customer
+    const plan = sale.installmentPlan
+    if (!plan) continue
+    for (const installment of plan.installments) {
+      const due = roundMoney(installment.amount - (installment.paidAmount || 0))
+      if (due <= 0 || new Date(installment.dueDate) >= cutoff) continue
+      rows.push({
+        sale: String(sale._id),
+        invoiceNumber: sale.invoiceNumber,
+        customer: customer?._id ? String(customer._id) : null,
+        customerName: customer?.name || 'Deleted customer',
+        phone: customer?.phone || '',
+        number: installment.number,
+        numberOfInstallments: plan.numberOfInstallments,
+        dueDate: installment.dueDate,
+        amount: installment.amount,
+        paidAmount: installment.paidAmount || 0,
+        due,
+        daysOverdue: daysBetween(installment.dueDate, cutoff)
+      })
+    }
+  }
+
+  rows.sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime())
+  return { rows, totalDue: roundMoney(rows.reduce((sum, row) => sum + row.due, 0)) }
+}
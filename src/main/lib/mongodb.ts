@@ -38,6 +38,14 @@ export async function connectToDatabase() {
   }
 }
 
+// Runs `work` inside a MongoDB transaction. Every write must pass the session along;
+// if anything throws, all writes made through that session are rolled back.
+export async function runInTransaction<T>(
+  work: (session: mongoose.ClientSession) => Promise<T>
+): Promise<T> {
+  return mongoose.connection.transaction(work)
+}
+
 export async function disconnectFromDatabase() {
   if (!isConnected) return
 
@@ -0,0 +1,129 @@
+import mongoose from 'mongoose'
+import * as models from '../models'
+import type { DocumentType, IDocumentCounter } from '../models/DocumentCounter'
+import type { IDocumentNumbering } from '../models/Store'
+
+// ============================================================
+// DOCUMENT NUMBERING
+// ============================================================
+
+const NUMBERING_SETTINGS: Record<
+  DocumentType,
+  {
+    key:
+      | 'invoice'
+      | 'purchaseOrder'
+      | 'expense'
+      | 'quotation'
+      | 'shift'
+      | 'stockCount'
+      | 'goodsReceipt'
+      | 'supplierReturn'
+    defaultPrefix: (code: string) => string
+  }
+> = {
+  INVOICE: { key: 'invoice', defaultPrefix: (code) => code },
+  PURCHASE_ORDER: { key: 'purchaseOrder', defaultPrefix: (code) => `${code}-PO` },
+  EXPENSE: { key: 'expense', defaultPrefix: (code) => `${code}-EXP` },
+  QUOTATION: { key: 'quotation', defaultPrefix: (code) => `${code}-QT` },
+  SHIFT: { key: 'shift', defaultPrefix: (code) => `${code}-Z` },
+  STOCK_COUNT: { key: 'stockCount', defaultPrefix: (code) => `${code}-SC` },
+  GOODS_RECEIPT: { key: 'goodsReceipt', defaultPrefix: (code) => `${code}-GRN` },
+  SUPPLIER_RETURN: { key: 'supplierReturn', defaultPrefix: (code) => `${code}-RTN` }
+}
+
+export function formatDocumentNumber({
+  prefix,
+  year,
+  sequence,
+  padding
+}: {
+  prefix: string
+  year?: number
+  sequence: number
+  padding: number
+}): string {
+  return [prefix, year || null, String(sequence).padStart(padding, '0')]
+    .filter((part) => part !== null && part !== '')
+    .join('-')
+}
+
+/**
+ * Hands out the next number for one kind of a store's documents (invoices, purchase orders,
+ * stock counts and so on), e.g. LHR-2026-000123. The counter is bumped atomically, so two
+ * tills never get the same number; pass the session of the write that uses it so a rollback
+ * gives the number back.
+ */
+export async function nextDocumentNumber({
+  storeId,
+  documentType,
+  date = new Date(),
+  session
+}: {
+  storeId: mongoose.Types.ObjectId | string
+  documentType: DocumentType
+  date?: Date
+  session?: mongoose.ClientSession
+}): Promise<string> {
+  const { key, defaultPrefix } = NUMBERING_SETTINGS[documentType]
+  const store = await models.Store.findById(storeId)
+    .select(`code settings.numbering.${key}`)
+    .session(session || null)
+    .lean<{
+      code: string
+      settings?: { numbering?: Partial<Record<string, Partial<IDocumentNumbering>>> }
+    }>()
+  if (!store) throw new Error('Store not found')
+
+  const config = store.settings?.numbering?.[key] || {}
+  const prefix = String(config.prefix || '').trim() || defaultPrefix(store.code)
+  const yearlyReset = config.yearlyReset !== false
+  const year = yearlyReset ? date.getFullYear() : 0
+
+  // Two tills numbering their first document of the year can race to insert the counter;
+  // the loser hits the unique index and goes again, finding the row the winner created.
+  // Inside a transaction the server has already aborted it, so the error is marked
+  // transient and the whole transaction is retried instead.
+  const bump = (): Promise<IDocumentCounter> =>
+    models.DocumentCounter.findOneAndUpdate(
+      { store: storeId, documentType, year },
+      { $inc: { sequence: 1 } },
+      { new: true, upsert: true, setDefaultsOnInsert: true, session }
+    )
+  const counter = await bump().catch((error) => {
+    if (error?.code !== 11000) throw error
+    if (!session) return bump()
+    error.addErrorLabel?.('TransientTransactionError')
+    throw error
+  })
+
+  return formatDocumentNumber({
+    prefix,
+    year,
+    sequence: counter.sequence,
+    padding: config.padding || 6
+  })
+}
+
+// Numbers used to be unique across every store; they are now unique per store. Databases
+// created before that still carry the old single-field indexes, which would reject a
+// second store's LHR-2026-000001, so they are dropped once on startup.
+export async function dropStoreWideNumberIndexes(): Promise<void> {
+  const legacy: Array<[mongoose.Model<any>, string]> = [
+    [models.Sale, 'invoiceNumber_1'],
+    [models.PurchaseOrder, 'poNumber_1'],
+    [models.Expense, 'expenseNumber_1'],
+    [models.StockCount, 'countNumber_1'],
+    [models.SupplierReturn, 'returnNumber_1']
+  ]
+  for (const [model, indexName] of legacy) {
+    try {
+      const indexes = await model.collection.indexes()
+      if (indexes.some((index) => index.name === indexName)) {
+        await model.collection.dropIndex(indexName)
+      }
+    } catch {
+      // The collection does not exist yet, so there is nothing to drop
+    }
+  }
+}
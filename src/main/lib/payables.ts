@@ -0,0 +1,294 @@
+import mongoose from 'mongoose'
+import * as models from '../models'
+import type { IPurchaseOrder } from '../models/PurchaseOrder'
+import { ageAmounts, type AgingBuckets } from './aging'
+
+// ============================================================
+// SUPPLIER PAYABLES
+// ============================================================
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+// What the supplier is owed for an order so far: the value of the goods received against
+// it, less any debit notes from returns. Ordered but undelivered goods are not a payable yet.
+export function purchaseOrderPayable(
+  po: Pick<IPurchaseOrder, 'receipts' | 'returnedAmount'>
+): number {
+  const received = (po.receipts || []).reduce((sum, receipt) => sum + (receipt.value || 0), 0)
+  return round2(received - (po.returnedAmount || 0))
+}
+
+export function purchaseOrderDue(
+  po: Pick<IPurchaseOrder, 'receipts' | 'returnedAmount' | 'paidAmount'>
+): number {
+  return Math.max(0, round2(purchaseOrderPayable(po) - (po.paidAmount || 0)))
+}
+
+// Payment status is measured against the full order, so a paid-up partial delivery
+// still reads PARTIAL until the rest arrives and is paid for
+export function purchasePaymentStatus(
+  paidAmount: number,
+  totalAmount: number
+): IPurchaseOrder['paymentStatus'] {
+  if (paidAmount <= 0) return 'UNPAID'
+  return paidAmount >= totalAmount - 0.005 ? 'PAID' : 'PARTIAL'
+}
+
+// Received orders with something still owed on them, oldest first
+export async function getOutstandingPurchaseOrders(
+  supplierId: mongoose.Types.ObjectId | string,
+  session?: mongoose.ClientSession
+): Promise<IPurchaseOrder[]> {
+  const orders: IPurchaseOrder[] = await models.PurchaseOrder.find({
+    supplier: supplierId,
+    status: { $in: ['PARTIAL', 'RECEIVED'] }
+  })
+    .sort({ purchaseDate: 1, createdAt: 1 })
+    .session(session || null)
+  return orders.filter((po) => purchaseOrderDue(po) > 0)
+}
+
+export interface PaymentAllocation {
+  purchaseOrder: IPurchaseOrder
+  amount: number
+}
+
+/**
+ * Splits a supplier payment over their outstanding orders. With `requested` the caller
+ * picks the orders and amounts; without it the payment goes to the oldest orders first.
+ * Whatever is not allocated settles balance that is not tied to an order (opening
+ * balance, restocks). Throws when a requested allocation is not payable.
+ */
+export async function allocateSupplierPayment({
+  supplierId,
+  amount,
+  requested,
+  session
+}: {
+  supplierId: mongoose.Types.ObjectId | string
+  amount: number
+  requested?: Array<{ purchaseOrder: string; amount: number }>
+  session?: mongoose.ClientSession
+}): Promise<PaymentAllocation[]> {
+  const orders = await getOutstandingPurchaseOrders(supplierId, session)
+
+  if (requested) {
+    const allocations: PaymentAllocation[] = []
+    for (const entry of requested) {
+      const share = round2(Number(entry.amount) || 0)
+      if (share <= 0) continue
+      const po = orders.find((order) => String(order._id) === String(entry.purchaseOrder))
+      if (!po) throw new Error('A selected purchase order has nothing left to pay')
+      const due = purchaseOrderDue(po)
+      if (share > due + 0.005) {
+        throw new Error(`Only Rs. ${due.toLocaleString()} is due on ${po.poNumber}`)
+      }
+      allocations.push({ purchaseOrder: po, amount: share })
+    }
+    const allocated = allocations.reduce((sum, allocation) => sum + allocation.amount, 0)
+    if (allocated > amount + 0.005) {
+      throw new Error('The amounts allocated to orders are more than the payment')
+    }
+    return allocations
+  }
+
+  const allocations: PaymentAllocation[] = []
+  let remaining = round2(amount)
+  for (const po of orders) {
+    if (remaining <= 0) break
+    const share = Math.min(remaining, purchaseOrderDue(po))
+    allocations.push({ purchaseOrder: po, amount: share })
+    remaining = round2(remaining - share)
+  }
+  return allocations
+}
+
+// ============================================================
+// SUPPLIER STATEMENT
+// ============================================================
+
+export interface StatementRow {
+  date: Date
+  type: 'OPENING' | 'STOCK' | 'RECEIPT' | 'CANCELLATION' | 'RETURN' | 'PAYMENT'
+  reference: string
+  description: string
+  // Debits reduce what we owe the supplier, credits add to it
+  debit: number
+  credit: number
+  balance: number
+}
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Every document that moved the supplier's balance, oldest first, unbalanced
+async function supplierMovements(supplier: {
+  _id: mongoose.Types.ObjectId
+  name: string
+  openingBalance?: number
+  createdAt: Date
+}): Promise<Omit<StatementRow, 'balance'>[]> {
+  const rows: Omit<StatementRow, 'balance'>[] = []
+
+  if (supplier.openingBalance) {
+    rows.push({
+      date: supplier.createdAt,
+      type: 'OPENING',
+      reference: '-',
+      description: 'Opening balance',
+      debit: 0,
+      credit: supplier.openingBalance
+    })
+  }
+
+  const entries = await models.StockEntry.find({
+    supplier: supplier._id,
+    entryType: { $in: ['INITIAL_STOCK', 'RESTOCK'] }
+  })
+    .populate('product', 'name')
+    .lean()
+  for (const entry of entries as any[]) {
+    if (!entry.totalCost) continue
+    rows.push({
+      date: entry.purchaseDate || entry.createdAt,
+      type: 'STOCK',
+      reference: entry.invoiceNumber || '-',
+      description: `${entry.entryType === 'RESTOCK' ? 'Restock' : 'Opening stock'}: ${
+        entry.product?.name || 'Deleted product'
+      } x ${entry.quantity}`,
+      debit: 0,
+      credit: entry.totalCost
+    })
+  }
+
+  const orders = await models.PurchaseOrder.find({
+    supplier: supplier._id,
+    'receipts.0': { $exists: true }
+  }).lean()
+  for (const po of orders as IPurchaseOrder[]) {
+    for (const receipt of po.receipts) {
+      rows.push({
+        date: receipt.receivedDate,
+        type: 'RECEIPT',
+        reference: receipt.grnNumber,
+        description: `Goods received on ${po.poNumber}`,
+        debit: 0,
+        credit: receipt.value || 0
+      })
+    }
+    if (po.status === 'CANCELLED' && po.cancelledAt) {
+      rows.push({
+        date: po.cancelledAt,
+        type: 'CANCELLATION',
+        reference: po.poNumber,
+        description: `${po.poNumber} cancelled`,
+        debit: round2(po.receipts.reduce((sum, receipt) => sum + (receipt.value || 0), 0)),
+        credit: 0
+      })
+    }
+  }
+
+  const returns = await models.SupplierReturn.find({ supplier: supplier._id })
+    .populate('purchaseOrder', 'poNumber')
+    .lean()
+  for (const doc of returns as any[]) {
+    rows.push({
+      date: doc.returnDate,
+      type: 'RETURN',
+      reference: doc.returnNumber,
+      description: `Debit note${doc.purchaseOrder ? ` on ${doc.purchaseOrder.poNumber}` : ''}`,
+      debit: doc.totalAmount,
+      credit: 0
+    })
+  }
+
+  // Payments recorded before expenses carried the supplier are matched by description
+  const payments = await models.Expense.find({
+    category: 'Supplier Payment',
+    $or: [
+      { supplier: supplier._id },
+      {
+        supplier: { $exists: false },
+        description: { $regex: `^Supplier payment: ${escapeRegex(supplier.name)}( - |$)` }
+      }
+    ]
+  }).lean()
+  for (const payment of payments as any[]) {
+    rows.push({
+      date: payment.expenseDate,
+      type: 'PAYMENT',
+      reference: payment.expenseNumber,
+      description: `Payment (${payment.paymentMethod})`,
+      debit: payment.amount,
+      credit: 0
+    })
+  }
+
+  return rows.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+}
+
+// Debits settle the oldest credits first; whatever is left is aged by its own date
+function ageCredits(rows: Omit<StatementRow, 'balance'>[], asOf: Date): AgingBuckets {
+  const open = rows
+    .filter((row) => row.credit > 0)
+    .map((row) => ({ date: new Date(row.date), amount: row.credit }))
+  let settled = rows.reduce((sum, row) => sum + row.debit, 0)
+  for (const credit of open) {
+    if (settled <= 0) break
+    const take = Math.min(settled, credit.amount)
+    credit.amount -= take
+    settled -= take
+  }
+
+  return ageAmounts(open, asOf)
+}
+
+/**
+ * Supplier ledger for a period: the balance brought forward, each movement with a running
+ * balance, and the closing balance aged into 0-30/31-60/61-90/90+ day buckets as of the
+ * period end.
+ */
+export async function buildSupplierStatement({
+  supplierId,
+  startDate,
+  endDate
+}: {
+  supplierId: mongoose.Types.ObjectId | string
+  startDate?: Date
+  endDate?: Date
+}): Promise<{
+  broughtForward: number
+  rows: StatementRow[]
+  totals: { debit: number; credit: number }
+  closingBalance: number
+  aging: AgingBuckets
+}> {
+  const supplier = await models.Supplier.findById(supplierId).lean()
+  if (!supplier) throw new Error('Supplier not found')
+
+  const asOf = endDate || new Date()
+  const movements = (await supplierMovements(supplier as any)).filter(
+    (row) => new Date(row.date) <= asOf
+  )
+
+  let balance = 0
+  const rows: StatementRow[] = []
+  for (const row of movements) {
+    balance = round2(balance + row.credit - row.debit)
+    if (startDate && new Date(row.date) < startDate) continue
+    rows.push({ ...row, balance })
+  }
+  const broughtForward = round2(
+    rows.length ? rows[0].balance - rows[0].credit + rows[0].debit : balance
+  )
+
+  return {
+    broughtForward,
+    rows,
+    totals: {
+      debit: round2(rows.reduce((sum, row) => sum + row.debit, 0)),
+      credit: round2(rows.reduce((sum, row) => sum + row.credit, 0))
+    },
+    closingBalance: balance,
+    aging: ageCredits(movements, asOf)
+  }
+}
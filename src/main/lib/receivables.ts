@@ -0,0 +1,290 @@
+import mongoose from 'mongoose'
+import * as models from '../models'
+import type { ISale } from '../models/Sale'
+import { ageAmounts, daysBetween, sumAging, type AgingBuckets } from './aging'
+
+// ============================================================
+// CUSTOMER RECEIVABLES
+// ============================================================
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+export const saleDue = (sale: Pick<ISale, 'totalAmount' | 'paidAmount'>): number =>
+  Math.max(0, round2((sale.totalAmount || 0) - (sale.paidAmount || 0)))
+
+export interface CustomerStatementRow {
+  date: Date
+  type: 'OPENING' | 'INVOICE' | 'PAYMENT' | 'REFUND'
+  reference: string
+  description: string
+  // Debits are charged to the customer, credits are what they paid or got back
+  debit: number
+  credit: number
+  balance: number
+}
+
+async function openSales(
+  query: Record<string, unknown>,
+  session?: mongoose.ClientSession
+): Promise<ISale[]> {
+  const sales: ISale[] = await models.Sale.find({
+    ...query,
+    paymentStatus: { $in: ['PENDING', 'PARTIAL'] }
+  })
+    .sort({ saleDate: 1 })
+    .session(session || null)
+    .lean()
+  return sales.filter((sale) => saleDue(sale) > 0)
+}
+
+/**
+ * Customer ledger for a period: invoices, payments and refunds with a running balance, and
+ * the unpaid invoices aged by days since the sale. Balance the customer carried in when
+ * they were created is not tied to an invoice, so it opens the ledger on their creation date.
+ */
+export async function buildCustomerStatement({
+  customerId,
+  startDate,
+  endDate
+}: {
+  customerId: mongoose.Types.ObjectId | string
+  startDate?: Date
+  endDate?: Date
+}): Promise<{
+  broughtForward: number
+  rows: CustomerStatementRow[]
+  totals: { debit: number; credit: number }
+  closingBalance: number
+  aging: AgingBuckets
+}> {
+  const customer = await models.Customer.findById(customerId).lean()
+  if (!customer) throw new Error('Customer not found')
+
+  const asOf = endDate || new Date()
+  const sales: ISale[] = await models.Sale.find({ customer: customerId })
+    .sort({ saleDate: 1 })
+    .lean()
+  const open = sales.filter(
+    (sale) => ['PENDING', 'PARTIAL'].includes(sale.paymentStatus) && saleDue(sale) > 0
+  )
+  const openingBalance = Math.max(
+    0,
+    round2((customer as any).balance - open.reduce((sum, sale) => sum + saleDue(sale), 0))
+  )
+
+  const movements: Omit<CustomerStatementRow, 'balance'>[] = []
+  if (openingBalance > 0) {
+    movements.push({
+      date: (customer as any).createdAt,
+      type: 'OPENING',
+      reference: '-',
+      description: 'Opening balance',
+      debit: openingBalance,
+      credit: 0
+    })
+  }
+
+  for (const sale of sales) {
+    movements.push({
+      date: sale.saleDate,
+      type: 'INVOICE',
+      reference: sale.invoiceNumber,
+      description: `Invoice (${sale.items.length} item${sale.items.length === 1 ? '' : 's'})`,
+      debit: sale.totalAmount,
+      credit: 0
+    })
+
+    // Older sales only kept later settlements in the payment history; whatever it does not
+    // account for was paid at the till
+    const laterPayments = (sale.paymentHistory || []).reduce(
+      (sum, payment) => sum + (payment.amount || 0),
+      0
+    )
+    const paidAtSale = round2((sale.paidAmount || 0) - laterPayments)
+    if (paidAtSale > 0) {
+      movements.push({
+        date: sale.saleDate,
+        type: 'PAYMENT',
+        reference: sale.invoiceNumber,
+        description: `Paid at sale (${sale.paymentMethod})`,
+        debit: 0,
+        credit: paidAtSale
+      })
+    }
+    for (const payment of sale.paymentHistory || []) {
+      movements.push({
+        date: payment.date,
+        type: 'PAYMENT',
+        reference: sale.invoiceNumber,
+        description: `${payment.atSale ? 'Paid at sale' : 'Payment'} (${payment.method})${
+          payment.notes ? ` - ${payment.notes}` : ''
+        }`,
+        debit: 0,
+        credit: payment.amount
+      })
+    }
+    // A refund credits the returned goods and pays the same amount back, so it leaves
+    // the balance where it was
+    for (const refund of sale.refundHistory || []) {
+      movements.push({
+        date: refund.date,
+        type: 'REFUND',
+        reference: sale.invoiceNumber,
+        description: `Goods returned, refunded by ${refund.method}${
+          refund.reason ? ` - ${refund.reason}` : ''
+        }`,
+        debit: refund.amount,
+        credit: refund.amount
+      })
+    }
+  }
+
+  const dated = movements
+    .filter((row) => new Date(row.date) <= asOf)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+  let balance = 0
+  let broughtForward = 0
+  const rows: CustomerStatementRow[] = []
+  for (const row of dated) {
+    balance = round2(balance + row.debit - row.credit)
+    if (startDate && new Date(row.date) < startDate) {
+      broughtForward = balance
+      continue
+    }
+    rows.push({ ...row, balance })
+  }
+
+  const agingItems = open
+    .filter((sale) => new Date(sale.saleDate) <= asOf)
+    .map((sale) => ({ date: sale.saleDate, amount: saleDue(sale) }))
+  if (openingBalance > 0) {
+    agingItems.unshift({ date: (customer as any).createdAt, amount: openingBalance })
+  }
+
+  return {
+    broughtForward,
+    rows,
+    totals: {
+      debit: round2(rows.reduce((sum, row) => sum + row.debit, 0)),
+      credit: round2(rows.reduce((sum, row) => sum + row.credit, 0))
+    },
+    closingBalance: balance,
+    aging: ageAmounts(agingItems, asOf)
+  }
+}
+
+export interface ReceivablesAgingRow {
+  customer: string | null
+  name: string
+  phone: string
+  openInvoices: number
+  oldestSaleDate: Date
+  daysOverdue: number
+  aging: AgingBuckets
+}
+
+// Every unpaid sale in the store, grouped by customer and bucketed by days since the sale
+export async function buildReceivablesAging({
+  storeId,
+  asOf = new Date()
+}: {
+  storeId: mongoose.Types.ObjectId | string
+  asOf?: Date
+}): Promise<{ rows: ReceivablesAgingRow[]; totals: AgingBuckets }> {
+  const sales = await openSales({ store: storeId, saleDate: { $lte: asOf } })
+  const customerIds = [...new Set(sales.map((sale) => sale.customer).filter(Boolean))]
+  const customers = await models.Customer.find({ _id: { $in: customerIds } })
+    .select('name phone')
+    .lean()
+  const customerById = new Map(customers.map((customer: any) => [String(customer._id), customer]))
+
+  const groups = new Map<string, ISale[]>()
+  for (const sale of sales) {
+    const key = sale.customer ? String(sale.customer) : ''
+    groups.set(key, [...(groups.get(key) || []), sale])
+  }
+
+  const rows: ReceivablesAgingRow[] = [...groups.entries()].map(([key, customerSales]) => {
+    const customer: any = key ? customerById.get(key) : null
+    const oldestSaleDate = customerSales[0].saleDate
+    return {
+      customer: key || null,
+      name: customer?.name || (key ? 'Deleted customer' : 'Walk-in (no customer)'),
+      phone: customer?.phone || '',
+      openInvoices: customerSales.length,
+      oldestSaleDate,
+      daysOverdue: daysBetween(oldestSaleDate, asOf),
+      aging: ageAmounts(
+        customerSales.map((sale) => ({ date: sale.saleDate, amount: saleDue(sale) })),
+        asOf
+      )
+    }
+  })
+
+  // The longest-outstanding money first, so the first rows are who to chase
+  rows.sort(
+    (a, b) =>
+      b.aging.over90 - a.aging.over90 ||
+      b.aging.days61to90 - a.aging.days61to90 ||
+      b.aging.days31to60 - a.aging.days31to60 ||
+      b.aging.total - a.aging.total
+  )
+
+  return { rows, totals: sumAging(rows.map((row) => row.aging)) }
+}
+
+// ============================================================
+// CREDIT CHECKS
+// ============================================================
+
+// Payment methods that leave part of the sale on the customer's account
+export const CREDIT_PAYMENT_METHODS = ['Credit', 'Installment']
+
+export type CreditCheckResult =
+  | { allowed: true }
+  | { allowed: false; rule: 'CREDIT_LIMIT' | 'OVERDUE'; message: string }
+
+/**
+ * Whether a customer may take `amount` more on account, against their credit limit and
+ * their oldest unpaid sale. Customers with neither rule set are always allowed.
+ */
+export async function checkCustomerCredit({
+  customerId,
+  amount,
+  session
+}: {
+  customerId: mongoose.Types.ObjectId | string
+  amount: number
+  session?: mongoose.ClientSession
+}): Promise<CreditCheckResult> {
+  const customer: any = await models.Customer.findById(customerId)
+    .session(session || null)
+    .lean()
+  if (!customer) return { allowed: true }
+
+  if (customer.creditLimit !== null && customer.creditLimit !== undefined) {
+    const owed = round2((customer.balance || 0) + amount)
+    if (owed > customer.creditLimit + 0.005) {
+      return {
+        allowed: false,
+        rule: 'CREDIT_LIMIT',
+        message: `${customer.name} would owe Rs. ${owed.toLocaleString()}, over their credit limit of Rs. ${customer.creditLimit.toLocaleString()} (current balance Rs. ${(customer.balance || 0).toLocaleString()})`
+      }
+    }
+  }
+
+  if (customer.maxDaysOverdue !== null && customer.maxDaysOverdue !== undefined) {
+    const [oldest] = await openSales({ customer: customer._id }, session)
+    const days = oldest ? daysBetween(oldest.saleDate, new Date()) : 0
+    if (oldest && days > customer.maxDaysOverdue) {
+      return {
+        allowed: false,
+        rule: 'OVERDUE',
+        message: `${customer.name} has invoice ${oldest.invoiceNumber} unpaid for ${days} days (allowed: ${customer.maxDaysOverdue})`
+      }
+    }
+  }
+
+  return { allowed: true }
+}
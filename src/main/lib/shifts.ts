@@ -0,0 +1,210 @@
+import mongoose from 'mongoose'
+import * as models from '../models'
+import type { ISale } from '../models/Sale'
+import type { IDenominationCount, IShift } from '../models/Shift'
+import { isStoreManager } from './approvals'
+import { roundMoney } from './checkout'
+import { CREDIT_PAYMENT_METHODS } from './receivables'
+import { tenderTotals, type TenderTotal } from './tenders'
+
+// ============================================================
+// TILL SHIFTS
+// ============================================================
+
+/**
+ * The open shift a cashier is ringing up sales on in a store, if any. Sales are linked to
+ * it so the drawer can be cashed up against them at closing.
+ */
+export async function findOpenShift({
+  storeId,
+  userId,
+  session
+}: {
+  storeId: mongoose.Types.ObjectId | string
+  userId: mongoose.Types.ObjectId | string
+  session?: mongoose.ClientSession
+}): Promise<IShift | null> {
+  return models.Shift.findOne({ store: storeId, openedBy: userId, status: 'OPEN' }).session(
+    session || null
+  )
+}
+
+// Only the cashier who opened a shift works its drawer, unless a manager steps in
+export async function canWorkShift({
+  shift,
+  userId,
+  session
+}: {
+  shift: IShift
+  userId: mongoose.Types.ObjectId | string
+  session?: mongoose.ClientSession
+}): Promise<boolean> {
+  if (!userId) return false
+  if (String(shift.openedBy) === String(userId)) return true
+  return isStoreManager({ userId, storeId: shift.store, session })
+}
+
+// Counted cash from the notes and coins on the cash-up sheet
+export function countedCashFrom(denominations: IDenominationCount[]): number {
+  return roundMoney(
+    (denominations || []).reduce(
+      (sum, line) => sum + (Number(line.value) || 0) * (Number(line.count) || 0),
+      0
+    )
+  )
+}
+
+const groupByMethod = (
+  entries: Array<{ method: string; channel?: string; amount: number }>
+): TenderTotal[] => {
+  const totals = new Map<string, TenderTotal>()
+  for (const entry of entries) {
+    if (!(entry.amount > 0)) continue
+    const key = `${entry.method}:${entry.channel || ''}`
+    const total = totals.get(key) || {
+      method: entry.method,
+      channel: entry.channel,
+      count: 0,
+      amount: 0
+    }
+    total.count += 1
+    total.amount = roundMoney(total.amount + entry.amount)
+    totals.set(key, total)
+  }
+  return [...totals.values()].sort((a, b) => b.amount - a.amount)
+}
+
+// Only cash tenders go into the drawer; cards and transfers settle to the bank
+const cashIn = (totals: TenderTotal[]): number =>
+  roundMoney(
+    totals.filter((total) => total.method === 'Cash').reduce((sum, total) => sum + total.amount, 0)
+  )
+
+// What a credit or instalment sale took at the till; sales booked before payments were
+// marked as taken at the sale count what was paid beyond their later payments
+const downPayment = (sale: ISale): number => {
+  if (!CREDIT_PAYMENT_METHODS.includes(sale.paymentMethod)) return 0
+  const history = sale.paymentHistory || []
+  const atSale = history.filter((payment) => payment.atSale)
+  const paid = atSale.length
+    ? atSale.reduce((sum, payment) => sum + payment.amount, 0)
+    : sale.paidAmount - history.reduce((sum, payment) => sum + (payment.amount || 0), 0)
+  return roundMoney(Math.max(0, paid))
+}
+
+export interface ShiftReport {
+  sales: {
+    count: number
+    subtotal: number
+    discountAmount: number
+    taxAmount: number
+    totalAmount: number
+    // Part payments taken on credit and installment sales, which record no tender
+    downPayments: number
+    // Left on the customer's account (credit and installment sales)
+    onAccount: number
+    changeGiven: number
+  }
+  // What the till took when the sales were booked
+  tenders: TenderTotal[]
+  // Earlier sales settled by the cashier during the shift
+  payments: TenderTotal[]
+  refunds: TenderTotal[]
+  payIns: number
+  payOuts: number
+  cash: {
+    openingFloat: number
+    sales: number
+    // Taken in cash and posted to Cash in Hand with the sale
+    downPayments: number
+    payments: number
+    refunds: number
+    payIns: number
+    payOuts: number
+    expected: number
+  }
+}
+
+/**
+ * The X report for a shift: its sales, the payments and refunds put through its drawer,
+ * and the cash that should be in the drawer. Closing freezes the same figures into the Z
+ * report; pass the closing transaction's session so it reads what that transaction sees.
+ */
+export async function buildShiftReport(
+  shift: IShift,
+  session?: mongoose.ClientSession
+): Promise<ShiftReport> {
+  const sales: ISale[] = await models.Sale.find({ shift: shift._id })
+    .session(session || null)
+    .lean()
+
+  // Later payments and refunds carry the shift whose drawer they went through
+  const touched: ISale[] = await models.Sale.find({
+    $or: [{ 'paymentHistory.shift': shift._id }, { 'refundHistory.shift': shift._id }]
+  })
+    .select('paymentHistory refundHistory')
+    .session(session || null)
+    .lean()
+
+  const inShift = (entry: { shift?: mongoose.Types.ObjectId }): boolean =>
+    String(entry.shift) === String(shift._id)
+  const laterPayments = touched.flatMap((sale) =>
+    (sale.paymentHistory || []).filter((payment) => !payment.atSale && inShift(payment))
+  )
+  const refundRecords = touched.flatMap((sale) => (sale.refundHistory || []).filter(inShift))
+
+  const sum = (values: number[]): number => roundMoney(values.reduce((a, b) => a + (b || 0), 0))
+  const tenders = tenderTotals(sales)
+  const downPayments = sum(sales.map(downPayment))
+  const payments = groupByMethod(laterPayments)
+  const refunds = groupByMethod(refundRecords)
+  const movements = shift.cashMovements || []
+  const payIns = sum(movements.filter((m) => m.type === 'PAY_IN').map((m) => m.amount))
+  const payOuts = sum(movements.filter((m) => m.type === 'PAY_OUT').map((m) => m.amount))
+
+  const cash = {
+    openingFloat: roundMoney(shift.openingFloat || 0),
+    sales: cashIn(tenders),
+    downPayments,
+    payments: cashIn(payments),
+    refunds: cashIn(refunds),
+    payIns,
+    payOuts,
+    expected: 0
+  }
+  cash.expected = roundMoney(
+    cash.openingFloat +
+      cash.sales +
+      cash.downPayments +
+      cash.payments +
+      cash.payIns -
+      cash.payOuts -
+      cash.refunds
+  )
+
+  return {
+    sales: {
+      count: sales.length,
+      subtotal: sum(sales.map((sale) => sale.subtotal)),
+      discountAmount: sum(sales.map((sale) => sale.discountAmount)),
+      taxAmount: sum(sales.map((sale) => sale.taxAmount)),
+      totalAmount: sum(sales.map((sale) => sale.totalAmount)),
+      downPayments,
+      onAccount: roundMoney(
+        Math.max(
+          0,
+          sum(sales.map((sale) => sale.totalAmount)) -
+            sum(tenders.map((total) => total.amount)) -
+            downPayments
+        )
+      ),
+      changeGiven: sum(sales.map((sale) => sale.changeGiven || 0))
+    },
+    tenders,
+    payments,
+    refunds,
+    payIns,
+    payOuts,
+    cash
+  }
+}
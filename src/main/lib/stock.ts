@@ -0,0 +1,514 @@
+import mongoose from 'mongoose'
+import * as models from '../models'
+import type { IStockTransaction } from '../models/StockTransaction'
+import type { IStockEntry } from '../models/StockEntry'
+import type { ISaleCostLayer } from '../models/Sale'
+import type { IProduct } from '../models/Product'
+
+// ============================================================
+// STOCK MOVEMENT LEDGER
+// ============================================================
+
+export type StockMovementType = IStockTransaction['transactionType']
+
+interface StockMovement {
+  productId: mongoose.Types.ObjectId | string
+  storeId?: mongoose.Types.ObjectId | string
+  transactionType: StockMovementType
+  referenceType: string
+  referenceId: mongoose.Types.ObjectId | string
+  unitCost?: number
+  notes?: string
+  reason?: string
+  photo?: string
+  createdBy: mongoose.Types.ObjectId | string
+  session?: mongoose.ClientSession
+}
+
+const roundCost = (value: number): number => Math.round(value * 10000) / 10000
+
+// ============================================================
+// QUANTITIES
+// ============================================================
+
+// Meters are fractional, so quantities are kept to the millimetre to stop running
+// totals drifting (10 - 3.3 - 6.7 should be 0, not 8.9e-16)
+export const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000
+
+export async function getMeterStep(
+  storeId: mongoose.Types.ObjectId | string,
+  session?: mongoose.ClientSession
+): Promise<number> {
+  const store = await models.Store.findById(storeId)
+    .select('settings.meterStep')
+    .session(session || null)
+    .lean<{ settings?: { meterStep?: number } }>()
+  return store?.settings?.meterStep || 0.01
+}
+
+// Why a sale line's quantity is not sellable, or null when it is. Raw material sells in
+// multiples of the store's meter step and no shorter than the product's minimum cut;
+// everything else sells in whole units.
+export function saleQuantityError(
+  product: Pick<IProduct, 'name' | 'productKind' | 'minCutLength'>,
+  quantity: number,
+  meterStep: number
+): string | null {
+  if (!(quantity > 0)) return `Enter a quantity for ${product.name}`
+  if (product.productKind !== 'RAW_MATERIAL') {
+    return Number.isInteger(quantity) ? null : `${product.name} is sold in whole units`
+  }
+  const steps = quantity / meterStep
+  if (Math.abs(steps - Math.round(steps)) > 1e-6) {
+    return `${product.name} is cut in steps of ${meterStep} m`
+  }
+  if (product.minCutLength && quantity < product.minCutLength - 1e-9) {
+    return `The shortest cut of ${product.name} is ${product.minCutLength} m`
+  }
+  return null
+}
+
+// Appends a ledger row for stock that has already been written to the product.
+// `quantity` is signed: positive for stock in, negative for stock out.
+export async function recordStockMovement({
+  quantity,
+  balanceAfter,
+  ...movement
+}: StockMovement & { quantity: number; balanceAfter: number }): Promise<IStockTransaction | null> {
+  if (!quantity) return null
+
+  // A product's first movement starts its average at the cost that movement carried
+  await models.ProductStock.findOneAndUpdate(
+    { product: movement.productId },
+    {
+      $set: {
+        quantityInHand: Math.max(0, balanceAfter),
+        ...(movement.transactionType === 'SALE' && quantity < 0 ? { lastSaleDate: new Date() } : {})
+      },
+      $setOnInsert: { avgCostPrice: roundCost(movement.unitCost || 0) }
+    },
+    { upsert: true, session: movement.session }
+  )
+
+  const [row] = await models.StockTransaction.create(
+    [
+      {
+        product: movement.productId,
+        store: movement.storeId,
+        transactionType: movement.transactionType,
+        referenceType: movement.referenceType,
+        referenceId: movement.referenceId,
+        quantity,
+        unitCost: movement.unitCost,
+        balanceAfter,
+        notes: movement.notes,
+        reason: movement.reason,
+        photo: movement.photo,
+        createdBy: movement.createdBy
+      }
+    ],
+    { session: movement.session }
+  )
+  return row
+}
+
+// Moves stock with a single $inc and records the balance that update produced, so
+// concurrent movements on the same product each see their own running balance.
+// Raw materials keep totalMeters in step with stockLevel. Combo sets move the stock of
+// the `comboPieces` given (every component when none are) and keep the set's stockLevel
+// at its scarcest component. `set` carries any field updates (e.g. new buying price)
+// that belong to the same write. Costed purchases are folded into the product's
+// weighted-average cost before the stock moves, and backed out of it when reversed. A sale only takes stock that is still
+// there when it is written; otherwise it throws so the sale rolls back.
+export async function adjustStock({
+  quantity,
+  set,
+  comboPieces,
+  ...movement
+}: StockMovement & {
+  quantity: number
+  set?: Record<string, unknown>
+  comboPieces?: string[]
+}): Promise<IStockTransaction | null> {
+  if (!quantity && !set) return null
+
+  const product = await models.Product.findById(movement.productId)
+    .select('name productKind store stockLevel buyingPrice comboComponents')
+    .session(movement.session || null)
+  if (!product) return null
+
+  if (movement.transactionType === 'PURCHASE' && quantity > 0 && movement.unitCost !== undefined) {
+    await receiveAtAverageCost({
+      productId: product._id,
+      onHand: product.stockLevel || 0,
+      quantity,
+      unitCost: movement.unitCost,
+      fallbackCost: product.buyingPrice,
+      session: movement.session
+    })
+  }
+  if (movement.transactionType === 'PURCHASE' && quantity < 0 && movement.unitCost !== undefined) {
+    await releaseFromAverageCost({
+      productId: product._id,
+      onHand: product.stockLevel || 0,
+      quantity: -quantity,
+      unitCost: movement.unitCost,
+      fallbackCost: product.buyingPrice,
+      session: movement.session
+    })
+  }
+
+  const components = product.comboComponents || []
+  const isComboSet = product.productKind === 'COMBO_SET' && components.length > 0
+
+  const guardStock = movement.transactionType === 'SALE' && quantity < 0
+  const stockInc: Record<string, number> = {}
+  const filter: Record<string, unknown> = { _id: movement.productId }
+  if (isComboSet) {
+    components.forEach((component, index) => {
+      if (!comboPieces?.length || comboPieces.includes(component.name)) {
+        stockInc[`comboComponents.${index}.stockLevel`] = quantity
+        if (guardStock) filter[`comboComponents.${index}.stockLevel`] = { $gte: -quantity }
+      }
+    })
+  } else {
+    stockInc.stockLevel = quantity
+    if (guardStock) filter.stockLevel = { $gte: -quantity }
+    if (product.productKind === 'RAW_MATERIAL') {
+      stockInc.totalMeters = quantity
+    }
+  }
+
+  const update: Record<string, unknown> = { $inc: stockInc }
+  if (set) update.$set = set
+
+  const updated = await models.Product.findOneAndUpdate(filter, update, {
+    new: true,
+    session: movement.session
+  }).select('stockLevel comboComponents')
+  if (!updated && guardStock) {
+    throw new Error(`Not enough ${product.name} left in stock to complete this sale`)
+  }
+
+  let balanceAfter = roundQuantity(updated?.stockLevel || 0)
+  if (isComboSet && updated) {
+    balanceAfter = Math.min(
+      ...(updated.comboComponents || []).map((component) => component.stockLevel)
+    )
+    await models.Product.updateOne(
+      { _id: movement.productId },
+      { $set: { stockLevel: balanceAfter } },
+      { session: movement.session }
+    )
+  }
+
+  const pieceNote =
+    isComboSet && comboPieces?.length && comboPieces.length < components.length
+      ? `Pieces: ${comboPieces.join(', ')}`
+      : ''
+
+  return recordStockMovement({
+    ...movement,
+    notes: [movement.notes, pieceNote].filter(Boolean).join(' - ') || undefined,
+    storeId: movement.storeId || product.store,
+    quantity,
+    balanceAfter
+  })
+}
+
+// ============================================================
+// WEIGHTED-AVERAGE COST
+// ============================================================
+
+// Moves the average towards a receipt's unit cost in proportion to the quantity
+// received. `onHand` is the stock the current average applies to; oversold (negative)
+// stock carries no cost, so the receipt alone sets the average in that case.
+export async function receiveAtAverageCost({
+  productId,
+  onHand,
+  quantity,
+  unitCost,
+  fallbackCost = 0,
+  session
+}: {
+  productId: mongoose.Types.ObjectId | string
+  onHand: number
+  quantity: number
+  unitCost: number
+  fallbackCost?: number
+  session?: mongoose.ClientSession
+}): Promise<number> {
+  const stock = await models.ProductStock.findOne({ product: productId }).session(session || null)
+  const currentCost = stock ? stock.avgCostPrice : fallbackCost
+  const base = Math.max(0, onHand)
+  const avgCostPrice =
+    base + quantity > 0
+      ? roundCost((base * currentCost + quantity * unitCost) / (base + quantity))
+      : unitCost
+
+  await models.ProductStock.findOneAndUpdate(
+    { product: productId },
+    { $set: { avgCostPrice, lastPurchaseDate: new Date() } },
+    { upsert: true, session }
+  )
+  return avgCostPrice
+}
+
+// Takes a receipt back out of the average, the reverse of receiveAtAverageCost. With
+// nothing left on hand afterwards there is nothing to average, so it is left as it was.
+export async function releaseFromAverageCost({
+  productId,
+  onHand,
+  quantity,
+  unitCost,
+  fallbackCost = 0,
+  session
+}: {
+  productId: mongoose.Types.ObjectId | string
+  onHand: number
+  quantity: number
+  unitCost: number
+  fallbackCost?: number
+  session?: mongoose.ClientSession
+}): Promise<number> {
+  const stock = await models.ProductStock.findOne({ product: productId }).session(session || null)
+  const currentCost = stock ? stock.avgCostPrice : fallbackCost
+  const remaining = Math.max(0, onHand) - quantity
+  if (remaining <= 0) return currentCost
+
+  const avgCostPrice = roundCost(
+    Math.max(0, (Math.max(0, onHand) * currentCost - quantity * unitCost) / remaining)
+  )
+  await models.ProductStock.findOneAndUpdate(
+    { product: productId },
+    { $set: { avgCostPrice } },
+    { upsert: true, session }
+  )
+  return avgCostPrice
+}
+
+// Replaces the average outright, for when the stock it was built from is re-valued
+export async function resetAverageCost({
+  productId,
+  unitCost,
+  session
+}: {
+  productId: mongoose.Types.ObjectId | string
+  unitCost: number
+  session?: mongoose.ClientSession
+}): Promise<void> {
+  await models.ProductStock.findOneAndUpdate(
+    { product: productId },
+    { $set: { avgCostPrice: roundCost(unitCost) } },
+    { upsert: true, session }
+  )
+}
+
+// Current average cost per product id. Products received before averaging was tracked
+// have no ProductStock row yet and fall back to their buying price.
+export async function getAverageCosts(
+  productIds: Array<mongoose.Types.ObjectId | string>,
+  session?: mongoose.ClientSession
+): Promise<Map<string, number>> {
+  const ids = [...new Set(productIds.map(String))]
+  const products = await models.Product.find({ _id: { $in: ids } })
+    .select('buyingPrice')
+    .session(session || null)
+    .lean()
+  const stocks = await models.ProductStock.find({ product: { $in: ids } })
+    .select('product avgCostPrice')
+    .session(session || null)
+    .lean()
+
+  const costs = new Map<string, number>()
+  for (const product of products as any[]) {
+    costs.set(String(product._id), product.buyingPrice || 0)
+  }
+  for (const stock of stocks as any[]) {
+    costs.set(String(stock.product), stock.avgCostPrice || 0)
+  }
+  return costs
+}
+
+// ============================================================
+// COST LAYERS
+// ============================================================
+
+export type CostingMethod = 'WEIGHTED_AVERAGE' | 'FIFO'
+
+export type ConsumedLayer = ISaleCostLayer
+
+export async function getCostingMethod(
+  storeId: mongoose.Types.ObjectId | string,
+  session?: mongoose.ClientSession
+): Promise<CostingMethod> {
+  const store = await models.Store.findById(storeId)
+    .select('settings.costingMethod')
+    .session(session || null)
+    .lean<{ settings?: { costingMethod?: CostingMethod } }>()
+  return store?.settings?.costingMethod === 'FIFO' ? 'FIFO' : 'WEIGHTED_AVERAGE'
+}
+
+// Every receipt opens a layer (a StockEntry with stock left in it) whichever method the
+// store costs by, so switching methods or reporting on layers never starts from nothing.
+export async function addCostLayer({
+  storeId,
+  productId,
+  quantity,
+  unitCost,
+  entryType,
+  unit,
+  supplierId,
+  purchaseOrderId,
+  notes,
+  session
+}: {
+  storeId: mongoose.Types.ObjectId | string
+  productId: mongoose.Types.ObjectId | string
+  quantity: number
+  unitCost: number
+  entryType: IStockEntry['entryType']
+  unit?: string
+  supplierId?: mongoose.Types.ObjectId | string | null
+  purchaseOrderId?: mongoose.Types.ObjectId | string
+  notes?: string
+  session?: mongoose.ClientSession
+}): Promise<IStockEntry | null> {
+  if (quantity <= 0) return null
+
+  const [entry] = await models.StockEntry.create(
+    [
+      {
+        store: storeId,
+        product: productId,
+        supplier: supplierId || undefined,
+        quantity,
+        remainingQuantity: quantity,
+        unit,
+        buyingPrice: unitCost,
+        totalCost: unitCost * quantity,
+        purchaseOrder: purchaseOrderId,
+        purchaseDate: new Date(),
+        entryType,
+        notes
+      }
+    ],
+    { session }
+  )
+  return entry
+}
+
+// Draws stock from the product's open layers, oldest first; layers matching `preferred`
+// (e.g. those of a purchase order being reduced) are drawn before the rest. Stock beyond
+// the layers, such as stock received before layers were kept, is costed at `fallbackCost`.
+export async function consumeCostLayers({
+  productId,
+  quantity,
+  fallbackCost = 0,
+  preferred,
+  session
+}: {
+  productId: mongoose.Types.ObjectId | string
+  quantity: number
+  fallbackCost?: number
+  preferred?: (entry: IStockEntry) => boolean
+  session?: mongoose.ClientSession
+}): Promise<{ layers: ConsumedLayer[]; cost: number }> {
+  const open = await models.StockEntry.find({
+    product: productId,
+    remainingQuantity: { $gt: 0 }
+  })
+    .sort({ purchaseDate: 1, createdAt: 1 })
+    .session(session || null)
+  if (preferred) open.sort((a, b) => Number(preferred(b)) - Number(preferred(a)))
+
+  const layers: ConsumedLayer[] = []
+  let remaining = quantity
+  let cost = 0
+  for (const entry of open) {
+    if (remaining <= 0) break
+    const take = Math.min(remaining, entry.remainingQuantity || 0)
+    await models.StockEntry.updateOne(
+      { _id: entry._id },
+      { $set: { remainingQuantity: roundQuantity((entry.remainingQuantity || 0) - take) } },
+      { session }
+    )
+    layers.push({ entry: entry._id, quantity: take, unitCost: entry.buyingPrice })
+    cost += take * entry.buyingPrice
+    remaining = roundQuantity(remaining - take)
+  }
+
+  return { layers, cost: cost + Math.max(0, remaining) * fallbackCost }
+}
+
+// Puts returned stock back into the layers it was drawn from, most recently drawn first.
+// `layers` is reduced in place, so a later return of the same line never restores twice.
+export async function restoreCostLayers({
+  layers,
+  quantity,
+  session
+}: {
+  layers: ConsumedLayer[]
+  quantity: number
+  session?: mongoose.ClientSession
+}): Promise<void> {
+  let remaining = quantity
+  for (const layer of [...layers].reverse()) {
+    if (remaining <= 0) break
+    const restore = Math.min(remaining, layer.quantity)
+    if (restore <= 0) continue
+    await models.StockEntry.updateOne(
+      { _id: layer.entry },
+      { $inc: { remainingQuantity: restore } },
+      { session }
+    )
+    layer.quantity = roundQuantity(layer.quantity - restore)
+    remaining = roundQuantity(remaining - restore)
+  }
+}
+
+// Costs stock leaving the shelf by the store's method: FIFO charges what the drawn
+// layers cost, weighted-average charges the running average. Layers are drawn down
+// either way so they always match what is on the shelf.
+export async function costOutgoingStock({
+  productId,
+  quantity,
+  method,
+  preferred,
+  session
+}: {
+  productId: mongoose.Types.ObjectId | string
+  quantity: number
+  method: CostingMethod
+  preferred?: (entry: IStockEntry) => boolean
+  session?: mongoose.ClientSession
+}): Promise<{ unitCost: number; layers: ConsumedLayer[] }> {
+  const averageCost = (await getAverageCosts([productId], session)).get(String(productId)) || 0
+  const { layers, cost } = await consumeCostLayers({
+    productId,
+    quantity,
+    fallbackCost: averageCost,
+    preferred,
+    session
+  })
+  const unitCost = method === 'FIFO' && quantity > 0 ? roundCost(cost / quantity) : averageCost
+  return { unitCost, layers }
+}
+
+// ============================================================
+// MANUAL ADJUSTMENTS
+// ============================================================
+
+export type AdjustmentReason = 'DAMAGE' | 'SHRINKAGE' | 'FOUND' | 'COUNT_CORRECTION' | 'OTHER'
+
+// Which way each reason may move stock, and how it is classified in the ledger
+export const ADJUSTMENT_REASONS: Record<
+  AdjustmentReason,
+  { label: string; direction: 'IN' | 'OUT' | 'BOTH'; transactionType: StockMovementType }
+> = {
+  DAMAGE: { label: 'Damaged', direction: 'OUT', transactionType: 'DAMAGE' },
+  SHRINKAGE: { label: 'Shrinkage / Lost', direction: 'OUT', transactionType: 'ADJUSTMENT' },
+  FOUND: { label: 'Found Stock', direction: 'IN', transactionType: 'ADJUSTMENT' },
+  COUNT_CORRECTION: { label: 'Count Correction', direction: 'BOTH', transactionType: 'ADJUSTMENT' },
+  OTHER: { label: 'Other', direction: 'BOTH', transactionType: 'ADJUSTMENT' }
+}
@@ -0,0 +1,244 @@
+import mongoose from 'mongoose'
+import * as models from '../models'
+import type { ISale, ISaleItem, ISaleTaxLine } from '../models/Sale'
+import type { TaxClass } from '../models/Store'
+import { comboPiecesKey } from './combos'
+
+// ============================================================
+// TAX RATES
+// ============================================================
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100
+
+export interface TaxSettings {
+  rates: Record<TaxClass, number>
+  pricesIncludeTax: boolean
+}
+
+export async function getTaxSettings(
+  storeId: mongoose.Types.ObjectId | string,
+  session?: mongoose.ClientSession
+): Promise<TaxSettings> {
+  const store = await models.Store.findById(storeId)
+    .select('settings.taxRate settings.reducedTaxRate settings.pricesIncludeTax')
+    .session(session || null)
+    .lean<{
+      settings?: { taxRate?: number; reducedTaxRate?: number; pricesIncludeTax?: boolean }
+    }>()
+  return {
+    rates: {
+      STANDARD: Number(store?.settings?.taxRate) || 0,
+      REDUCED: Number(store?.settings?.reducedTaxRate) || 0,
+      EXEMPT: 0
+    },
+    pricesIncludeTax: Boolean(store?.settings?.pricesIncludeTax)
+  }
+}
+
+// A product's own tax class wins; otherwise it is taxed like its category
+export async function resolveTaxClass(
+  product: { taxClass?: TaxClass | null; category?: unknown },
+  session?: mongoose.ClientSession
+): Promise<TaxClass> {
+  if (product.taxClass) return product.taxClass
+  if (!product.category) return 'STANDARD'
+  const category = await models.Category.findById(product.category)
+    .select('taxClass')
+    .session(session || null)
+    .lean<{ taxClass?: TaxClass }>()
+  return category?.taxClass || 'STANDARD'
+}
+
+// ============================================================
+// TAX CALCULATION
+// ============================================================
+
+export interface TaxedLine {
+  taxClass: TaxClass
+  taxRate: number
+  taxableAmount: number
+  taxAmount: number
+}
+
+/**
+ * Works out tax line by line. Each line's amount (after its own discount) first gives up its
+ * share of the cart discount, then is taxed at its class's rate: on top of the amount when
+ * prices exclude tax, or backed out of it when they include it. Returns the lines in order and
+ * the tax per rate.
+ */
+export function taxLines({
+  lines,
+  cartDiscount,
+  settings
+}: {
+  lines: Array<{ amount: number; taxClass: TaxClass }>
+  cartDiscount: number
+  settings: TaxSettings
+}): { lines: TaxedLine[]; breakdown: ISaleTaxLine[]; taxAmount: number } {
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0)
+  const lastIndex = lines.map((line) => line.amount > 0).lastIndexOf(true)
+  let discountLeft = roundMoney(cartDiscount)
+
+  const taxed = lines.map((line, index) => {
+    // The last line with an amount takes whatever the rounding of the others left over
+    const share =
+      index === lastIndex
+        ? discountLeft
+        : subtotal > 0
+          ? roundMoney((cartDiscount * line.amount) / subtotal)
+          : 0
+    discountLeft = roundMoney(discountLeft - share)
+    const base = roundMoney(line.amount - share)
+    const taxRate = settings.rates[line.taxClass] || 0
+    const taxAmount = settings.pricesIncludeTax
+      ? roundMoney((base * taxRate) / (100 + taxRate))
+      : roundMoney((base * taxRate) / 100)
+    return {
+      taxClass: line.taxClass,
+      taxRate,
+      taxableAmount: settings.pricesIncludeTax ? roundMoney(base - taxAmount) : base,
+      taxAmount
+    }
+  })
+
+  const byRate = new Map<string, ISaleTaxLine>()
+  for (const line of taxed) {
+    const key = `${line.taxClass}|${line.taxRate}`
+    const entry = byRate.get(key) || {
+      taxClass: line.taxClass,
+      rate: line.taxRate,
+      taxableAmount: 0,
+      taxAmount: 0
+    }
+    entry.taxableAmount = roundMoney(entry.taxableAmount + line.taxableAmount)
+    entry.taxAmount = roundMoney(entry.taxAmount + line.taxAmount)
+    byRate.set(key, entry)
+  }
+
+  return {
+    lines: taxed,
+    breakdown: Array.from(byRate.values()),
+    taxAmount: roundMoney(taxed.reduce((sum, line) => sum + line.taxAmount, 0))
+  }
+}
+
+// What the customer paid for a sold line, tax and cart discount included. Sales from before
+// tax was worked out per line fall back to the line less its own discount.
+export function linePaidAmount(item: Partial<ISaleItem>): number {
+  if (item.taxableAmount !== undefined && item.taxableAmount !== null) {
+    return roundMoney(item.taxableAmount + (item.taxAmount || 0))
+  }
+  return roundMoney((item.totalAmount || 0) - (item.discountAmount || 0))
+}
+
+// ============================================================
+// TAX SUMMARY REPORT
+// ============================================================
+
+export interface TaxReportRow {
+  taxClass: TaxClass | null
+  // null for sales whose tax was typed in at the till before tax classes existed
+  rate: number | null
+  sales: number
+  taxableAmount: number
+  taxAmount: number
+  refundedTax: number
+  netTax: number
+}
+
+/**
+ * Tax charged on a period's sales, one row per class and rate, less the tax on items later
+ * refunded.
+ */
+export async function buildTaxReport({
+  storeId,
+  startDate,
+  endDate
+}: {
+  storeId: mongoose.Types.ObjectId | string
+  startDate: Date
+  endDate: Date
+}): Promise<{
+  rows: TaxReportRow[]
+  totals: { taxableAmount: number; taxAmount: number; refundedTax: number; netTax: number }
+}> {
+  const sales = await models.Sale.find({
+    store: storeId,
+    saleDate: { $gte: startDate, $lte: endDate }
+  })
+    .select('items taxAmount taxBreakdown subtotal discountAmount refundHistory')
+    .lean<ISale[]>()
+
+  const rows = new Map<string, TaxReportRow & { saleIds: Set<string> }>()
+  const rowFor = (taxClass: TaxClass | null, rate: number | null) => {
+    const key = `${taxClass}|${rate}`
+    const row = rows.get(key) || {
+      taxClass,
+      rate,
+      sales: 0,
+      taxableAmount: 0,
+      taxAmount: 0,
+      refundedTax: 0,
+      netTax: 0,
+      saleIds: new Set<string>()
+    }
+    rows.set(key, row)
+    return row
+  }
+
+  for (const sale of sales) {
+    const saleId = String(sale._id)
+    if (sale.taxBreakdown?.length) {
+      for (const line of sale.taxBreakdown) {
+        const row = rowFor(line.taxClass, line.rate)
+        row.saleIds.add(saleId)
+        row.taxableAmount = roundMoney(row.taxableAmount + line.taxableAmount)
+        row.taxAmount = roundMoney(row.taxAmount + line.taxAmount)
+      }
+    } else if ((sale.taxAmount || 0) > 0) {
+      const row = rowFor(null, null)
+      row.saleIds.add(saleId)
+      row.taxableAmount = roundMoney(
+        row.taxableAmount + (sale.subtotal || 0) - (sale.discountAmount || 0)
+      )
+      row.taxAmount = roundMoney(row.taxAmount + sale.taxAmount)
+    }
+
+    // Refunds give back a share of each line's tax in proportion to the quantity returned
+    for (const refund of sale.refundHistory || []) {
+      for (const refunded of refund.items || []) {
+        const item = sale.items.find(
+          (line) =>
+            String(line.product) === String(refunded.product) &&
+            comboPiecesKey(line.comboSelection?.pieces) === comboPiecesKey(refunded.comboPieces)
+        )
+        if (!item?.taxClass || !item.taxAmount || !item.quantity) continue
+        const row = rowFor(item.taxClass, item.taxRate ?? 0)
+        row.refundedTax = roundMoney(
+          row.refundedTax + (item.taxAmount * refunded.quantity) / item.quantity
+        )
+      }
+    }
+  }
+
+  const result = Array.from(rows.values())
+    .map(({ saleIds, ...row }) => ({
+      ...row,
+      sales: saleIds.size,
+      netTax: roundMoney(row.taxAmount - row.refundedTax)
+    }))
+    .sort((a, b) => (b.rate ?? -1) - (a.rate ?? -1))
+
+  const sum = (pick: (row: TaxReportRow) => number): number =>
+    roundMoney(result.reduce((total, row) => total + pick(row), 0))
+
+  return {
+    rows: result,
+    totals: {
+      taxableAmount: sum((row) => row.taxableAmount),
+      taxAmount: sum((row) => row.taxAmount),
+      refundedTax: sum((row) => row.refundedTax),
+      netTax: sum((row) => row.netTax)
+    }
+  }
+}
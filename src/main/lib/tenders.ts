@@ -0,0 +1,124 @@
+import type { ISale } from '../models/Sale'
+import { roundMoney } from './checkout'
+import { CREDIT_PAYMENT_METHODS } from './receivables'
+
+// ============================================================
+// TENDERS
+// ============================================================
+
+// Ways a customer can hand over money at the till; a sale can take several of them
+export const TENDER_METHODS = ['Cash', 'Card', 'Bank Transfer']
+
+export interface TenderInput {
+  method: string
+  channel?: string
+  amount: number
+}
+
+export interface SettledTender {
+  method: string
+  channel?: string
+  // What the tender pays towards the sale, after change for cash
+  amount: number
+  // What the customer handed over
+  tendered: number
+}
+
+/**
+ * Checks the tenders a customer paid with against what the sale comes to. Anything handed
+ * over beyond the total is change, which only cash can give, so it comes off the cash
+ * tenders (the last one first).
+ */
+export function settleTenders(
+  tenders: TenderInput[],
+  amountDue: number
+): { tenders: SettledTender[]; paidAmount: number; changeGiven: number } {
+  if (!tenders?.length) throw new Error('Add at least one payment')
+
+  const settled: SettledTender[] = tenders.map((tender) => {
+    if (!TENDER_METHODS.includes(tender.method)) {
+      throw new Error(`${tender.method || 'That payment method'} cannot be taken as a tender`)
+    }
+    const tendered = roundMoney(Number(tender.amount) || 0)
+    if (tendered <= 0) throw new Error(`Enter the amount paid by ${tender.method}`)
+    if (tender.method === 'Bank Transfer' && !tender.channel) {
+      throw new Error('Choose the channel for the bank transfer')
+    }
+    return {
+      method: tender.method,
+      channel: tender.method === 'Bank Transfer' ? tender.channel : undefined,
+      amount: tendered,
+      tendered
+    }
+  })
+
+  const due = roundMoney(amountDue)
+  const total = roundMoney(settled.reduce((sum, tender) => sum + tender.tendered, 0))
+  if (total < due) {
+    throw new Error(
+      `Payments come to Rs. ${total.toLocaleString()}, short of the Rs. ${due.toLocaleString()} due`
+    )
+  }
+
+  const changeGiven = roundMoney(total - due)
+  const cash = roundMoney(
+    settled.filter((tender) => tender.method === 'Cash').reduce((sum, t) => sum + t.tendered, 0)
+  )
+  if (changeGiven > cash) {
+    throw new Error('Card and transfer payments cannot be more than the amount due')
+  }
+
+  let change = changeGiven
+  for (const tender of [...settled].reverse()) {
+    if (change <= 0) break
+    if (tender.method !== 'Cash') continue
+    const taken = Math.min(change, tender.amount)
+    tender.amount = roundMoney(tender.amount - taken)
+    change = roundMoney(change - taken)
+  }
+
+  return {
+    tenders: settled.filter((tender) => tender.amount > 0),
+    paidAmount: due,
+    changeGiven
+  }
+}
+
+export interface TenderTotal {
+  method: string
+  channel?: string
+  count: number
+  amount: number
+}
+
+/**
+ * What the till took for a set of sales, by method and transfer channel. Sales booked before
+ * tenders were recorded count what was paid at the till under their payment method. A credit
+ * or instalment sale's down payment records no tender, so it is not counted as one.
+ */
+export function tenderTotals(
+  sales: Array<Pick<ISale, 'paymentMethod' | 'paymentChannel' | 'paidAmount' | 'paymentHistory'>>
+): TenderTotal[] {
+  const totals = new Map<string, TenderTotal>()
+  const add = (method: string, channel: string | undefined, amount: number): void => {
+    if (!(amount > 0) || CREDIT_PAYMENT_METHODS.includes(method)) return
+    const key = `${method}:${channel || ''}`
+    const total = totals.get(key) || { method, channel, count: 0, amount: 0 }
+    total.count += 1
+    total.amount = roundMoney(total.amount + amount)
+    totals.set(key, total)
+  }
+
+  for (const sale of sales) {
+    const history = sale.paymentHistory || []
+    const atSale = history.filter((payment) => payment.atSale)
+    if (atSale.length) {
+      for (const payment of atSale) add(payment.method, payment.channel, payment.amount)
+      continue
+    }
+    const laterPayments = history.reduce((sum, payment) => sum + (payment.amount || 0), 0)
+    add(sale.paymentMethod, sale.paymentChannel, roundMoney(sale.paidAmount - laterPayments))
+  }
+
+  return [...totals.values()].sort((a, b) => b.amount - a.amount)
+}
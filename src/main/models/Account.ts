@@ -6,6 +6,7 @@ export interface IAccount extends Document {
     accountType: 'ASSET' | 'LIABILITY' | 'EQUITY' | 'REVENUE' | 'EXPENSE';
     store: mongoose.Types.ObjectId;
     parent?: mongoose.Types.ObjectId;
+    systemKey?: string;
     openingBalance: number;
     currentBalance: number;
     isActive: boolean;
@@ -36,6 +37,10 @@ const AccountSchema = new Schema<IAccount>({
         type: Schema.Types.ObjectId,
         ref: 'Account'
     },
+    // Set on accounts seeded by the chart of accounts (e.g. 'CASH', 'ACCOUNTS_RECEIVABLE')
+    systemKey: {
+        type: String
+    },
     openingBalance: {
         type: Number,
         default: 0
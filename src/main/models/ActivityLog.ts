@@ -19,7 +19,7 @@ const ActivityLogSchema = new Schema<IActivityLog>({
     action: {
         type: String,
         required: true,
-        enum: ['CREATE', 'UPDATE', 'DELETE', 'LOGIN', 'LOGOUT']
+        enum: ['CREATE', 'UPDATE', 'DELETE', 'LOGIN', 'LOGOUT', 'OVERRIDE']
     },
     module: {
         type: String,
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { TAX_CLASSES, type TaxClass } from './Store';
 
 export interface ICategory extends Document {
     name: string;
@@ -7,6 +8,8 @@ export interface ICategory extends Document {
     description?: string;
     imageUrl?: string;
     parent?: mongoose.Types.ObjectId;
+    // Products in the category are taxed at this class unless they set their own
+    taxClass: TaxClass;
     isActive: boolean;
     displayOrder: number;
     createdAt: Date;
@@ -40,6 +43,11 @@ const CategorySchema = new Schema<ICategory>({
         ref: 'Category',
         default: null
     },
+    taxClass: {
+        type: String,
+        enum: TAX_CLASSES,
+        default: 'STANDARD'
+    },
     isActive: {
         type: Boolean,
         default: true
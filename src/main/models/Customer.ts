@@ -5,6 +5,10 @@ export interface ICustomer extends Document {
   phone: string
   email?: string
   balance: number
+  // Most the customer may owe on account; unset means no limit
+  creditLimit?: number | null
+  // Credit is refused while any unpaid sale is older than this many days; unset turns it off
+  maxDaysOverdue?: number | null
   store: Schema.Types.ObjectId
   createdAt: Date
   updatedAt: Date
@@ -36,6 +40,16 @@ const CustomerSchema = new Schema<ICustomer>(
       type: Number,
       default: 0,
       min: 0
+    },
+    creditLimit: {
+      type: Number,
+      default: null,
+      min: 0
+    },
+    maxDaysOverdue: {
+      type: Number,
+      default: null,
+      min: 0
     }
   },
   {
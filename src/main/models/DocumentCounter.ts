@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from 'mongoose'
+
+export type DocumentType =
+  | 'INVOICE'
+  | 'PURCHASE_ORDER'
+  | 'EXPENSE'
+  | 'QUOTATION'
+  | 'SHIFT'
+  | 'STOCK_COUNT'
+  | 'GOODS_RECEIPT'
+  | 'SUPPLIER_RETURN'
+
+// The last number handed out for one kind of document in one store. With yearly reset on,
+// each year gets its own counter; otherwise everything shares year 0.
+export interface IDocumentCounter extends Document {
+  store: mongoose.Types.ObjectId
+  documentType: DocumentType
+  year: number
+  sequence: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+const DocumentCounterSchema = new Schema<IDocumentCounter>(
+  {
+    store: {
+      type: Schema.Types.ObjectId,
+      ref: 'Store',
+      required: true
+    },
+    documentType: {
+      type: String,
+      enum: [
+        'INVOICE',
+        'PURCHASE_ORDER',
+        'EXPENSE',
+        'QUOTATION',
+        'SHIFT',
+        'STOCK_COUNT',
+        'GOODS_RECEIPT',
+        'SUPPLIER_RETURN'
+      ],
+      required: true
+    },
+    year: {
+      type: Number,
+      default: 0
+    },
+    sequence: {
+      type: Number,
+      default: 0,
+      min: 0
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+DocumentCounterSchema.index({ store: 1, documentType: 1, year: 1 }, { unique: true })
+
+export default mongoose.models.DocumentCounter ||
+  mongoose.model<IDocumentCounter>('DocumentCounter', DocumentCounterSchema)
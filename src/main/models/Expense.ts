@@ -10,6 +10,7 @@ export interface IExpense extends Document {
   description?: string
   receiptUrl?: string
   account?: mongoose.Types.ObjectId
+  supplier?: mongoose.Types.ObjectId
   store: mongoose.Types.ObjectId
   createdBy: mongoose.Types.ObjectId
   createdAt: Date
@@ -20,8 +21,7 @@ const ExpenseSchema = new Schema<IExpense>(
   {
     expenseNumber: {
       type: String,
-      required: true,
-      unique: true
+      required: true
     },
     expenseDate: {
       type: Date,
@@ -62,6 +62,10 @@ const ExpenseSchema = new Schema<IExpense>(
       type: Schema.Types.ObjectId,
       ref: 'Account'
     },
+    supplier: {
+      type: Schema.Types.ObjectId,
+      ref: 'Supplier'
+    },
     store: {
       type: Schema.Types.ObjectId,
       ref: 'Store',
@@ -73,9 +77,11 @@ const ExpenseSchema = new Schema<IExpense>(
   }
 )
 
+ExpenseSchema.index({ store: 1, expenseNumber: 1 }, { unique: true })
 ExpenseSchema.index({ expenseDate: -1 })
 ExpenseSchema.index({ category: 1 })
 ExpenseSchema.index({ store: 1 })
+ExpenseSchema.index({ supplier: 1 })
 
 const ExpenseModel = mongoose.models.Expense || mongoose.model<IExpense>('Expense', ExpenseSchema)
 
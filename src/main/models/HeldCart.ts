@@ -0,0 +1,127 @@
+import mongoose, { Schema, Document } from 'mongoose'
+import type { ISaleComboSelection } from './Sale'
+
+export interface IHeldCartItem {
+  product: mongoose.Types.ObjectId
+  productName: string
+  quantity: number
+  comboSelection?: ISaleComboSelection
+  // Prices as the till had them when the cart was parked; resuming re-checks them
+  listPrice: number
+  sellingPrice: number
+  discount?: { type: 'AMOUNT' | 'PERCENT'; value: number }
+}
+
+// A POS cart parked while the customer keeps shopping. Any terminal of the store can resume
+// it; it is removed on resume and expires on its own after the store's hold time.
+export interface IHeldCart extends Document {
+  store: mongoose.Types.ObjectId
+  label: string
+  customer?: mongoose.Types.ObjectId
+  items: IHeldCartItem[]
+  discountAmount: number
+  discountPercent: number
+  heldBy: mongoose.Types.ObjectId
+  expiresAt: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const HeldCartItemSchema = new Schema<IHeldCartItem>(
+  {
+    product: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    productName: {
+      type: String,
+      required: true
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    comboSelection: {
+      mode: {
+        type: String,
+        enum: ['FULL_SET', 'SINGLE', 'PAIR']
+      },
+      pieces: {
+        type: [String],
+        default: undefined
+      }
+    },
+    listPrice: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    sellingPrice: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    discount: {
+      type: {
+        type: String,
+        enum: ['AMOUNT', 'PERCENT']
+      },
+      value: {
+        type: Number,
+        min: 0
+      }
+    }
+  },
+  { _id: false }
+)
+
+const HeldCartSchema = new Schema<IHeldCart>(
+  {
+    store: {
+      type: Schema.Types.ObjectId,
+      ref: 'Store',
+      required: true
+    },
+    label: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    customer: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer'
+    },
+    items: [HeldCartItemSchema],
+    discountAmount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    discountPercent: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: 100
+    },
+    heldBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+HeldCartSchema.index({ store: 1, createdAt: -1 })
+// MongoDB drops a held cart shortly after it expires
+HeldCartSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+export default mongoose.models.HeldCart || mongoose.model<IHeldCart>('HeldCart', HeldCartSchema)
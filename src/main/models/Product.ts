@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Model } from 'mongoose'
+import { TAX_CLASSES, type TaxClass } from './Store'
 
 export interface IComboComponent {
   name: string
@@ -15,6 +16,8 @@ export interface IProduct extends Document {
   store: mongoose.Types.ObjectId
   category: mongoose.Types.ObjectId
   subcategory?: mongoose.Types.ObjectId
+  // Overrides the category's tax class; null taxes the product like its category
+  taxClass?: TaxClass | null
   brand?: mongoose.Types.ObjectId
   description?: string
   specifications: Map<string, any>
@@ -35,6 +38,8 @@ export interface IProduct extends Document {
   totalMeters?: number
   metersPerUnit?: number
   calculatedUnits?: number
+  // Shortest length the shop will cut and sell, in meters
+  minCutLength?: number
 
   // Combo Set Product
   isComboSet?: boolean
@@ -60,6 +65,8 @@ export interface IProduct extends Document {
   size?: string
   collectionName?: string
   designNumber?: string
+  // Where the item is kept (rack, shelf, godown); used to scope stock counts
+  location?: string
 
   createdAt: Date
   updatedAt: Date
@@ -140,6 +147,11 @@ const ProductSchema = new Schema<IProduct>(
       type: Schema.Types.ObjectId,
       ref: 'Category'
     },
+    taxClass: {
+      type: String,
+      enum: [...TAX_CLASSES, null],
+      default: null
+    },
     brand: {
       type: Schema.Types.ObjectId,
       ref: 'Brand'
@@ -205,6 +217,11 @@ const ProductSchema = new Schema<IProduct>(
       type: Number,
       default: 0
     },
+    minCutLength: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
 
     // Combo Set Fields
     isComboSet: {
@@ -239,7 +256,8 @@ const ProductSchema = new Schema<IProduct>(
     pattern: String,
     collectionName: String,
     size: String,
-    designNumber: String
+    designNumber: String,
+    location: { type: String, trim: true }
   },
   {
     timestamps: true
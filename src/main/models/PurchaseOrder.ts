@@ -9,13 +9,42 @@ export interface IPurchaseOrderItem {
   discountAmount: number
   totalCost: number
   receivedQuantity: number
+  // Sent back to the supplier on a return after being received
+  returnedQuantity: number
+}
+
+export interface IGoodsReceiptItem {
+  product: mongoose.Types.ObjectId
+  quantity: number
+  // Landed cost: the order price plus this delivery's share of tax, shipping and discount
+  unitCost: number
+}
+
+// One delivery against the order (goods received note)
+export interface IGoodsReceipt {
+  grnNumber: string
+  receivedDate: Date
+  items: IGoodsReceiptItem[]
+  // Share of the order total (after tax, shipping and discount) posted for this delivery
+  value: number
+  notes?: string
+  receivedBy: mongoose.Types.ObjectId
+}
+
+// Share of a supplier payment allocated to this order
+export interface IPurchaseOrderPayment {
+  expense: mongoose.Types.ObjectId
+  amount: number
+  paymentDate: Date
+  method?: string
+  recordedBy?: mongoose.Types.ObjectId
 }
 
 export interface IPurchaseOrder extends Document {
   poNumber: string
   supplier: mongoose.Types.ObjectId
   purchaseDate: Date
-  status: 'DRAFT' | 'CONFIRMED' | 'RECEIVED' | 'CANCELLED'
+  status: 'DRAFT' | 'CONFIRMED' | 'PARTIAL' | 'RECEIVED' | 'CANCELLED'
   items: IPurchaseOrderItem[]
   subtotal: number
   discountAmount: number
@@ -24,11 +53,19 @@ export interface IPurchaseOrder extends Document {
   shippingCost: number
   totalAmount: number
   paidAmount: number
+  // Debit notes raised against this order by supplier returns
+  returnedAmount: number
   paymentStatus: 'UNPAID' | 'PARTIAL' | 'PAID'
   paymentMethod?: string
+  payments: IPurchaseOrderPayment[]
   notes?: string
   store: mongoose.Types.ObjectId
+  receipts: IGoodsReceipt[]
   receivedBy?: mongoose.Types.ObjectId
+  receivedAt?: Date
+  confirmedAt?: Date
+  cancelledAt?: Date
+  cancelReason?: string
   createdBy: mongoose.Types.ObjectId
   createdAt: Date
   updatedAt: Date
@@ -48,7 +85,10 @@ const PurchaseOrderItemSchema = new Schema<IPurchaseOrderItem>(
     quantity: {
       type: Number,
       required: true,
-      min: 1
+      validate: {
+        validator: (value: number) => value > 0,
+        message: 'Quantity must be greater than 0'
+      }
     },
     unitCost: {
       type: Number,
@@ -72,6 +112,87 @@ const PurchaseOrderItemSchema = new Schema<IPurchaseOrderItem>(
       type: Number,
       default: 0,
       min: 0
+    },
+    returnedQuantity: {
+      type: Number,
+      default: 0,
+      min: 0
+    }
+  },
+  { _id: false }
+)
+
+const GoodsReceiptItemSchema = new Schema<IGoodsReceiptItem>(
+  {
+    product: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    unitCost: {
+      type: Number,
+      default: 0,
+      min: 0
+    }
+  },
+  { _id: false }
+)
+
+const GoodsReceiptSchema = new Schema<IGoodsReceipt>(
+  {
+    grnNumber: {
+      type: String,
+      required: true
+    },
+    receivedDate: {
+      type: Date,
+      required: true,
+      default: Date.now
+    },
+    items: [GoodsReceiptItemSchema],
+    value: {
+      type: Number,
+      default: 0
+    },
+    notes: {
+      type: String
+    },
+    receivedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+)
+
+const PurchaseOrderPaymentSchema = new Schema<IPurchaseOrderPayment>(
+  {
+    expense: {
+      type: Schema.Types.ObjectId,
+      ref: 'Expense',
+      required: true
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    paymentDate: {
+      type: Date,
+      required: true,
+      default: Date.now
+    },
+    method: {
+      type: String
+    },
+    recordedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
     }
   },
   { _id: false }
@@ -81,8 +202,7 @@ const PurchaseOrderSchema = new Schema<IPurchaseOrder>(
   {
     poNumber: {
       type: String,
-      required: true,
-      unique: true
+      required: true
     },
     supplier: {
       type: Schema.Types.ObjectId,
@@ -96,7 +216,7 @@ const PurchaseOrderSchema = new Schema<IPurchaseOrder>(
     },
     status: {
       type: String,
-      enum: ['DRAFT', 'CONFIRMED', 'RECEIVED', 'CANCELLED'],
+      enum: ['DRAFT', 'CONFIRMED', 'PARTIAL', 'RECEIVED', 'CANCELLED'],
       default: 'DRAFT'
     },
     items: [PurchaseOrderItemSchema],
@@ -135,6 +255,11 @@ const PurchaseOrderSchema = new Schema<IPurchaseOrder>(
       default: 0,
       min: 0
     },
+    returnedAmount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
     paymentStatus: {
       type: String,
       enum: ['UNPAID', 'PARTIAL', 'PAID'],
@@ -143,6 +268,7 @@ const PurchaseOrderSchema = new Schema<IPurchaseOrder>(
     paymentMethod: {
       type: String
     },
+    payments: [PurchaseOrderPaymentSchema],
     notes: {
       type: String
     },
@@ -151,10 +277,23 @@ const PurchaseOrderSchema = new Schema<IPurchaseOrder>(
       ref: 'Store',
       required: true
     },
+    receipts: [GoodsReceiptSchema],
     receivedBy: {
       type: Schema.Types.ObjectId,
       ref: 'User'
     },
+    receivedAt: {
+      type: Date
+    },
+    confirmedAt: {
+      type: Date
+    },
+    cancelledAt: {
+      type: Date
+    },
+    cancelReason: {
+      type: String
+    },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -168,6 +307,7 @@ const PurchaseOrderSchema = new Schema<IPurchaseOrder>(
 
 // Indexes
 
+PurchaseOrderSchema.index({ store: 1, poNumber: 1 }, { unique: true })
 PurchaseOrderSchema.index({ supplier: 1 })
 PurchaseOrderSchema.index({ status: 1 })
 PurchaseOrderSchema.index({ purchaseDate: -1 })
@@ -0,0 +1,194 @@
+import mongoose, { Schema, Document } from 'mongoose'
+import {
+  SaleComboSelectionSchema,
+  SaleTaxLineSchema,
+  type ISaleItem,
+  type ISaleTaxLine
+} from './Sale'
+import { TAX_CLASSES } from './Store'
+
+export type QuotationStatus = 'OPEN' | 'ACCEPTED' | 'EXPIRED'
+
+// Priced like a sale line; cost and profit are only settled when the quotation is sold
+export type IQuotationItem = Omit<ISaleItem, 'costPrice' | 'costLayers' | 'profitAmount'>
+
+// A priced estimate for a customer. It holds no stock; converting it books a normal sale at
+// the prices it quoted, checked against the catalogue and stock at that time.
+export interface IQuotation extends Document {
+  quotationNumber: string
+  customer?: mongoose.Types.ObjectId
+  // For buyers without a customer record
+  customerName?: string
+  items: IQuotationItem[]
+  subtotal: number
+  discountAmount: number
+  discountPercent?: number
+  taxAmount: number
+  taxBreakdown?: ISaleTaxLine[]
+  pricesIncludeTax?: boolean
+  totalAmount: number
+  // The quotation can be converted until the end of this day
+  validUntil: Date
+  status: QuotationStatus
+  sale?: mongoose.Types.ObjectId
+  acceptedAt?: Date
+  notes?: string
+  createdBy: mongoose.Types.ObjectId
+  store: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const QuotationItemSchema = new Schema<IQuotationItem>(
+  {
+    product: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    productName: {
+      type: String,
+      required: true
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      validate: {
+        validator: (value: number) => value > 0,
+        message: 'Quantity must be greater than 0'
+      }
+    },
+    comboSelection: {
+      type: SaleComboSelectionSchema,
+      default: undefined
+    },
+    listPrice: {
+      type: Number,
+      min: 0
+    },
+    sellingPrice: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    discountAmount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    discountPercent: {
+      type: Number,
+      min: 0,
+      max: 100
+    },
+    totalAmount: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    taxClass: {
+      type: String,
+      enum: TAX_CLASSES
+    },
+    taxRate: {
+      type: Number,
+      min: 0
+    },
+    taxableAmount: {
+      type: Number
+    },
+    taxAmount: {
+      type: Number,
+      min: 0
+    }
+  },
+  { _id: false }
+)
+
+const QuotationSchema = new Schema<IQuotation>(
+  {
+    quotationNumber: {
+      type: String,
+      required: true
+    },
+    customer: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer'
+    },
+    customerName: {
+      type: String,
+      trim: true
+    },
+    items: [QuotationItemSchema],
+    subtotal: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    discountAmount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    discountPercent: {
+      type: Number,
+      min: 0,
+      max: 100
+    },
+    taxAmount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    taxBreakdown: {
+      type: [SaleTaxLineSchema],
+      default: undefined
+    },
+    pricesIncludeTax: {
+      type: Boolean
+    },
+    totalAmount: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    validUntil: {
+      type: Date,
+      required: true
+    },
+    status: {
+      type: String,
+      enum: ['OPEN', 'ACCEPTED', 'EXPIRED'],
+      default: 'OPEN'
+    },
+    sale: {
+      type: Schema.Types.ObjectId,
+      ref: 'Sale'
+    },
+    acceptedAt: {
+      type: Date
+    },
+    notes: {
+      type: String
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    store: {
+      type: Schema.Types.ObjectId,
+      ref: 'Store',
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+QuotationSchema.index({ store: 1, quotationNumber: 1 }, { unique: true })
+QuotationSchema.index({ store: 1, status: 1, validUntil: 1 })
+QuotationSchema.index({ customer: 1 })
+
+export default mongoose.models.Quotation || mongoose.model<IQuotation>('Quotation', QuotationSchema)
@@ -1,26 +1,67 @@
 import mongoose, { Schema, Document } from 'mongoose'
+import { TAX_CLASSES, type TaxClass } from './Store'
+
+export interface ISaleCostLayer {
+  entry: mongoose.Types.ObjectId
+  quantity: number
+  unitCost: number
+}
+
+// Which pieces of a combo set a line sold: the whole set, one component or a priced pair
+export interface ISaleComboSelection {
+  mode: 'FULL_SET' | 'SINGLE' | 'PAIR'
+  pieces: string[]
+}
 
 export interface ISaleItem {
   product: mongoose.Types.ObjectId
   productName: string
   quantity: number
   costPrice: number
+  // Purchase layers this line drew stock from, so refunds can put it back where it came from
+  costLayers?: ISaleCostLayer[]
+  comboSelection?: ISaleComboSelection
+  // Catalogue price when the line was sold; differs from sellingPrice when it was overridden
+  listPrice?: number
   sellingPrice: number
+  // Line discount, given as an amount or a percent of the line; totalAmount is before it
   discountAmount: number
+  discountPercent?: number
   totalAmount: number
+  // Tax on the line once its share of the cart discount is taken off; what the customer paid
+  // for the line is taxableAmount + taxAmount whether prices include tax or not
+  taxClass?: TaxClass
+  taxRate?: number
+  taxableAmount?: number
+  taxAmount?: number
   profitAmount: number
 }
 
+// Tax charged on a sale at one rate, for receipts and the tax summary
+export interface ISaleTaxLine {
+  taxClass: TaxClass
+  rate: number
+  taxableAmount: number
+  taxAmount: number
+}
+
 export interface IPaymentRecord {
   date: Date
   amount: number
   method: string
+  // Transfer channel (JazzCash, EasyPaisa...) for bank transfers
+  channel?: string
+  // Taken at the till when the sale was booked, as opposed to a later settlement
+  atSale?: boolean
   notes?: string
   recordedBy: mongoose.Types.ObjectId
+  // The till shift it was taken in, for later payments put through an open drawer
+  shift?: mongoose.Types.ObjectId
 }
 
 export interface IRefundItem {
   product: mongoose.Types.ObjectId
+  comboPieces?: string[]
   quantity: number
   amount: number
 }
@@ -31,9 +72,35 @@ export interface IRefundRecord {
   method: string
   reason?: string
   processedBy: mongoose.Types.ObjectId
+  // The till shift whose drawer paid it out
+  shift?: mongoose.Types.ObjectId
   items: IRefundItem[]
 }
 
+export type InstallmentFrequency = 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY'
+
+export interface IInstallment {
+  number: number
+  dueDate: Date
+  amount: number
+  paidAmount: number
+  // When the instalment was paid off
+  paidAt?: Date
+}
+
+// How the part of an instalment sale left after the down payment is paid back. The markup
+// is charged on that financed part and is included in the sale's totalAmount.
+export interface IInstallmentPlan {
+  downPayment: number
+  financedAmount: number
+  markupPercent: number
+  markupAmount: number
+  numberOfInstallments: number
+  frequency: InstallmentFrequency
+  firstDueDate: Date
+  installments: IInstallment[]
+}
+
 export interface ISale extends Document {
   invoiceNumber: string
   customer?: mongoose.Types.ObjectId
@@ -43,15 +110,25 @@ export interface ISale extends Document {
   discountAmount: number
   discountPercent?: number
   taxAmount: number
+  taxBreakdown?: ISaleTaxLine[]
+  pricesIncludeTax?: boolean
   totalAmount: number
   paidAmount: number
   paymentStatus: 'PAID' | 'PENDING' | 'PARTIAL'
+  // 'Split' when the customer paid with more than one tender; each is in paymentHistory
   paymentMethod: string
   paymentChannel?: string
+  // Cash handed back when the customer paid more than the total
+  changeGiven?: number
+  installmentPlan?: IInstallmentPlan
   profitAmount: number
   refundedAmount?: number
   refundHistory?: IRefundRecord[]
   notes?: string
+  // The quotation this sale was converted from
+  quotation?: mongoose.Types.ObjectId
+  // The till shift the sale was rung up in
+  shift?: mongoose.Types.ObjectId
   soldBy: mongoose.Types.ObjectId
   store: mongoose.Types.ObjectId
   paymentHistory: IPaymentRecord[]
@@ -59,6 +136,136 @@ export interface ISale extends Document {
   updatedAt: Date
 }
 
+const SaleCostLayerSchema = new Schema<ISaleCostLayer>(
+  {
+    entry: {
+      type: Schema.Types.ObjectId,
+      ref: 'StockEntry',
+      required: true
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    unitCost: {
+      type: Number,
+      default: 0,
+      min: 0
+    }
+  },
+  { _id: false }
+)
+
+export const SaleComboSelectionSchema = new Schema<ISaleComboSelection>(
+  {
+    mode: {
+      type: String,
+      enum: ['FULL_SET', 'SINGLE', 'PAIR'],
+      required: true
+    },
+    pieces: {
+      type: [String],
+      required: true
+    }
+  },
+  { _id: false }
+)
+
+export const SaleTaxLineSchema = new Schema<ISaleTaxLine>(
+  {
+    taxClass: {
+      type: String,
+      enum: TAX_CLASSES,
+      required: true
+    },
+    rate: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    taxableAmount: {
+      type: Number,
+      required: true
+    },
+    taxAmount: {
+      type: Number,
+      required: true,
+      min: 0
+    }
+  },
+  { _id: false }
+)
+
+const InstallmentSchema = new Schema<IInstallment>(
+  {
+    number: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    dueDate: {
+      type: Date,
+      required: true
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    paidAmount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    paidAt: {
+      type: Date
+    }
+  },
+  { _id: false }
+)
+
+const InstallmentPlanSchema = new Schema<IInstallmentPlan>(
+  {
+    downPayment: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    financedAmount: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    markupPercent: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    markupAmount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    numberOfInstallments: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    frequency: {
+      type: String,
+      enum: ['WEEKLY', 'BIWEEKLY', 'MONTHLY'],
+      required: true
+    },
+    firstDueDate: {
+      type: Date,
+      required: true
+    },
+    installments: [InstallmentSchema]
+  },
+  { _id: false }
+)
+
 const SaleItemSchema = new Schema<ISaleItem>(
   {
     product: {
@@ -70,16 +277,29 @@ const SaleItemSchema = new Schema<ISaleItem>(
       type: String,
       required: true
     },
+    // Whole units, or meters to the store's cut step for raw material
     quantity: {
       type: Number,
       required: true,
-      min: 1
+      validate: {
+        validator: (value: number) => value > 0,
+        message: 'Quantity must be greater than 0'
+      }
     },
     costPrice: {
       type: Number,
       required: true,
       min: 0
     },
+    costLayers: [SaleCostLayerSchema],
+    comboSelection: {
+      type: SaleComboSelectionSchema,
+      default: undefined
+    },
+    listPrice: {
+      type: Number,
+      min: 0
+    },
     sellingPrice: {
       type: Number,
       required: true,
@@ -90,11 +310,31 @@ const SaleItemSchema = new Schema<ISaleItem>(
       default: 0,
       min: 0
     },
+    discountPercent: {
+      type: Number,
+      min: 0,
+      max: 100
+    },
     totalAmount: {
       type: Number,
       required: true,
       min: 0
     },
+    taxClass: {
+      type: String,
+      enum: TAX_CLASSES
+    },
+    taxRate: {
+      type: Number,
+      min: 0
+    },
+    taxableAmount: {
+      type: Number
+    },
+    taxAmount: {
+      type: Number,
+      min: 0
+    },
     profitAmount: {
       type: Number,
       required: true
@@ -107,8 +347,7 @@ const SaleSchema = new Schema<ISale>(
   {
     invoiceNumber: {
       type: String,
-      required: true,
-      unique: true
+      required: true
     },
     customer: {
       type: Schema.Types.ObjectId,
@@ -140,6 +379,13 @@ const SaleSchema = new Schema<ISale>(
       default: 0,
       min: 0
     },
+    taxBreakdown: {
+      type: [SaleTaxLineSchema],
+      default: undefined
+    },
+    pricesIncludeTax: {
+      type: Boolean
+    },
     totalAmount: {
       type: Number,
       required: true,
@@ -158,11 +404,19 @@ const SaleSchema = new Schema<ISale>(
     paymentMethod: {
       type: String,
       required: true,
-      enum: ['Cash', 'Card', 'Bank Transfer', 'Installment', 'Credit']
+      enum: ['Cash', 'Card', 'Bank Transfer', 'Split', 'Installment', 'Credit']
     },
     paymentChannel: {
       type: String
     },
+    changeGiven: {
+      type: Number,
+      min: 0
+    },
+    installmentPlan: {
+      type: InstallmentPlanSchema,
+      default: undefined
+    },
     profitAmount: {
       type: Number,
       required: true
@@ -195,6 +449,10 @@ const SaleSchema = new Schema<ISale>(
           ref: 'User',
           required: true
         },
+        shift: {
+          type: Schema.Types.ObjectId,
+          ref: 'Shift'
+        },
         items: [
           {
             product: {
@@ -202,6 +460,10 @@ const SaleSchema = new Schema<ISale>(
               ref: 'Product',
               required: true
             },
+            comboPieces: {
+              type: [String],
+              default: undefined
+            },
             quantity: {
               type: Number,
               required: true,
@@ -219,6 +481,14 @@ const SaleSchema = new Schema<ISale>(
     notes: {
       type: String
     },
+    quotation: {
+      type: Schema.Types.ObjectId,
+      ref: 'Quotation'
+    },
+    shift: {
+      type: Schema.Types.ObjectId,
+      ref: 'Shift'
+    },
     soldBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -245,6 +515,12 @@ const SaleSchema = new Schema<ISale>(
           type: String,
           required: true
         },
+        channel: {
+          type: String
+        },
+        atSale: {
+          type: Boolean
+        },
         notes: {
           type: String
         },
@@ -252,6 +528,10 @@ const SaleSchema = new Schema<ISale>(
           type: Schema.Types.ObjectId,
           ref: 'User',
           required: true
+        },
+        shift: {
+          type: Schema.Types.ObjectId,
+          ref: 'Shift'
         }
       }
     ]
@@ -263,10 +543,15 @@ const SaleSchema = new Schema<ISale>(
 
 // Indexes
 
+SaleSchema.index({ store: 1, invoiceNumber: 1 }, { unique: true })
 SaleSchema.index({ saleDate: -1 })
 SaleSchema.index({ soldBy: 1 })
 SaleSchema.index({ paymentStatus: 1 })
 SaleSchema.index({ customer: 1 })
+SaleSchema.index({ shift: 1 })
+SaleSchema.index({ 'paymentHistory.shift': 1 })
+SaleSchema.index({ 'refundHistory.shift': 1 })
+SaleSchema.index({ store: 1, 'installmentPlan.installments.dueDate': 1 })
 
 const SaleModel = mongoose.models.Sale || mongoose.model<ISale>('Sale', SaleSchema)
 
@@ -0,0 +1,161 @@
+import mongoose, { Schema, Document } from 'mongoose'
+
+export type ShiftStatus = 'OPEN' | 'CLOSED'
+
+export type CashMovementType = 'PAY_IN' | 'PAY_OUT'
+
+// Cash put into or taken out of the drawer that is not a sale, a refund or a payment
+export interface ICashMovement {
+  type: CashMovementType
+  amount: number
+  reason: string
+  date: Date
+  recordedBy: mongoose.Types.ObjectId
+}
+
+// One line of the cash-up: how many notes or coins of a face value were counted
+export interface IDenominationCount {
+  value: number
+  count: number
+}
+
+// A cashier's session on the till, from the opening float to the counted cash-up. Sales
+// booked by the cashier while it is open are linked to it.
+export interface IShift extends Document {
+  shiftNumber: string
+  store: mongoose.Types.ObjectId
+  openedBy: mongoose.Types.ObjectId
+  openedAt: Date
+  openingFloat: number
+  cashMovements: ICashMovement[]
+  status: ShiftStatus
+  closedBy?: mongoose.Types.ObjectId
+  closedAt?: Date
+  denominations?: IDenominationCount[]
+  // Set at closing: what should be in the drawer, what was counted and the difference
+  expectedCash?: number
+  countedCash?: number
+  overShort?: number
+  notes?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+const CashMovementSchema = new Schema<ICashMovement>(
+  {
+    type: {
+      type: String,
+      enum: ['PAY_IN', 'PAY_OUT'],
+      required: true
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    reason: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    date: {
+      type: Date,
+      required: true,
+      default: Date.now
+    },
+    recordedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    }
+  },
+  { _id: false }
+)
+
+const DenominationCountSchema = new Schema<IDenominationCount>(
+  {
+    value: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    count: {
+      type: Number,
+      required: true,
+      min: 0
+    }
+  },
+  { _id: false }
+)
+
+const ShiftSchema = new Schema<IShift>(
+  {
+    shiftNumber: {
+      type: String,
+      required: true
+    },
+    store: {
+      type: Schema.Types.ObjectId,
+      ref: 'Store',
+      required: true
+    },
+    openedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    openedAt: {
+      type: Date,
+      required: true,
+      default: Date.now
+    },
+    openingFloat: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    cashMovements: [CashMovementSchema],
+    status: {
+      type: String,
+      enum: ['OPEN', 'CLOSED'],
+      default: 'OPEN'
+    },
+    closedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    closedAt: {
+      type: Date
+    },
+    denominations: {
+      type: [DenominationCountSchema],
+      default: undefined
+    },
+    expectedCash: {
+      type: Number
+    },
+    countedCash: {
+      type: Number,
+      min: 0
+    },
+    overShort: {
+      type: Number
+    },
+    notes: {
+      type: String
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+ShiftSchema.index({ store: 1, shiftNumber: 1 }, { unique: true })
+ShiftSchema.index({ store: 1, openedAt: -1 })
+// A cashier has at most one open shift per store
+ShiftSchema.index(
+  { store: 1, openedBy: 1 },
+  { unique: true, partialFilterExpression: { status: 'OPEN' } }
+)
+
+export default mongoose.models.Shift || mongoose.model<IShift>('Shift', ShiftSchema)
@@ -0,0 +1,130 @@
+import mongoose, { Schema, Document } from 'mongoose'
+
+export interface IStockCountItem {
+  product: mongoose.Types.ObjectId
+  productName: string
+  sku: string
+  barcode?: string
+  unit: string
+  // Stock when the session started, shown while counting. Sales and receipts keep moving
+  // stock while the count is open, so variances are posted against the stock at posting.
+  expectedQuantity: number
+  countedQuantity?: number | null
+  // Stock on hand when the count was posted; the posted variance is counted minus this
+  postedQuantity?: number
+  unitCost: number
+}
+
+export interface IStockCount extends Document {
+  countNumber: string
+  store: mongoose.Types.ObjectId
+  scopeType: 'ALL' | 'CATEGORY' | 'BRAND' | 'LOCATION'
+  scopeValue?: string
+  scopeLabel: string
+  status: 'IN_PROGRESS' | 'POSTED' | 'CANCELLED'
+  items: IStockCountItem[]
+  notes?: string
+  createdBy: mongoose.Types.ObjectId
+  postedBy?: mongoose.Types.ObjectId
+  postedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const StockCountItemSchema = new Schema<IStockCountItem>(
+  {
+    product: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    productName: {
+      type: String,
+      required: true
+    },
+    sku: {
+      type: String
+    },
+    barcode: {
+      type: String
+    },
+    unit: {
+      type: String,
+      default: 'pcs'
+    },
+    expectedQuantity: {
+      type: Number,
+      required: true
+    },
+    countedQuantity: {
+      type: Number,
+      default: null,
+      min: 0
+    },
+    postedQuantity: {
+      type: Number
+    },
+    unitCost: {
+      type: Number,
+      default: 0,
+      min: 0
+    }
+  },
+  { _id: false }
+)
+
+const StockCountSchema = new Schema<IStockCount>(
+  {
+    countNumber: {
+      type: String,
+      required: true
+    },
+    store: {
+      type: Schema.Types.ObjectId,
+      ref: 'Store',
+      required: true
+    },
+    scopeType: {
+      type: String,
+      enum: ['ALL', 'CATEGORY', 'BRAND', 'LOCATION'],
+      default: 'ALL'
+    },
+    scopeValue: {
+      type: String
+    },
+    scopeLabel: {
+      type: String,
+      default: 'All products'
+    },
+    status: {
+      type: String,
+      enum: ['IN_PROGRESS', 'POSTED', 'CANCELLED'],
+      default: 'IN_PROGRESS'
+    },
+    items: [StockCountItemSchema],
+    notes: {
+      type: String
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    postedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    postedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+StockCountSchema.index({ store: 1, countNumber: 1 }, { unique: true })
+StockCountSchema.index({ store: 1, createdAt: -1 })
+
+export default mongoose.models.StockCount ||
+  mongoose.model<IStockCount>('StockCount', StockCountSchema)
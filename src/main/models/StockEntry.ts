@@ -7,14 +7,17 @@ export interface IStockEntry extends Document {
     supplier?: mongoose.Types.ObjectId
 
     quantity: number
+    // Stock from this receipt not yet sold or written off; open entries are the cost layers
+    remainingQuantity?: number
     unit: string // 'pcs', 'meter', 'set'
     buyingPrice: number
     totalCost: number
 
     invoiceNumber?: string
+    purchaseOrder?: mongoose.Types.ObjectId
     purchaseDate: Date
 
-    entryType: 'INITIAL_STOCK' | 'RESTOCK' | 'ADJUSTMENT' | 'RETURN'
+    entryType: 'INITIAL_STOCK' | 'RESTOCK' | 'PURCHASE_ORDER' | 'ADJUSTMENT' | 'RETURN'
     notes?: string
 
     createdAt: Date
@@ -42,6 +45,10 @@ const StockEntrySchema = new Schema<IStockEntry>(
             type: Number,
             required: true
         },
+        remainingQuantity: {
+            type: Number,
+            min: 0
+        },
         unit: {
             type: String,
             default: 'pcs'
@@ -56,6 +63,10 @@ const StockEntrySchema = new Schema<IStockEntry>(
         },
 
         invoiceNumber: String,
+        purchaseOrder: {
+            type: Schema.Types.ObjectId,
+            ref: 'PurchaseOrder'
+        },
         purchaseDate: {
             type: Date,
             default: Date.now
@@ -63,7 +74,7 @@ const StockEntrySchema = new Schema<IStockEntry>(
 
         entryType: {
             type: String,
-            enum: ['INITIAL_STOCK', 'RESTOCK', 'ADJUSTMENT', 'RETURN'],
+            enum: ['INITIAL_STOCK', 'RESTOCK', 'PURCHASE_ORDER', 'ADJUSTMENT', 'RETURN'],
             default: 'INITIAL_STOCK'
         },
 
@@ -78,6 +89,7 @@ const StockEntrySchema = new Schema<IStockEntry>(
 StockEntrySchema.index({ store: 1, product: 1, createdAt: -1 })
 StockEntrySchema.index({ supplier: 1 })
 StockEntrySchema.index({ purchaseDate: -1 })
+StockEntrySchema.index({ product: 1, remainingQuantity: 1, purchaseDate: 1 })
 
 const StockEntryModel: Model<IStockEntry> =
     mongoose.models.StockEntry || mongoose.model<IStockEntry>('StockEntry', StockEntrySchema)
@@ -2,6 +2,7 @@ import mongoose, { Schema, Document } from 'mongoose';
 
 export interface IStockTransaction extends Document {
     product: mongoose.Types.ObjectId;
+    store?: mongoose.Types.ObjectId;
     transactionType: 'PURCHASE' | 'SALE' | 'ADJUSTMENT' | 'RETURN' | 'DAMAGE';
     referenceType: string;
     referenceId: mongoose.Types.ObjectId;
@@ -9,6 +10,8 @@ export interface IStockTransaction extends Document {
     unitCost?: number;
     balanceAfter: number;
     notes?: string;
+    reason?: string;
+    photo?: string;
     createdBy: mongoose.Types.ObjectId;
     createdAt: Date;
 }
@@ -19,6 +22,10 @@ const StockTransactionSchema = new Schema<IStockTransaction>({
         ref: 'Product',
         required: true
     },
+    store: {
+        type: Schema.Types.ObjectId,
+        ref: 'Store'
+    },
     transactionType: {
         type: String,
         enum: ['PURCHASE', 'SALE', 'ADJUSTMENT', 'RETURN', 'DAMAGE'],
@@ -40,14 +47,22 @@ const StockTransactionSchema = new Schema<IStockTransaction>({
         type: Number,
         min: 0
     },
+    // Not floored at zero: sales cannot oversell, but other adjustments (counts, returns,
+    // cancellations) can take the running balance negative, and the ledger records it
     balanceAfter: {
         type: Number,
-        required: true,
-        min: 0
+        required: true
     },
     notes: {
         type: String
     },
+    // Reason code and evidence for manual adjustments (damage, shrinkage, found stock)
+    reason: {
+        type: String
+    },
+    photo: {
+        type: String
+    },
     createdBy: {
         type: Schema.Types.ObjectId,
         ref: 'User',
@@ -61,5 +76,6 @@ const StockTransactionSchema = new Schema<IStockTransaction>({
 StockTransactionSchema.index({ product: 1, createdAt: -1 });
 StockTransactionSchema.index({ transactionType: 1 });
 StockTransactionSchema.index({ referenceType: 1, referenceId: 1 });
+StockTransactionSchema.index({ store: 1, referenceType: 1, createdAt: -1 });
 
 export default mongoose.models.StockTransaction || mongoose.model<IStockTransaction>('StockTransaction', StockTransactionSchema);
@@ -1,5 +1,19 @@
 import mongoose, { Schema, Document } from 'mongoose'
 
+// How one kind of document is numbered: PREFIX-YEAR-000123, or PREFIX-000123 without the
+// yearly reset. An empty prefix falls back to one built from the store code.
+export interface IDocumentNumbering {
+  prefix: string
+  padding: number
+  yearlyReset: boolean
+}
+
+// Standard items are taxed at settings.taxRate, reduced ones at settings.reducedTaxRate and
+// exempt ones not at all
+export type TaxClass = 'STANDARD' | 'REDUCED' | 'EXEMPT'
+
+export const TAX_CLASSES: TaxClass[] = ['STANDARD', 'REDUCED', 'EXEMPT']
+
 export interface IStore extends Document {
   name: string
   code: string
@@ -9,14 +23,59 @@ export interface IStore extends Document {
   settings: {
     currency: string
     taxRate: number
+    reducedTaxRate: number
+    // Whether selling prices already include tax, or tax is added on top at the till
+    pricesIncludeTax: boolean
     timezone: string
     logo?: string
+    costingMethod: 'WEIGHTED_AVERAGE' | 'FIFO'
+    meterStep: number
+    numbering: {
+      invoice: IDocumentNumbering
+      purchaseOrder: IDocumentNumbering
+      expense: IDocumentNumbering
+      quotation: IDocumentNumbering
+      shift: IDocumentNumbering
+      stockCount: IDocumentNumbering
+      goodsReceipt: IDocumentNumbering
+      supplierReturn: IDocumentNumbering
+    }
+    // Largest discount, as a percent off the list price, each store role may give at the POS
+    maxDiscountPercent: {
+      OWNER: number
+      MANAGER: number
+      CASHIER: number
+    }
+    // How long a parked POS cart is kept before it expires
+    heldCartHours: number
   }
   isActive: boolean
   createdAt: Date
   updatedAt: Date
 }
 
+const DocumentNumberingSchema = new Schema<IDocumentNumbering>(
+  {
+    prefix: {
+      type: String,
+      default: '',
+      uppercase: true,
+      trim: true
+    },
+    padding: {
+      type: Number,
+      default: 6,
+      min: 1,
+      max: 10
+    },
+    yearlyReset: {
+      type: Boolean,
+      default: true
+    }
+  },
+  { _id: false }
+)
+
 const StoreSchema = new Schema<IStore>(
   {
     name: {
@@ -54,11 +113,53 @@ const StoreSchema = new Schema<IStore>(
         min: 0,
         max: 100
       },
+      reducedTaxRate: {
+        type: Number,
+        default: 0,
+        min: 0,
+        max: 100
+      },
+      pricesIncludeTax: {
+        type: Boolean,
+        default: false
+      },
       timezone: {
         type: String,
         default: 'Asia/Karachi'
       },
-      logo: String
+      logo: String,
+      // How cost of goods sold is valued: running average, or oldest purchase layer first
+      costingMethod: {
+        type: String,
+        enum: ['WEIGHTED_AVERAGE', 'FIFO'],
+        default: 'WEIGHTED_AVERAGE'
+      },
+      // Raw material is sold in multiples of this many meters (0.25 = quarter meters)
+      meterStep: {
+        type: Number,
+        default: 0.01,
+        min: 0.01
+      },
+      numbering: {
+        invoice: { type: DocumentNumberingSchema, default: () => ({}) },
+        purchaseOrder: { type: DocumentNumberingSchema, default: () => ({}) },
+        expense: { type: DocumentNumberingSchema, default: () => ({}) },
+        quotation: { type: DocumentNumberingSchema, default: () => ({}) },
+        shift: { type: DocumentNumberingSchema, default: () => ({}) },
+        stockCount: { type: DocumentNumberingSchema, default: () => ({}) },
+        goodsReceipt: { type: DocumentNumberingSchema, default: () => ({}) },
+        supplierReturn: { type: DocumentNumberingSchema, default: () => ({}) }
+      },
+      maxDiscountPercent: {
+        OWNER: { type: Number, default: 100, min: 0, max: 100 },
+        MANAGER: { type: Number, default: 25, min: 0, max: 100 },
+        CASHIER: { type: Number, default: 10, min: 0, max: 100 }
+      },
+      heldCartHours: {
+        type: Number,
+        default: 24,
+        min: 1
+      }
     },
     isActive: {
       type: Boolean,
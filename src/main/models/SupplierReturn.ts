@@ -0,0 +1,123 @@
+import mongoose, { Schema, Document } from 'mongoose'
+
+export interface ISupplierReturnItem {
+  product: mongoose.Types.ObjectId
+  productName: string
+  quantity: number
+  unit: string
+  unitCost: number
+  totalCost: number
+}
+
+// Goods sent back to a supplier. The return doubles as a debit note: its total comes off
+// what we owe them.
+export interface ISupplierReturn extends Document {
+  returnNumber: string
+  store: mongoose.Types.ObjectId
+  supplier: mongoose.Types.ObjectId
+  purchaseOrder?: mongoose.Types.ObjectId
+  stockEntry?: mongoose.Types.ObjectId
+  returnDate: Date
+  items: ISupplierReturnItem[]
+  totalAmount: number
+  reason: string
+  notes?: string
+  createdBy: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const SupplierReturnItemSchema = new Schema<ISupplierReturnItem>(
+  {
+    product: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    productName: {
+      type: String,
+      required: true
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    unit: {
+      type: String,
+      default: 'pcs'
+    },
+    unitCost: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    totalCost: {
+      type: Number,
+      required: true,
+      min: 0
+    }
+  },
+  { _id: false }
+)
+
+const SupplierReturnSchema = new Schema<ISupplierReturn>(
+  {
+    returnNumber: {
+      type: String,
+      required: true
+    },
+    store: {
+      type: Schema.Types.ObjectId,
+      ref: 'Store',
+      required: true
+    },
+    supplier: {
+      type: Schema.Types.ObjectId,
+      ref: 'Supplier',
+      required: true
+    },
+    purchaseOrder: {
+      type: Schema.Types.ObjectId,
+      ref: 'PurchaseOrder'
+    },
+    stockEntry: {
+      type: Schema.Types.ObjectId,
+      ref: 'StockEntry'
+    },
+    returnDate: {
+      type: Date,
+      required: true,
+      default: Date.now
+    },
+    items: [SupplierReturnItemSchema],
+    totalAmount: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    reason: {
+      type: String,
+      required: true
+    },
+    notes: {
+      type: String
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+SupplierReturnSchema.index({ store: 1, returnNumber: 1 }, { unique: true })
+SupplierReturnSchema.index({ supplier: 1, returnDate: -1 })
+SupplierReturnSchema.index({ purchaseOrder: 1 })
+SupplierReturnSchema.index({ stockEntry: 1 })
+
+export default mongoose.models.SupplierReturn ||
+  mongoose.model<ISupplierReturn>('SupplierReturn', SupplierReturnSchema)
@@ -17,6 +17,12 @@ import ActivityLog from './ActivityLog'
 import UserStore from './UserStore'
 import Attribute from './Attribute'
 import StockEntry from './StockEntry'
+import StockCount from './StockCount'
+import SupplierReturn from './SupplierReturn'
+import DocumentCounter from './DocumentCounter'
+import HeldCart from './HeldCart'
+import Quotation from './Quotation'
+import Shift from './Shift'
 
 export {
   Role,
@@ -37,5 +43,11 @@ export {
   ActivityLog,
   UserStore,
   Attribute,
-  StockEntry
+  StockEntry,
+  StockCount,
+  SupplierReturn,
+  DocumentCounter,
+  HeldCart,
+  Quotation,
+  Shift
 }
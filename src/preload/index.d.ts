@@ -31,6 +31,7 @@ declare global {
           quantity: number
           unitCost: number
           sellingPrice: number
+          createdBy?: string
         }) => Promise<any>
         checkSales: (id: string) => Promise<any>
         getInitialStockEntry: (id: string) => Promise<any>
@@ -43,6 +44,11 @@ declare global {
         delete: (id: string) => Promise<any>
         getById: (id: string) => Promise<any>
         recordPayment: (supplierId: string, paymentData: any) => Promise<any>
+        getStatement: (params: {
+          supplierId: string
+          startDate?: string
+          endDate?: string
+        }) => Promise<any>
       }
       customers: {
         getAll: (params?: any) => Promise<any>
@@ -51,16 +57,89 @@ declare global {
         delete: (id: string) => Promise<any>
         getById: (id: string) => Promise<any>
         recordPayment: (customerId: string, paymentData: any) => Promise<any>
+        getStatement: (params: {
+          customerId: string
+          startDate?: string
+          endDate?: string
+        }) => Promise<any>
+        getReceivablesAging: (params: { storeId: string; asOf?: string }) => Promise<any>
+        checkCredit: (params: { customerId: string; amount: number }) => Promise<any>
       }
       inventory: {
         getHistory: (params: { productId: string; storeId: string; limit?: number }) => Promise<any>
+        getMovements: (params: { productId: string; limit?: number }) => Promise<any>
+        adjust: (data: {
+          productId: string
+          quantity: number
+          reason: string
+          notes?: string
+          photo?: string
+          createdBy: string
+        }) => Promise<any>
+        getAdjustments: (params: {
+          storeId: string
+          startDate?: string
+          endDate?: string
+          reason?: string
+        }) => Promise<any>
+        getCostLayers: (params: { storeId: string; productId?: string }) => Promise<any>
+      }
+      stockCounts: {
+        getAll: (params: { storeId: string; status?: string }) => Promise<any>
+        getById: (id: string) => Promise<any>
+        getLocations: (params: { storeId: string }) => Promise<any>
+        create: (data: {
+          storeId: string
+          scopeType: 'ALL' | 'CATEGORY' | 'BRAND' | 'LOCATION'
+          scopeValue?: string
+          notes?: string
+          createdBy: string
+        }) => Promise<any>
+        saveCounts: (data: {
+          id: string
+          counts: Array<{ product: string; countedQuantity: number | null }>
+        }) => Promise<any>
+        post: (data: { id: string; postedBy: string }) => Promise<any>
+        cancel: (id: string) => Promise<any>
+      }
+      supplierReturns: {
+        getAll: (params: {
+          storeId: string
+          supplierId?: string
+          page?: number
+          pageSize?: number
+          search?: string
+        }) => Promise<any>
+        getSources: (params: { supplierId: string }) => Promise<any>
+        create: (data: {
+          storeId: string
+          supplierId: string
+          purchaseOrderId?: string
+          stockEntryId?: string
+          items: Array<{ product: string; quantity: number }>
+          reason: string
+          notes?: string
+          returnDate?: string
+          createdBy: string
+        }) => Promise<any>
       }
       purchaseOrders: {
         getAll: (params?: any) => Promise<any>
         getById: (id: string) => Promise<any>
+        getOutstanding: (params: { supplierId: string }) => Promise<any>
         getLastSupply: (params: { storeId: string; productId: string }) => Promise<any>
         create: (data: any) => Promise<any>
         update: (id: string, data: any) => Promise<any>
+        confirm: (id: string) => Promise<any>
+        receive: (data: {
+          id: string
+          grnNumber?: string
+          receivedDate?: string
+          items: Array<{ product: string; quantity: number }>
+          notes?: string
+          receivedBy: string
+        }) => Promise<any>
+        cancel: (data: { id: string; reason?: string; cancelledBy: string }) => Promise<any>
         delete: (id: string) => Promise<any>
       }
       categories: {
@@ -87,6 +166,11 @@ declare global {
         create: (data: any) => Promise<any>
         update: (id: string, data: any) => Promise<any>
         delete: (id: string) => Promise<any>
+        getStatements: (params: {
+          storeId: string
+          startDate?: string
+          endDate?: string
+        }) => Promise<any>
       }
       expenses: {
         getAll: (params?: any) => Promise<any>
@@ -142,16 +226,78 @@ declare global {
           endDate: string
           groupBy?: 'day' | 'week' | 'month'
         }) => Promise<any>
+        getDiscountLimit: (params: { storeId: string; userId: string }) => Promise<any>
+        getDiscountReport: (params: {
+          storeId: string
+          startDate: string
+          endDate: string
+        }) => Promise<any>
+        getTaxReport: (params: {
+          storeId: string
+          startDate: string
+          endDate: string
+        }) => Promise<any>
+        getOverdueInstallments: (params: { storeId?: string; customerId?: string }) => Promise<any>
         refund: (
           saleId: string,
           payload: {
-            refundItems: Array<{ product: string; quantity: number }>
+            refundItems: Array<{ product: string; comboPieces?: string[]; quantity: number }>
             method: string
             reason?: string
             processedBy: string
           }
         ) => Promise<any>
       }
+      quotations: {
+        create: (data: any) => Promise<any>
+        getAll: (params: {
+          storeId: string
+          status?: 'OPEN' | 'ACCEPTED' | 'EXPIRED'
+          search?: string
+        }) => Promise<any>
+        getById: (id: string) => Promise<any>
+      }
+      heldCarts: {
+        getAll: (storeId: string) => Promise<any>
+        hold: (data: {
+          storeId: string
+          label: string
+          customer?: string
+          items: Array<{
+            product: string
+            quantity: number
+            comboSelection?: { mode: string; pieces: string[] }
+            listPrice: number
+            sellingPrice: number
+            discount?: { type: 'AMOUNT' | 'PERCENT'; value: number }
+          }>
+          discountAmount: number
+          discountPercent: number
+          heldBy: string
+        }) => Promise<any>
+        resume: (id: string) => Promise<any>
+        delete: (id: string) => Promise<any>
+        getHeldStock: (storeId: string) => Promise<any>
+      }
+      shifts: {
+        getCurrent: (params: { storeId: string; userId: string }) => Promise<any>
+        getAll: (params: { storeId: string; status?: 'OPEN' | 'CLOSED' }) => Promise<any>
+        open: (data: { storeId: string; userId: string; openingFloat: number }) => Promise<any>
+        recordCashMovement: (data: {
+          shiftId: string
+          type: 'PAY_IN' | 'PAY_OUT'
+          amount: number
+          reason: string
+          userId: string
+        }) => Promise<any>
+        getReport: (id: string) => Promise<any>
+        close: (data: {
+          shiftId: string
+          denominations: Array<{ value: number; count: number }>
+          notes?: string
+          userId: string
+        }) => Promise<any>
+      }
       dashboard: {
         getStats: (storeId: string) => Promise<any>
       }
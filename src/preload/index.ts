@@ -20,7 +20,20 @@ const api = {
     getInitialStockEntry: (id) => ipcRenderer.invoke('products:getInitialStockEntry', id)
   },
   inventory: {
-    getHistory: (params) => ipcRenderer.invoke('inventory:getHistory', params)
+    getHistory: (params) => ipcRenderer.invoke('inventory:getHistory', params),
+    getMovements: (params) => ipcRenderer.invoke('inventory:getMovements', params),
+    adjust: (data) => ipcRenderer.invoke('inventory:adjust', data),
+    getAdjustments: (params) => ipcRenderer.invoke('inventory:getAdjustments', params),
+    getCostLayers: (params) => ipcRenderer.invoke('inventory:getCostLayers', params)
+  },
+  stockCounts: {
+    getAll: (params) => ipcRenderer.invoke('stockCounts:getAll', params),
+    getById: (id) => ipcRenderer.invoke('stockCounts:getById', id),
+    getLocations: (params) => ipcRenderer.invoke('stockCounts:getLocations', params),
+    create: (data) => ipcRenderer.invoke('stockCounts:create', data),
+    saveCounts: (data) => ipcRenderer.invoke('stockCounts:saveCounts', data),
+    post: (data) => ipcRenderer.invoke('stockCounts:post', data),
+    cancel: (id) => ipcRenderer.invoke('stockCounts:cancel', id)
   },
   suppliers: {
     getAll: (params) => ipcRenderer.invoke('suppliers:getAll', params),
@@ -30,7 +43,8 @@ const api = {
     update: (id, data) => ipcRenderer.invoke('suppliers:update', { id, data }),
     delete: (id) => ipcRenderer.invoke('suppliers:delete', id),
     recordPayment: (supplierId, paymentData) =>
-      ipcRenderer.invoke('suppliers:recordPayment', { supplierId, paymentData })
+      ipcRenderer.invoke('suppliers:recordPayment', { supplierId, paymentData }),
+    getStatement: (params) => ipcRenderer.invoke('suppliers:getStatement', params)
   },
   customers: {
     getAll: (params) => ipcRenderer.invoke('customers:getAll', params),
@@ -39,14 +53,26 @@ const api = {
     update: (id, data) => ipcRenderer.invoke('customers:update', { id, data }),
     delete: (id) => ipcRenderer.invoke('customers:delete', id),
     recordPayment: (customerId, paymentData) =>
-      ipcRenderer.invoke('customers:recordPayment', { customerId, paymentData })
+      ipcRenderer.invoke('customers:recordPayment', { customerId, paymentData }),
+    getStatement: (params) => ipcRenderer.invoke('customers:getStatement', params),
+    getReceivablesAging: (params) => ipcRenderer.invoke('customers:getReceivablesAging', params),
+    checkCredit: (params) => ipcRenderer.invoke('customers:checkCredit', params)
+  },
+  supplierReturns: {
+    getAll: (params) => ipcRenderer.invoke('supplierReturns:getAll', params),
+    getSources: (params) => ipcRenderer.invoke('supplierReturns:getSources', params),
+    create: (data) => ipcRenderer.invoke('supplierReturns:create', data)
   },
   purchaseOrders: {
     getAll: (params) => ipcRenderer.invoke('purchaseOrders:getAll', params),
     getLastSupply: (params) => ipcRenderer.invoke('purchaseOrders:getLastSupply', params),
     getById: (id) => ipcRenderer.invoke('purchaseOrders:getById', id),
+    getOutstanding: (params) => ipcRenderer.invoke('purchaseOrders:getOutstanding', params),
     create: (data) => ipcRenderer.invoke('purchaseOrders:create', data),
     update: (id, data) => ipcRenderer.invoke('purchaseOrders:update', { id, data }),
+    confirm: (id) => ipcRenderer.invoke('purchaseOrders:confirm', id),
+    receive: (data) => ipcRenderer.invoke('purchaseOrders:receive', data),
+    cancel: (data) => ipcRenderer.invoke('purchaseOrders:cancel', data),
     delete: (id) => ipcRenderer.invoke('purchaseOrders:delete', id)
   },
   categories: {
@@ -111,13 +137,38 @@ const api = {
       ipcRenderer.invoke('sales:recordPayment', { saleId, paymentData }),
     getPendingStats: (storeId) => ipcRenderer.invoke('sales:getPendingStats', { storeId }),
     getReport: (params) => ipcRenderer.invoke('sales:getReport', params),
+    getDiscountLimit: (params) => ipcRenderer.invoke('sales:getDiscountLimit', params),
+    getDiscountReport: (params) => ipcRenderer.invoke('sales:getDiscountReport', params),
+    getTaxReport: (params) => ipcRenderer.invoke('sales:getTaxReport', params),
+    getOverdueInstallments: (params) => ipcRenderer.invoke('sales:getOverdueInstallments', params),
     refund: (saleId, payload) => ipcRenderer.invoke('sales:refund', { saleId, ...payload })
   },
+  quotations: {
+    create: (data) => ipcRenderer.invoke('quotations:create', data),
+    getAll: (params) => ipcRenderer.invoke('quotations:getAll', params),
+    getById: (id) => ipcRenderer.invoke('quotations:getById', id)
+  },
+  heldCarts: {
+    getAll: (storeId) => ipcRenderer.invoke('heldCarts:getAll', { storeId }),
+    hold: (data) => ipcRenderer.invoke('heldCarts:hold', data),
+    resume: (id) => ipcRenderer.invoke('heldCarts:resume', id),
+    delete: (id) => ipcRenderer.invoke('heldCarts:delete', id),
+    getHeldStock: (storeId) => ipcRenderer.invoke('heldCarts:getHeldStock', { storeId })
+  },
+  shifts: {
+    getCurrent: (params) => ipcRenderer.invoke('shifts:getCurrent', params),
+    getAll: (params) => ipcRenderer.invoke('shifts:getAll', params),
+    open: (data) => ipcRenderer.invoke('shifts:open', data),
+    recordCashMovement: (data) => ipcRenderer.invoke('shifts:recordCashMovement', data),
+    getReport: (id) => ipcRenderer.invoke('shifts:getReport', id),
+    close: (data) => ipcRenderer.invoke('shifts:close', data)
+  },
   accounts: {
     getAll: (params) => ipcRenderer.invoke('accounts:getAll', params),
     create: (data) => ipcRenderer.invoke('accounts:create', data),
     update: (id, data) => ipcRenderer.invoke('accounts:update', { id, data }),
-    delete: (id) => ipcRenderer.invoke('accounts:delete', id)
+    delete: (id) => ipcRenderer.invoke('accounts:delete', id),
+    getStatements: (params) => ipcRenderer.invoke('accounts:getStatements', params)
   },
   expenses: {
     getAll: (params) => ipcRenderer.invoke('expenses:getAll', params),
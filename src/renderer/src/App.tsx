@@ -17,15 +17,26 @@ import ProductDetails from '@renderer/pages/store/inventory/products/detail'
 import CategoriesPage from '@renderer/pages/store/inventory/categories/page'
 import BrandsPage from '@renderer/pages/store/inventory/brands/page'
 import AttributesPage from '@renderer/pages/store/inventory/attributes/page'
+import StockAdjustmentsPage from '@renderer/pages/store/inventory/adjustments/page'
+import StockCountsPage from '@renderer/pages/store/inventory/stock-counts/page'
+import StockCountDetailPage from '@renderer/pages/store/inventory/stock-counts/detail'
+import CostLayersPage from '@renderer/pages/store/inventory/cost-layers/page'
 import SuppliersPage from '@renderer/pages/store/purchases/suppliers/page'
 import SupplierDetails from '@renderer/pages/store/purchases/suppliers/detail'
+import SupplierReturnPage from '@renderer/pages/store/purchases/suppliers/return'
+import SupplierStatementPage from '@renderer/pages/store/purchases/suppliers/statement'
 import PurchaseOrdersPage from '@renderer/pages/store/purchases/orders/page'
 import CreatePurchaseOrder from '@renderer/pages/store/purchases/orders/create/page'
 import EditPurchaseOrder from '@renderer/pages/store/purchases/orders/edit'
+import ReceivePurchaseOrder from '@renderer/pages/store/purchases/orders/receive'
 import PurchaseOrderDetails from './pages/store/purchases/orders/detail'
 import StoreSettingsPage from '@renderer/pages/store/settings/page'
 import SettingsProfilePage from '@renderer/pages/store/settings/profile/page'
 import POSPage from '@renderer/pages/store/sales/pos/page'
+import QuotationsPage from '@renderer/pages/store/quotations/page'
+import QuotationDetailPage from '@renderer/pages/store/quotations/detail'
+import ShiftsPage from '@renderer/pages/store/shifts/page'
+import ShiftDetailPage from '@renderer/pages/store/shifts/detail'
 import StoreDashboard from '@renderer/pages/store/dashboard/page'
 import StoreSelectionPage from './pages/auth/StoreSelectionPage'
 import ReportsPage from './pages/store/reports/page'
@@ -33,14 +44,20 @@ import SalesReportsPage from './pages/store/reports/sales/page'
 import SalesReportPage from './pages/store/sales/page'
 import SalesReportPrintPreviewPage from './pages/store/sales/print-preview'
 import SalesDetailPage from './pages/store/reports/sales/detail'
+import DiscountReportPage from './pages/store/reports/discounts'
+import TaxReportPage from './pages/store/reports/tax'
 import AccountingPage from './pages/store/accounting/page'
 import AccountsPage from './pages/store/accounting/accounts/page'
 import ExpensesPage from './pages/store/accounting/expenses/page'
 import TransactionsPage from './pages/store/accounting/transactions/page'
 import TransactionsPrintPreviewPage from './pages/store/accounting/transactions/print-preview'
+import FinancialStatementsPage from './pages/store/accounting/statements/page'
+import FinancialStatementsPrintPreviewPage from './pages/store/accounting/statements/print-preview'
 import EditSimpleProduct from '@renderer/pages/store/inventory/products/EditSimpleProduct'
 import EditRawMaterialProduct from '@renderer/pages/store/inventory/products/EditRawMaterialProduct'
 import CustomersPage from '@renderer/pages/store/customers/page'
+import CustomerStatementPage from '@renderer/pages/store/customers/statement'
+import ReceivablesAgingPage from '@renderer/pages/store/customers/aging'
 
 interface User {
   id: string
@@ -151,6 +168,10 @@ function App(): React.JSX.Element {
           >
             <Route index element={<StoreDashboard />} />
             <Route path="pos" element={<POSPage />} />
+            <Route path="shifts" element={<ShiftsPage />} />
+            <Route path="shifts/:id" element={<ShiftDetailPage />} />
+            <Route path="quotations" element={<QuotationsPage />} />
+            <Route path="quotations/:id" element={<QuotationDetailPage />} />
             <Route path="inventory/products" element={<ProductsPage />} />
             <Route path="inventory/products/:id/edit" element={<EditSimpleProduct />} />
             <Route path="inventory/products/:id/edit-raw" element={<EditRawMaterialProduct />} />
@@ -159,18 +180,29 @@ function App(): React.JSX.Element {
             <Route path="inventory/categories" element={<CategoriesPage />} />
             <Route path="inventory/brands" element={<BrandsPage />} />
             <Route path="inventory/attributes" element={<AttributesPage />} />
+            <Route path="inventory/adjustments" element={<StockAdjustmentsPage />} />
+            <Route path="inventory/stock-counts" element={<StockCountsPage />} />
+            <Route path="inventory/stock-counts/:id" element={<StockCountDetailPage />} />
+            <Route path="inventory/cost-layers" element={<CostLayersPage />} />
             <Route path="purchases/suppliers" element={<SuppliersPage />} />
             <Route path="purchases/suppliers/:id" element={<SupplierDetails />} />
+            <Route path="purchases/suppliers/:id/return" element={<SupplierReturnPage />} />
+            <Route path="purchases/suppliers/:id/statement" element={<SupplierStatementPage />} />
             <Route path="customers" element={<CustomersPage />} />
+            <Route path="customers/aging" element={<ReceivablesAgingPage />} />
+            <Route path="customers/:id/statement" element={<CustomerStatementPage />} />
             <Route path="purchases/orders" element={<PurchaseOrdersPage />} />
             <Route path="purchases/orders/create" element={<CreatePurchaseOrder />} />
             <Route path="purchases/orders/:id/edit" element={<EditPurchaseOrder />} />
+            <Route path="purchases/orders/:id/receive" element={<ReceivePurchaseOrder />} />
             <Route path="purchases/orders/:id" element={<PurchaseOrderDetails />} />
             <Route path="settings" element={<StoreSettingsPage />} />
             <Route path="settings/profile" element={<SettingsProfilePage />} />
             <Route path="reports" element={<ReportsPage />} />
             <Route path="reports/sales" element={<SalesReportsPage />} />
             <Route path="reports/sales/:id" element={<SalesDetailPage />} />
+            <Route path="reports/discounts" element={<DiscountReportPage />} />
+            <Route path="reports/tax" element={<TaxReportPage />} />
             <Route path="reports/sales-report" element={<SalesReportPage />} />
             <Route path="reports/sales-report/preview" element={<SalesReportPrintPreviewPage />} />
             <Route path="accounting" element={<AccountingPage />} />
@@ -181,6 +213,11 @@ function App(): React.JSX.Element {
               path="accounting/transactions/preview"
               element={<TransactionsPrintPreviewPage />}
             />
+            <Route path="accounting/statements" element={<FinancialStatementsPage />} />
+            <Route
+              path="accounting/statements/preview"
+              element={<FinancialStatementsPrintPreviewPage />}
+            />
           </Route>
 
           <Route
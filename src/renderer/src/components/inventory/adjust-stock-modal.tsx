@@ -0,0 +1,286 @@
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@renderer/components/ui/dialog'
+import { Button } from '@renderer/components/ui/button'
+import { Input } from '@renderer/components/ui/input'
+import { Label } from '@renderer/components/ui/label'
+import { Textarea } from '@renderer/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@renderer/components/ui/select'
+import { toast } from 'sonner'
+import { ImagePlus, Loader2, X } from 'lucide-react'
+import { ADJUSTMENT_REASONS } from '@renderer/lib/stock-adjustments'
+import { formatQuantity } from '@renderer/lib/quantities'
+
+interface AdjustStockModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  product: any
+  onSuccess: () => void
+}
+
+export function AdjustStockModal({
+  open,
+  onOpenChange,
+  product,
+  onSuccess
+}: AdjustStockModalProps) {
+  const [loading, setLoading] = useState(false)
+  const [reason, setReason] = useState('DAMAGE')
+  const [direction, setDirection] = useState<'IN' | 'OUT'>('OUT')
+  const [quantity, setQuantity] = useState(1)
+  const [notes, setNotes] = useState('')
+  const [photoFile, setPhotoFile] = useState<File | null>(null)
+  const [photoPreview, setPhotoPreview] = useState('')
+
+  const isRawMaterial = product?.productKind === 'RAW_MATERIAL'
+  const unit = isRawMaterial ? 'meters' : 'pcs'
+  const rule = ADJUSTMENT_REASONS[reason]
+  const effectiveDirection = rule.direction === 'BOTH' ? direction : rule.direction
+  const currentStock = product?.stockLevel || 0
+  const newStock = effectiveDirection === 'OUT' ? currentStock - quantity : currentStock + quantity
+  const value = quantity * (product?.buyingPrice || 0)
+
+  useEffect(() => {
+    if (open) {
+      setReason('DAMAGE')
+      setDirection('OUT')
+      setQuantity(isRawMaterial ? 0.5 : 1)
+      setNotes('')
+      setPhotoFile(null)
+      setPhotoPreview('')
+    }
+  }, [open, product])
+
+  const fileToBase64 = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader()
+      reader.readAsDataURL(file)
+      reader.onload = () => resolve((reader.result as string).split(',')[1])
+      reader.onerror = (error) => reject(error)
+    })
+  }
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setPhotoFile(file)
+    setPhotoPreview(URL.createObjectURL(file))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (quantity <= 0) {
+      toast.error('Enter a quantity greater than zero')
+      return
+    }
+    if (newStock < 0) {
+      toast.error(`Cannot remove more than the ${currentStock} ${unit} in stock`)
+      return
+    }
+
+    setLoading(true)
+    try {
+      let photo: string | undefined
+      if (photoFile) {
+        const uploadRes = await window.api.app.uploadImage({
+          base64Data: await fileToBase64(photoFile),
+          fileName: photoFile.name
+        })
+        if (!uploadRes.success) {
+          toast.error('Photo upload failed: ' + uploadRes.error)
+          return
+        }
+        photo = uploadRes.url
+      }
+
+      const user = JSON.parse(localStorage.getItem('user') || '{}')
+      const result = await window.api.inventory.adjust({
+        productId: product._id,
+        quantity: effectiveDirection === 'OUT' ? -quantity : quantity,
+        reason,
+        notes: notes.trim() || undefined,
+        photo,
+        createdBy: user._id || user.id
+      })
+
+      if (result.success) {
+        toast.success(
+          `Stock adjusted: ${effectiveDirection === 'OUT' ? '-' : '+'}${quantity} ${unit} (${rule.label})`
+        )
+        onSuccess()
+        onOpenChange(false)
+      } else {
+        toast.error('Adjustment failed: ' + result.error)
+      }
+    } catch (error: any) {
+      toast.error('Adjustment failed: ' + error.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px] bg-card text-foreground border-border">
+        <DialogHeader>
+          <DialogTitle className="flex flex-col gap-1">
+            <span>Adjust Stock</span>
+            <span className="text-sm font-normal text-muted-foreground">{product?.name}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Record damaged, lost or found stock. The cost value is posted to Inventory Shrinkage
+            &amp; Damage.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-xs uppercase font-bold text-muted-foreground">
+                Reason <span className="text-red-500">*</span>
+              </Label>
+              <Select value={reason} onValueChange={setReason}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ADJUSTMENT_REASONS).map(([key, option]) => (
+                    <SelectItem key={key} value={key}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs uppercase font-bold text-muted-foreground">Direction</Label>
+              <Select
+                value={effectiveDirection}
+                onValueChange={(value) => setDirection(value as 'IN' | 'OUT')}
+                disabled={rule.direction !== 'BOTH'}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="OUT">Remove stock</SelectItem>
+                  <SelectItem value="IN">Add stock</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label
+              htmlFor="adjust-quantity"
+              className="text-xs uppercase font-bold text-muted-foreground"
+            >
+              {isRawMaterial ? 'Meters' : 'Quantity'} <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="adjust-quantity"
+              type="number"
+              min={isRawMaterial ? '0.01' : '1'}
+              step={isRawMaterial ? '0.01' : '1'}
+              value={quantity}
+              onChange={(e) => {
+                const nextValue = isRawMaterial
+                  ? parseFloat(e.target.value)
+                  : Math.floor(parseFloat(e.target.value))
+                setQuantity(Number.isNaN(nextValue) ? 0 : Math.max(0, nextValue))
+              }}
+              className="font-bold"
+            />
+            <p className="text-[11px] text-muted-foreground">
+              In stock: {currentStock} {unit} → after adjustment:{' '}
+              <span className={newStock < 0 ? 'text-red-500 font-bold' : 'font-semibold'}>
+                {formatQuantity(newStock, isRawMaterial)} {unit}
+              </span>
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label
+              htmlFor="adjust-notes"
+              className="text-xs uppercase font-bold text-muted-foreground"
+            >
+              Notes
+            </Label>
+            <Textarea
+              id="adjust-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. water damage on bottom roll"
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs uppercase font-bold text-muted-foreground">Photo</Label>
+            {photoPreview ? (
+              <div className="relative w-24 h-24 rounded-md overflow-hidden border border-border">
+                <img src={photoPreview} alt="Adjustment" className="h-full w-full object-cover" />
+                <button
+                  type="button"
+                  className="absolute top-1 right-1 rounded-full bg-black/60 p-0.5 text-white"
+                  onClick={() => {
+                    setPhotoFile(null)
+                    setPhotoPreview('')
+                  }}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ) : (
+              <label className="flex items-center gap-2 w-fit cursor-pointer rounded-md border border-dashed border-border px-3 py-2 text-xs text-muted-foreground hover:border-[#4ade80]">
+                <ImagePlus className="w-4 h-4" />
+                Attach photo
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={handlePhotoChange}
+                />
+              </label>
+            )}
+          </div>
+
+          <div className="pt-2 flex justify-between items-center border-t border-border mt-2">
+            <span className="font-bold text-sm uppercase text-muted-foreground">
+              {effectiveDirection === 'OUT' ? 'Write-off Value' : 'Recovered Value'}
+            </span>
+            <span
+              className={`text-xl font-black ${
+                effectiveDirection === 'OUT' ? 'text-red-500' : 'text-primary'
+              }`}
+            >
+              Rs. {value.toLocaleString()}
+            </span>
+          </div>
+
+          <DialogFooter className="pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || quantity <= 0}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Adjustment
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
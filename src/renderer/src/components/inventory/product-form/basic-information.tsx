@@ -1,5 +1,6 @@
 import { Input } from '@renderer/components/ui/input'
 import { SearchableDropdown } from '@renderer/components/shared/searchable-dropdown'
+import { TAX_CLASS_OPTIONS, taxClassLabel } from '@renderer/lib/tax'
 import {
   FormControl,
   FormField,
@@ -17,6 +18,7 @@ interface BasicInformationProps {
 
 export function BasicInformation({ form, categories, brands, productKind }: BasicInformationProps) {
   const isSimple = productKind === 'SIMPLE'
+  const category = categories.find((c) => c._id === form.watch('category'))
 
   return (
     <div className="bg-card border border-border rounded-lg p-6">
@@ -99,6 +101,24 @@ export function BasicInformation({ form, categories, brands, productKind }: Basi
             )}
           />
         </div>
+        <FormField
+          control={form.control}
+          name="taxClass"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tax Class</FormLabel>
+              <FormControl>
+                <SearchableDropdown
+                  value={field.value || ''}
+                  onChange={field.onChange}
+                  options={TAX_CLASS_OPTIONS}
+                  placeholder={`Same as category (${taxClassLabel(category?.taxClass)})`}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
         {isSimple && (
           <FormField
             control={form.control}
@@ -131,6 +131,24 @@ export function ClothDetails({ form, attributes, productKind }: ClothDetailsProp
             </FormItem>
           )}
         />
+
+        <FormField
+          control={form.control}
+          name="location"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Storage Location</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  className="bg-muted border-border h-12"
+                  placeholder="e.g., Rack A, Godown"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
       </div>
     </div>
   )
@@ -25,6 +25,7 @@ import {
   SelectValue
 } from '@renderer/components/ui/select'
 import { toast } from 'sonner'
+import { formatQuantity } from '@renderer/lib/quantities'
 import { z } from 'zod'
 import { useForm, type SubmitHandler } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
@@ -436,7 +437,7 @@ export function SupplierInventorySection({
             <div className="text-center p-3 bg-background/50 rounded-lg border border-blue-500/20">
               <p className="text-xs text-muted-foreground mb-1">Stock</p>
               <p className="text-xl font-bold text-blue-600">
-                {isRawMaterial ? quantity.toFixed(1) : quantity}
+                {formatQuantity(quantity, isRawMaterial)}
               </p>
               <p className="text-xs text-muted-foreground">{unitLabel}</p>
             </div>
@@ -111,7 +111,9 @@ export function RestockModal({
 
     setLoading(true)
     try {
+      const user = JSON.parse(localStorage.getItem('user') || '{}')
       const result = await window.api.products.restock({
+        createdBy: user._id || user.id,
         productId: product?._id,
         supplierId: supplierId,
         quantity: Number(quantity),
@@ -187,15 +189,15 @@ export function RestockModal({
               <Input
                 id="quantity"
                 type="number"
-                min={isRawMaterial ? '0.1' : '1'}
-                step={isRawMaterial ? '0.1' : '1'}
+                min={isRawMaterial ? '0.01' : '1'}
+                step={isRawMaterial ? '0.01' : '1'}
                 value={quantity}
                 onChange={(e) => {
                   const nextValue = isRawMaterial
                     ? parseFloat(e.target.value)
                     : Math.floor(parseFloat(e.target.value))
                   const sanitized = Number.isNaN(nextValue) ? 0 : nextValue
-                  setQuantity(Math.max(isRawMaterial ? 0.1 : 1, sanitized))
+                  setQuantity(Math.max(isRawMaterial ? 0.01 : 1, sanitized))
                 }}
                 className="font-bold"
               />
@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { format } from 'date-fns'
+import { CalendarClock } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@renderer/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@renderer/components/ui/table'
+
+type OverdueInstallmentRow = {
+  sale: string
+  invoiceNumber: string
+  customer: string | null
+  customerName: string
+  phone: string
+  number: number
+  numberOfInstallments: number
+  dueDate: string
+  amount: number
+  paidAmount: number
+  due: number
+  daysOverdue: number
+}
+
+interface OverdueInstallmentsProps {
+  storeId?: string
+  // Narrows the list to one customer and drops the customer column
+  customerId?: string
+}
+
+const formatCurrency = (value?: number) => `Rs. ${Number(value || 0).toLocaleString()}`
+
+export function OverdueInstallments({ storeId, customerId }: OverdueInstallmentsProps) {
+  const navigate = useNavigate()
+  const [rows, setRows] = useState<OverdueInstallmentRow[]>([])
+  const [totalDue, setTotalDue] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    if (!storeId && !customerId) return
+    const load = async () => {
+      setIsLoading(true)
+      try {
+        const result = await window.api.sales.getOverdueInstallments({ storeId, customerId })
+        if (result.success) {
+          setRows(result.data.rows)
+          setTotalDue(result.data.totalDue)
+        }
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    void load()
+  }, [storeId, customerId])
+
+  const columns = customerId ? 5 : 6
+
+  return (
+    <Card className="bg-card border-border text-foreground">
+      <CardHeader className="flex flex-row items-center justify-between border-b border-border py-4">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-red-500" />
+          Overdue Instalments
+        </CardTitle>
+        {rows.length > 0 && (
+          <span className="text-sm font-bold text-red-500">{formatCurrency(totalDue)} overdue</span>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {!customerId && <TableHead>Customer</TableHead>}
+              <TableHead>Invoice</TableHead>
+              <TableHead className="text-center">Instalment</TableHead>
+              <TableHead>Due Date</TableHead>
+              <TableHead className="text-center">Days Overdue</TableHead>
+              <TableHead className="text-right">Due</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={columns} className="text-center text-muted-foreground py-8">
+                  Loading instalments...
+                </TableCell>
+              </TableRow>
+            ) : rows.length > 0 ? (
+              rows.map((row) => (
+                <TableRow
+                  key={`${row.sale}-${row.number}`}
+                  className="cursor-pointer"
+                  onClick={() => navigate(`/dashboard/reports/sales/${row.sale}`)}
+                >
+                  {!customerId && (
+                    <TableCell>
+                      <div className="flex flex-col">
+                        <span className="font-semibold">{row.customerName}</span>
+                        <span className="text-[10px] text-muted-foreground uppercase">
+                          {row.phone || 'No phone'}
+                        </span>
+                      </div>
+                    </TableCell>
+                  )}
+                  <TableCell className="font-semibold">{row.invoiceNumber}</TableCell>
+                  <TableCell className="text-center">
+                    {row.number} of {row.numberOfInstallments}
+                  </TableCell>
+                  <TableCell>{format(new Date(row.dueDate), 'MMM dd, yyyy')}</TableCell>
+                  <TableCell className="text-center font-semibold text-red-500">
+                    {row.daysOverdue}
+                  </TableCell>
+                  <TableCell className="text-right font-bold">
+                    {formatCurrency(row.due)}
+                    {row.paidAmount > 0 && (
+                      <div className="text-[10px] font-normal text-muted-foreground">
+                        of {formatCurrency(row.amount)}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={columns} className="text-center text-muted-foreground py-8">
+                  No instalments are overdue.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
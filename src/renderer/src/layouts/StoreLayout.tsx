@@ -14,7 +14,9 @@ import {
   Wallet,
   ChevronRight,
   Bell,
-  Loader2
+  Loader2,
+  FileText,
+  Vault
 } from 'lucide-react'
 import { Button } from '@renderer/components/ui/button'
 import { ModeToggle } from '@renderer/components/shared/mode-toggle'
@@ -33,6 +35,8 @@ import { StoreSwitcher } from '@renderer/components/shared/store-switcher'
 const storeMenuItems = [
   { icon: LayoutDashboard, label: 'Dashboard', href: '/dashboard' },
   { icon: ShoppingCart, label: 'POS', href: '/dashboard/pos' },
+  { icon: Vault, label: 'Till Shifts', href: '/dashboard/shifts' },
+  { icon: FileText, label: 'Quotations', href: '/dashboard/quotations' },
   { icon: Users, label: 'Customers', href: '/dashboard/customers' },
   {
     icon: Package,
@@ -42,7 +46,10 @@ const storeMenuItems = [
       { label: 'Products', href: '/dashboard/inventory/products' },
       { label: 'Categories', href: '/dashboard/inventory/categories' },
       { label: 'Brands', href: '/dashboard/inventory/brands' },
-      { label: 'Attributes', href: '/dashboard/inventory/attributes' }
+      { label: 'Attributes', href: '/dashboard/inventory/attributes' },
+      { label: 'Stock Adjustments', href: '/dashboard/inventory/adjustments' },
+      { label: 'Stock Counts', href: '/dashboard/inventory/stock-counts' },
+      { label: 'Cost Layers', href: '/dashboard/inventory/cost-layers' }
     ]
   },
   { icon: Users, label: 'Suppliers', href: '/dashboard/purchases/suppliers' },
@@ -55,7 +62,8 @@ const storeMenuItems = [
     submenu: [
       { label: 'Chart of Accounts', href: '/dashboard/accounting/accounts' },
       { label: 'Expenses', href: '/dashboard/accounting/expenses' },
-      { label: 'Transactions', href: '/dashboard/accounting/transactions' }
+      { label: 'Transactions', href: '/dashboard/accounting/transactions' },
+      { label: 'Financial Statements', href: '/dashboard/accounting/statements' }
     ]
   },
   { icon: Settings, label: 'Settings', href: '/dashboard/settings' }
@@ -0,0 +1,174 @@
+import { format } from 'date-fns'
+import { printContent } from '@renderer/lib/print-utils'
+
+export type StatementRow = {
+  date: string
+  type: string
+  reference: string
+  description: string
+  debit: number
+  credit: number
+  balance: number
+}
+
+export type AgingBuckets = {
+  current: number
+  days31to60: number
+  days61to90: number
+  over90: number
+  total: number
+}
+
+export type AccountStatement = {
+  broughtForward: number
+  rows: StatementRow[]
+  totals: { debit: number; credit: number }
+  closingBalance: number
+  aging: AgingBuckets
+}
+
+const formatCurrency = (value?: number) => `Rs. ${Number(value || 0).toLocaleString()}`
+
+export const agingBuckets = (aging?: AgingBuckets) =>
+  aging
+    ? [
+        { label: '0-30 Days', amount: aging.current },
+        { label: '31-60 Days', amount: aging.days31to60 },
+        { label: '61-90 Days', amount: aging.days61to90 },
+        { label: '90+ Days', amount: aging.over90 }
+      ]
+    : []
+
+// Flat rows for exportToPDF / exportToExcel: brought forward, the ledger, totals, then aging
+export const statementExportRows = (
+  statement: AccountStatement,
+  typeLabels: Record<string, string>
+) => {
+  const line = (
+    date: string,
+    type: string,
+    reference: string,
+    description: string,
+    debit: string,
+    credit: string,
+    balance: number
+  ) => ({
+    Date: date,
+    Type: type,
+    Reference: reference,
+    Description: description,
+    Debit: debit,
+    Credit: credit,
+    Balance: formatCurrency(balance)
+  })
+  return [
+    line('', '', '', 'Balance brought forward', '', '', statement.broughtForward),
+    ...statement.rows.map((row) =>
+      line(
+        format(new Date(row.date), 'yyyy-MM-dd'),
+        typeLabels[row.type] || row.type,
+        row.reference,
+        row.description,
+        row.debit ? formatCurrency(row.debit) : '',
+        row.credit ? formatCurrency(row.credit) : '',
+        row.balance
+      )
+    ),
+    line(
+      '',
+      '',
+      '',
+      'Closing balance',
+      formatCurrency(statement.totals.debit),
+      formatCurrency(statement.totals.credit),
+      statement.closingBalance
+    ),
+    ...agingBuckets(statement.aging).map((bucket) =>
+      line('', 'Aging', '', bucket.label, '', '', bucket.amount)
+    )
+  ]
+}
+
+export const printAccountStatement = ({
+  title,
+  partyName,
+  partyDetails,
+  rangeLabel,
+  agingTitle,
+  statement
+}: {
+  title: string
+  partyName: string
+  partyDetails?: string
+  rangeLabel: string
+  agingTitle: string
+  statement: AccountStatement
+}) => {
+  const cell = 'padding: 6px 8px; border-bottom: 1px solid #e5e7eb;'
+  const amountCell = `${cell} text-align: right;`
+  const buckets = agingBuckets(statement.aging)
+  const content = `
+    <div style="font-family: 'Inter', sans-serif; padding: 20px; color: #111;">
+      <h2 style="margin: 0 0 8px;">${title}</h2>
+      <div style="font-size: 14px; font-weight: 600;">${partyName}</div>
+      ${partyDetails ? `<div style="font-size: 12px; color: #6b7280;">${partyDetails}</div>` : ''}
+      <div style="font-size: 12px; color: #6b7280;">${rangeLabel}</div>
+
+      <table style="width: 100%; border-collapse: collapse; margin-top: 16px; font-size: 12px;">
+        <thead>
+          <tr style="background: #f3f4f6; text-align: left;">
+            <th style="padding: 8px;">Date</th>
+            <th style="padding: 8px;">Reference</th>
+            <th style="padding: 8px;">Description</th>
+            <th style="padding: 8px; text-align: right;">Debit</th>
+            <th style="padding: 8px; text-align: right;">Credit</th>
+            <th style="padding: 8px; text-align: right;">Balance</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr style="font-weight: 600;">
+            <td style="${cell}" colspan="5">Balance brought forward</td>
+            <td style="${amountCell}">${formatCurrency(statement.broughtForward)}</td>
+          </tr>
+          ${statement.rows
+            .map(
+              (row) => `
+                <tr>
+                  <td style="${cell}">${format(new Date(row.date), 'MMM dd, yyyy')}</td>
+                  <td style="${cell}">${row.reference}</td>
+                  <td style="${cell}">${row.description}</td>
+                  <td style="${amountCell}">${row.debit ? formatCurrency(row.debit) : ''}</td>
+                  <td style="${amountCell}">${row.credit ? formatCurrency(row.credit) : ''}</td>
+                  <td style="${amountCell}">${formatCurrency(row.balance)}</td>
+                </tr>
+              `
+            )
+            .join('')}
+          <tr style="font-weight: 700; background: #f9fafb;">
+            <td style="${cell}" colspan="3">Closing balance</td>
+            <td style="${amountCell}">${formatCurrency(statement.totals.debit)}</td>
+            <td style="${amountCell}">${formatCurrency(statement.totals.credit)}</td>
+            <td style="${amountCell}">${formatCurrency(statement.closingBalance)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <h3 style="margin: 24px 0 8px; font-size: 14px;">${agingTitle}</h3>
+      <table style="width: 100%; border-collapse: collapse; font-size: 12px;">
+        <tr style="background: #f3f4f6;">
+          ${buckets
+            .map((bucket) => `<th style="padding: 8px; text-align: right;">${bucket.label}</th>`)
+            .join('')}
+          <th style="padding: 8px; text-align: right;">Total</th>
+        </tr>
+        <tr>
+          ${buckets
+            .map((bucket) => `<td style="${amountCell}">${formatCurrency(bucket.amount)}</td>`)
+            .join('')}
+          <td style="${amountCell} font-weight: 700;">${formatCurrency(statement.aging.total)}</td>
+        </tr>
+      </table>
+    </div>
+  `
+  void printContent({ title: `${title} - ${partyName}`, content })
+}
@@ -0,0 +1,89 @@
+export type ComboMode = 'FULL_SET' | 'SINGLE' | 'PAIR'
+
+export type ComboSelection = {
+  mode: ComboMode
+  pieces: string[]
+}
+
+export type ComboProduct = {
+  sellingPrice: number
+  comboComponents?: Array<{ name: string; sellingPrice?: number; stockLevel: number }>
+  canSellSeparate?: boolean
+  canSellPartialSet?: boolean
+  twoComponentPrices?: Array<{ components: string[]; sellingPrice: number }>
+}
+
+export type ComboOption = ComboSelection & {
+  key: string
+  label: string
+  price: number
+}
+
+// Order-independent key for a set of pieces, so "Qameez + Shalwar" matches "Shalwar + Qameez"
+export const comboPiecesKey = (pieces?: string[]): string => [...(pieces || [])].sort().join('+')
+
+export const comboSelectionLabel = (selection?: ComboSelection | null): string => {
+  if (!selection?.pieces?.length) return ''
+  if (selection.mode === 'FULL_SET') return `Full set: ${selection.pieces.join(', ')}`
+  return selection.pieces.join(' + ')
+}
+
+// What the product can be sold as: always the full set, each piece when it can be sold
+// separately, and each priced pair when 2-piece sets are allowed
+export const comboOptions = (product: ComboProduct): ComboOption[] => {
+  const components = product.comboComponents || []
+  if (components.length === 0) return []
+  const names = components.map((component) => component.name)
+
+  const options: ComboOption[] = [
+    {
+      key: comboPiecesKey(names),
+      label: 'Full Set',
+      mode: 'FULL_SET',
+      pieces: names,
+      price: product.sellingPrice || 0
+    }
+  ]
+  if (product.canSellSeparate) {
+    for (const component of components) {
+      options.push({
+        key: component.name,
+        label: component.name,
+        mode: 'SINGLE',
+        pieces: [component.name],
+        price: component.sellingPrice || 0
+      })
+    }
+  }
+  if (product.canSellPartialSet) {
+    for (const pair of product.twoComponentPrices || []) {
+      if (!pair.components.every((piece) => names.includes(piece))) continue
+      options.push({
+        key: comboPiecesKey(pair.components),
+        label: pair.components.join(' + '),
+        mode: 'PAIR',
+        pieces: pair.components,
+        price: pair.sellingPrice
+      })
+    }
+  }
+  return options
+}
+
+// How many of `pieces` can still be sold, after what other cart lines already take from
+// the same components
+export const comboAvailable = (
+  product: ComboProduct,
+  pieces: string[],
+  otherLines: Array<{ pieces: string[]; quantity: number }>
+): number => {
+  const levels = (product.comboComponents || [])
+    .filter((component) => pieces.includes(component.name))
+    .map((component) => {
+      const taken = otherLines
+        .filter((line) => line.pieces.includes(component.name))
+        .reduce((sum, line) => sum + line.quantity, 0)
+      return component.stockLevel - taken
+    })
+  return levels.length ? Math.max(0, Math.min(...levels)) : 0
+}
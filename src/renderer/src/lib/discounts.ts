@@ -0,0 +1,24 @@
+export type LineDiscount = {
+  type: 'AMOUNT' | 'PERCENT'
+  value: number
+}
+
+export const roundMoney = (value: number): number => Math.round(value * 100) / 100
+
+// Rs. off a line worth `lineAmount`, never more than the line itself
+export const lineDiscountAmount = (lineAmount: number, discount?: LineDiscount | null): number => {
+  if (!discount || !(discount.value > 0)) return 0
+  const amount =
+    discount.type === 'PERCENT'
+      ? lineAmount * (Math.min(discount.value, 100) / 100)
+      : discount.value
+  return roundMoney(Math.min(amount, lineAmount))
+}
+
+// How far below list price a line (or a whole sale) is being sold, as a percent
+export const percentBelowList = (listAmount: number, chargedAmount: number): number =>
+  listAmount > 0 ? Math.round(((listAmount - chargedAmount) / listAmount) * 10000) / 100 : 0
+
+// What a sold line came to after its own discount; totalAmount is stored before it
+export const netLineAmount = (item: { totalAmount: number; discountAmount?: number }): number =>
+  roundMoney((item.totalAmount || 0) - (item.discountAmount || 0))
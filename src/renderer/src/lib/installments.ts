@@ -0,0 +1,71 @@
+import { addMonths, addWeeks } from 'date-fns'
+import { roundMoney } from './discounts'
+
+export type InstallmentFrequency = 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY'
+
+export const INSTALLMENT_FREQUENCY_OPTIONS: { value: InstallmentFrequency; label: string }[] = [
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'BIWEEKLY', label: 'Every 2 weeks' },
+  { value: 'MONTHLY', label: 'Monthly' }
+]
+
+export const installmentFrequencyLabel = (frequency?: string): string =>
+  INSTALLMENT_FREQUENCY_OPTIONS.find((option) => option.value === frequency)?.label || 'Monthly'
+
+export type Installment = {
+  number: number
+  dueDate: string | Date
+  amount: number
+  paidAmount: number
+  paidAt?: string | Date
+}
+
+export type InstallmentStatus = 'PAID' | 'PARTIAL' | 'OVERDUE' | 'DUE'
+
+// An instalment is overdue from the day after it falls due
+export const installmentStatus = (
+  installment: Installment,
+  today = new Date()
+): InstallmentStatus => {
+  if ((installment.paidAmount || 0) >= installment.amount) return 'PAID'
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate())
+  if (new Date(installment.dueDate) < startOfToday) return 'OVERDUE'
+  return (installment.paidAmount || 0) > 0 ? 'PARTIAL' : 'DUE'
+}
+
+export const installmentStatusTone = (status: InstallmentStatus): string => {
+  if (status === 'PAID') return 'bg-emerald-500/10 text-emerald-600 border-emerald-500/20'
+  if (status === 'OVERDUE') return 'bg-red-500/10 text-red-600 border-red-500/20'
+  if (status === 'PARTIAL') return 'bg-amber-500/10 text-amber-600 border-amber-500/20'
+  return 'bg-muted text-muted-foreground border-border'
+}
+
+// Same split the main process books, so the till can show the schedule before the sale
+export const previewInstallments = ({
+  financedAmount,
+  markupPercent,
+  numberOfInstallments,
+  frequency,
+  firstDueDate
+}: {
+  financedAmount: number
+  markupPercent: number
+  numberOfInstallments: number
+  frequency: InstallmentFrequency
+  firstDueDate: Date
+}): { markupAmount: number; repayable: number; installments: Installment[] } => {
+  const count = Math.max(1, Math.floor(numberOfInstallments) || 1)
+  const markupAmount = roundMoney((Math.max(0, financedAmount) * (markupPercent || 0)) / 100)
+  const repayable = roundMoney(Math.max(0, financedAmount) + markupAmount)
+  const regular = Math.floor((repayable / count) * 100) / 100
+  const installments = Array.from({ length: count }, (_, index) => ({
+    number: index + 1,
+    dueDate:
+      frequency === 'MONTHLY'
+        ? addMonths(firstDueDate, index)
+        : addWeeks(firstDueDate, frequency === 'BIWEEKLY' ? index * 2 : index),
+    amount: index === count - 1 ? roundMoney(repayable - regular * (count - 1)) : regular,
+    paidAmount: 0
+  }))
+  return { markupAmount, repayable, installments }
+}
@@ -0,0 +1,21 @@
+// Raw material is sold by the meter in multiples of the store's meter step
+export const DEFAULT_METER_STEP = 0.01
+
+export const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000
+
+// Rounds a length up to the next multiple of the step, so the customer gets at least what
+// they asked for (3.1 m at a 0.25 m step is cut as 3.25 m)
+export const roundUpToStep = (meters: number, step = DEFAULT_METER_STEP): number =>
+  roundQuantity(Math.ceil(meters / step - 1e-6) * step)
+
+// Meters keep their fraction (3.25, 3.5, 4.0); whole-unit products print as integers
+export const formatQuantity = (value: number, isMeters = false): string =>
+  isMeters
+    ? Number(value || 0).toLocaleString('en-US', {
+        minimumFractionDigits: 1,
+        maximumFractionDigits: 3
+      })
+    : String(roundQuantity(Number(value || 0)))
+
+export const meterStepFor = (store?: { settings?: { meterStep?: number } } | null): number =>
+  store?.settings?.meterStep || DEFAULT_METER_STEP
@@ -0,0 +1,10 @@
+export type QuotationStatus = 'OPEN' | 'ACCEPTED' | 'EXPIRED'
+
+export const quotationStatusLabel = (status: QuotationStatus): string =>
+  status === 'OPEN' ? 'Open' : status === 'ACCEPTED' ? 'Accepted' : 'Expired'
+
+export const quotationStatusTone = (status: QuotationStatus): string => {
+  if (status === 'ACCEPTED') return 'bg-emerald-500/10 text-emerald-600 border-emerald-500/20'
+  if (status === 'OPEN') return 'bg-blue-500/10 text-blue-600 border-blue-500/20'
+  return 'bg-muted text-muted-foreground border-border'
+}
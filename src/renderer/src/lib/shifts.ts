@@ -0,0 +1,77 @@
+import { roundMoney } from './discounts'
+
+export type ShiftStatus = 'OPEN' | 'CLOSED'
+
+// Notes and coins counted at cash-up, largest first
+export const DENOMINATIONS = [5000, 1000, 500, 100, 50, 20, 10, 5, 2, 1]
+
+export type DenominationCount = { value: number; count: number }
+
+export type CashMovement = {
+  type: 'PAY_IN' | 'PAY_OUT'
+  amount: number
+  reason: string
+  date: string
+  recordedBy?: { fullName?: string }
+}
+
+export type Shift = {
+  _id: string
+  shiftNumber: string
+  openedBy?: { _id: string; fullName?: string }
+  openedAt: string
+  openingFloat: number
+  cashMovements: CashMovement[]
+  status: ShiftStatus
+  closedBy?: { fullName?: string }
+  closedAt?: string
+  denominations?: DenominationCount[]
+  expectedCash?: number
+  countedCash?: number
+  overShort?: number
+  notes?: string
+}
+
+export type MethodTotal = { method: string; channel?: string; count: number; amount: number }
+
+export type ShiftReport = {
+  sales: {
+    count: number
+    subtotal: number
+    discountAmount: number
+    taxAmount: number
+    totalAmount: number
+    downPayments: number
+    onAccount: number
+    changeGiven: number
+  }
+  tenders: MethodTotal[]
+  payments: MethodTotal[]
+  refunds: MethodTotal[]
+  payIns: number
+  payOuts: number
+  cash: {
+    openingFloat: number
+    sales: number
+    downPayments: number
+    payments: number
+    refunds: number
+    payIns: number
+    payOuts: number
+    expected: number
+  }
+}
+
+export const countedTotal = (counts: DenominationCount[]): number =>
+  roundMoney(counts.reduce((sum, line) => sum + line.value * (line.count || 0), 0))
+
+export const shiftStatusTone = (status: ShiftStatus): string =>
+  status === 'OPEN'
+    ? 'bg-blue-500/10 text-blue-600 border-blue-500/20'
+    : 'bg-muted text-muted-foreground border-border'
+
+export const overShortLabel = (overShort: number): string =>
+  overShort > 0 ? 'Over' : overShort < 0 ? 'Short' : 'Balanced'
+
+export const overShortTone = (overShort: number): string =>
+  overShort > 0 ? 'text-amber-600' : overShort < 0 ? 'text-red-500' : 'text-emerald-600'
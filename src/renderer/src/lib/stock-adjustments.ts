@@ -0,0 +1,11 @@
+// Mirrors ADJUSTMENT_REASONS in the main process (src/main/lib/stock.ts)
+export const ADJUSTMENT_REASONS: Record<
+  string,
+  { label: string; direction: 'IN' | 'OUT' | 'BOTH' }
+> = {
+  DAMAGE: { label: 'Damaged', direction: 'OUT' },
+  SHRINKAGE: { label: 'Shrinkage / Lost', direction: 'OUT' },
+  FOUND: { label: 'Found Stock', direction: 'IN' },
+  COUNT_CORRECTION: { label: 'Count Correction', direction: 'BOTH' },
+  OTHER: { label: 'Other', direction: 'BOTH' }
+}
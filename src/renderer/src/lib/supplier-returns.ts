@@ -0,0 +1,72 @@
+import { format } from 'date-fns'
+import { printContent } from '@renderer/lib/print-utils'
+
+export const SUPPLIER_RETURN_REASONS: Record<string, string> = {
+  DEFECTIVE: 'Defective / Damaged',
+  WRONG_ITEM: 'Wrong item or colour',
+  EXCESS: 'Excess delivery',
+  OTHER: 'Other'
+}
+
+const formatCurrency = (value?: number) => `Rs. ${Number(value || 0).toLocaleString()}`
+
+// Slip that travels with the goods; the supplier signs it as their debit note copy
+export const printSupplierReturn = (supplierReturn: any, supplierName?: string) => {
+  const source = supplierReturn.purchaseOrder?.poNumber
+    ? `Purchase order ${supplierReturn.purchaseOrder.poNumber}`
+    : 'Restock'
+  const content = `
+    <div style="font-family: 'Inter', sans-serif; padding: 20px; color: #111;">
+      <h2 style="margin: 0 0 8px;">Goods Return / Debit Note</h2>
+      <div style="font-size: 12px; color: #6b7280;">Return: ${supplierReturn.returnNumber}</div>
+      <div style="font-size: 12px; color: #6b7280;">Date: ${format(
+        new Date(supplierReturn.returnDate),
+        'MMM dd, yyyy'
+      )}</div>
+
+      <div style="margin-top: 12px; border-top: 1px solid #e5e7eb; padding-top: 12px;">
+        <div><strong>Supplier:</strong> ${supplierName || supplierReturn.supplier?.name || '-'}</div>
+        <div><strong>Against:</strong> ${source}</div>
+        <div><strong>Reason:</strong> ${
+          SUPPLIER_RETURN_REASONS[supplierReturn.reason] || supplierReturn.reason
+        }</div>
+        ${supplierReturn.notes ? `<div><strong>Notes:</strong> ${supplierReturn.notes}</div>` : ''}
+      </div>
+
+      <table style="width: 100%; border-collapse: collapse; margin-top: 16px; font-size: 12px;">
+        <thead>
+          <tr style="background: #f3f4f6; text-align: left;">
+            <th style="padding: 8px;">Item</th>
+            <th style="padding: 8px; text-align: center;">Qty</th>
+            <th style="padding: 8px; text-align: right;">Cost</th>
+            <th style="padding: 8px; text-align: right;">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${supplierReturn.items
+            .map(
+              (item: any) => `
+                <tr style="border-bottom: 1px solid #e5e7eb;">
+                  <td style="padding: 8px;">${item.productName}</td>
+                  <td style="padding: 8px; text-align: center;">${item.quantity} ${item.unit}</td>
+                  <td style="padding: 8px; text-align: right;">${formatCurrency(item.unitCost)}</td>
+                  <td style="padding: 8px; text-align: right;">${formatCurrency(item.totalCost)}</td>
+                </tr>
+              `
+            )
+            .join('')}
+        </tbody>
+      </table>
+
+      <div style="margin-top: 12px; text-align: right; font-size: 14px;">
+        <strong>Debit Note Total: ${formatCurrency(supplierReturn.totalAmount)}</strong>
+      </div>
+
+      <div style="margin-top: 40px; display: flex; justify-content: space-between; font-size: 12px;">
+        <div style="border-top: 1px solid #111; padding-top: 4px; width: 40%;">Issued by</div>
+        <div style="border-top: 1px solid #111; padding-top: 4px; width: 40%;">Received by supplier</div>
+      </div>
+    </div>
+  `
+  void printContent({ title: `Return ${supplierReturn.returnNumber}`, content })
+}
@@ -0,0 +1,110 @@
+import { roundMoney } from './discounts'
+
+export type TaxClass = 'STANDARD' | 'REDUCED' | 'EXEMPT'
+
+export const TAX_CLASS_OPTIONS: { value: TaxClass; label: string }[] = [
+  { value: 'STANDARD', label: 'Standard' },
+  { value: 'REDUCED', label: 'Reduced' },
+  { value: 'EXEMPT', label: 'Exempt' }
+]
+
+export const taxClassLabel = (taxClass?: string | null): string =>
+  TAX_CLASS_OPTIONS.find((option) => option.value === taxClass)?.label || 'Standard'
+
+export type TaxSettings = {
+  rates: Record<TaxClass, number>
+  pricesIncludeTax: boolean
+}
+
+export const taxSettingsFrom = (settings?: {
+  taxRate?: number
+  reducedTaxRate?: number
+  pricesIncludeTax?: boolean
+}): TaxSettings => ({
+  rates: {
+    STANDARD: Number(settings?.taxRate) || 0,
+    REDUCED: Number(settings?.reducedTaxRate) || 0,
+    EXEMPT: 0
+  },
+  pricesIncludeTax: Boolean(settings?.pricesIncludeTax)
+})
+
+// A product's own class wins; otherwise it is taxed like its category
+export const taxClassOf = (product: {
+  taxClass?: TaxClass | null
+  category?: { taxClass?: TaxClass } | string | null
+}): TaxClass =>
+  product.taxClass ||
+  (typeof product.category === 'object' ? product.category?.taxClass : undefined) ||
+  'STANDARD'
+
+export type TaxLine = {
+  taxClass: TaxClass
+  rate: number
+  taxableAmount: number
+  taxAmount: number
+}
+
+/**
+ * Same sums the main process books a sale with: each line gives up its share of the cart
+ * discount, then is taxed at its class's rate, on top of the price or backed out of it.
+ */
+export const taxLines = (
+  lines: Array<{ amount: number; taxClass: TaxClass }>,
+  cartDiscount: number,
+  settings: TaxSettings
+): { lines: TaxLine[]; breakdown: TaxLine[]; taxAmount: number } => {
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0)
+  const lastIndex = lines.map((line) => line.amount > 0).lastIndexOf(true)
+  let discountLeft = roundMoney(cartDiscount)
+
+  const taxed = lines.map((line, index) => {
+    const share =
+      index === lastIndex
+        ? discountLeft
+        : subtotal > 0
+          ? roundMoney((cartDiscount * line.amount) / subtotal)
+          : 0
+    discountLeft = roundMoney(discountLeft - share)
+    const base = roundMoney(line.amount - share)
+    const rate = settings.rates[line.taxClass] || 0
+    const taxAmount = settings.pricesIncludeTax
+      ? roundMoney((base * rate) / (100 + rate))
+      : roundMoney((base * rate) / 100)
+    return {
+      taxClass: line.taxClass,
+      rate,
+      taxableAmount: settings.pricesIncludeTax ? roundMoney(base - taxAmount) : base,
+      taxAmount
+    }
+  })
+
+  const byRate = new Map<string, TaxLine>()
+  for (const line of taxed) {
+    const key = `${line.taxClass}|${line.rate}`
+    const entry = byRate.get(key) || { ...line, taxableAmount: 0, taxAmount: 0 }
+    entry.taxableAmount = roundMoney(entry.taxableAmount + line.taxableAmount)
+    entry.taxAmount = roundMoney(entry.taxAmount + line.taxAmount)
+    byRate.set(key, entry)
+  }
+
+  return {
+    lines: taxed,
+    breakdown: Array.from(byRate.values()),
+    taxAmount: roundMoney(taxed.reduce((sum, line) => sum + line.taxAmount, 0))
+  }
+}
+
+// What the customer paid for a sold line, discounts off and tax included
+export const linePaidAmount = (item: {
+  totalAmount: number
+  discountAmount?: number
+  taxableAmount?: number
+  taxAmount?: number
+}): number =>
+  item.taxableAmount !== undefined && item.taxableAmount !== null
+    ? roundMoney(item.taxableAmount + (item.taxAmount || 0))
+    : roundMoney((item.totalAmount || 0) - (item.discountAmount || 0))
+
+export const taxLineLabel = (line: { taxClass: string | null; rate: number | null }): string =>
+  line.rate === null ? 'Tax (entered at till)' : `${taxClassLabel(line.taxClass)} ${line.rate}%`
@@ -0,0 +1,28 @@
+import { roundMoney } from './discounts'
+
+export const TENDER_METHODS = ['Cash', 'Card', 'Bank Transfer'] as const
+
+export type TenderMethod = (typeof TENDER_METHODS)[number]
+
+export type Tender = {
+  method: TenderMethod
+  channel?: string
+  amount: number
+}
+
+// What the customer handed over against what is due. Only cash can be given back as change,
+// the same rule the main process settles the sale with.
+export const tenderSummary = (tenders: Tender[], amountDue: number) => {
+  const tendered = roundMoney(tenders.reduce((sum, tender) => sum + (tender.amount || 0), 0))
+  const cash = roundMoney(
+    tenders
+      .filter((tender) => tender.method === 'Cash')
+      .reduce((sum, tender) => sum + (tender.amount || 0), 0)
+  )
+  const remaining = roundMoney(Math.max(0, amountDue - tendered))
+  const change = roundMoney(Math.max(0, tendered - amountDue))
+  return { tendered, remaining, change, changeExceedsCash: change > cash }
+}
+
+export const tenderLabel = (payment: { method: string; channel?: string }): string =>
+  payment.channel ? `${payment.method} (${payment.channel})` : payment.method
@@ -4,7 +4,16 @@ export const customerSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
   phone: z.string().min(7, 'Phone number is required'),
   email: z.string().email('Invalid email address').optional().or(z.literal('')),
-  openingBalance: z.preprocess((val) => Number(val) || 0, z.number().min(0))
+  openingBalance: z.preprocess((val) => Number(val) || 0, z.number().min(0)),
+  // Left blank, the rule does not apply to the customer
+  creditLimit: z.preprocess(
+    (val) => (val === '' || val === null || val === undefined ? null : Number(val)),
+    z.number().min(0, 'Credit limit cannot be negative').nullable()
+  ),
+  maxDaysOverdue: z.preprocess(
+    (val) => (val === '' || val === null || val === undefined ? null : Number(val)),
+    z.number().int().min(0, 'Days cannot be negative').nullable()
+  )
 })
 
 export type CustomerFormData = z.infer<typeof customerSchema>
@@ -139,7 +139,11 @@ export default function AccountsPage() {
   const onSubmit: SubmitHandler<AccountFormValues> = async (values) => {
     setIsSaving(true)
     try {
-      const result = await window.api.accounts.update(selectedAccount._id, values)
+      const user = JSON.parse(localStorage.getItem('user') || '{}')
+      const result = await window.api.accounts.update(selectedAccount._id, {
+        ...values,
+        createdBy: user._id || user.id
+      })
 
       if (result.success) {
         toast.success('Account updated successfully')
@@ -195,41 +199,43 @@ export default function AccountsPage() {
       const store = JSON.parse(selectedStoreStr)
       const storeId = store._id || store.id
 
-      const existing = await window.api.accounts.getAll({ storeId, pageSize: 5 })
-      if (existing.success && existing.data.length > 0) {
-        toast.error('Accounts already exist for this store.')
-        setIsSaving(false)
-        setIsSetupOpen(false)
+      const user = JSON.parse(localStorage.getItem('user') || '{}')
+      const createdBy = user._id || user.id
+
+      // The chart of accounts is seeded by the main process; this only books opening balances
+      const existing = await window.api.accounts.getAll({
+        storeId,
+        pageSize: 100,
+        paymentAccountsOnly: true
+      })
+      const cash = existing.data?.find((acc: any) => acc.systemKey === 'CASH')
+      const bank = existing.data?.find((acc: any) => acc.systemKey === 'BANK')
+      if (!existing.success || !cash || !bank) {
+        toast.error('Cash and Bank accounts could not be found.')
         return
       }
 
       const [cashResult, bankResult] = await Promise.all([
-        window.api.accounts.create({
-          store: storeId,
-          accountCode: '1001',
-          accountName: 'Cash in Hand',
-          accountType: 'ASSET',
-          currentBalance: values.cashOpeningBalance
+        window.api.accounts.update(cash._id, {
+          currentBalance: values.cashOpeningBalance,
+          createdBy
         }),
-        window.api.accounts.create({
-          store: storeId,
-          accountCode: '1002',
-          accountName: 'Bank',
-          accountType: 'ASSET',
-          currentBalance: values.bankOpeningBalance
+        window.api.accounts.update(bank._id, {
+          currentBalance: values.bankOpeningBalance,
+          createdBy
         })
       ])
 
       if (cashResult.success && bankResult.success) {
-        toast.success('Default accounts created successfully')
+        toast.success('Opening balances recorded successfully')
         setIsSetupOpen(false)
         setupForm.reset()
         loadAccounts()
       } else {
-        toast.error('Failed to create default accounts')
+        toast.error('Failed to record opening balances')
       }
     } catch (error: any) {
-      toast.error(error.message || 'Failed to create default accounts')
+      toast.error(error.message || 'Failed to record opening balances')
     } finally {
       setIsSaving(false)
     }
@@ -335,7 +341,7 @@ export default function AccountsPage() {
               <Landmark className="w-6 h-6" />
             </div>
             <div>
-              <p className="text-sm text-muted-foreground">Total Assets (Cash)</p>
+              <p className="text-sm text-muted-foreground">Total Assets</p>
               <p className="text-2xl font-bold text-foreground">
                 Rs. {summary.totalAssets.toLocaleString()}
               </p>
@@ -370,24 +376,27 @@ export default function AccountsPage() {
         </Card>
       </div>
 
-      {accounts.length === 0 && !isLoading && (
-        <Card className="border-border">
-          <CardContent className="p-6 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
-            <div>
-              <h3 className="text-lg font-semibold">Setup Chart of Accounts</h3>
-              <p className="text-sm text-muted-foreground">
-                Create Cash in Hand and Bank accounts with opening balances.
-              </p>
-            </div>
-            <Button
-              className="bg-[#4ade80] text-black hover:bg-[#22c55e] font-semibold"
-              onClick={() => setIsSetupOpen(true)}
-            >
-              Setup Accounts
-            </Button>
-          </CardContent>
-        </Card>
-      )}
+      {!isLoading &&
+        !searchTerm &&
+        accounts.length > 0 &&
+        accounts.every((acc) => acc.currentBalance === 0) && (
+          <Card className="border-border">
+            <CardContent className="p-6 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+              <div>
+                <h3 className="text-lg font-semibold">Set Opening Balances</h3>
+                <p className="text-sm text-muted-foreground">
+                  Record the cash in hand and bank balance you are starting with.
+                </p>
+              </div>
+              <Button
+                className="bg-[#4ade80] text-black hover:bg-[#22c55e] font-semibold"
+                onClick={() => setIsSetupOpen(true)}
+              >
+                Set Balances
+              </Button>
+            </CardContent>
+          </Card>
+        )}
 
       <DataPage
         title="Chart of Accounts"
@@ -535,8 +544,7 @@ export default function AccountsPage() {
                     </FormControl>
                     {isEditOpen && (
                       <p className="text-[10px] text-yellow-500 font-medium mt-1">
-                        Warning: Manually editing the balance may cause discrepancies with
-                        transaction history.
+                        Changing the balance posts an adjustment against Owner&apos;s Equity.
                       </p>
                     )}
                     <FormMessage />
@@ -572,7 +580,7 @@ export default function AccountsPage() {
       <Dialog open={isSetupOpen} onOpenChange={setIsSetupOpen}>
         <DialogContent className="bg-background border-border text-foreground">
           <DialogHeader>
-            <DialogTitle>Setup Default Accounts</DialogTitle>
+            <DialogTitle>Opening Balances</DialogTitle>
           </DialogHeader>
           <Form {...setupForm}>
             <form onSubmit={setupForm.handleSubmit(handleSetupAccounts)} className="space-y-4 py-4">
@@ -626,10 +634,10 @@ export default function AccountsPage() {
                 <LoadingButton
                   type="submit"
                   isLoading={isSaving}
-                  loadingText="Setting up..."
+                  loadingText="Saving..."
                   className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-semibold"
                 >
-                  Create Accounts
+                  Save Balances
                 </LoadingButton>
               </DialogFooter>
             </form>
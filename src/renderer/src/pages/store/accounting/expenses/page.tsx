@@ -151,7 +151,7 @@ export default function ExpensesPage() {
 
       const [expResult, accResult] = await Promise.all([
         window.api.expenses.getAll({ storeId, page, pageSize, search: searchTerm }),
-        window.api.accounts.getAll({ storeId, pageSize: 100 }) // Load all accounts for selection
+        window.api.accounts.getAll({ storeId, pageSize: 100, paymentAccountsOnly: true }) // Accounts the expense can be paid from
       ])
 
       if (expResult.success) {
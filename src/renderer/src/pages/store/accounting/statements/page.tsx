@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { DateRange } from 'react-day-picker'
+import {
+  endOfDay,
+  endOfMonth,
+  endOfYear,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfYear,
+  subMonths
+} from 'date-fns'
+import { CalendarIcon, FileText, RefreshCw } from 'lucide-react'
+import { Button } from '@renderer/components/ui/button'
+import { Calendar } from '@renderer/components/ui/calendar'
+import { Card, CardContent, CardHeader, CardTitle } from '@renderer/components/ui/card'
+import { Label } from '@renderer/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@renderer/components/ui/popover'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@renderer/components/ui/tabs'
+import { toast } from 'sonner'
+import { useNavigate } from 'react-router-dom'
+import {
+  BalanceSheetTable,
+  IncomeStatementTable,
+  TrialBalanceTable,
+  type FinancialStatements
+} from './statement-tables'
+
+export default function FinancialStatementsPage() {
+  const navigate = useNavigate()
+  const [range, setRange] = useState<DateRange | undefined>()
+  const [reportRange, setReportRange] = useState<DateRange | undefined>()
+  const [statements, setStatements] = useState<FinancialStatements | null>(null)
+  const [isGenerating, setIsGenerating] = useState(false)
+
+  const quickRanges = [
+    {
+      label: 'This Month',
+      getRange: () => {
+        const today = new Date()
+        return { from: startOfMonth(today), to: endOfMonth(today) }
+      }
+    },
+    {
+      label: 'Last Month',
+      getRange: () => {
+        const lastMonth = subMonths(new Date(), 1)
+        return { from: startOfMonth(lastMonth), to: endOfMonth(lastMonth) }
+      }
+    },
+    {
+      label: 'This Year',
+      getRange: () => {
+        const today = new Date()
+        return { from: startOfYear(today), to: endOfYear(today) }
+      }
+    }
+  ]
+
+  const rangeLabel = useMemo(() => {
+    if (!reportRange?.from) return 'Select dates'
+    const fromLabel = format(reportRange.from, 'MMM dd, yyyy')
+    if (!reportRange.to || reportRange.from.getTime() === reportRange.to.getTime()) {
+      return fromLabel
+    }
+    return `${fromLabel} - ${format(reportRange.to, 'MMM dd, yyyy')}`
+  }, [reportRange])
+
+  const formatCurrency = (value: number) => `Rs. ${Number(value || 0).toLocaleString()}`
+
+  const generateReport = async (nextRange?: DateRange) => {
+    const active = nextRange ?? range
+    if (!active?.from) return
+    const normalized = { from: startOfDay(active.from), to: endOfDay(active.to ?? active.from) }
+
+    setIsGenerating(true)
+    try {
+      const selectedStoreStr = localStorage.getItem('selectedStore')
+      if (!selectedStoreStr) return
+      const store = JSON.parse(selectedStoreStr)
+
+      const result = await window.api.accounts.getStatements({
+        storeId: store._id || store.id,
+        startDate: normalized.from.toISOString(),
+        endDate: normalized.to.toISOString()
+      })
+
+      if (result.success) {
+        setStatements(result.data)
+        setReportRange(normalized)
+      } else {
+        toast.error(result.error || 'Failed to generate statements')
+      }
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const handlePreviewReport = () => {
+    if (!statements) {
+      toast.error('No report data to download')
+      return
+    }
+
+    sessionStorage.setItem('financialStatementsPreview', JSON.stringify({ rangeLabel, statements }))
+    navigate('/dashboard/accounting/statements/preview')
+  }
+
+  useEffect(() => {
+    const initialRange = quickRanges[0].getRange()
+    setRange(initialRange)
+    void generateReport(initialRange)
+  }, [])
+
+  const isBalanced =
+    !!statements &&
+    statements.trialBalance.totalDebit === statements.trialBalance.totalCredit &&
+    statements.balanceSheet.totalAssets === statements.balanceSheet.totalLiabilitiesAndEquity
+
+  return (
+    <div className="space-y-4">
+      <Card className="border-border">
+        <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="space-y-1">
+            <CardTitle className="text-lg font-black">Financial Statements</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              Trial balance and balance sheet as at the end date, profit &amp; loss for the range.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              variant="outline"
+              className="h-10 border-border"
+              onClick={() => void generateReport()}
+              disabled={isGenerating}
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              {isGenerating ? 'Generating...' : 'Generate Report'}
+            </Button>
+            <Button
+              className="h-10 bg-[#4ade80] text-black hover:bg-[#22c55e]"
+              onClick={handlePreviewReport}
+            >
+              <FileText className="w-4 h-4 mr-2" />
+              View Report
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+            <div className="space-y-2">
+              <Label className="text-xs font-semibold uppercase text-muted-foreground">
+                Date Range
+              </Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="h-10 border-border">
+                    <CalendarIcon className="w-4 h-4 mr-2" />
+                    {rangeLabel}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    numberOfMonths={2}
+                    selected={range}
+                    onSelect={setRange}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {quickRanges.map((preset) => (
+                <Button
+                  key={preset.label}
+                  type="button"
+                  variant="outline"
+                  className="h-9 border-border font-semibold"
+                  onClick={() => {
+                    const next = preset.getRange()
+                    setRange(next)
+                    void generateReport(next)
+                  }}
+                >
+                  {preset.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {statements && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="rounded-xl border-2 border-[#4ade80]/50 bg-[#4ade80]/10 p-5">
+                  <div className="text-xs font-black uppercase text-[#16a34a] dark:text-[#4ade80] mb-2">
+                    Net Profit
+                  </div>
+                  <div
+                    className={`text-2xl font-black ${
+                      statements.incomeStatement.netProfit >= 0 ? 'text-[#16a34a]' : 'text-red-600'
+                    }`}
+                  >
+                    {formatCurrency(statements.incomeStatement.netProfit)}
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1">Revenue - Expenses</div>
+                </div>
+                <div className="rounded-xl border-2 border-blue-500/30 bg-blue-500/5 p-5">
+                  <div className="text-xs font-black uppercase text-blue-700 dark:text-blue-400 mb-2">
+                    Total Assets
+                  </div>
+                  <div className="text-2xl font-black text-blue-600">
+                    {formatCurrency(statements.balanceSheet.totalAssets)}
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1">As at end date</div>
+                </div>
+                <div
+                  className={`rounded-xl border-2 p-5 ${
+                    isBalanced
+                      ? 'border-emerald-500/30 bg-emerald-500/5'
+                      : 'border-red-500/30 bg-red-500/5'
+                  }`}
+                >
+                  <div className="text-xs font-black uppercase text-muted-foreground mb-2">
+                    Ledger Check
+                  </div>
+                  <div
+                    className={`text-2xl font-black ${
+                      isBalanced ? 'text-emerald-600' : 'text-red-600'
+                    }`}
+                  >
+                    {isBalanced ? 'Balanced' : 'Out of balance'}
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    Debits = Credits, Assets = Liabilities + Equity
+                  </div>
+                </div>
+              </div>
+
+              <Tabs defaultValue="trial-balance">
+                <TabsList>
+                  <TabsTrigger value="trial-balance">Trial Balance</TabsTrigger>
+                  <TabsTrigger value="profit-loss">Profit &amp; Loss</TabsTrigger>
+                  <TabsTrigger value="balance-sheet">Balance Sheet</TabsTrigger>
+                </TabsList>
+                <TabsContent value="trial-balance">
+                  <TrialBalanceTable trialBalance={statements.trialBalance} />
+                </TabsContent>
+                <TabsContent value="profit-loss">
+                  <IncomeStatementTable incomeStatement={statements.incomeStatement} />
+                </TabsContent>
+                <TabsContent value="balance-sheet">
+                  <BalanceSheetTable balanceSheet={statements.balanceSheet} />
+                </TabsContent>
+              </Tabs>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
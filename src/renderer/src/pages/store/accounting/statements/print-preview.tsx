@@ -0,0 +1,300 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { ArrowLeft, FileSpreadsheet, FileText, Printer } from 'lucide-react'
+import { Button } from '@renderer/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@renderer/components/ui/card'
+import { ScrollArea } from '@renderer/components/ui/scroll-area'
+import { exportToExcel, exportToPDF } from '@renderer/lib/export'
+import { printContent } from '@renderer/lib/print-utils'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import {
+  BalanceSheetTable,
+  IncomeStatementTable,
+  TrialBalanceTable,
+  type FinancialStatements,
+  type StatementLine
+} from './statement-tables'
+
+type ReportPayload = {
+  rangeLabel: string
+  statements: FinancialStatements
+}
+
+type ExportRow = {
+  Statement: string
+  Code: string
+  Account: string
+  Debit: string
+  Credit: string
+  Amount: string
+}
+
+const formatCurrency = (value: number) => `Rs. ${Number(value || 0).toLocaleString()}`
+
+export default function FinancialStatementsPrintPreviewPage() {
+  const navigate = useNavigate()
+  const [report, setReport] = useState<ReportPayload | null>(null)
+
+  useEffect(() => {
+    const stored = sessionStorage.getItem('financialStatementsPreview')
+    if (!stored) return
+    try {
+      setReport(JSON.parse(stored))
+    } catch {
+      setReport(null)
+    }
+  }, [])
+
+  const printHtml = useMemo(() => {
+    if (!report) return ''
+    const { trialBalance, incomeStatement, balanceSheet } = report.statements
+
+    const cell = 'padding: 6px 8px; border-bottom: 1px solid #e5e7eb;'
+    const amountCell = `${cell} text-align: right;`
+    const totalRow = (label: string, amount: number) => `
+      <tr style="font-weight: 700; background: #f9fafb;">
+        <td style="${cell}">${label}</td>
+        <td style="${amountCell}">${formatCurrency(amount)}</td>
+      </tr>`
+    const lineRows = (lines: StatementLine[]) =>
+      lines
+        .map(
+          (line) => `
+            <tr style="${line.isGroup ? 'font-weight: 600;' : ''}">
+              <td style="${cell} padding-left: ${8 + line.level * 16}px;">${line.accountCode} - ${line.accountName}</td>
+              <td style="${amountCell}">${formatCurrency(line.amount)}</td>
+            </tr>`
+        )
+        .join('')
+    const section = (title: string, body: string) => `
+      <div style="margin-top: 20px;">
+        <h3 style="margin: 0 0 8px; font-size: 14px;">${title}</h3>
+        <table style="width: 100%; border-collapse: collapse; font-size: 12px;">${body}</table>
+      </div>`
+
+    return `
+      <div style="font-family: 'Inter', sans-serif; padding: 20px; color: #111;">
+        <div style="display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #e5e7eb; padding-bottom: 12px;">
+          <div>
+            <h2 style="margin: 0; font-size: 20px;">Financial Statements</h2>
+            <p style="margin: 4px 0 0; color: #6b7280; font-size: 12px;">Range: ${report.rangeLabel}</p>
+          </div>
+          <div style="text-align: right; font-size: 12px; color: #6b7280;">
+            <div>Generated: ${format(new Date(), 'MMM dd, yyyy HH:mm')}</div>
+          </div>
+        </div>
+
+        ${section(
+          'Trial Balance',
+          `<thead>
+            <tr style="background: #f3f4f6; text-align: left;">
+              <th style="padding: 8px;">Account</th>
+              <th style="padding: 8px; text-align: right;">Debit</th>
+              <th style="padding: 8px; text-align: right;">Credit</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${trialBalance.rows
+              .map(
+                (row) => `
+                  <tr>
+                    <td style="${cell}">${row.accountCode} - ${row.accountName}</td>
+                    <td style="${amountCell}">${row.debit ? formatCurrency(row.debit) : ''}</td>
+                    <td style="${amountCell}">${row.credit ? formatCurrency(row.credit) : ''}</td>
+                  </tr>`
+              )
+              .join('')}
+            <tr style="font-weight: 700; background: #f9fafb;">
+              <td style="${cell}">Total</td>
+              <td style="${amountCell}">${formatCurrency(trialBalance.totalDebit)}</td>
+              <td style="${amountCell}">${formatCurrency(trialBalance.totalCredit)}</td>
+            </tr>
+          </tbody>`
+        )}
+
+        ${section(
+          'Profit &amp; Loss',
+          `<tbody>
+            <tr style="background: #f3f4f6;"><td colspan="2" style="padding: 8px; font-weight: 700;">Revenue</td></tr>
+            ${lineRows(incomeStatement.revenue)}
+            ${totalRow('Total Revenue', incomeStatement.totalRevenue)}
+            <tr style="background: #f3f4f6;"><td colspan="2" style="padding: 8px; font-weight: 700;">Expenses</td></tr>
+            ${lineRows(incomeStatement.expenses)}
+            ${totalRow('Total Expenses', incomeStatement.totalExpenses)}
+            ${totalRow(incomeStatement.netProfit >= 0 ? 'Net Profit' : 'Net Loss', incomeStatement.netProfit)}
+          </tbody>`
+        )}
+
+        ${section(
+          'Balance Sheet',
+          `<tbody>
+            <tr style="background: #f3f4f6;"><td colspan="2" style="padding: 8px; font-weight: 700;">Assets</td></tr>
+            ${lineRows(balanceSheet.assets)}
+            ${totalRow('Total Assets', balanceSheet.totalAssets)}
+            <tr style="background: #f3f4f6;"><td colspan="2" style="padding: 8px; font-weight: 700;">Liabilities</td></tr>
+            ${lineRows(balanceSheet.liabilities)}
+            ${totalRow('Total Liabilities', balanceSheet.totalLiabilities)}
+            <tr style="background: #f3f4f6;"><td colspan="2" style="padding: 8px; font-weight: 700;">Equity</td></tr>
+            ${lineRows(balanceSheet.equity)}
+            <tr>
+              <td style="${cell}">Retained Earnings</td>
+              <td style="${amountCell}">${formatCurrency(balanceSheet.retainedEarnings)}</td>
+            </tr>
+            ${totalRow('Total Equity', balanceSheet.totalEquity)}
+            ${totalRow('Total Liabilities &amp; Equity', balanceSheet.totalLiabilitiesAndEquity)}
+          </tbody>`
+        )}
+      </div>
+    `
+  }, [report])
+
+  // One flat sheet for PDF/Excel: trial balance rows use Debit/Credit, statement rows use Amount
+  const buildExportRows = (): ExportRow[] => {
+    if (!report) return []
+    const { trialBalance, incomeStatement, balanceSheet } = report.statements
+    const blank = { Code: '', Debit: '', Credit: '', Amount: '' }
+    const lineRow = (statement: string, line: StatementLine): ExportRow => ({
+      ...blank,
+      Statement: statement,
+      Code: line.accountCode,
+      Account: `${'  '.repeat(line.level)}${line.accountName}`,
+      Amount: formatCurrency(line.amount)
+    })
+    const totalRow = (statement: string, label: string, amount: number): ExportRow => ({
+      ...blank,
+      Statement: statement,
+      Account: label,
+      Amount: formatCurrency(amount)
+    })
+
+    return [
+      ...trialBalance.rows.map((row) => ({
+        ...blank,
+        Statement: 'Trial Balance',
+        Code: row.accountCode,
+        Account: row.accountName,
+        Debit: row.debit ? formatCurrency(row.debit) : '',
+        Credit: row.credit ? formatCurrency(row.credit) : ''
+      })),
+      {
+        ...blank,
+        Statement: 'Trial Balance',
+        Account: 'Total',
+        Debit: formatCurrency(trialBalance.totalDebit),
+        Credit: formatCurrency(trialBalance.totalCredit)
+      },
+      ...incomeStatement.revenue.map((line) => lineRow('Profit & Loss', line)),
+      totalRow('Profit & Loss', 'Total Revenue', incomeStatement.totalRevenue),
+      ...incomeStatement.expenses.map((line) => lineRow('Profit & Loss', line)),
+      totalRow('Profit & Loss', 'Total Expenses', incomeStatement.totalExpenses),
+      totalRow('Profit & Loss', 'Net Profit', incomeStatement.netProfit),
+      ...balanceSheet.assets.map((line) => lineRow('Balance Sheet', line)),
+      totalRow('Balance Sheet', 'Total Assets', balanceSheet.totalAssets),
+      ...balanceSheet.liabilities.map((line) => lineRow('Balance Sheet', line)),
+      totalRow('Balance Sheet', 'Total Liabilities', balanceSheet.totalLiabilities),
+      ...balanceSheet.equity.map((line) => lineRow('Balance Sheet', line)),
+      totalRow('Balance Sheet', 'Retained Earnings', balanceSheet.retainedEarnings),
+      totalRow('Balance Sheet', 'Total Equity', balanceSheet.totalEquity),
+      totalRow(
+        'Balance Sheet',
+        'Total Liabilities & Equity',
+        balanceSheet.totalLiabilitiesAndEquity
+      )
+    ]
+  }
+
+  const fileName = `financial_statements_${format(new Date(), 'yyyyMMdd')}`
+
+  const handleDownloadPdf = () => {
+    if (!report) {
+      toast.error('No report data to download')
+      return
+    }
+    exportToPDF(buildExportRows(), fileName, `Financial Statements (${report.rangeLabel})`)
+  }
+
+  const handleDownloadExcel = () => {
+    if (!report) {
+      toast.error('No report data to download')
+      return
+    }
+    void exportToExcel(buildExportRows(), fileName, 'Financial Statements')
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Button
+          variant="outline"
+          className="h-11 w-11 rounded-xl border-border"
+          onClick={() => navigate('/dashboard/accounting/statements')}
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div>
+          <h1 className="text-2xl font-black tracking-tight">Financial Statements</h1>
+          <p className="text-sm text-muted-foreground">Preview, print, or download the report.</p>
+        </div>
+      </div>
+
+      <Card className="border-border">
+        <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <CardTitle className="text-sm font-black uppercase tracking-widest text-muted-foreground">
+            Report Preview
+          </CardTitle>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" className="h-10 border-border" onClick={handleDownloadExcel}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Download Excel
+            </Button>
+            <Button variant="outline" className="h-10 border-border" onClick={handleDownloadPdf}>
+              <FileText className="h-4 w-4 mr-2" />
+              Download PDF
+            </Button>
+            <Button
+              className="h-10 bg-[#4ade80] text-black hover:bg-[#22c55e]"
+              onClick={() => {
+                if (!printHtml) return
+                void printContent({ title: 'Financial Statements', content: printHtml })
+              }}
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              Print Report
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!report ? (
+            <div className="text-center text-muted-foreground py-10">
+              No report data found. Please generate the report again.
+            </div>
+          ) : (
+            <ScrollArea className="max-h-[70vh]">
+              <div className="space-y-6">
+                <div>
+                  <h3 className="text-sm font-black uppercase text-muted-foreground mb-2">
+                    Trial Balance
+                  </h3>
+                  <TrialBalanceTable trialBalance={report.statements.trialBalance} />
+                </div>
+                <div>
+                  <h3 className="text-sm font-black uppercase text-muted-foreground mb-2">
+                    Profit &amp; Loss
+                  </h3>
+                  <IncomeStatementTable incomeStatement={report.statements.incomeStatement} />
+                </div>
+                <div>
+                  <h3 className="text-sm font-black uppercase text-muted-foreground mb-2">
+                    Balance Sheet
+                  </h3>
+                  <BalanceSheetTable balanceSheet={report.statements.balanceSheet} />
+                </div>
+              </div>
+            </ScrollArea>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,226 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@renderer/components/ui/table'
+
+export type StatementLine = {
+  accountId: string
+  accountCode: string
+  accountName: string
+  accountType: string
+  level: number
+  isGroup: boolean
+  amount: number
+}
+
+export type TrialBalanceRow = {
+  accountId: string
+  accountCode: string
+  accountName: string
+  accountType: string
+  debit: number
+  credit: number
+}
+
+export type FinancialStatements = {
+  startDate: string
+  endDate: string
+  trialBalance: { rows: TrialBalanceRow[]; totalDebit: number; totalCredit: number }
+  incomeStatement: {
+    revenue: StatementLine[]
+    totalRevenue: number
+    expenses: StatementLine[]
+    totalExpenses: number
+    netProfit: number
+  }
+  balanceSheet: {
+    assets: StatementLine[]
+    totalAssets: number
+    liabilities: StatementLine[]
+    totalLiabilities: number
+    equity: StatementLine[]
+    retainedEarnings: number
+    totalEquity: number
+    totalLiabilitiesAndEquity: number
+  }
+}
+
+const formatCurrency = (value: number) => `Rs. ${Number(value || 0).toLocaleString()}`
+
+function SectionHeading({ label }: { label: string }) {
+  return (
+    <TableRow className="bg-muted/50 hover:bg-muted/50">
+      <TableCell colSpan={2} className="text-xs font-black uppercase text-muted-foreground">
+        {label}
+      </TableCell>
+    </TableRow>
+  )
+}
+
+function TotalRow({ label, amount }: { label: string; amount: number }) {
+  return (
+    <TableRow className="font-bold">
+      <TableCell>{label}</TableCell>
+      <TableCell className="text-right">{formatCurrency(amount)}</TableCell>
+    </TableRow>
+  )
+}
+
+function StatementLines({ lines, emptyLabel }: { lines: StatementLine[]; emptyLabel: string }) {
+  if (!lines.length) {
+    return (
+      <TableRow>
+        <TableCell colSpan={2} className="text-muted-foreground">
+          {emptyLabel}
+        </TableCell>
+      </TableRow>
+    )
+  }
+
+  return (
+    <>
+      {lines.map((line) => (
+        <TableRow key={line.accountId}>
+          {/* Sub-accounts are indented under the account they roll up into */}
+          <TableCell
+            className={line.isGroup ? 'font-semibold' : 'text-muted-foreground'}
+            style={{ paddingLeft: 8 + line.level * 20 }}
+          >
+            <span className="font-mono text-xs mr-2">{line.accountCode}</span>
+            {line.accountName}
+          </TableCell>
+          <TableCell className={`text-right ${line.isGroup ? 'font-semibold' : ''}`}>
+            {formatCurrency(line.amount)}
+          </TableCell>
+        </TableRow>
+      ))}
+    </>
+  )
+}
+
+export function TrialBalanceTable({
+  trialBalance
+}: {
+  trialBalance: FinancialStatements['trialBalance']
+}) {
+  return (
+    <div className="rounded-xl border border-border overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Code</TableHead>
+            <TableHead>Account</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead className="text-right">Debit</TableHead>
+            <TableHead className="text-right">Credit</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {trialBalance.rows.length ? (
+            trialBalance.rows.map((row) => (
+              <TableRow key={row.accountId}>
+                <TableCell className="font-mono text-xs">{row.accountCode}</TableCell>
+                <TableCell className="font-medium text-foreground">{row.accountName}</TableCell>
+                <TableCell className="text-xs uppercase text-muted-foreground">
+                  {row.accountType}
+                </TableCell>
+                <TableCell className="text-right">
+                  {row.debit ? formatCurrency(row.debit) : ''}
+                </TableCell>
+                <TableCell className="text-right">
+                  {row.credit ? formatCurrency(row.credit) : ''}
+                </TableCell>
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                No postings up to this date.
+              </TableCell>
+            </TableRow>
+          )}
+          <TableRow className="font-bold">
+            <TableCell colSpan={3}>Total</TableCell>
+            <TableCell className="text-right">{formatCurrency(trialBalance.totalDebit)}</TableCell>
+            <TableCell className="text-right">{formatCurrency(trialBalance.totalCredit)}</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+export function IncomeStatementTable({
+  incomeStatement
+}: {
+  incomeStatement: FinancialStatements['incomeStatement']
+}) {
+  return (
+    <div className="rounded-xl border border-border overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Account</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          <SectionHeading label="Revenue" />
+          <StatementLines lines={incomeStatement.revenue} emptyLabel="No revenue in this range" />
+          <TotalRow label="Total Revenue" amount={incomeStatement.totalRevenue} />
+          <SectionHeading label="Expenses" />
+          <StatementLines lines={incomeStatement.expenses} emptyLabel="No expenses in this range" />
+          <TotalRow label="Total Expenses" amount={incomeStatement.totalExpenses} />
+          <TotalRow
+            label={incomeStatement.netProfit >= 0 ? 'Net Profit' : 'Net Loss'}
+            amount={incomeStatement.netProfit}
+          />
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+export function BalanceSheetTable({
+  balanceSheet
+}: {
+  balanceSheet: FinancialStatements['balanceSheet']
+}) {
+  return (
+    <div className="rounded-xl border border-border overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Account</TableHead>
+            <TableHead className="text-right">Balance</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          <SectionHeading label="Assets" />
+          <StatementLines lines={balanceSheet.assets} emptyLabel="No assets" />
+          <TotalRow label="Total Assets" amount={balanceSheet.totalAssets} />
+          <SectionHeading label="Liabilities" />
+          <StatementLines lines={balanceSheet.liabilities} emptyLabel="No liabilities" />
+          <TotalRow label="Total Liabilities" amount={balanceSheet.totalLiabilities} />
+          <SectionHeading label="Equity" />
+          <StatementLines lines={balanceSheet.equity} emptyLabel="No equity postings" />
+          <TableRow>
+            <TableCell className="text-muted-foreground">Retained Earnings</TableCell>
+            <TableCell className="text-right">
+              {formatCurrency(balanceSheet.retainedEarnings)}
+            </TableCell>
+          </TableRow>
+          <TotalRow label="Total Equity" amount={balanceSheet.totalEquity} />
+          <TotalRow
+            label="Total Liabilities & Equity"
+            amount={balanceSheet.totalLiabilitiesAndEquity}
+          />
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -96,6 +96,15 @@ export default function TransactionsPage() {
 
   const formatCurrency = (value: number) => `Rs. ${Number(value || 0).toLocaleString()}`
 
+  // Each transaction is a balanced journal, so show every leg: "Dr Cash in Hand / Cr Sales Revenue"
+  const describeEntries = (entries: any[] = []): string =>
+    entries
+      .map(
+        (entry) =>
+          `${entry.entryType === 'DEBIT' ? 'Dr' : 'Cr'} ${entry.account?.accountName || '—'}`
+      )
+      .join(' / ') || '—'
+
   const loadTransactions = async (activeRange?: DateRange) => {
     if (!activeRange?.from) return
     setIsLoading(true)
@@ -159,7 +168,7 @@ export default function TransactionsPage() {
           id: item._id,
           transactionDate: item.transactionDate,
           description: item.description,
-          account: item.entries?.[0]?.account?.accountName || '—',
+          account: describeEntries(item.entries),
           entryType: item.entries?.[0]?.entryType || '—',
           totalAmount: Number(item.totalAmount || 0),
           referenceType: item.referenceType
@@ -168,46 +177,44 @@ export default function TransactionsPage() {
           (a, b) => new Date(b.transactionDate).getTime() - new Date(a.transactionDate).getTime()
         )
 
-      const totals = rows.reduce(
-        (acc, row) => {
-          // Calculate debit/credit for backwards compatibility
-          if (row.entryType === 'DEBIT') {
-            acc.totalDebit += row.totalAmount
-          } else {
-            acc.totalCredit += row.totalAmount
-          }
+      const purchaseReferences = ['PURCHASE_ORDER', 'RESTOCK', 'INITIAL_STOCK']
+      const totals = {
+        totalSales: 0,
+        totalExpenses: 0,
+        totalRefunds: 0,
+        totalPurchases: 0,
+        netProfit: 0,
+        totalDebit: 0,
+        totalCredit: 0
+      }
 
-          // Categorize by business type
-          const refType = row.referenceType?.toUpperCase()
-          if (refType === 'SALE') {
-            acc.totalSales += row.totalAmount
-          } else if (refType === 'REFUND') {
-            acc.totalRefunds += row.totalAmount
-          } else if (refType === 'PURCHASE' || refType === 'PURCHASE_ORDER') {
-            acc.totalPurchases += row.totalAmount
-          } else if (refType === 'EXPENSE') {
-            acc.totalExpenses += row.totalAmount
-          } else if (row.entryType === 'CREDIT') {
-            // Any other credit is likely an expense
-            acc.totalExpenses += row.totalAmount
-          }
+      // Totals come from the journal legs, grouped by the type of account they hit
+      for (const item of result.data || []) {
+        for (const entry of item.entries || []) {
+          const amount = Number(entry.amount || 0)
+          const isDebit = entry.entryType === 'DEBIT'
+          const account = entry.account || {}
 
-          return acc
-        },
-        {
-          totalSales: 0,
-          totalExpenses: 0,
-          totalRefunds: 0,
-          totalPurchases: 0,
-          netProfit: 0,
-          totalDebit: 0,
-          totalCredit: 0
+          if (isDebit) totals.totalDebit += amount
+          else totals.totalCredit += amount
+
+          if (account.accountType === 'REVENUE') {
+            if (isDebit) totals.totalRefunds += amount
+            else totals.totalSales += amount
+          } else if (account.accountType === 'EXPENSE') {
+            totals.totalExpenses += isDebit ? amount : -amount
+          } else if (
+            account.systemKey === 'INVENTORY' &&
+            isDebit &&
+            purchaseReferences.includes(item.referenceType)
+          ) {
+            totals.totalPurchases += amount
+          }
         }
-      )
+      }
 
-      // Calculate net profit: Sales - (Expenses + Purchases + Refunds)
-      totals.netProfit =
-        totals.totalSales - (totals.totalExpenses + totals.totalPurchases + totals.totalRefunds)
+      // Purchases sit in inventory until sold, so cost of goods sold (an expense) covers them
+      totals.netProfit = totals.totalSales - (totals.totalExpenses + totals.totalRefunds)
 
       setReportRows(rows)
       setReportTotals(totals)
@@ -258,7 +265,7 @@ export default function TransactionsPage() {
     {
       header: 'Account',
       accessor: 'entries',
-      render: (item: any) => item.entries?.[0]?.account?.accountName || '—'
+      render: (item: any) => describeEntries(item.entries)
     },
     {
       header: 'Type',
@@ -395,9 +402,9 @@ export default function TransactionsPage() {
                 </div>
               </div>
               <div className="text-2xl font-black text-red-600">
-                {formatCurrency(reportTotals.totalExpenses + reportTotals.totalPurchases)}
+                {formatCurrency(reportTotals.totalExpenses)}
               </div>
-              <div className="text-xs text-muted-foreground mt-1">Expenses + Purchases</div>
+              <div className="text-xs text-muted-foreground mt-1">Incl. cost of goods sold</div>
             </div>
 
             {/* Total Refunds */}
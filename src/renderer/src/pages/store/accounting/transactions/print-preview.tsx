@@ -86,9 +86,9 @@ export default function TransactionsPrintPreviewPage() {
           <div style="border: 2px solid #ef4444; border-radius: 12px; padding: 12px; background: #fef2f2;">
             <div style="font-size: 11px; text-transform: uppercase; color: #dc2626; font-weight: 700;">Total Expenses</div>
             <div style="font-size: 18px; font-weight: 700; color: #dc2626;">${formatCurrency(
-              totals.totalExpenses + totals.totalPurchases
+              totals.totalExpenses
             )}</div>
-            <div style="font-size: 10px; color: #6b7280; margin-top: 2px;">Expenses + Purchases</div>
+            <div style="font-size: 10px; color: #6b7280; margin-top: 2px;">Incl. cost of goods sold</div>
           </div>
           <div style="border: 2px solid #f59e0b; border-radius: 12px; padding: 12px; background: #fffbeb;">
             <div style="font-size: 11px; text-transform: uppercase; color: #d97706; font-weight: 700;">Refunds</div>
@@ -165,7 +165,7 @@ export default function TransactionsPrintPreviewPage() {
       Account: '',
       Type: '',
       Amount: `Sales: ${formatCurrency(report.totals.totalSales)} | Expenses: ${formatCurrency(
-        report.totals.totalExpenses + report.totals.totalPurchases
+        report.totals.totalExpenses
       )} | Profit: ${formatCurrency(report.totals.netProfit)}`,
       Reference: ''
     })
@@ -251,9 +251,11 @@ export default function TransactionsPrintPreviewPage() {
                       </div>
                     </div>
                     <div className="text-2xl font-black text-red-600">
-                      {formatCurrency(report.totals.totalExpenses + report.totals.totalPurchases)}
+                      {formatCurrency(report.totals.totalExpenses)}
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Incl. cost of goods sold
                     </div>
-                    <div className="text-xs text-muted-foreground mt-1">Expenses + Purchases</div>
                   </div>
 
                   {/* Total Refunds */}
@@ -0,0 +1,252 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { format } from 'date-fns'
+import { ChevronLeft, FileSpreadsheet, FileText, RefreshCw } from 'lucide-react'
+import { Button } from '@renderer/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@renderer/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@renderer/components/ui/table'
+import { agingBuckets, type AgingBuckets } from '@renderer/lib/account-statement'
+import { exportToExcel, exportToPDF } from '@renderer/lib/export'
+import { toast } from 'sonner'
+
+type AgingRow = {
+  customer: string | null
+  name: string
+  phone: string
+  openInvoices: number
+  oldestSaleDate: string
+  daysOverdue: number
+  aging: AgingBuckets
+}
+
+const formatCurrency = (value?: number) => `Rs. ${Number(value || 0).toLocaleString()}`
+
+export default function ReceivablesAgingPage() {
+  const navigate = useNavigate()
+  const [rows, setRows] = useState<AgingRow[]>([])
+  const [totals, setTotals] = useState<AgingBuckets | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const loadReport = async () => {
+    const storeData = localStorage.getItem('selectedStore')
+    const store = storeData ? JSON.parse(storeData) : null
+    if (!store?._id) return
+    setIsLoading(true)
+    try {
+      const result = await window.api.customers.getReceivablesAging({ storeId: store._id })
+      if (result.success) {
+        setRows(result.data.rows)
+        setTotals(result.data.totals)
+      } else {
+        toast.error(result.error || 'Failed to load receivables aging')
+      }
+    } catch (error: any) {
+      toast.error('Failed to load receivables aging: ' + error.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadReport()
+  }, [])
+
+  const buildExportRows = () => [
+    ...rows.map((row) => ({
+      Customer: row.name,
+      Phone: row.phone || '-',
+      Invoices: String(row.openInvoices),
+      'Oldest Sale': format(new Date(row.oldestSaleDate), 'yyyy-MM-dd'),
+      '0-30 Days': formatCurrency(row.aging.current),
+      '31-60 Days': formatCurrency(row.aging.days31to60),
+      '61-90 Days': formatCurrency(row.aging.days61to90),
+      '90+ Days': formatCurrency(row.aging.over90),
+      Total: formatCurrency(row.aging.total)
+    })),
+    {
+      Customer: 'TOTAL',
+      Phone: '',
+      Invoices: String(rows.reduce((sum, row) => sum + row.openInvoices, 0)),
+      'Oldest Sale': '',
+      '0-30 Days': formatCurrency(totals?.current),
+      '31-60 Days': formatCurrency(totals?.days31to60),
+      '61-90 Days': formatCurrency(totals?.days61to90),
+      '90+ Days': formatCurrency(totals?.over90),
+      Total: formatCurrency(totals?.total)
+    }
+  ]
+
+  const fileName = `receivables_aging_${format(new Date(), 'yyyyMMdd')}`
+
+  const handleDownloadPdf = () => {
+    if (!rows.length) {
+      toast.error('No report data to download')
+      return
+    }
+    exportToPDF(
+      buildExportRows(),
+      fileName,
+      `Receivables Aging (${format(new Date(), 'MMM dd, yyyy')})`
+    )
+  }
+
+  const handleDownloadExcel = () => {
+    if (!rows.length) {
+      toast.error('No report data to download')
+      return
+    }
+    void exportToExcel(buildExportRows(), fileName, 'Receivables Aging')
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate('/dashboard/customers')}
+            className="hover:bg-accent"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Receivables Aging</h1>
+            <p className="text-sm text-muted-foreground">
+              Unpaid sales by days since the sale, longest outstanding first.
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" className="h-10 border-border" onClick={() => loadReport()}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          <Button variant="outline" className="h-10 border-border" onClick={handleDownloadExcel}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Download Excel
+          </Button>
+          <Button
+            className="h-10 bg-[#4ade80] text-black hover:bg-[#22c55e]"
+            onClick={handleDownloadPdf}
+          >
+            <FileText className="h-4 w-4 mr-2" />
+            Download PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {agingBuckets(totals || undefined).map((bucket) => (
+          <Card key={bucket.label} className="bg-card border-border text-foreground">
+            <CardContent className="pt-6">
+              <div className="text-xs uppercase font-bold text-muted-foreground">
+                {bucket.label}
+              </div>
+              <div
+                className={`text-xl font-bold ${bucket.amount > 0 ? 'text-red-400' : 'text-foreground'}`}
+              >
+                {formatCurrency(bucket.amount)}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+        <Card className="bg-card border-border text-foreground">
+          <CardContent className="pt-6">
+            <div className="text-xs uppercase font-bold text-muted-foreground">Total Owed</div>
+            <div className="text-xl font-bold">{formatCurrency(totals?.total)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="bg-card border-border text-foreground">
+        <CardHeader className="border-b border-border py-4">
+          <CardTitle className="text-lg">By Customer</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Customer</TableHead>
+                <TableHead className="text-center">Invoices</TableHead>
+                <TableHead>Oldest Sale</TableHead>
+                <TableHead className="text-right">0-30 Days</TableHead>
+                <TableHead className="text-right">31-60 Days</TableHead>
+                <TableHead className="text-right">61-90 Days</TableHead>
+                <TableHead className="text-right">90+ Days</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                    Loading report...
+                  </TableCell>
+                </TableRow>
+              ) : rows.length > 0 ? (
+                rows.map((row) => (
+                  <TableRow
+                    key={row.customer || 'walk-in'}
+                    className={row.customer ? 'cursor-pointer hover:bg-muted/50' : ''}
+                    onClick={() =>
+                      row.customer && navigate(`/dashboard/customers/${row.customer}/statement`)
+                    }
+                  >
+                    <TableCell>
+                      <div className="flex flex-col">
+                        <span className="font-semibold text-foreground">{row.name}</span>
+                        <span className="text-[10px] text-muted-foreground uppercase">
+                          {row.phone || 'No phone'}
+                        </span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-center font-semibold">{row.openInvoices}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-col">
+                        <span>{format(new Date(row.oldestSaleDate), 'MMM dd, yyyy')}</span>
+                        <span className="text-[10px] text-muted-foreground">
+                          {row.daysOverdue} days
+                        </span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(row.aging.current)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(row.aging.days31to60)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(row.aging.days61to90)}
+                    </TableCell>
+                    <TableCell
+                      className={`text-right ${row.aging.over90 > 0 ? 'text-red-500 font-semibold' : ''}`}
+                    >
+                      {formatCurrency(row.aging.over90)}
+                    </TableCell>
+                    <TableCell className="text-right font-bold">
+                      {formatCurrency(row.aging.total)}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                    No unpaid sales. Nothing to chase.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
 import { useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
 import type { DateRange } from 'react-day-picker'
 import {
   endOfDay,
@@ -10,6 +11,7 @@ import {
   startOfWeek
 } from 'date-fns'
 import { DataPage } from '@renderer/components/shared/data-page'
+import { OverdueInstallments } from '@renderer/components/shared/overdue-installments'
 import { Button } from '@renderer/components/ui/button'
 import { LoadingButton } from '@renderer/components/ui/loading-button'
 import { Calendar } from '@renderer/components/ui/calendar'
@@ -53,7 +55,9 @@ import { customerSchema, CustomerFormData } from '@renderer/lib/validations/cust
 import { exportToPDF } from '@renderer/lib/export'
 import {
   CalendarIcon,
+  Clock,
   FileText,
+  ScrollText,
   MoreVertical,
   Pencil,
   RefreshCw,
@@ -101,6 +105,7 @@ const quickRanges = [
 ]
 
 export default function CustomersPage() {
+  const navigate = useNavigate()
   const [page, setPage] = useState(1)
   const [pageSize, setPageSize] = useState(20)
   const [searchTerm, setSearchTerm] = useState('')
@@ -300,7 +305,9 @@ export default function CustomersPage() {
       name: '',
       phone: '',
       email: '',
-      openingBalance: 0
+      openingBalance: 0,
+      creditLimit: null,
+      maxDaysOverdue: null
     }
   })
 
@@ -316,14 +323,18 @@ export default function CustomersPage() {
         phone: values.phone,
         email: values.email || undefined,
         store: currentStore._id,
-        balance: values.openingBalance
+        balance: values.openingBalance,
+        creditLimit: values.creditLimit,
+        maxDaysOverdue: values.maxDaysOverdue
       }
 
       const updatePayload = {
         name: values.name,
         phone: values.phone,
         email: values.email || undefined,
-        store: currentStore._id
+        store: currentStore._id,
+        creditLimit: values.creditLimit,
+        maxDaysOverdue: values.maxDaysOverdue
       }
 
       const result = editingCustomer
@@ -334,7 +345,14 @@ export default function CustomersPage() {
         toast.success(`Customer ${editingCustomer ? 'updated' : 'created'} successfully`)
         setIsFormOpen(false)
         setEditingCustomer(null)
-        form.reset({ name: '', phone: '', email: '', openingBalance: 0 })
+        form.reset({
+          name: '',
+          phone: '',
+          email: '',
+          openingBalance: 0,
+          creditLimit: null,
+          maxDaysOverdue: null
+        })
         loadCustomers()
       } else {
         toast.error(result.error || 'Failed to save customer')
@@ -348,7 +366,14 @@ export default function CustomersPage() {
 
   const openAdd = () => {
     setEditingCustomer(null)
-    form.reset({ name: '', phone: '', email: '', openingBalance: 0 })
+    form.reset({
+      name: '',
+      phone: '',
+      email: '',
+      openingBalance: 0,
+      creditLimit: null,
+      maxDaysOverdue: null
+    })
     setIsFormOpen(true)
   }
 
@@ -358,7 +383,9 @@ export default function CustomersPage() {
       name: customer.name,
       phone: customer.phone,
       email: customer.email || '',
-      openingBalance: customer.balance || 0
+      openingBalance: customer.balance || 0,
+      creditLimit: customer.creditLimit ?? null,
+      maxDaysOverdue: customer.maxDaysOverdue ?? null
     })
     setIsFormOpen(true)
   }
@@ -435,9 +462,16 @@ export default function CustomersPage() {
       header: 'Balance',
       accessor: 'balance',
       render: (item: any) => (
-        <span className="font-semibold text-red-500">
-          Rs. {(item.balance || 0).toLocaleString()}
-        </span>
+        <div className="flex flex-col">
+          <span className="font-semibold text-red-500">
+            Rs. {(item.balance || 0).toLocaleString()}
+          </span>
+          {item.creditLimit !== null && item.creditLimit !== undefined && (
+            <span className="text-[10px] text-muted-foreground uppercase">
+              Limit Rs. {item.creditLimit.toLocaleString()}
+            </span>
+          )}
+        </div>
       )
     },
     {
@@ -459,6 +493,13 @@ export default function CustomersPage() {
               <Wallet className="w-4 h-4 mr-2" />
               Record Payment
             </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => navigate(`/dashboard/customers/${item._id}/statement`)}
+              className="cursor-pointer focus:bg-accent"
+            >
+              <ScrollText className="w-4 h-4 mr-2" />
+              Statement
+            </DropdownMenuItem>
             <DropdownMenuItem
               onClick={() => openEdit(item)}
               className="cursor-pointer focus:bg-accent"
@@ -506,6 +547,14 @@ export default function CustomersPage() {
                 </PopoverContent>
               </Popover>
             </div>
+            <Button
+              variant="outline"
+              className="h-10 border-border"
+              onClick={() => navigate('/dashboard/customers/aging')}
+            >
+              <Clock className="w-4 h-4 mr-2" />
+              Receivables Aging
+            </Button>
             <Button
               variant="outline"
               className="h-10 border-border"
@@ -640,6 +689,10 @@ export default function CustomersPage() {
         </CardContent>
       </Card>
 
+      <div className="mb-6">
+        <OverdueInstallments storeId={currentStore?._id} />
+      </div>
+
       <DataPage
         title="Customers"
         description="Manage customer balances and credit payments."
@@ -728,6 +781,46 @@ export default function CustomersPage() {
                   )}
                 />
               )}
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="creditLimit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Credit Limit</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value)}
+                          placeholder="No limit"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="maxDaysOverdue"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Max Days Overdue</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value)}
+                          placeholder="No limit"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
               <DialogFooter>
                 <Button variant="outline" type="button" onClick={() => setIsFormOpen(false)}>
                   Cancel
@@ -0,0 +1,296 @@
+import { useEffect, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { format, startOfMonth, subMonths } from 'date-fns'
+import { ChevronLeft, FileSpreadsheet, FileText, Printer } from 'lucide-react'
+import { Button } from '@renderer/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@renderer/components/ui/card'
+import { Input } from '@renderer/components/ui/input'
+import { Label } from '@renderer/components/ui/label'
+import { OverdueInstallments } from '@renderer/components/shared/overdue-installments'
+import {
+  agingBuckets,
+  printAccountStatement,
+  statementExportRows,
+  type AccountStatement
+} from '@renderer/lib/account-statement'
+import { exportToExcel, exportToPDF } from '@renderer/lib/export'
+import { toast } from 'sonner'
+
+const ROW_TYPE_LABELS: Record<string, string> = {
+  OPENING: 'Opening Balance',
+  INVOICE: 'Invoice',
+  PAYMENT: 'Payment',
+  REFUND: 'Refund'
+}
+
+const formatCurrency = (value?: number) => `Rs. ${Number(value || 0).toLocaleString()}`
+
+export default function CustomerStatementPage() {
+  const { id } = useParams()
+  const navigate = useNavigate()
+  const [customer, setCustomer] = useState<any>(null)
+  const [statement, setStatement] = useState<AccountStatement | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [startDate, setStartDate] = useState(
+    format(startOfMonth(subMonths(new Date(), 2)), 'yyyy-MM-dd')
+  )
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+
+  useEffect(() => {
+    const loadCustomer = async () => {
+      if (!id) return
+      const result = await window.api.customers.getById(id)
+      if (result.success) setCustomer(result.data)
+      else toast.error('Failed to load customer: ' + result.error)
+    }
+    loadCustomer()
+  }, [id])
+
+  useEffect(() => {
+    loadStatement()
+  }, [id, startDate, endDate])
+
+  const loadStatement = async () => {
+    if (!id || !startDate || !endDate) return
+    setIsLoading(true)
+    try {
+      const end = new Date(endDate)
+      end.setHours(23, 59, 59, 999)
+      const result = await window.api.customers.getStatement({
+        customerId: id,
+        startDate: new Date(startDate).toISOString(),
+        endDate: end.toISOString()
+      })
+      if (result.success) setStatement(result.data)
+      else toast.error('Failed to load statement: ' + result.error)
+    } catch (error: any) {
+      toast.error('Failed to load statement: ' + error.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const rangeLabel = `${format(new Date(startDate), 'MMM dd, yyyy')} - ${format(
+    new Date(endDate),
+    'MMM dd, yyyy'
+  )}`
+
+  const buckets = agingBuckets(statement?.aging)
+
+  const fileName = `customer_statement_${(customer?.name || 'customer')
+    .replace(/\s+/g, '_')
+    .toLowerCase()}_${format(new Date(endDate), 'yyyyMMdd')}`
+
+  const handleDownloadPdf = () => {
+    if (!statement) {
+      toast.error('No statement data to download')
+      return
+    }
+    exportToPDF(
+      statementExportRows(statement, ROW_TYPE_LABELS),
+      fileName,
+      `${customer?.name} - Statement (${rangeLabel})`
+    )
+  }
+
+  const handleDownloadExcel = () => {
+    if (!statement) {
+      toast.error('No statement data to download')
+      return
+    }
+    void exportToExcel(
+      statementExportRows(statement, ROW_TYPE_LABELS),
+      fileName,
+      'Customer Statement'
+    )
+  }
+
+  const handlePrint = () => {
+    if (!statement) return
+    printAccountStatement({
+      title: 'Customer Statement',
+      partyName: customer?.name || '',
+      partyDetails: customer?.phone,
+      rangeLabel,
+      agingTitle: 'Aging of Unpaid Invoices',
+      statement
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate('/dashboard/customers')}
+            className="hover:bg-accent"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Customer Statement</h1>
+            <p className="text-sm text-muted-foreground">
+              {customer?.name}
+              {customer?.phone ? ` · ${customer.phone}` : ''}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" className="h-10 border-border" onClick={handleDownloadExcel}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Download Excel
+          </Button>
+          <Button variant="outline" className="h-10 border-border" onClick={handleDownloadPdf}>
+            <FileText className="h-4 w-4 mr-2" />
+            Download PDF
+          </Button>
+          <Button
+            className="h-10 bg-[#4ade80] text-black hover:bg-[#22c55e]"
+            onClick={handlePrint}
+            disabled={!statement}
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      <Card className="bg-card border-border text-foreground">
+        <CardContent className="pt-6 grid gap-4 md:grid-cols-4">
+          <div className="space-y-2">
+            <Label className="text-xs uppercase font-bold text-muted-foreground">From</Label>
+            <Input
+              type="date"
+              value={startDate}
+              max={endDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs uppercase font-bold text-muted-foreground">To</Label>
+            <Input
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <div className="text-xs uppercase font-bold text-muted-foreground">Brought Forward</div>
+            <div className="text-xl font-bold">{formatCurrency(statement?.broughtForward)}</div>
+          </div>
+          <div className="space-y-1">
+            <div className="text-xs uppercase font-bold text-muted-foreground">Closing Balance</div>
+            <div
+              className={`text-xl font-bold ${
+                (statement?.closingBalance || 0) > 0 ? 'text-red-400' : 'text-[#4ade80]'
+              }`}
+            >
+              {formatCurrency(statement?.closingBalance)}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {buckets.map((bucket) => (
+          <Card key={bucket.label} className="bg-card border-border text-foreground">
+            <CardContent className="pt-6">
+              <div className="text-xs uppercase font-bold text-muted-foreground">
+                {bucket.label}
+              </div>
+              <div
+                className={`text-xl font-bold ${bucket.amount > 0 ? 'text-red-400' : 'text-foreground'}`}
+              >
+                {formatCurrency(bucket.amount)}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="bg-card border-border text-foreground">
+        <CardHeader className="border-b border-border py-4">
+          <CardTitle className="text-lg">Ledger &middot; {rangeLabel}</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-10">
+              <p className="text-muted-foreground">Loading...</p>
+            </div>
+          ) : (
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs uppercase bg-muted/50 text-muted-foreground border-b border-border">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Date</th>
+                  <th className="px-4 py-3 font-medium">Type</th>
+                  <th className="px-4 py-3 font-medium">Reference</th>
+                  <th className="px-4 py-3 font-medium">Description</th>
+                  <th className="px-4 py-3 font-medium text-right">Debit</th>
+                  <th className="px-4 py-3 font-medium text-right">Credit</th>
+                  <th className="px-4 py-3 font-medium text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                <tr className="font-semibold">
+                  <td className="px-4 py-3" colSpan={6}>
+                    Balance brought forward
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {formatCurrency(statement?.broughtForward)}
+                  </td>
+                </tr>
+                {statement?.rows.map((row, index) => (
+                  <tr key={`${row.reference}-${index}`}>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      {format(new Date(row.date), 'MMM dd, yyyy')}
+                    </td>
+                    <td className="px-4 py-3 text-muted-foreground">
+                      {ROW_TYPE_LABELS[row.type] || row.type}
+                    </td>
+                    <td className="px-4 py-3 font-mono text-xs">{row.reference}</td>
+                    <td className="px-4 py-3">{row.description}</td>
+                    <td className="px-4 py-3 text-right text-red-400">
+                      {row.debit ? formatCurrency(row.debit) : ''}
+                    </td>
+                    <td className="px-4 py-3 text-right text-[#4ade80]">
+                      {row.credit ? formatCurrency(row.credit) : ''}
+                    </td>
+                    <td className="px-4 py-3 text-right font-medium">
+                      {formatCurrency(row.balance)}
+                    </td>
+                  </tr>
+                ))}
+                {statement && statement.rows.length === 0 && (
+                  <tr>
+                    <td className="px-4 py-6 text-center text-muted-foreground" colSpan={7}>
+                      No transactions in this period
+                    </td>
+                  </tr>
+                )}
+                <tr className="font-bold bg-muted/30">
+                  <td className="px-4 py-3" colSpan={4}>
+                    Closing balance
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {formatCurrency(statement?.totals.debit)}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {formatCurrency(statement?.totals.credit)}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {formatCurrency(statement?.closingBalance)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {id && <OverdueInstallments customerId={id} />}
+    </div>
+  )
+}
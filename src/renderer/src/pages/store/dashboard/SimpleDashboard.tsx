@@ -17,6 +17,7 @@ import {
 } from 'lucide-react'
 import { Card, CardContent } from '@renderer/components/ui/card'
 import { Button } from '@renderer/components/ui/button'
+import { OverdueInstallments } from '@renderer/components/shared/overdue-installments'
 import { useNavigate } from 'react-router-dom'
 import { format } from 'date-fns'
 import { motion } from 'framer-motion'
@@ -180,6 +181,8 @@ export default function SimpleDashboard({ stats }: SimpleDashboardProps) {
           ))}
         </div>
       </div>
+
+      <OverdueInstallments storeId={selectedStore?._id} />
     </div>
   )
 }
@@ -18,6 +18,7 @@ import {
 } from '@renderer/components/ui/card'
 import { Button } from '@renderer/components/ui/button'
 import { Avatar, AvatarFallback } from '@renderer/components/ui/avatar'
+import { OverdueInstallments } from '@renderer/components/shared/overdue-installments'
 import {
   XAxis,
   YAxis,
@@ -91,6 +92,7 @@ export default function DashboardPage() {
 }
 
 function AdminDashboard({ stats, user }: { stats: any; user: any }) {
+  const selectedStore = JSON.parse(localStorage.getItem('selectedStore') || '{}')
   const dashboardStats = [
     {
       title: 'Total Revenue',
@@ -294,6 +296,8 @@ function AdminDashboard({ stats, user }: { stats: any; user: any }) {
           </CardContent>
         </Card>
       </div>
+
+      <OverdueInstallments storeId={selectedStore?._id} />
     </div>
   )
 }
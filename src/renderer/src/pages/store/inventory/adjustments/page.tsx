@@ -0,0 +1,313 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { DateRange } from 'react-day-picker'
+import { endOfMonth, format, startOfMonth, subMonths } from 'date-fns'
+import { CalendarIcon, RefreshCw } from 'lucide-react'
+import { Button } from '@renderer/components/ui/button'
+import { Calendar } from '@renderer/components/ui/calendar'
+import { Card, CardContent, CardHeader, CardTitle } from '@renderer/components/ui/card'
+import { Label } from '@renderer/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@renderer/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@renderer/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@renderer/components/ui/table'
+import { toast } from 'sonner'
+import { useNavigate } from 'react-router-dom'
+import { ADJUSTMENT_REASONS } from '@renderer/lib/stock-adjustments'
+
+type Totals = { count: number; quantity: number; value: number }
+
+type AdjustmentReport = {
+  rows: any[]
+  byReason: Array<Totals & { reason: string; label: string }>
+  byUser: Array<Totals & { user: string }>
+}
+
+const formatCurrency = (value: number) => `Rs. ${Number(value || 0).toLocaleString()}`
+
+export default function StockAdjustmentsPage() {
+  const navigate = useNavigate()
+  const [range, setRange] = useState<DateRange | undefined>(() => ({
+    from: startOfMonth(new Date()),
+    to: endOfMonth(new Date())
+  }))
+  const [reason, setReason] = useState('all')
+  const [report, setReport] = useState<AdjustmentReport | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const rangeLabel = useMemo(() => {
+    if (!range?.from) return 'All dates'
+    const fromLabel = format(range.from, 'MMM dd, yyyy')
+    if (!range.to) return fromLabel
+    return `${fromLabel} - ${format(range.to, 'MMM dd, yyyy')}`
+  }, [range])
+
+  const loadReport = async () => {
+    const selectedStoreStr = localStorage.getItem('selectedStore')
+    if (!selectedStoreStr) return
+    const store = JSON.parse(selectedStoreStr)
+
+    setIsLoading(true)
+    try {
+      const result = await window.api.inventory.getAdjustments({
+        storeId: store._id || store.id,
+        startDate: range?.from?.toISOString(),
+        endDate: (range?.to ?? range?.from)?.toISOString(),
+        reason
+      })
+      if (result.success) {
+        setReport(result.data)
+      } else {
+        toast.error(result.error || 'Failed to load adjustments')
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadReport()
+  }, [range, reason])
+
+  const writtenOff = (report?.rows || [])
+    .filter((row) => row.quantity < 0)
+    .reduce((sum, row) => sum + -row.quantity * (row.unitCost || 0), 0)
+  const recovered = (report?.rows || [])
+    .filter((row) => row.quantity > 0)
+    .reduce((sum, row) => sum + row.quantity * (row.unitCost || 0), 0)
+
+  return (
+    <div className="space-y-4">
+      <Card className="border-border">
+        <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="space-y-1">
+            <CardTitle className="text-lg font-black">Stock Adjustments</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              Damage, shrinkage and found stock by reason and by user.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            className="h-10 border-border"
+            onClick={loadReport}
+            disabled={isLoading}
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            {isLoading ? 'Loading...' : 'Refresh'}
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label className="text-xs font-semibold uppercase text-muted-foreground">
+                Date Range
+              </Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="h-10 border-border">
+                    <CalendarIcon className="w-4 h-4 mr-2" />
+                    {rangeLabel}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    numberOfMonths={2}
+                    selected={range}
+                    onSelect={setRange}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs font-semibold uppercase text-muted-foreground">
+                Reason
+              </Label>
+              <Select value={reason} onValueChange={setReason}>
+                <SelectTrigger className="h-10 w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All reasons</SelectItem>
+                  {Object.entries(ADJUSTMENT_REASONS).map(([key, option]) => (
+                    <SelectItem key={key} value={key}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              className="h-10 border-border font-semibold"
+              onClick={() => {
+                const lastMonth = subMonths(new Date(), 1)
+                setRange({ from: startOfMonth(lastMonth), to: endOfMonth(lastMonth) })
+              }}
+            >
+              Last Month
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="rounded-xl border-2 border-red-500/30 bg-red-500/5 p-5">
+              <div className="text-xs font-black uppercase text-red-700 dark:text-red-400 mb-2">
+                Written Off
+              </div>
+              <div className="text-2xl font-black text-red-600">{formatCurrency(writtenOff)}</div>
+              <div className="text-xs text-muted-foreground mt-1">At cost price</div>
+            </div>
+            <div className="rounded-xl border-2 border-[#4ade80]/50 bg-[#4ade80]/10 p-5">
+              <div className="text-xs font-black uppercase text-[#16a34a] dark:text-[#4ade80] mb-2">
+                Recovered
+              </div>
+              <div className="text-2xl font-black text-[#16a34a]">{formatCurrency(recovered)}</div>
+              <div className="text-xs text-muted-foreground mt-1">Found stock at cost price</div>
+            </div>
+            <div className="rounded-xl border-2 border-blue-500/30 bg-blue-500/5 p-5">
+              <div className="text-xs font-black uppercase text-blue-700 dark:text-blue-400 mb-2">
+                Adjustments
+              </div>
+              <div className="text-2xl font-black text-blue-600">{report?.rows.length || 0}</div>
+              <div className="text-xs text-muted-foreground mt-1">In the selected range</div>
+            </div>
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <div className="rounded-xl border border-border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Count</TableHead>
+                    <TableHead className="text-right">Net Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(report?.byReason || []).map((group) => (
+                    <TableRow key={group.reason}>
+                      <TableCell className="font-medium">{group.label}</TableCell>
+                      <TableCell className="text-right">{group.count}</TableCell>
+                      <TableCell
+                        className={`text-right ${group.value < 0 ? 'text-red-600' : 'text-[#16a34a]'}`}
+                      >
+                        {formatCurrency(group.value)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="rounded-xl border border-border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead className="text-right">Count</TableHead>
+                    <TableHead className="text-right">Net Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(report?.byUser || []).map((group) => (
+                    <TableRow key={group.user}>
+                      <TableCell className="font-medium">{group.user}</TableCell>
+                      <TableCell className="text-right">{group.count}</TableCell>
+                      <TableCell
+                        className={`text-right ${group.value < 0 ? 'text-red-600' : 'text-[#16a34a]'}`}
+                      >
+                        {formatCurrency(group.value)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead>Photo</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report?.rows.length ? (
+                  report.rows.map((row) => (
+                    <TableRow key={row._id}>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {format(new Date(row.createdAt), 'MMM dd, yyyy HH:mm')}
+                      </TableCell>
+                      <TableCell>
+                        <button
+                          type="button"
+                          className="font-medium text-foreground hover:underline"
+                          onClick={() =>
+                            navigate(`/dashboard/inventory/products/${row.product?._id}`)
+                          }
+                        >
+                          {row.product?.name || 'Deleted product'}
+                        </button>
+                      </TableCell>
+                      <TableCell>{ADJUSTMENT_REASONS[row.reason]?.label || row.reason}</TableCell>
+                      <TableCell
+                        className={`text-right font-semibold ${row.quantity < 0 ? 'text-red-600' : 'text-[#16a34a]'}`}
+                      >
+                        {row.quantity > 0 ? '+' : ''}
+                        {row.quantity} {row.product?.productKind === 'RAW_MATERIAL' ? 'm' : 'pcs'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(row.quantity * (row.unitCost || 0))}
+                      </TableCell>
+                      <TableCell className="text-xs">{row.createdBy?.fullName || '-'}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-[200px] truncate">
+                        {row.notes || '-'}
+                      </TableCell>
+                      <TableCell>
+                        {row.photo ? (
+                          <img
+                            src={row.photo}
+                            alt="Adjustment evidence"
+                            className="h-10 w-10 rounded-md border border-border object-cover"
+                          />
+                        ) : (
+                          '-'
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                      No adjustments in this range.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -31,10 +31,12 @@ import {
   FormLabel,
   FormMessage
 } from '@renderer/components/ui/form'
+import { TAX_CLASS_OPTIONS, taxClassLabel } from '@renderer/lib/tax'
 
 const categorySchema = z.object({
   name: z.string().min(2, 'Category name must be at least 2 characters'),
-  parent: z.string().optional().or(z.literal(''))
+  parent: z.string().optional().or(z.literal('')),
+  taxClass: z.enum(['STANDARD', 'REDUCED', 'EXEMPT'])
 })
 
 type CategoryFormValues = z.infer<typeof categorySchema>
@@ -93,7 +95,8 @@ export default function CategoriesPage() {
     resolver: zodResolver(categorySchema),
     defaultValues: {
       name: '',
-      parent: ''
+      parent: '',
+      taxClass: 'STANDARD'
     }
   })
 
@@ -109,12 +112,14 @@ export default function CategoriesPage() {
         result = await window.api.categories.update(editingCategory._id, {
           name: values.name,
           parent: values.parent || null,
+          taxClass: values.taxClass,
           store: currentStore._id
         })
       } else {
         result = await window.api.categories.create({
           name: values.name,
           parent: values.parent || null,
+          taxClass: values.taxClass,
           store: currentStore._id
         })
       }
@@ -158,14 +163,15 @@ export default function CategoriesPage() {
     setEditingCategory(category)
     form.reset({
       name: category.name,
-      parent: category.parent?._id || category.parent || ''
+      parent: category.parent?._id || category.parent || '',
+      taxClass: category.taxClass || 'STANDARD'
     })
     setIsFormOpen(true)
   }
 
   const openAdd = () => {
     setEditingCategory(null)
-    form.reset({ name: '', parent: '' })
+    form.reset({ name: '', parent: '', taxClass: 'STANDARD' })
     setIsFormOpen(true)
   }
 
@@ -178,6 +184,11 @@ export default function CategoriesPage() {
         <span className="text-muted-foreground italic">{item.parent?.name || 'None (Main)'}</span>
       )
     },
+    {
+      header: 'Tax Class',
+      accessor: 'taxClass',
+      render: (item: any) => <span>{taxClassLabel(item.taxClass)}</span>
+    },
     {
       header: 'Actions',
       accessor: '_id',
@@ -308,6 +319,30 @@ export default function CategoriesPage() {
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="taxClass"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tax Class</FormLabel>
+                    <FormControl>
+                      <SearchableSelect
+                        value={field.value}
+                        onValueChange={field.onChange}
+                        options={TAX_CLASS_OPTIONS}
+                        placeholder="Select Tax Class"
+                        searchPlaceholder="Search tax class..."
+                        emptyText="No tax class found."
+                      />
+                    </FormControl>
+                    <FormMessage />
+                    <p className="text-[10px] text-muted-foreground mt-1">
+                      Products in this category are taxed at this class unless they set their own.
+                    </p>
+                  </FormItem>
+                )}
+              />
               <DialogFooter>
                 <Button
                   type="button"
@@ -0,0 +1,282 @@
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { RefreshCw, Search } from 'lucide-react'
+import { useNavigate } from 'react-router-dom'
+import { Badge } from '@renderer/components/ui/badge'
+import { Button } from '@renderer/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@renderer/components/ui/card'
+import { Input } from '@renderer/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@renderer/components/ui/table'
+import { toast } from 'sonner'
+
+type CostLayerReport = {
+  method: 'WEIGHTED_AVERAGE' | 'FIFO'
+  layers: any[]
+  products: Array<{
+    product: string
+    name: string
+    sku: string
+    unit: string
+    stockLevel: number
+    layers: number
+    quantity: number
+    value: number
+  }>
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  INITIAL_STOCK: 'Opening stock',
+  RESTOCK: 'Restock',
+  PURCHASE_ORDER: 'Purchase order',
+  ADJUSTMENT: 'Adjustment',
+  RETURN: 'Return'
+}
+
+const formatCurrency = (value: number) => `Rs. ${Number((value || 0).toFixed(2)).toLocaleString()}`
+
+const formatQuantity = (value: number, unit: string) =>
+  unit === 'meter' ? `${Number(value).toFixed(1)} m` : `${Number(value.toFixed(3))} ${unit}`
+
+export default function CostLayersPage() {
+  const navigate = useNavigate()
+  const [report, setReport] = useState<CostLayerReport | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [search, setSearch] = useState('')
+  const [selectedProduct, setSelectedProduct] = useState<string | null>(null)
+
+  const loadReport = async () => {
+    const selectedStoreStr = localStorage.getItem('selectedStore')
+    if (!selectedStoreStr) return
+    const store = JSON.parse(selectedStoreStr)
+
+    setIsLoading(true)
+    try {
+      const result = await window.api.inventory.getCostLayers({ storeId: store._id || store.id })
+      if (result.success) {
+        setReport(result.data)
+      } else {
+        toast.error(result.error || 'Failed to load cost layers')
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadReport()
+  }, [])
+
+  const term = search.trim().toLowerCase()
+  const products = (report?.products || []).filter(
+    (product) =>
+      !term ||
+      product.name?.toLowerCase().includes(term) ||
+      product.sku?.toLowerCase().includes(term)
+  )
+  const layers = (report?.layers || []).filter((layer) =>
+    selectedProduct
+      ? String(layer.product?._id) === selectedProduct
+      : products.some((product) => String(product.product) === String(layer.product?._id))
+  )
+  const totalValue = products.reduce((sum, product) => sum + product.value, 0)
+
+  return (
+    <div className="space-y-4">
+      <Card className="border-border">
+        <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="space-y-1">
+            <CardTitle className="text-lg font-black flex items-center gap-2">
+              Cost Layers
+              {report && (
+                <Badge variant="outline">
+                  {report.method === 'FIFO' ? 'FIFO costing' : 'Weighted-average costing'}
+                </Badge>
+              )}
+            </CardTitle>
+            <p className="text-xs text-muted-foreground">
+              Stock left from each purchase lot and what it cost. Sales draw down the oldest lot
+              first.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            className="h-10 border-border"
+            onClick={loadReport}
+            disabled={isLoading}
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            {isLoading ? 'Loading...' : 'Refresh'}
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="rounded-xl border-2 border-[#4ade80]/50 bg-[#4ade80]/10 p-5">
+              <div className="text-xs font-black uppercase text-[#16a34a] dark:text-[#4ade80] mb-2">
+                Layered Stock Value
+              </div>
+              <div className="text-2xl font-black text-[#16a34a]">{formatCurrency(totalValue)}</div>
+              <div className="text-xs text-muted-foreground mt-1">At actual purchase cost</div>
+            </div>
+            <div className="rounded-xl border-2 border-blue-500/30 bg-blue-500/5 p-5">
+              <div className="text-xs font-black uppercase text-blue-700 dark:text-blue-400 mb-2">
+                Open Layers
+              </div>
+              <div className="text-2xl font-black text-blue-600">{layers.length}</div>
+            </div>
+            <div className="rounded-xl border-2 border-amber-500/30 bg-amber-500/5 p-5">
+              <div className="text-xs font-black uppercase text-amber-700 dark:text-amber-400 mb-2">
+                Products
+              </div>
+              <div className="text-2xl font-black text-amber-600">{products.length}</div>
+            </div>
+          </div>
+
+          <div className="relative w-full sm:w-[280px]">
+            <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value)
+                setSelectedProduct(null)
+              }}
+              placeholder="Search product or SKU..."
+              className="pl-9"
+            />
+          </div>
+
+          <div className="rounded-xl border border-border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Layers</TableHead>
+                  <TableHead className="text-right">Layered Qty</TableHead>
+                  <TableHead className="text-right">On Hand</TableHead>
+                  <TableHead className="text-right">Avg. Layer Cost</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {products.length ? (
+                  products.map((product) => (
+                    <TableRow
+                      key={product.product}
+                      className={`cursor-pointer ${
+                        selectedProduct === String(product.product) ? 'bg-[#4ade80]/10' : ''
+                      }`}
+                      onClick={() =>
+                        setSelectedProduct(
+                          selectedProduct === String(product.product)
+                            ? null
+                            : String(product.product)
+                        )
+                      }
+                    >
+                      <TableCell>
+                        <div className="font-medium">{product.name}</div>
+                        <div className="font-mono text-xs text-muted-foreground">{product.sku}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{product.layers}</TableCell>
+                      <TableCell className="text-right">
+                        {formatQuantity(product.quantity, product.unit)}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right ${
+                          Math.abs(product.stockLevel - product.quantity) > 0.001
+                            ? 'text-amber-600 font-semibold'
+                            : ''
+                        }`}
+                      >
+                        {formatQuantity(product.stockLevel, product.unit)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(product.quantity ? product.value / product.quantity : 0)}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">
+                        {formatCurrency(product.value)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                      No open cost layers.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="rounded-xl border border-border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Remaining</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {layers.map((layer) => {
+                  const unit =
+                    layer.product?.productKind === 'RAW_MATERIAL' ? 'meter' : layer.unit || 'pcs'
+                  return (
+                    <TableRow key={layer._id}>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {format(new Date(layer.purchaseDate || layer.createdAt), 'MMM dd, yyyy')}
+                      </TableCell>
+                      <TableCell>
+                        <button
+                          type="button"
+                          className="font-medium text-foreground hover:underline"
+                          onClick={() =>
+                            navigate(`/dashboard/inventory/products/${layer.product?._id}`)
+                          }
+                        >
+                          {layer.product?.name || 'Deleted product'}
+                        </button>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        <div>
+                          {SOURCE_LABELS[layer.entryType] || layer.entryType}
+                          {layer.purchaseOrder?.poNumber ? ` ${layer.purchaseOrder.poNumber}` : ''}
+                        </div>
+                        {layer.supplier?.name && (
+                          <div className="text-muted-foreground">{layer.supplier.name}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(layer.buyingPrice)}
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {formatQuantity(layer.quantity, unit)}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">
+                        {formatQuantity(layer.remainingQuantity, unit)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(layer.remainingQuantity * layer.buyingPrice)}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
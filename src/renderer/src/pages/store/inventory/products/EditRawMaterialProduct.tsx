@@ -30,6 +30,7 @@ const formSchema = z.object({
   barcode: z.string().optional(),
   category: z.string().optional(),
   brand: z.string().optional(),
+  taxClass: z.string().optional(),
   supplier: z.string().optional(), // ✅ NEW
   description: z.string().optional(),
   buyingPrice: z.preprocess(
@@ -52,10 +53,15 @@ const formSchema = z.object({
     (val) => (val === '' || val === undefined ? undefined : Number(val)),
     z.number().min(0, 'Minimum stock must be 0 or more').optional()
   ),
+  minCutLength: z.preprocess(
+    (val) => (val === '' || val === undefined ? undefined : Number(val)),
+    z.number().min(0, 'Minimum cut must be 0 or more').optional()
+  ),
   color: z.string().optional(),
   fabricType: z.string().optional(),
   pattern: z.string().optional(),
-  designNumber: z.string().optional()
+  designNumber: z.string().optional(),
+  location: z.string().optional()
 })
 
 export default function EditRawMaterialProduct() {
@@ -91,6 +97,7 @@ export default function EditRawMaterialProduct() {
       barcode: '',
       category: '',
       brand: '',
+      taxClass: '',
       supplier: '', // ✅ NEW
       description: '',
       buyingPrice: 0,
@@ -98,10 +105,12 @@ export default function EditRawMaterialProduct() {
       totalMeters: 0,
       metersPerUnit: 0,
       minStockLevel: 5,
+      minCutLength: 0,
       color: '',
       fabricType: '',
       pattern: '',
-      designNumber: ''
+      designNumber: '',
+      location: ''
     }
   })
 
@@ -221,6 +230,7 @@ export default function EditRawMaterialProduct() {
           barcode: prod.barcode || '',
           category: prod.category?._id || '',
           brand: prod.brand?._id || '',
+          taxClass: prod.taxClass || '',
           supplier: supplierIdFromStock, // ✅ NEW
           description: prod.description || '',
           buyingPrice: prod.buyingPrice || 0,
@@ -228,10 +238,12 @@ export default function EditRawMaterialProduct() {
           totalMeters: prod.totalMeters || 0,
           metersPerUnit: prod.metersPerUnit || 0,
           minStockLevel: prod.minStockLevel || 5,
+          minCutLength: prod.minCutLength || 0,
           color: prod.color || '',
           fabricType: prod.fabricType || '',
           pattern: prod.pattern || '',
-          designNumber: prod.designNumber || ''
+          designNumber: prod.designNumber || '',
+          location: prod.location || ''
         })
       } else {
         toast.error('Product not found')
@@ -252,12 +264,15 @@ export default function EditRawMaterialProduct() {
       const metersPerUnitNum = Number(values.metersPerUnit) || 0
       const totalMetersNum = Number(values.totalMeters) || 0
 
+      const user = JSON.parse(localStorage.getItem('user') || '{}')
       const result = await window.api.products.update(id, {
         storeId: currentStore._id,
+        createdBy: user._id || user.id,
         ...values,
         supplier: values.supplier || null,
         totalMeters: totalMetersNum,
         metersPerUnit: metersPerUnitNum,
+        minCutLength: Number(values.minCutLength) || 0,
         productKind: 'RAW_MATERIAL',
         baseUnit: 'meter',
         sellByUnit: 'meter',
@@ -270,7 +285,8 @@ export default function EditRawMaterialProduct() {
         comboComponents: [],
         twoComponentPrices: [],
         category: values.category || null,
-        brand: values.brand || null
+        brand: values.brand || null,
+        taxClass: values.taxClass || null
       })
 
       if (result.success) {
@@ -443,6 +459,29 @@ export default function EditRawMaterialProduct() {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="minCutLength"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum Cut (meters)</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        className="bg-muted border-border h-12"
+                        placeholder="Optional"
+                      />
+                    </FormControl>
+                    <FormDescription className="text-xs">
+                      The POS will not sell a shorter length of this fabric.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               {calculatedUnits > 0 && (
                 <div className="md:col-span-2 rounded-lg border border-amber-500/20 bg-amber-500/10 p-4">
                   <p className="text-sm text-amber-600 font-semibold">
@@ -18,6 +18,7 @@ const formSchema = z.object({
   sku: z.string().min(2, 'SKU is required'),
   category: z.string().min(1, 'Category is required'),
   brand: z.string().optional().or(z.literal('')),
+  taxClass: z.string().optional().or(z.literal('')),
   barcode: z.string().optional().or(z.literal('')),
   description: z.string().optional().or(z.literal('')),
   unit: z.string().optional().or(z.literal('pcs')),
@@ -25,6 +26,7 @@ const formSchema = z.object({
   fabricType: z.string().optional().or(z.literal('')),
   pattern: z.string().optional().or(z.literal('')),
   designNumber: z.string().optional().or(z.literal('')),
+  location: z.string().optional().or(z.literal('')),
   supplier: z.string().min(1, 'Supplier is required'),
   buyingPrice: z.preprocess(
     (val) => (val === '' || val === undefined ? undefined : Number(val)),
@@ -69,6 +71,7 @@ export default function EditSimpleProduct() {
       sku: '',
       category: '',
       brand: '',
+      taxClass: '',
       barcode: '',
       description: '',
       unit: 'pcs',
@@ -76,6 +79,7 @@ export default function EditSimpleProduct() {
       fabricType: '',
       pattern: '',
       designNumber: '',
+      location: '',
       supplier: '',
       initialQuantity: '',
       buyingPrice: '',
@@ -193,6 +197,7 @@ export default function EditSimpleProduct() {
           sku: prod.sku || '',
           category: prod.category?._id || '',
           brand: prod.brand?._id || '',
+          taxClass: prod.taxClass || '',
           barcode: prod.barcode || '',
           description: prod.description || '',
           unit: prod.sellByUnit || prod.baseUnit || 'pcs',
@@ -200,6 +205,7 @@ export default function EditSimpleProduct() {
           fabricType: prod.fabricType || '',
           pattern: prod.pattern || '',
           designNumber: prod.designNumber || '',
+          location: prod.location || '',
           supplier: supplierIdFromStock || existingSupplierValue || '',
           initialQuantity: String(prod.stockLevel || ''),
           buyingPrice: String(prod.buyingPrice || ''),
@@ -224,8 +230,10 @@ export default function EditSimpleProduct() {
 
     setIsSaving(true)
     try {
+      const user = JSON.parse(localStorage.getItem('user') || '{}')
       const result = await window.api.products.update(id, {
         storeId: currentStore._id,
+        createdBy: user._id || user.id,
         ...values,
         supplier: values.supplier || null,
         productKind: 'SIMPLE',
@@ -243,6 +251,7 @@ export default function EditSimpleProduct() {
         twoComponentPrices: [],
         category: values.category || null,
         brand: values.brand || null,
+        taxClass: values.taxClass || null,
         images: product?.images || []
       })
 
@@ -27,6 +27,7 @@ const createProductSchema = z
     sku: z.string().min(2, 'SKU is required'),
     category: z.string().min(1, 'Category is required'),
     brand: z.string().optional().or(z.literal('')),
+    taxClass: z.string().optional().or(z.literal('')),
     barcode: z.string().optional().or(z.literal('')),
     description: z.string().optional().or(z.literal('')),
     unit: z.string().optional().or(z.literal('pcs')),
@@ -35,6 +36,7 @@ const createProductSchema = z
     pattern: z.string().optional().or(z.literal('')),
     size: z.string().optional().or(z.literal('')),
     designNumber: z.string().optional().or(z.literal('')),
+    location: z.string().optional().or(z.literal('')),
     supplier: z.string().min(1, 'Supplier is required'),
     buyingPrice: z.preprocess(
       (val) => (val === '' || val === undefined ? undefined : Number(val)),
@@ -55,6 +57,10 @@ const createProductSchema = z
     metersPerUnit: z.preprocess(
       (val) => (val === '' || val === undefined ? undefined : Number(val)),
       z.number().min(0, 'Meters per unit must be 0 or more').optional()
+    ),
+    minCutLength: z.preprocess(
+      (val) => (val === '' || val === undefined ? undefined : Number(val)),
+      z.number().min(0, 'Minimum cut must be 0 or more').optional()
     )
   })
   .superRefine((values, ctx) => {
@@ -105,6 +111,7 @@ export default function CreateProductPage() {
     sku: `PRD-${Date.now()}`,
     category: '',
     brand: '',
+    taxClass: '',
     barcode: '',
     description: '',
     unit: 'pcs',
@@ -113,10 +120,12 @@ export default function CreateProductPage() {
     pattern: '',
     size: '',
     designNumber: '',
+    location: '',
     supplier: '',
     initialQuantity: '',
     totalMeters: '',
     metersPerUnit: '',
+    minCutLength: '',
     buyingPrice: '',
     sellingPrice: ''
   }
@@ -166,10 +175,13 @@ export default function CreateProductPage() {
     }
     setIsSubmitting(true)
     try {
+      const user = JSON.parse(localStorage.getItem('user') || '{}')
       let productData: any = {
         ...values,
         store: currentStore._id,
+        createdBy: user._id || user.id,
         brand: values.brand || null,
+        taxClass: values.taxClass || null,
         productKind,
         buyingPrice: values.buyingPrice || 0,
         sellingPrice: values.sellingPrice || 0,
@@ -184,6 +196,7 @@ export default function CreateProductPage() {
       } else {
         productData.totalMeters = values.totalMeters || 0
         productData.metersPerUnit = values.metersPerUnit || 0
+        productData.minCutLength = values.minCutLength || 0
       }
 
       console.log('Submitting product data:', productData)
@@ -358,6 +371,26 @@ export default function CreateProductPage() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="minCutLength"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Minimum Cut (meters)</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          className="bg-muted border-border h-12"
+                          placeholder="Optional"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
             </div>
           )}
@@ -19,11 +19,15 @@ import {
   Edit3,
   ArrowUpCircle,
   ArrowDownCircle,
-  PackagePlus
+  PackagePlus,
+  SlidersHorizontal
 } from 'lucide-react'
 import { ScrollArea } from '@renderer/components/ui/scroll-area'
 import { toast } from 'sonner'
 import { RestockModal } from '@renderer/components/inventory/restock-modal'
+import { AdjustStockModal } from '@renderer/components/inventory/adjust-stock-modal'
+import { ADJUSTMENT_REASONS } from '@renderer/lib/stock-adjustments'
+import { formatQuantity as formatUnits } from '@renderer/lib/quantities'
 
 export default function ProductDetails() {
   const { id } = useParams()
@@ -31,8 +35,9 @@ export default function ProductDetails() {
   const [product, setProduct] = useState<any>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [showRestock, setShowRestock] = useState(false)
+  const [showAdjust, setShowAdjust] = useState(false)
   const [currentStore, setCurrentStore] = useState<any>(null)
-  const [inventoryHistory, setInventoryHistory] = useState<any[]>([])
+  const [stockMovements, setStockMovements] = useState<any[]>([])
   const [isLoadingHistory, setIsLoadingHistory] = useState(false)
 
   useEffect(() => {
@@ -102,28 +107,39 @@ export default function ProductDetails() {
     loadProduct()
   }, [id])
 
-  // ✅ Load inventory history
-  useEffect(() => {
-    const loadInventoryHistory = async () => {
-      if (!id || !currentStore?._id) return
-      setIsLoadingHistory(true)
-      try {
-        const result = await window.api.inventory.getHistory({
-          productId: id,
-          storeId: currentStore._id,
-          limit: 20
-        })
-        if (result.success) {
-          setInventoryHistory(result.data || [])
-        }
-      } catch (error) {
-        console.error('Failed to load inventory history:', error)
-      } finally {
-        setIsLoadingHistory(false)
+  // Labels for the document that caused a stock movement
+  const REFERENCE_LABELS: Record<string, string> = {
+    INITIAL_STOCK: 'Initial stock',
+    RESTOCK: 'Restock',
+    PURCHASE_ORDER: 'Purchase order',
+    SALE: 'Sale',
+    SALE_REVERSAL: 'Sale deleted',
+    REFUND: 'Refund',
+    STOCK_ADJUSTMENT: 'Stock adjustment'
+  }
+
+  const formatQuantity = (quantity: number) =>
+    formatUnits(quantity, product?.productKind === 'RAW_MATERIAL')
+
+  // ✅ Load stock movements
+  const loadStockMovements = async () => {
+    if (!id) return
+    setIsLoadingHistory(true)
+    try {
+      const result = await window.api.inventory.getMovements({ productId: id, limit: 50 })
+      if (result.success) {
+        setStockMovements(result.data || [])
       }
+    } catch (error) {
+      console.error('Failed to load stock movements:', error)
+    } finally {
+      setIsLoadingHistory(false)
     }
-    loadInventoryHistory()
-  }, [id, currentStore?._id])
+  }
+
+  useEffect(() => {
+    loadStockMovements()
+  }, [id])
 
   if (isLoading) {
     return (
@@ -142,9 +158,9 @@ export default function ProductDetails() {
     )
   }
 
-  const profitMargin = product.sellingPrice - product.buyingPrice
-  const profitPercentage =
-    product.buyingPrice > 0 ? ((profitMargin / product.buyingPrice) * 100).toFixed(1) : 0
+  const unitCost = product.avgCostPrice ?? product.buyingPrice ?? 0
+  const profitMargin = product.sellingPrice - unitCost
+  const profitPercentage = unitCost > 0 ? ((profitMargin / unitCost) * 100).toFixed(1) : 0
 
   return (
     <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -193,6 +209,15 @@ export default function ProductDetails() {
             Edit Product
           </Button>
 
+          <Button
+            variant="outline"
+            className="border-border hover:bg-accent text-foreground"
+            onClick={() => setShowAdjust(true)}
+          >
+            <SlidersHorizontal className="w-4 h-4 mr-2" />
+            Adjust Stock
+          </Button>
+
           <Button
             className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-semibold"
             onClick={() => setShowRestock(true)}
@@ -228,19 +253,20 @@ export default function ProductDetails() {
           <CardHeader className="pb-2">
             <CardTitle className="text-xs font-medium text-muted-foreground uppercase flex items-center gap-2">
               <Tag className="w-3 h-3 text-blue-400" />
-              Cost Price
+              Average Cost
             </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-blue-400">
-              Rs. {(product.buyingPrice || 0).toLocaleString()}
+              Rs. {Number(unitCost.toFixed(2)).toLocaleString()}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
-              per {product.productKind === 'RAW_MATERIAL' ? 'meter' : 'piece'}
+              per {product.productKind === 'RAW_MATERIAL' ? 'meter' : 'piece'} • last purchase Rs.{' '}
+              {(product.buyingPrice || 0).toLocaleString()}
             </p>
             {profitMargin > 0 && (
               <p className="text-xs text-green-500 font-semibold mt-1">
-                +Rs. {profitMargin.toLocaleString()} ({profitPercentage}% margin)
+                +Rs. {Number(profitMargin.toFixed(2)).toLocaleString()} ({profitPercentage}% margin)
               </p>
             )}
           </CardContent>
@@ -263,9 +289,7 @@ export default function ProductDetails() {
           <CardContent>
             <div className="flex items-baseline gap-2">
               <div className="text-3xl font-bold">
-                {product.productKind === 'RAW_MATERIAL'
-                  ? (product.stockLevel || 0).toFixed(1)
-                  : product.stockLevel || 0}
+                {formatUnits(product.stockLevel || 0, product.productKind === 'RAW_MATERIAL')}
               </div>
               <span className="text-muted-foreground text-sm">{getStockUnit()}</span>
             </div>
@@ -363,7 +387,7 @@ export default function ProductDetails() {
                         Total Meters
                       </span>
                       <span className="col-span-2 text-sm text-amber-600 font-semibold">
-                        {(product.totalMeters || 0).toFixed(1)} meters
+                        {formatUnits(product.totalMeters || 0, true)} meters
                       </span>
                     </div>
                     {product.metersPerUnit > 0 && (
@@ -413,6 +437,12 @@ export default function ProductDetails() {
                     </span>
                   </div>
                 )}
+                {product.location && (
+                  <div className="grid grid-cols-3 p-4">
+                    <span className="text-muted-foreground text-sm font-medium">Location</span>
+                    <span className="col-span-2 text-sm text-foreground">{product.location}</span>
+                  </div>
+                )}
                 {product.designNumber && (
                   <div className="grid grid-cols-3 p-4">
                     <span className="text-muted-foreground text-sm font-medium">Design #</span>
@@ -448,15 +478,17 @@ export default function ProductDetails() {
           </Card>
         </div>
 
-        {/* Sidebar - Inventory History */}
+        {/* Sidebar - Stock Movements */}
         <div className="lg:col-span-4 space-y-6">
           <Card className="bg-card border-border text-foreground overflow-hidden">
             <CardHeader className="bg-muted/50 border-b border-border">
               <CardTitle className="text-lg flex items-center gap-2">
                 <History className="w-5 h-5 text-orange-400" />
-                Inventory History
+                Stock Movements
               </CardTitle>
-              <CardDescription className="text-xs">Recent stock movements</CardDescription>
+              <CardDescription className="text-xs">
+                Every change to stock, with who made it and why
+              </CardDescription>
             </CardHeader>
             <CardContent className="p-0">
               <ScrollArea className="h-[500px]">
@@ -465,91 +497,95 @@ export default function ProductDetails() {
                     <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[#4ade80] mx-auto"></div>
                     <p className="text-xs text-muted-foreground mt-2">Loading history...</p>
                   </div>
-                ) : inventoryHistory.length > 0 ? (
+                ) : stockMovements.length > 0 ? (
                   <div className="p-4 space-y-4">
-                    {inventoryHistory.map((entry: any, idx: number) => (
-                      <div
-                        key={entry._id || idx}
-                        className="border-l-2 border-muted pl-3 pb-3 hover:border-[#4ade80] transition-colors"
-                      >
-                        <div className="flex items-start gap-2">
-                          {/* Icon based on entry type */}
-                          {entry.entryType === 'INITIAL_STOCK' || entry.entryType === 'RESTOCK' ? (
-                            <ArrowUpCircle className="w-4 h-4 text-green-500 flex-shrink-0 mt-0.5" />
-                          ) : entry.entryType === 'ADJUSTMENT' ? (
-                            <Package className="w-4 h-4 text-blue-500 flex-shrink-0 mt-0.5" />
-                          ) : entry.entryType === 'RETURN' ? (
-                            <ArrowUpCircle className="w-4 h-4 text-orange-500 flex-shrink-0 mt-0.5" />
-                          ) : (
-                            <ArrowDownCircle className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />
-                          )}
-
-                          <div className="flex-1 space-y-1">
-                            {/* Header with type and quantity */}
-                            <div className="flex items-center justify-between">
-                              <span className="text-sm font-semibold capitalize">
-                                {entry.entryType.replace('_', ' ')}
-                              </span>
-                              <Badge
-                                variant="outline"
-                                className="text-[9px] border-green-500/20 bg-green-500/10 text-green-600"
-                              >
-                                +
-                                {entry.unit === 'meter'
-                                  ? entry.quantity.toFixed(1)
-                                  : entry.quantity}{' '}
-                                {entry.unit}
-                              </Badge>
-                            </div>
+                    {stockMovements.map((movement: any) => {
+                      const isIncoming = movement.quantity > 0
+                      return (
+                        <div
+                          key={movement._id}
+                          className="border-l-2 border-muted pl-3 pb-3 hover:border-[#4ade80] transition-colors"
+                        >
+                          <div className="flex items-start gap-2">
+                            {isIncoming ? (
+                              <ArrowUpCircle className="w-4 h-4 text-green-500 flex-shrink-0 mt-0.5" />
+                            ) : (
+                              <ArrowDownCircle className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />
+                            )}
 
-                            {/* Supplier info */}
-                            {entry.supplier && (
-                              <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                                <Package className="w-3 h-3" />
-                                <span className="font-medium">
-                                  {typeof entry.supplier === 'object'
-                                    ? entry.supplier.name
-                                    : 'Supplier'}
+                            <div className="flex-1 space-y-1">
+                              {/* Header with type and quantity */}
+                              <div className="flex items-center justify-between">
+                                <span className="text-sm font-semibold capitalize">
+                                  {movement.transactionType.toLowerCase()}
                                 </span>
+                                <Badge
+                                  variant="outline"
+                                  className={`text-[9px] ${
+                                    isIncoming
+                                      ? 'border-green-500/20 bg-green-500/10 text-green-600'
+                                      : 'border-red-500/20 bg-red-500/10 text-red-600'
+                                  }`}
+                                >
+                                  {isIncoming ? '+' : ''}
+                                  {formatQuantity(movement.quantity)} {getStockUnit()}
+                                </Badge>
                               </div>
-                            )}
 
-                            {/* Cost info */}
-                            <div className="flex flex-wrap items-center gap-2">
-                              <span className="text-xs text-blue-600 font-semibold">
-                                Rs. {entry.buyingPrice.toLocaleString()}
-                              </span>
-                              <span className="text-xs text-muted-foreground">
-                                per {entry.unit}
-                              </span>
-                              <span className="text-xs text-muted-foreground">•</span>
-                              <span className="text-xs text-amber-600 font-semibold">
-                                Total: Rs. {entry.totalCost.toLocaleString()}
-                              </span>
-                            </div>
+                              {/* Reference document */}
+                              <p className="text-xs text-blue-500 font-mono bg-blue-500/5 px-2 py-0.5 rounded inline-block">
+                                {REFERENCE_LABELS[movement.referenceType] || movement.referenceType}
+                                {movement.referenceNumber ? `: ${movement.referenceNumber}` : ''}
+                                {movement.reason
+                                  ? ` • ${ADJUSTMENT_REASONS[movement.reason]?.label || movement.reason}`
+                                  : ''}
+                              </p>
 
-                            {/* Date */}
-                            <p className="text-[10px] text-muted-foreground">
-                              {formatDateTime(entry.createdAt)}
-                            </p>
+                              {/* Balance and cost */}
+                              <div className="flex flex-wrap items-center gap-2">
+                                <span className="text-xs text-muted-foreground">
+                                  Balance:{' '}
+                                  <span className="font-semibold text-foreground">
+                                    {formatQuantity(movement.balanceAfter)} {getStockUnit()}
+                                  </span>
+                                </span>
+                                {movement.unitCost > 0 && (
+                                  <>
+                                    <span className="text-xs text-muted-foreground">•</span>
+                                    <span className="text-xs text-amber-600 font-semibold">
+                                      Rs. {movement.unitCost.toLocaleString()} each
+                                    </span>
+                                  </>
+                                )}
+                              </div>
 
-                            {/* Notes */}
-                            {entry.notes && (
-                              <p className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded mt-1">
-                                {entry.notes}
+                              {/* Who and when */}
+                              <p className="text-[10px] text-muted-foreground">
+                                {formatDateTime(movement.createdAt)}
+                                {movement.createdBy?.fullName
+                                  ? ` • ${movement.createdBy.fullName}`
+                                  : ''}
                               </p>
-                            )}
 
-                            {/* Invoice number if exists */}
-                            {entry.invoiceNumber && (
-                              <p className="text-xs text-blue-500 font-mono bg-blue-500/5 px-2 py-0.5 rounded inline-block mt-1">
-                                Invoice: {entry.invoiceNumber}
-                              </p>
-                            )}
+                              {/* Notes */}
+                              {movement.notes && (
+                                <p className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded mt-1">
+                                  {movement.notes}
+                                </p>
+                              )}
+
+                              {movement.photo && (
+                                <img
+                                  src={movement.photo}
+                                  alt="Adjustment evidence"
+                                  className="mt-1 h-16 w-16 rounded-md border border-border object-cover"
+                                />
+                              )}
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    ))}
+                      )
+                    })}
                   </div>
                 ) : (
                   <div className="p-8 text-center space-y-2">
@@ -566,6 +602,21 @@ export default function ProductDetails() {
         </div>
       </div>
 
+      {/* Adjust Stock Modal */}
+      <AdjustStockModal
+        open={showAdjust}
+        onOpenChange={setShowAdjust}
+        product={product}
+        onSuccess={() => {
+          if (id) {
+            window.api.products.getById(id).then((result) => {
+              if (result.success) setProduct(result.data)
+            })
+          }
+          loadStockMovements()
+        }}
+      />
+
       {/* Restock Modal */}
       <RestockModal
         open={showRestock}
@@ -580,17 +631,7 @@ export default function ProductDetails() {
             })
           }
           // Reload history
-          if (id && currentStore?._id) {
-            window.api.inventory
-              .getHistory({
-                productId: id,
-                storeId: currentStore._id,
-                limit: 20
-              })
-              .then((result) => {
-                if (result.success) setInventoryHistory(result.data || [])
-              })
-          }
+          loadStockMovements()
         }}
       />
     </div>
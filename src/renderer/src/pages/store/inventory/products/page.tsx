@@ -13,6 +13,7 @@ import {
 import { toast } from 'sonner'
 import { DeleteConfirm } from '@renderer/components/shared/delete-confirm'
 import { RestockModal } from '@renderer/components/inventory/restock-modal'
+import { formatQuantity } from '@renderer/lib/quantities'
 
 // Color mapping (named colors to hex values)
 const COLOR_MAP: { [key: string]: string } = {
@@ -78,7 +79,7 @@ export default function ProductsPage() {
 
     // For raw materials, show decimal
     if (product.productKind === 'RAW_MATERIAL') {
-      return `${stock.toFixed(1)} ${unit}`
+      return `${formatQuantity(stock, true)} ${unit}`
     }
 
     return `${stock} ${unit}`
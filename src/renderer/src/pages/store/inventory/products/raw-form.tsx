@@ -34,7 +34,8 @@ const rawProductSchema = z.object({
   pieceCount: z.string().optional().or(z.literal('')),
   pattern: z.string().optional().or(z.literal('')),
   collectionName: z.string().optional().or(z.literal('')),
-  designNumber: z.string().optional().or(z.literal(''))
+  designNumber: z.string().optional().or(z.literal('')),
+  location: z.string().optional().or(z.literal(''))
 })
 
 type RawProductFormValues = z.infer<typeof rawProductSchema>
@@ -82,7 +83,8 @@ export default function RawProductFormPage() {
       pieceCount: '',
       pattern: '',
       collectionName: '',
-      designNumber: ''
+      designNumber: '',
+      location: ''
     }
   })
 
@@ -142,7 +144,8 @@ export default function RawProductFormPage() {
           pieceCount: product.pieceCount || '',
           pattern: product.pattern || '',
           collectionName: product.collectionName || '',
-          designNumber: product.designNumber || ''
+          designNumber: product.designNumber || '',
+          location: product.location || ''
         })
         setImagePreviews(product.images || [])
       } else {
@@ -230,9 +233,11 @@ export default function RawProductFormPage() {
         }
       }
 
+      const user = JSON.parse(localStorage.getItem('user') || '{}')
       const data = {
         ...values,
         store: currentStore._id,
+        createdBy: user._id || user.id,
         images: uploadedUrls,
         brand: values.brand || null,
         productKind: 'RAW'
@@ -517,6 +522,24 @@ export default function RawProductFormPage() {
                       </FormItem>
                     )}
                   />
+
+                  <FormField
+                    control={form.control}
+                    name="location"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Storage Location</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            className="bg-muted border-border h-12"
+                            placeholder="e.g. Rack A, Godown"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </div>
               </div>
             </div>
@@ -0,0 +1,446 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { format } from 'date-fns'
+import { ArrowLeft, Ban, CheckCircle2, Save, ScanBarcode } from 'lucide-react'
+import { Badge } from '@renderer/components/ui/badge'
+import { Button } from '@renderer/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@renderer/components/ui/card'
+import { Input } from '@renderer/components/ui/input'
+import { LoadingButton } from '@renderer/components/ui/loading-button'
+import { Tabs, TabsList, TabsTrigger } from '@renderer/components/ui/tabs'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@renderer/components/ui/alert-dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@renderer/components/ui/table'
+import { toast } from 'sonner'
+import { formatQuantity as formatUnits } from '@renderer/lib/quantities'
+
+type CountFilter = 'all' | 'uncounted' | 'variances'
+
+const formatCurrency = (value: number) => `Rs. ${Number(value || 0).toLocaleString()}`
+
+const formatQuantity = (value: number, unit: string) =>
+  unit === 'meter' ? `${formatUnits(value, true)} m` : `${formatUnits(value)} ${unit}`
+
+export default function StockCountDetailPage() {
+  const { id } = useParams()
+  const navigate = useNavigate()
+  const [count, setCount] = useState<any>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  // Counted quantities as typed, keyed by product id; '' means not counted
+  const [entries, setEntries] = useState<Record<string, string>>({})
+  const [dirty, setDirty] = useState<Set<string>>(new Set())
+  const [filter, setFilter] = useState<CountFilter>('all')
+  const [scanValue, setScanValue] = useState('')
+  const [highlighted, setHighlighted] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isPosting, setIsPosting] = useState(false)
+  const [confirmPost, setConfirmPost] = useState(false)
+  const inputRefs = useRef<Record<string, HTMLInputElement | null>>({})
+
+  const isOpen = count?.status === 'IN_PROGRESS'
+
+  const loadCount = async () => {
+    if (!id) return
+    setIsLoading(true)
+    try {
+      const result = await window.api.stockCounts.getById(id)
+      if (result.success) {
+        setCount(result.data)
+        const initial: Record<string, string> = {}
+        result.data.items.forEach((item: any) => {
+          initial[item.product] =
+            item.countedQuantity === null || item.countedQuantity === undefined
+              ? ''
+              : String(item.countedQuantity)
+        })
+        setEntries(initial)
+        setDirty(new Set())
+      } else {
+        toast.error(result.error || 'Stock count not found')
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadCount()
+  }, [id])
+
+  const setEntry = (productId: string, value: string) => {
+    setEntries((prev) => ({ ...prev, [productId]: value }))
+    setDirty((prev) => new Set(prev).add(productId))
+  }
+
+  // Variance against the stock on hand: live while counting, as it stood once posted. The
+  // count is taken to be the shelf at posting, so sales made while counting are not double
+  // counted. Null while the line is uncounted.
+  const lines = useMemo(() => {
+    return (count?.items || []).map((item: any) => {
+      const raw = entries[item.product]
+      const counted = raw === '' || raw === undefined ? null : Number(raw)
+      const onHand = item.currentQuantity ?? item.postedQuantity ?? item.expectedQuantity
+      const variance = counted === null ? null : counted - onHand
+      return { ...item, counted, onHand, variance, varianceValue: (variance || 0) * item.unitCost }
+    })
+  }, [count, entries])
+
+  const summary = useMemo(() => {
+    return lines.reduce(
+      (acc, line) => {
+        if (line.counted !== null) acc.counted += 1
+        if (line.varianceValue < 0) acc.shortage += -line.varianceValue
+        if (line.varianceValue > 0) acc.excess += line.varianceValue
+        if (line.variance) acc.varianceLines += 1
+        return acc
+      },
+      { counted: 0, shortage: 0, excess: 0, varianceLines: 0 }
+    )
+  }, [lines])
+
+  const visibleLines = lines.filter((line) =>
+    filter === 'uncounted' ? line.counted === null : filter === 'variances' ? !!line.variance : true
+  )
+
+  // Scanner input: pieces are counted one per scan, fabric jumps to its meters field
+  const handleScan = (e: React.FormEvent) => {
+    e.preventDefault()
+    const code = scanValue.trim().toLowerCase()
+    if (!code) return
+    const match = lines.find(
+      (line) => line.barcode?.toLowerCase() === code || line.sku?.toLowerCase() === code
+    )
+    setScanValue('')
+    if (!match) {
+      toast.error(`No product in this count matches "${scanValue.trim()}"`)
+      return
+    }
+
+    setFilter('all')
+    setHighlighted(match.product)
+    if (match.unit === 'meter') {
+      setTimeout(() => inputRefs.current[match.product]?.focus(), 0)
+      return
+    }
+    setEntry(match.product, String((match.counted || 0) + 1))
+    toast.success(`${match.productName}: ${(match.counted || 0) + 1}`)
+  }
+
+  const saveCounts = async (): Promise<boolean> => {
+    if (!id || dirty.size === 0) return true
+    const counts = [...dirty].map((productId) => ({
+      product: productId,
+      countedQuantity: entries[productId] === '' ? null : Number(entries[productId])
+    }))
+    const result = await window.api.stockCounts.saveCounts({ id, counts })
+    if (!result.success) {
+      toast.error(result.error || 'Failed to save counts')
+      return false
+    }
+    setDirty(new Set())
+    return true
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      if (await saveCounts()) toast.success('Count progress saved')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handlePost = async () => {
+    if (!id) return
+    setIsPosting(true)
+    try {
+      if (!(await saveCounts())) return
+      const user = JSON.parse(localStorage.getItem('user') || '{}')
+      const result = await window.api.stockCounts.post({ id, postedBy: user._id || user.id })
+      if (result.success) {
+        toast.success(`Count posted: ${result.data.adjustedLines} products adjusted`)
+        loadCount()
+      } else {
+        toast.error(result.error || 'Failed to post count')
+      }
+    } finally {
+      setIsPosting(false)
+      setConfirmPost(false)
+    }
+  }
+
+  const handleCancelCount = async () => {
+    if (!id) return
+    const result = await window.api.stockCounts.cancel(id)
+    if (result.success) {
+      toast.success('Count cancelled')
+      loadCount()
+    } else {
+      toast.error(result.error || 'Failed to cancel count')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#4ade80]"></div>
+      </div>
+    )
+  }
+
+  if (!count) {
+    return (
+      <div className="text-center py-20">
+        <h2 className="text-2xl font-bold text-foreground mb-2">Stock count not found</h2>
+        <Button onClick={() => navigate('/dashboard/inventory/stock-counts')}>Go Back</Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center gap-3">
+          <Button
+            variant="outline"
+            className="h-11 w-11 rounded-xl border-border"
+            onClick={() => navigate('/dashboard/inventory/stock-counts')}
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <div className="flex items-center gap-2">
+              <h1 className="text-2xl font-black tracking-tight">{count.countNumber}</h1>
+              <Badge variant="outline">{count.status.replace('_', ' ')}</Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {count.scopeLabel} • started {format(new Date(count.createdAt), 'MMM dd, yyyy HH:mm')}
+              {count.createdBy?.fullName ? ` by ${count.createdBy.fullName}` : ''}
+              {count.postedAt
+                ? ` • posted ${format(new Date(count.postedAt), 'MMM dd, yyyy HH:mm')}`
+                : ''}
+            </p>
+          </div>
+        </div>
+        {isOpen && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" className="border-border" onClick={handleCancelCount}>
+              <Ban className="w-4 h-4 mr-2" />
+              Cancel Count
+            </Button>
+            <LoadingButton
+              variant="outline"
+              className="border-border"
+              isLoading={isSaving}
+              disabled={dirty.size === 0}
+              onClick={handleSave}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save Progress
+            </LoadingButton>
+            <Button
+              className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-semibold"
+              disabled={summary.counted === 0}
+              onClick={() => setConfirmPost(true)}
+            >
+              <CheckCircle2 className="w-4 h-4 mr-2" />
+              Post Differences
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div className="rounded-xl border-2 border-blue-500/30 bg-blue-500/5 p-5">
+          <div className="text-xs font-black uppercase text-blue-700 dark:text-blue-400 mb-2">
+            Counted
+          </div>
+          <div className="text-2xl font-black text-blue-600">
+            {summary.counted} / {lines.length}
+          </div>
+        </div>
+        <div className="rounded-xl border-2 border-amber-500/30 bg-amber-500/5 p-5">
+          <div className="text-xs font-black uppercase text-amber-700 dark:text-amber-400 mb-2">
+            Lines with Variance
+          </div>
+          <div className="text-2xl font-black text-amber-600">{summary.varianceLines}</div>
+        </div>
+        <div className="rounded-xl border-2 border-red-500/30 bg-red-500/5 p-5">
+          <div className="text-xs font-black uppercase text-red-700 dark:text-red-400 mb-2">
+            Shortage
+          </div>
+          <div className="text-2xl font-black text-red-600">{formatCurrency(summary.shortage)}</div>
+        </div>
+        <div className="rounded-xl border-2 border-[#4ade80]/50 bg-[#4ade80]/10 p-5">
+          <div className="text-xs font-black uppercase text-[#16a34a] dark:text-[#4ade80] mb-2">
+            Excess
+          </div>
+          <div className="text-2xl font-black text-[#16a34a]">{formatCurrency(summary.excess)}</div>
+        </div>
+      </div>
+
+      <Card className="border-border">
+        <CardHeader className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+          <CardTitle className="text-sm font-black uppercase tracking-widest text-muted-foreground">
+            Count Sheet
+          </CardTitle>
+          <div className="flex flex-wrap items-center gap-3">
+            {isOpen && (
+              <form onSubmit={handleScan} className="relative">
+                <ScanBarcode className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  autoFocus
+                  value={scanValue}
+                  onChange={(e) => setScanValue(e.target.value)}
+                  placeholder="Scan barcode or type SKU"
+                  className="pl-9 w-[240px]"
+                />
+              </form>
+            )}
+            <Tabs value={filter} onValueChange={(value) => setFilter(value as CountFilter)}>
+              <TabsList>
+                <TabsTrigger value="all">All</TabsTrigger>
+                <TabsTrigger value="uncounted">Uncounted</TabsTrigger>
+                <TabsTrigger value="variances">Variances</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-xl border border-border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">On Hand</TableHead>
+                  <TableHead className="text-right w-[140px]">Counted</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleLines.length ? (
+                  visibleLines.map((line) => (
+                    <TableRow
+                      key={line.product}
+                      className={highlighted === line.product ? 'bg-[#4ade80]/10' : ''}
+                    >
+                      <TableCell className="font-medium">{line.productName}</TableCell>
+                      <TableCell className="font-mono text-xs">{line.sku}</TableCell>
+                      <TableCell className="text-right">
+                        {formatQuantity(line.expectedQuantity, line.unit)}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right ${
+                          line.onHand !== line.expectedQuantity
+                            ? 'font-semibold text-amber-600'
+                            : ''
+                        }`}
+                        title={
+                          line.onHand !== line.expectedQuantity
+                            ? 'Stock has moved since the count started'
+                            : undefined
+                        }
+                      >
+                        {formatQuantity(line.onHand, line.unit)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {isOpen ? (
+                          <Input
+                            ref={(el) => {
+                              inputRefs.current[line.product] = el
+                            }}
+                            type="number"
+                            min="0"
+                            step={line.unit === 'meter' ? '0.01' : '1'}
+                            value={entries[line.product] ?? ''}
+                            onChange={(e) => setEntry(line.product, e.target.value)}
+                            placeholder="—"
+                            className="h-9 text-right"
+                          />
+                        ) : line.counted === null ? (
+                          <span className="text-muted-foreground">Not counted</span>
+                        ) : (
+                          formatQuantity(line.counted, line.unit)
+                        )}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-semibold ${
+                          !line.variance
+                            ? 'text-muted-foreground'
+                            : line.variance < 0
+                              ? 'text-red-600'
+                              : 'text-[#16a34a]'
+                        }`}
+                      >
+                        {line.variance === null
+                          ? '—'
+                          : `${line.variance > 0 ? '+' : ''}${formatQuantity(
+                              Math.round(line.variance * 1000) / 1000,
+                              line.unit
+                            )}`}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {line.variance ? formatCurrency(line.varianceValue) : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                      Nothing to show for this filter.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirmPost} onOpenChange={setConfirmPost}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Post stock count?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {summary.varianceLines} products will be adjusted: shortage{' '}
+              {formatCurrency(summary.shortage)}, excess {formatCurrency(summary.excess)}.
+              {lines.length - summary.counted > 0 &&
+                ` ${lines.length - summary.counted} uncounted products will be left unchanged.`}{' '}
+              The count is closed once posted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPosting}>Keep Counting</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isPosting}
+              onClick={(e) => {
+                e.preventDefault()
+                handlePost()
+              }}
+            >
+              {isPosting ? 'Posting...' : 'Post Differences'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,275 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { format } from 'date-fns'
+import { DataPage } from '@renderer/components/shared/data-page'
+import { Badge } from '@renderer/components/ui/badge'
+import { Button } from '@renderer/components/ui/button'
+import { LoadingButton } from '@renderer/components/ui/loading-button'
+import { Label } from '@renderer/components/ui/label'
+import { Textarea } from '@renderer/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@renderer/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@renderer/components/ui/select'
+import { Eye } from 'lucide-react'
+import { toast } from 'sonner'
+
+type ScopeType = 'ALL' | 'CATEGORY' | 'BRAND' | 'LOCATION'
+
+const COUNT_STATUS_STYLES: Record<string, string> = {
+  IN_PROGRESS: 'bg-amber-500/10 text-amber-600 border-amber-500/20',
+  POSTED: 'bg-green-500/10 text-green-600 border-green-500/20',
+  CANCELLED: 'bg-muted text-muted-foreground border-border'
+}
+
+export default function StockCountsPage() {
+  const navigate = useNavigate()
+  const [currentStore, setCurrentStore] = useState<any>(null)
+  const [counts, setCounts] = useState<any[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [scopeType, setScopeType] = useState<ScopeType>('ALL')
+  const [scopeValue, setScopeValue] = useState('')
+  const [notes, setNotes] = useState('')
+  const [categories, setCategories] = useState<any[]>([])
+  const [brands, setBrands] = useState<any[]>([])
+  const [locations, setLocations] = useState<string[]>([])
+
+  useEffect(() => {
+    const storeData = localStorage.getItem('selectedStore')
+    if (storeData) setCurrentStore(JSON.parse(storeData))
+  }, [])
+
+  const loadCounts = async () => {
+    if (!currentStore?._id) return
+    setIsLoading(true)
+    try {
+      const result = await window.api.stockCounts.getAll({ storeId: currentStore._id })
+      if (result.success) setCounts(result.data)
+      else toast.error(result.error || 'Failed to load stock counts')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadCounts()
+  }, [currentStore?._id])
+
+  const openNewCount = async () => {
+    setScopeType('ALL')
+    setScopeValue('')
+    setNotes('')
+    setIsFormOpen(true)
+
+    const [categoryResult, brandResult, locationResult] = await Promise.all([
+      window.api.categories.getAll({ storeId: currentStore._id }),
+      window.api.brands.getAll({ storeId: currentStore._id }),
+      window.api.stockCounts.getLocations({ storeId: currentStore._id })
+    ])
+    if (categoryResult.success) setCategories(categoryResult.data)
+    if (brandResult.success) setBrands(brandResult.data)
+    if (locationResult.success) setLocations(locationResult.data)
+  }
+
+  const handleCreate = async () => {
+    if (scopeType !== 'ALL' && !scopeValue) {
+      toast.error('Choose what to count')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const user = JSON.parse(localStorage.getItem('user') || '{}')
+      const result = await window.api.stockCounts.create({
+        storeId: currentStore._id,
+        scopeType,
+        scopeValue: scopeType === 'ALL' ? undefined : scopeValue,
+        notes: notes.trim() || undefined,
+        createdBy: user._id || user.id
+      })
+      if (result.success) {
+        toast.success(`Count started with ${result.data.items.length} products`)
+        setIsFormOpen(false)
+        navigate(`/dashboard/inventory/stock-counts/${result.data._id}`)
+      } else {
+        toast.error(result.error || 'Failed to start count')
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const scopeOptions: { value: string; label: string }[] =
+    scopeType === 'CATEGORY'
+      ? categories.map((c) => ({ value: c._id, label: c.name }))
+      : scopeType === 'BRAND'
+        ? brands.map((b) => ({ value: b._id, label: b.name }))
+        : locations.map((l) => ({ value: l, label: l }))
+
+  const columns = [
+    {
+      header: 'Count #',
+      accessor: 'countNumber',
+      render: (item: any) => <span className="font-mono text-xs">{item.countNumber}</span>
+    },
+    { header: 'Scope', accessor: 'scopeLabel' },
+    {
+      header: 'Progress',
+      accessor: 'items',
+      render: (item: any) => {
+        const counted = item.items.filter((line: any) => line.countedQuantity !== null).length
+        return (
+          <span className="text-sm">
+            {counted} / {item.items.length}
+          </span>
+        )
+      }
+    },
+    {
+      header: 'Status',
+      accessor: 'status',
+      render: (item: any) => (
+        <Badge variant="outline" className={COUNT_STATUS_STYLES[item.status]}>
+          {item.status.replace('_', ' ')}
+        </Badge>
+      )
+    },
+    {
+      header: 'Started',
+      accessor: 'createdAt',
+      render: (item: any) => (
+        <div className="text-xs">
+          <div>{format(new Date(item.createdAt), 'MMM dd, yyyy HH:mm')}</div>
+          <div className="text-muted-foreground">{item.createdBy?.fullName}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Actions',
+      accessor: '_id',
+      render: (item: any) => (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => navigate(`/dashboard/inventory/stock-counts/${item._id}`)}
+        >
+          <Eye className="w-4 h-4 mr-2" />
+          {item.status === 'IN_PROGRESS' ? 'Continue' : 'View'}
+        </Button>
+      )
+    }
+  ]
+
+  return (
+    <>
+      <DataPage
+        title="Stock Counts"
+        description="Count physical stock and post the differences as adjustments."
+        data={counts}
+        columns={columns}
+        searchPlaceholder="Search counts..."
+        fileName="stock_counts_export"
+        addLabel="New Count"
+        onAdd={openNewCount}
+        isLoading={isLoading}
+      />
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="bg-background border-border text-foreground sm:max-w-[460px]">
+          <DialogHeader>
+            <DialogTitle>New Stock Count</DialogTitle>
+            <DialogDescription>
+              Expected quantities are frozen when the count starts. Sales made during the count are
+              not treated as variances.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label className="text-xs uppercase font-bold text-muted-foreground">Count</Label>
+              <Select
+                value={scopeType}
+                onValueChange={(value) => {
+                  setScopeType(value as ScopeType)
+                  setScopeValue('')
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">All products</SelectItem>
+                  <SelectItem value="CATEGORY">By category</SelectItem>
+                  <SelectItem value="BRAND">By brand</SelectItem>
+                  <SelectItem value="LOCATION">By location</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {scopeType !== 'ALL' && (
+              <div className="space-y-2">
+                <Label className="text-xs uppercase font-bold text-muted-foreground">
+                  {scopeType === 'CATEGORY'
+                    ? 'Category'
+                    : scopeType === 'BRAND'
+                      ? 'Brand'
+                      : 'Location'}
+                </Label>
+                <Select value={scopeValue} onValueChange={setScopeValue}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {scopeOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {scopeType === 'LOCATION' && locations.length === 0 && (
+                  <p className="text-[11px] text-muted-foreground">
+                    No locations yet. Set a storage location on products to count by location.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label className="text-xs uppercase font-bold text-muted-foreground">Notes</Label>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="e.g. Month-end count, fabric godown"
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <LoadingButton isLoading={isSubmitting} onClick={handleCreate}>
+              Start Count
+            </LoadingButton>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
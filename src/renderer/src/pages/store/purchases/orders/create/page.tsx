@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Search, X, PlusCircle, ArrowLeft, UserPlus } from 'lucide-react'
 import { LoadingButton } from '@renderer/components/ui/loading-button'
 import { Button } from '@renderer/components/ui/button'
@@ -35,7 +35,10 @@ import {
 const purchaseItemSchema = z.object({
   product: z.string().min(1, 'Product is required'),
   productName: z.string().optional(),
-  quantity: z.preprocess((val) => Number(val), z.number().min(1, 'Quantity must be at least 1')),
+  quantity: z.preprocess(
+    (val) => Number(val),
+    z.number().positive('Quantity must be greater than 0')
+  ),
   unitCost: z.preprocess((val) => Number(val), z.number().min(0, 'Unit cost cannot be negative')),
   sellingPrice: z.preprocess(
     (val) => (val === '' || val === null ? undefined : Number(val)),
@@ -91,6 +94,8 @@ export default function CreatePurchaseOrderPage() {
   const [products, setProducts] = useState<any[]>([])
   const [_isLoading, setIsLoading] = useState(true)
   const [isSubmitting, setIsSubmitting] = useState(false)
+  // Which button submitted the form: a draft, or an order confirmed with the supplier
+  const submitStatus = useRef<'DRAFT' | 'CONFIRMED'>('DRAFT')
   const [currentStore, setCurrentStore] = useState<any>(null)
   const [currentUser, setCurrentUser] = useState<any>(null)
 
@@ -177,7 +182,7 @@ export default function CreatePurchaseOrderPage() {
         subtotal,
         totalAmount: total,
         purchaseDate: new Date(),
-        status: 'DRAFT',
+        status: submitStatus.current,
         createdBy: currentUser?.id || currentUser?._id,
         items: values.items.map((item) => ({
           ...item,
@@ -186,7 +191,11 @@ export default function CreatePurchaseOrderPage() {
       })
 
       if (result.success) {
-        toast.success('Purchase order created')
+        toast.success(
+          submitStatus.current === 'CONFIRMED'
+            ? 'Purchase order confirmed'
+            : 'Purchase order saved as draft'
+        )
         navigate('/dashboard/purchases/orders')
       } else {
         toast.error(result.error)
@@ -479,6 +488,7 @@ export default function CreatePurchaseOrderPage() {
                                   <FormControl>
                                     <Input
                                       type="number"
+                                      step="any"
                                       {...field}
                                       className="h-8 bg-transparent border-none text-center focus:bg-muted font-medium"
                                     />
@@ -648,11 +658,24 @@ export default function CreatePurchaseOrderPage() {
                 </Button>
                 <LoadingButton
                   type="submit"
-                  isLoading={isSubmitting}
-                  loadingText="Creating PO..."
+                  variant="outline"
+                  isLoading={isSubmitting && submitStatus.current === 'DRAFT'}
+                  disabled={isSubmitting}
+                  loadingText="Saving..."
+                  onClick={() => (submitStatus.current = 'DRAFT')}
+                  className="border-border font-bold"
+                >
+                  Save as Draft
+                </LoadingButton>
+                <LoadingButton
+                  type="submit"
+                  isLoading={isSubmitting && submitStatus.current === 'CONFIRMED'}
+                  disabled={isSubmitting}
+                  loadingText="Confirming..."
+                  onClick={() => (submitStatus.current = 'CONFIRMED')}
                   className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-black px-8"
                 >
-                  Create Purchase Order
+                  Confirm Order
                 </LoadingButton>
               </div>
             </form>
@@ -21,11 +21,13 @@ import {
   FileText,
   CheckCircle2,
   XCircle,
-  Edit
+  Edit,
+  PackageCheck
 } from 'lucide-react'
 import { useNavigate, useParams } from 'react-router-dom'
 import { format } from 'date-fns'
 import { Separator } from '@renderer/components/ui/separator'
+import { Textarea } from '@renderer/components/ui/textarea'
 import { toast } from 'sonner'
 
 export default function PurchaseOrderDetails() {
@@ -33,9 +35,10 @@ export default function PurchaseOrderDetails() {
   const navigate = useNavigate()
   const [order, setOrder] = useState<any>(null)
   const [isLoading, setIsLoading] = useState(true)
-  const [isReceiving, setIsReceiving] = useState(false)
-  const [isUnreceiving, setIsUnreceiving] = useState(false)
-  const [isConfirmOpen, setIsConfirmOpen] = useState(false)
+  const [isConfirming, setIsConfirming] = useState(false)
+  const [isCancelling, setIsCancelling] = useState(false)
+  const [isCancelOpen, setIsCancelOpen] = useState(false)
+  const [cancelReason, setCancelReason] = useState('')
 
   const loadOrder = async () => {
     if (!id) return
@@ -58,16 +61,13 @@ export default function PurchaseOrderDetails() {
     loadOrder()
   }, [id])
 
-  const handleReceive = async () => {
+  const handleConfirm = async () => {
     if (!order) return
-    setIsReceiving(true)
+    setIsConfirming(true)
     try {
-      const result = await window.api.purchaseOrders.update(order._id, {
-        status: 'RECEIVED',
-        receivedAt: new Date()
-      })
+      const result = await window.api.purchaseOrders.confirm(order._id)
       if (result.success) {
-        toast.success('Purchase order marked as received')
+        toast.success('Purchase order confirmed')
         loadOrder()
       } else {
         toast.error('Error: ' + result.error)
@@ -75,20 +75,22 @@ export default function PurchaseOrderDetails() {
     } catch (error: any) {
       toast.error('Error: ' + error.message)
     } finally {
-      setIsReceiving(false)
+      setIsConfirming(false)
     }
   }
 
-  const handleUnreceive = async () => {
+  const handleCancel = async () => {
     if (!order) return
-    setIsUnreceiving(true)
+    setIsCancelling(true)
     try {
-      const result = await window.api.purchaseOrders.update(order._id, {
-        status: 'ORDERED',
-        receivedAt: null
+      const user = JSON.parse(localStorage.getItem('user') || '{}')
+      const result = await window.api.purchaseOrders.cancel({
+        id: order._id,
+        reason: cancelReason.trim() || undefined,
+        cancelledBy: user._id || user.id
       })
       if (result.success) {
-        toast.success('Purchase order status reverted to Ordered')
+        toast.success('Purchase order cancelled')
         loadOrder()
       } else {
         toast.error('Error: ' + result.error)
@@ -96,8 +98,8 @@ export default function PurchaseOrderDetails() {
     } catch (error: any) {
       toast.error('Error: ' + error.message)
     } finally {
-      setIsUnreceiving(false)
-      setIsConfirmOpen(false)
+      setIsCancelling(false)
+      setIsCancelOpen(false)
     }
   }
 
@@ -124,19 +126,47 @@ export default function PurchaseOrderDetails() {
     )
   }
 
+  const getPaymentStatusColor = (status: string) => {
+    switch (status) {
+      case 'PAID':
+        return 'bg-green-500/10 text-green-500 border-green-500/20'
+      case 'PARTIAL':
+        return 'bg-orange-500/10 text-orange-500 border-orange-500/20'
+      default:
+        return 'bg-red-500/10 text-red-500 border-red-500/20'
+    }
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'RECEIVED':
         return 'bg-green-500/10 text-green-500 border-green-500/20'
-      case 'ORDERED':
+      case 'CONFIRMED':
         return 'bg-blue-500/10 text-blue-500 border-blue-500/20'
       case 'PARTIAL':
         return 'bg-orange-500/10 text-orange-500 border-orange-500/20'
+      case 'CANCELLED':
+        return 'bg-red-500/10 text-red-500 border-red-500/20'
       default:
         return 'bg-muted text-muted-foreground border-border'
     }
   }
 
+  const isEditable = order.status === 'DRAFT' || order.status === 'CONFIRMED'
+  // Only what has been received, less goods sent back, is owed to the supplier
+  const receivedValue = (order.receipts || []).reduce(
+    (sum: number, receipt: any) => sum + (receipt.value || 0),
+    0
+  )
+  const payableAmount = receivedValue - (order.returnedAmount || 0)
+  const canReceive = order.status === 'CONFIRMED' || order.status === 'PARTIAL'
+  const productName = (productId: string) => {
+    const item = order.items.find(
+      (line: any) => String(line.product?._id || line.product) === String(productId)
+    )
+    return item?.product?.name || item?.productName || 'Unknown Product'
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -169,32 +199,46 @@ export default function PurchaseOrderDetails() {
             <Printer className="w-4 h-4 mr-2" />
             Print PO
           </Button>
-          <Button
-            variant="outline"
-            onClick={() => navigate(`/dashboard/purchases/orders/${order._id}/edit`)}
-            className="border-border hover:bg-accent"
-          >
-            <Edit className="w-4 h-4 mr-2" />
-            Edit Order
-          </Button>
-          {order.status !== 'RECEIVED' && (
+          {isEditable && (
             <Button
-              onClick={handleReceive}
-              disabled={isReceiving}
-              className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-semibold"
+              variant="outline"
+              onClick={() => navigate(`/dashboard/purchases/orders/${order._id}/edit`)}
+              className="border-border hover:bg-accent"
             >
-              <CheckCircle2 className="w-4 h-4 mr-2" />
-              {isReceiving ? 'Marking...' : 'Mark as Received'}
+              <Edit className="w-4 h-4 mr-2" />
+              Edit Order
             </Button>
           )}
-          {order.status === 'RECEIVED' && (
+          {order.status !== 'CANCELLED' && (
             <Button
               variant="outline"
-              onClick={() => setIsConfirmOpen(true)}
+              onClick={() => {
+                setCancelReason('')
+                setIsCancelOpen(true)
+              }}
               className="border-red-500/50 text-red-500 hover:bg-red-500/10"
             >
               <XCircle className="w-4 h-4 mr-2" />
-              Unreceive PO
+              Cancel Order
+            </Button>
+          )}
+          {order.status === 'DRAFT' && (
+            <Button
+              onClick={handleConfirm}
+              disabled={isConfirming}
+              className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-semibold"
+            >
+              <CheckCircle2 className="w-4 h-4 mr-2" />
+              {isConfirming ? 'Confirming...' : 'Confirm Order'}
+            </Button>
+          )}
+          {canReceive && (
+            <Button
+              onClick={() => navigate(`/dashboard/purchases/orders/${order._id}/receive`)}
+              className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-semibold"
+            >
+              <PackageCheck className="w-4 h-4 mr-2" />
+              Receive Goods
             </Button>
           )}
         </div>
@@ -215,6 +259,7 @@ export default function PurchaseOrderDetails() {
                   <tr>
                     <th className="px-4 py-3 font-medium">Product</th>
                     <th className="px-4 py-3 font-medium text-right">Qty</th>
+                    <th className="px-4 py-3 font-medium text-right">Received</th>
                     <th className="px-4 py-3 font-medium text-right">Cost</th>
                     <th className="px-4 py-3 font-medium text-right">Retail</th>
                     <th className="px-4 py-3 font-medium text-right">Subtotal</th>
@@ -234,6 +279,22 @@ export default function PurchaseOrderDetails() {
                       <td className="px-4 py-4 text-right font-mono">
                         {item.quantity} {item.product?.unit || 'pcs'}
                       </td>
+                      <td
+                        className={`px-4 py-4 text-right font-mono ${
+                          (item.receivedQuantity || 0) >= item.quantity
+                            ? 'text-green-500'
+                            : (item.receivedQuantity || 0) > 0
+                              ? 'text-orange-500'
+                              : 'text-muted-foreground'
+                        }`}
+                      >
+                        {item.receivedQuantity || 0}
+                        {(item.returnedQuantity || 0) > 0 && (
+                          <div className="text-[10px] text-red-400">
+                            {item.returnedQuantity} returned
+                          </div>
+                        )}
+                      </td>
                       <td className="px-4 py-4 text-right">
                         Rs. {(item.unitCost || 0).toLocaleString()}
                       </td>
@@ -268,6 +329,20 @@ export default function PurchaseOrderDetails() {
                 <Label className="text-muted-foreground text-xs uppercase">Contact Person</Label>
                 <div className="text-foreground">{order.supplier?.contactPerson || 'N/A'}</div>
               </div>
+              {order.status === 'CANCELLED' && order.cancelledAt && (
+                <div>
+                  <Label className="text-red-500 text-xs uppercase font-bold flex items-center gap-1">
+                    <XCircle className="w-3 h-3" />
+                    Cancelled At
+                  </Label>
+                  <div className="text-red-500 font-medium">
+                    {format(new Date(order.cancelledAt), 'PPP p')}
+                  </div>
+                  {order.cancelReason && (
+                    <div className="text-xs text-muted-foreground mt-1">{order.cancelReason}</div>
+                  )}
+                </div>
+              )}
               {order.receivedAt && (
                 <div>
                   <Label className="text-green-500 text-xs uppercase font-bold flex items-center gap-1">
@@ -312,14 +387,32 @@ export default function PurchaseOrderDetails() {
                 </span>
               </div>
               <Separator className="bg-border" />
-              <div className="pt-2">
+              <div className="pt-2 space-y-1">
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-muted-foreground">Payment</span>
+                  <Badge className={`${getPaymentStatusColor(order.paymentStatus)} border`}>
+                    {order.paymentStatus || 'UNPAID'}
+                  </Badge>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Received Value</span>
+                  <span>Rs. {receivedValue.toLocaleString()}</span>
+                </div>
+                {(order.returnedAmount || 0) > 0 && (
+                  <div className="flex justify-between text-sm text-red-400">
+                    <span>Returned (Debit Notes)</span>
+                    <span>- Rs. {order.returnedAmount.toLocaleString()}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm font-bold text-green-500">
                   <span>Paid Amount</span>
                   <span>Rs. {(order.paidAmount || 0).toLocaleString()}</span>
                 </div>
-                <div className="flex justify-between text-sm font-bold text-orange-400 mt-1">
-                  <span>Due Balance</span>
-                  <span>Rs. {(order.totalAmount - (order.paidAmount || 0)).toLocaleString()}</span>
+                <div className="flex justify-between text-sm font-bold text-orange-400">
+                  <span>Due Now</span>
+                  <span>
+                    Rs. {Math.max(0, payableAmount - (order.paidAmount || 0)).toLocaleString()}
+                  </span>
                 </div>
               </div>
             </CardContent>
@@ -327,23 +420,122 @@ export default function PurchaseOrderDetails() {
         </div>
       </div>
 
-      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+      {(order.receipts || []).length > 0 && (
+        <Card className="bg-card border-border text-foreground">
+          <CardHeader className="border-b border-border py-4">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <PackageCheck className="w-5 h-5 text-[#4ade80]" />
+              Goods Received Notes
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs uppercase bg-muted/50 text-muted-foreground border-b border-border">
+                <tr>
+                  <th className="px-4 py-3 font-medium">GRN #</th>
+                  <th className="px-4 py-3 font-medium">Received</th>
+                  <th className="px-4 py-3 font-medium">Items</th>
+                  <th className="px-4 py-3 font-medium">By</th>
+                  <th className="px-4 py-3 font-medium text-right">Value</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {order.receipts.map((receipt: any, index: number) => (
+                  <tr key={index} className="hover:bg-accent/30 align-top">
+                    <td className="px-4 py-3 font-mono text-xs">{receipt.grnNumber}</td>
+                    <td className="px-4 py-3 text-muted-foreground">
+                      {format(new Date(receipt.receivedDate), 'PPP')}
+                    </td>
+                    <td className="px-4 py-3">
+                      {receipt.items.map((line: any, lineIndex: number) => (
+                        <div key={lineIndex}>
+                          {productName(line.product)} × {line.quantity}
+                        </div>
+                      ))}
+                      {receipt.notes && (
+                        <div className="text-xs text-muted-foreground mt-1">{receipt.notes}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-xs">{receipt.receivedBy?.fullName || '-'}</td>
+                    <td className="px-4 py-3 text-right font-bold">
+                      Rs. {(receipt.value || 0).toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      {(order.payments || []).length > 0 && (
+        <Card className="bg-card border-border text-foreground">
+          <CardHeader className="border-b border-border py-4">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <CreditCard className="w-5 h-5 text-[#4ade80]" />
+              Payment History
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs uppercase bg-muted/50 text-muted-foreground border-b border-border">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Date</th>
+                  <th className="px-4 py-3 font-medium">Reference</th>
+                  <th className="px-4 py-3 font-medium">Method</th>
+                  <th className="px-4 py-3 font-medium">By</th>
+                  <th className="px-4 py-3 font-medium text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {order.payments.map((payment: any, index: number) => (
+                  <tr key={index} className="hover:bg-accent/30">
+                    <td className="px-4 py-3 text-muted-foreground">
+                      {format(new Date(payment.paymentDate), 'PPP')}
+                    </td>
+                    <td className="px-4 py-3 font-mono text-xs">
+                      {payment.expense?.expenseNumber || '-'}
+                    </td>
+                    <td className="px-4 py-3">{payment.method || '-'}</td>
+                    <td className="px-4 py-3 text-xs">{payment.recordedBy?.fullName || '-'}</td>
+                    <td className="px-4 py-3 text-right font-bold text-green-500">
+                      Rs. {(payment.amount || 0).toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={isCancelOpen} onOpenChange={setIsCancelOpen}>
         <AlertDialogContent className="bg-background border-border text-foreground">
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogTitle>Cancel {order.poNumber}?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will revert the status to "Ordered" and remove it from inventory. Stock levels
-              added by this order will be deducted.
+              {order.items.some((item: any) => (item.receivedQuantity || 0) > 0)
+                ? 'Goods already received will be taken back out of stock and their accounting entries reversed. This is refused if some of that stock has been sold.'
+                : 'Nothing has been received yet, so stock and accounts are not affected.'}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <Textarea
+            value={cancelReason}
+            onChange={(e) => setCancelReason(e.target.value)}
+            placeholder="Reason (optional)"
+            rows={2}
+          />
           <AlertDialogFooter>
-            <AlertDialogCancel className="border-border">Cancel</AlertDialogCancel>
+            <AlertDialogCancel className="border-border">Keep Order</AlertDialogCancel>
             <AlertDialogAction
-              onClick={handleUnreceive}
-              disabled={isUnreceiving}
+              onClick={(e) => {
+                e.preventDefault()
+                handleCancel()
+              }}
+              disabled={isCancelling}
               className="bg-red-500 hover:bg-red-600 text-white"
             >
-              {isUnreceiving ? 'Reverting...' : 'Yes, Revert'}
+              {isCancelling ? 'Cancelling...' : 'Cancel Order'}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -38,7 +38,10 @@ import { Separator } from '@renderer/components/ui/separator'
 const purchaseItemSchema = z.object({
   product: z.string().min(1, 'Product is required'),
   productName: z.string().optional(),
-  quantity: z.preprocess((val) => Number(val), z.number().min(1, 'Quantity must be at least 1')),
+  quantity: z.preprocess(
+    (val) => Number(val),
+    z.number().positive('Quantity must be greater than 0')
+  ),
   unitCost: z.preprocess((val) => Number(val), z.number().min(0, 'Unit cost cannot be negative')),
   sellingPrice: z.preprocess(
     (val) => (val === '' || val === null ? undefined : Number(val)),
@@ -169,6 +172,11 @@ export default function EditPurchaseOrderPage() {
 
       if (orderRes.success) {
         const data = orderRes.data
+        if (data.status !== 'DRAFT' && data.status !== 'CONFIRMED') {
+          toast.error(`A ${data.status.toLowerCase()} purchase order can no longer be edited`)
+          navigate(`/dashboard/purchases/orders/${id}`, { replace: true })
+          return
+        }
         setOrder(data)
         form.reset({
           supplier: data.supplier?._id || data.supplier,
@@ -463,6 +471,7 @@ export default function EditPurchaseOrderPage() {
                                 <FormControl>
                                   <input
                                     type="number"
+                                    step="any"
                                     className="w-full bg-transparent border-none text-center focus:ring-2 focus:ring-[#4ade80] rounded outline-none h-9 font-bold text-foreground"
                                     {...inputField}
                                     onFocus={(e) => e.target.select()}
@@ -43,7 +43,6 @@ export default function PurchaseOrdersPage() {
   const [totalRecords, setTotalRecords] = useState(0);
   const [totalPages, setTotalPages] = useState(0);
   const [_isDeleting, setIsDeleting] = useState(false);
-  const [_isReceiving, setIsReceiving] = useState(false);
 
   const [currentStore, setCurrentStore] = useState<any>(null);
 
@@ -80,34 +79,9 @@ export default function PurchaseOrdersPage() {
     loadOrders();
   }, [currentStore?._id, page, pageSize, searchTerm]);
 
-  const handleReceive = async (poId: string) => {
-    const confirmReceive = window.confirm("Are you sure you want to mark this order as received? This will update stock levels.");
-    if (!confirmReceive) return;
-
-    setIsReceiving(true);
-    try {
-      toast.loading("Updating inventory...");
-      // In Electron version, we might need a specific handleReceive IPC if it involves complex logic
-      // For now, let's assume update status to RECEIVED
-      const result = await window.api.purchaseOrders.update(poId, { status: "RECEIVED" });
-      toast.dismiss();
-      if (result.success) {
-        toast.success("Order received and stock updated!");
-        loadOrders();
-      } else {
-        toast.error(result.error);
-      }
-    } catch (error: any) {
-      toast.dismiss();
-      toast.error("Error: " + error.message);
-    } finally {
-      setIsReceiving(false);
-    }
-  };
-
   const handleDelete = async (order: any) => {
     const confirmDelete = window.confirm(
-      `Are you sure you want to delete ${order.poNumber}? If received, this will reverse the stock and accounting data.`
+      `Are you sure you want to delete ${order.poNumber}?`
     );
     if (!confirmDelete) return;
 
@@ -166,7 +140,7 @@ export default function PurchaseOrdersPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {orders.filter((o: any) => o.status !== "RECEIVED").length}
+              {orders.filter((o: any) => ["DRAFT", "CONFIRMED", "PARTIAL"].includes(o.status)).length}
             </div>
           </CardContent>
         </Card>
@@ -278,7 +252,20 @@ export default function PurchaseOrdersPage() {
                       {order.purchaseDate ? format(new Date(order.purchaseDate), "MMM dd, yyyy") : "N/A"}
                     </TableCell>
                     <TableCell className="text-sm font-bold text-[#4ade80]">
-                      Rs. {(order.totalAmount || 0).toLocaleString()}
+                      <div className="flex flex-col">
+                        <span>Rs. {(order.totalAmount || 0).toLocaleString()}</span>
+                        <span
+                          className={`text-[10px] font-semibold ${order.paymentStatus === "PAID"
+                            ? "text-[#4ade80]"
+                            : order.paymentStatus === "PARTIAL"
+                              ? "text-orange-400"
+                              : "text-muted-foreground"
+                            }`}
+                        >
+                          {order.paymentStatus || "UNPAID"}
+                          {order.paidAmount > 0 && ` · Rs. ${order.paidAmount.toLocaleString()} paid`}
+                        </span>
+                      </div>
                     </TableCell>
                     <TableCell>
                       <Badge
@@ -286,7 +273,11 @@ export default function PurchaseOrdersPage() {
                           ? "bg-[#4ade80]/10 text-[#4ade80] border-[#4ade80]/20"
                           : order.status === "CONFIRMED"
                             ? "bg-blue-400/10 text-blue-400 border-blue-400/20"
-                            : "bg-gray-500/10 text-gray-400 border-gray-500/20"
+                            : order.status === "PARTIAL"
+                              ? "bg-orange-400/10 text-orange-400 border-orange-400/20"
+                              : order.status === "CANCELLED"
+                                ? "bg-red-500/10 text-red-400 border-red-500/20"
+                                : "bg-gray-500/10 text-gray-400 border-gray-500/20"
                           } border`}
                       >
                         {order.status}
@@ -316,22 +307,26 @@ export default function PurchaseOrdersPage() {
                             <Eye className="w-4 h-4 mr-2" />
                             View Details
                           </DropdownMenuItem>
-                          {order.status !== "RECEIVED" && (
+                          {(order.status === "CONFIRMED" || order.status === "PARTIAL") && (
                             <DropdownMenuItem
-                              onClick={() => handleReceive(order._id)}
+                              onClick={() =>
+                                navigate(`/dashboard/purchases/orders/${order._id}/receive`)
+                              }
                               className="focus:bg-[#4ade80] focus:text-black cursor-pointer"
                             >
                               <Truck className="w-4 h-4 mr-2" />
-                              Mark as Received
+                              Receive Goods
+                            </DropdownMenuItem>
+                          )}
+                          {!(order.items || []).some((item: any) => (item.receivedQuantity || 0) > 0) && (
+                            <DropdownMenuItem
+                              onClick={() => handleDelete(order)}
+                              className="focus:bg-red-500 focus:text-white cursor-pointer text-red-400"
+                            >
+                              <Trash2 className="w-4 h-4 mr-2" />
+                              Delete
                             </DropdownMenuItem>
                           )}
-                          <DropdownMenuItem
-                            onClick={() => handleDelete(order)}
-                            className="focus:bg-red-500 focus:text-white cursor-pointer text-red-400"
-                          >
-                            <Trash2 className="w-4 h-4 mr-2" />
-                            Delete
-                          </DropdownMenuItem>
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </TableCell>
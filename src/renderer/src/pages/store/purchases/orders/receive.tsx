@@ -0,0 +1,256 @@
+import { useEffect, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { format } from 'date-fns'
+import { ChevronLeft, PackageCheck } from 'lucide-react'
+import { Button } from '@renderer/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@renderer/components/ui/card'
+import { Input } from '@renderer/components/ui/input'
+import { Label } from '@renderer/components/ui/label'
+import { LoadingButton } from '@renderer/components/ui/loading-button'
+import { Textarea } from '@renderer/components/ui/textarea'
+import { toast } from 'sonner'
+import { roundQuantity } from '@renderer/lib/quantities'
+
+export default function ReceivePurchaseOrderPage() {
+  const { id } = useParams()
+  const navigate = useNavigate()
+  const [order, setOrder] = useState<any>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [grnNumber, setGrnNumber] = useState('')
+  const [receivedDate, setReceivedDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [notes, setNotes] = useState('')
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    const loadOrder = async () => {
+      setIsLoading(true)
+      try {
+        const result = await window.api.purchaseOrders.getById(id!)
+        if (!result.success) {
+          toast.error('Error loading order: ' + result.error)
+          return
+        }
+        const data = result.data
+        if (data.status !== 'CONFIRMED' && data.status !== 'PARTIAL') {
+          toast.error(`A ${data.status.toLowerCase()} purchase order cannot receive goods`)
+          navigate(`/dashboard/purchases/orders/${id}`, { replace: true })
+          return
+        }
+        setOrder(data)
+        setQuantities(
+          Object.fromEntries(
+            data.items.map((item: any) => [
+              String(item.product?._id || item.product),
+              String(roundQuantity(Math.max(0, item.quantity - (item.receivedQuantity || 0))))
+            ])
+          )
+        )
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    loadOrder()
+  }, [id])
+
+  const lines = (order?.items || []).map((item: any) => {
+    const productId = String(item.product?._id || item.product)
+    const outstanding = roundQuantity(Math.max(0, item.quantity - (item.receivedQuantity || 0)))
+    const receiving = Number(quantities[productId]) || 0
+    return { item, productId, outstanding, receiving }
+  })
+  const receivingValue = lines.reduce(
+    (sum: number, line: any) => sum + line.receiving * line.item.unitCost,
+    0
+  )
+  const hasInvalidLine = lines.some(
+    (line: any) => line.receiving < 0 || line.receiving > line.outstanding
+  )
+
+  const handleSubmit = async () => {
+    const items = lines
+      .filter((line: any) => line.receiving > 0)
+      .map((line: any) => ({ product: line.productId, quantity: line.receiving }))
+    if (items.length === 0) {
+      toast.error('Enter the quantity received for at least one item')
+      return
+    }
+    if (hasInvalidLine) {
+      toast.error('Received quantities cannot exceed what is outstanding')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const user = JSON.parse(localStorage.getItem('user') || '{}')
+      const result = await window.api.purchaseOrders.receive({
+        id: order._id,
+        grnNumber: grnNumber.trim() || undefined,
+        receivedDate: new Date(receivedDate).toISOString(),
+        items,
+        notes: notes.trim() || undefined,
+        receivedBy: user._id || user.id
+      })
+      if (result.success) {
+        toast.success(
+          result.data.status === 'RECEIVED'
+            ? 'Goods received. The order is now complete.'
+            : 'Partial delivery received'
+        )
+        navigate(`/dashboard/purchases/orders/${order._id}`)
+      } else {
+        toast.error('Error: ' + result.error)
+      }
+    } catch (error: any) {
+      toast.error('Error: ' + error.message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#4ade80]"></div>
+      </div>
+    )
+  }
+
+  if (!order) return null
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate(`/dashboard/purchases/orders/${order._id}`)}
+          className="hover:bg-accent"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Receive Goods</h1>
+          <p className="text-sm text-muted-foreground">
+            {order.poNumber} &middot; {order.supplier?.name}
+          </p>
+        </div>
+      </div>
+
+      <Card className="bg-card border-border text-foreground">
+        <CardHeader className="border-b border-border py-4">
+          <CardTitle className="text-lg">Goods Received Note</CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6 grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label className="text-xs uppercase font-bold text-muted-foreground">GRN Number</Label>
+            <Input
+              value={grnNumber}
+              onChange={(e) => setGrnNumber(e.target.value)}
+              placeholder="Auto-generated if left blank"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs uppercase font-bold text-muted-foreground">
+              Received Date
+            </Label>
+            <Input
+              type="date"
+              value={receivedDate}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setReceivedDate(e.target.value)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border text-foreground">
+        <CardHeader className="border-b border-border py-4">
+          <CardTitle className="text-lg">Items</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs uppercase bg-muted/50 text-muted-foreground border-b border-border">
+              <tr>
+                <th className="px-4 py-3 font-medium">Product</th>
+                <th className="px-4 py-3 font-medium text-right">Ordered</th>
+                <th className="px-4 py-3 font-medium text-right">Received</th>
+                <th className="px-4 py-3 font-medium text-right">Outstanding</th>
+                <th className="px-4 py-3 font-medium text-right w-[160px]">Receiving Now</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {lines.map((line: any) => {
+                const invalid = line.receiving < 0 || line.receiving > line.outstanding
+                return (
+                  <tr key={line.productId}>
+                    <td className="px-4 py-3">
+                      <div className="font-medium">
+                        {line.item.product?.name || line.item.productName}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        Rs. {line.item.unitCost.toLocaleString()} per{' '}
+                        {line.item.product?.unit || 'pcs'}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono">{line.item.quantity}</td>
+                    <td className="px-4 py-3 text-right font-mono text-muted-foreground">
+                      {line.item.receivedQuantity || 0}
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono">{line.outstanding}</td>
+                    <td className="px-4 py-3">
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        max={line.outstanding}
+                        disabled={line.outstanding === 0}
+                        value={quantities[line.productId] ?? ''}
+                        onChange={(e) =>
+                          setQuantities((prev) => ({ ...prev, [line.productId]: e.target.value }))
+                        }
+                        className={`text-right ${invalid ? 'border-red-500' : ''}`}
+                      />
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border text-foreground">
+        <CardContent className="pt-6 space-y-4">
+          <div className="space-y-2">
+            <Label className="text-xs uppercase font-bold text-muted-foreground">Notes</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Two rolls short, balance promised next week"
+              rows={2}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-xs uppercase font-bold text-muted-foreground">Value at Cost</div>
+              <div className="text-2xl font-bold text-[#4ade80]">
+                Rs. {receivingValue.toLocaleString()}
+              </div>
+            </div>
+            <LoadingButton
+              isLoading={isSubmitting}
+              loadingText="Receiving..."
+              disabled={hasInvalidLine}
+              onClick={handleSubmit}
+              className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-semibold"
+            >
+              <PackageCheck className="w-4 h-4 mr-2" />
+              Receive Goods
+            </LoadingButton>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
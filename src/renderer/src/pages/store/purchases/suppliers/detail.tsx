@@ -1,7 +1,17 @@
 import { useState, useEffect } from 'react'
 import { useParams, useNavigate, Link } from 'react-router-dom'
 import { Button } from '@renderer/components/ui/button'
-import { ChevronRight, Package, Mail, Phone, ArrowLeft, DollarSign } from 'lucide-react'
+import {
+  ChevronRight,
+  Package,
+  PackageMinus,
+  Mail,
+  Phone,
+  ArrowLeft,
+  DollarSign,
+  FileText,
+  Printer
+} from 'lucide-react'
 import { toast } from 'sonner'
 import { Badge } from '@renderer/components/ui/badge'
 import { ScrollArea } from '@renderer/components/ui/scroll-area'
@@ -13,6 +23,8 @@ import {
   TableHeader,
   TableRow
 } from '@renderer/components/ui/table'
+import { printSupplierReturn, SUPPLIER_RETURN_REASONS } from '@renderer/lib/supplier-returns'
+import { formatQuantity } from '@renderer/lib/quantities'
 
 export default function SupplierDetailsPage() {
   const { id } = useParams()
@@ -21,6 +33,7 @@ export default function SupplierDetailsPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [payments, setPayments] = useState<any[]>([])
   const [isPaymentsLoading, setIsPaymentsLoading] = useState(false)
+  const [returns, setReturns] = useState<any[]>([])
 
   useEffect(() => {
     loadSupplier()
@@ -29,6 +42,7 @@ export default function SupplierDetailsPage() {
   useEffect(() => {
     if (!supplier?._id) return
     loadPayments()
+    loadReturns()
   }, [supplier?._id])
 
   const loadSupplier = async () => {
@@ -73,6 +87,15 @@ export default function SupplierDetailsPage() {
     }
   }
 
+  const loadReturns = async () => {
+    const result = await window.api.supplierReturns.getAll({
+      storeId: supplier.store,
+      supplierId: supplier._id,
+      pageSize: 100
+    })
+    if (result.success) setReturns(result.data)
+  }
+
   // ✅ Helper function to get unit label
   const getStockUnit = (product: any) => {
     if (product.productKind === 'RAW_MATERIAL') {
@@ -89,13 +112,14 @@ export default function SupplierDetailsPage() {
 
     // For raw materials, show decimal if needed
     if (product.productKind === 'RAW_MATERIAL') {
-      return `${stock.toFixed(1)} ${unit}`
+      return `${formatQuantity(stock, true)} ${unit}`
     }
 
     return `${stock} ${unit}`
   }
 
   const totalPaid = payments.reduce((sum, payment) => sum + (payment.amount || 0), 0)
+  const totalReturned = returns.reduce((sum, entry) => sum + (entry.totalAmount || 0), 0)
 
   if (isLoading) {
     return (
@@ -137,10 +161,26 @@ export default function SupplierDetailsPage() {
           <h1 className="text-3xl font-bold text-foreground">{supplier.name}</h1>
           <p className="text-muted-foreground mt-1">Supplier Information and Products</p>
         </div>
-        <Button variant="outline" onClick={() => navigate('/dashboard/purchases/suppliers')}>
-          <ArrowLeft className="w-4 h-4 mr-2" />
-          Back to List
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => navigate(`/dashboard/purchases/suppliers/${supplier._id}/statement`)}
+          >
+            <FileText className="w-4 h-4 mr-2" />
+            Statement
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => navigate(`/dashboard/purchases/suppliers/${supplier._id}/return`)}
+          >
+            <PackageMinus className="w-4 h-4 mr-2" />
+            Return Goods
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/dashboard/purchases/suppliers')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to List
+          </Button>
+        </div>
       </div>
 
       {/* Supplier Info Card */}
@@ -424,6 +464,90 @@ export default function SupplierDetailsPage() {
           </ScrollArea>
         </div>
       </div>
+
+      <div className="bg-card border border-border rounded-lg">
+        <div className="p-6 border-b border-border">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-semibold">Returns & Debit Notes</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                Goods sent back to {supplier.name}, credited against the balance
+              </p>
+            </div>
+            <div className="text-sm font-semibold text-foreground">
+              Total Returned: Rs. {totalReturned.toLocaleString()}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6">
+          <ScrollArea className="max-h-[420px]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Return #</TableHead>
+                  <TableHead>Against</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {returns.length > 0 ? (
+                  returns.map((entry) => (
+                    <TableRow key={entry._id}>
+                      <TableCell>{new Date(entry.returnDate).toLocaleDateString()}</TableCell>
+                      <TableCell className="font-mono text-xs">{entry.returnNumber}</TableCell>
+                      <TableCell>
+                        {entry.purchaseOrder ? (
+                          <Link
+                            to={`/dashboard/purchases/orders/${entry.purchaseOrder._id}`}
+                            className="hover:underline"
+                          >
+                            {entry.purchaseOrder.poNumber}
+                          </Link>
+                        ) : (
+                          <span className="text-muted-foreground">Restock</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {entry.items.map((item: any, index: number) => (
+                          <div key={index}>
+                            {item.productName} × {item.quantity} {item.unit}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {SUPPLIER_RETURN_REASONS[entry.reason] || entry.reason}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold text-[#4ade80]">
+                        -Rs. {(entry.totalAmount || 0).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => printSupplierReturn(entry, supplier.name)}
+                        >
+                          <Printer className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                      No goods returned to this supplier yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </div>
+      </div>
     </div>
   )
 }
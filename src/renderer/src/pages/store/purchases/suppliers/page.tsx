@@ -65,6 +65,9 @@ export default function SuppliersPage() {
   const [paymentAccount, setPaymentAccount] = useState('')
   const [paymentNotes, setPaymentNotes] = useState('')
   const [paymentDate, setPaymentDate] = useState(new Date().toISOString().split('T')[0])
+  const [allocationMode, setAllocationMode] = useState<'OLDEST' | 'MANUAL'>('OLDEST')
+  const [openOrders, setOpenOrders] = useState<any[]>([])
+  const [manualAllocations, setManualAllocations] = useState<Record<string, string>>({})
 
   const [suppliers, setSuppliers] = useState<any[]>([])
   const [isLoading, setIsLoading] = useState(true)
@@ -108,7 +111,11 @@ export default function SuppliersPage() {
   const loadAccounts = async () => {
     if (!currentStore?._id) return
     try {
-      const result = await window.api.accounts.getAll({ storeId: currentStore._id, pageSize: 200 })
+      const result = await window.api.accounts.getAll({
+        storeId: currentStore._id,
+        pageSize: 200,
+        paymentAccountsOnly: true
+      })
       if (result.success) {
         setAccounts(result.data)
       }
@@ -197,14 +204,39 @@ export default function SuppliersPage() {
     setIsFormOpen(true)
   }
 
-  const openPaymentDialog = (supplier: any) => {
+  const openPaymentDialog = async (supplier: any) => {
     setSelectedSupplier(supplier)
     setPaymentAmount(supplier.currentBalance?.toString() || '')
     setPaymentAccount('')
     setPaymentNotes('')
     setPaymentDate(new Date().toISOString().split('T')[0])
+    setAllocationMode('OLDEST')
+    setOpenOrders([])
+    setManualAllocations({})
     setIsPaymentOpen(true)
+
+    const result = await window.api.purchaseOrders.getOutstanding({ supplierId: supplier._id })
+    if (result.success) setOpenOrders(result.data)
+  }
+
+  // Preview of how the payment lands on open orders; the server does the real allocation
+  const allocationPreview = (): Record<string, number> => {
+    if (allocationMode === 'MANUAL') {
+      return Object.fromEntries(
+        Object.entries(manualAllocations).map(([id, value]) => [id, Number(value) || 0])
+      )
+    }
+    let remaining = Number(paymentAmount) || 0
+    const preview: Record<string, number> = {}
+    for (const order of openOrders) {
+      const share = Math.max(0, Math.min(remaining, order.dueAmount))
+      preview[order._id] = share
+      remaining -= share
+    }
+    return preview
   }
+  const allocated = allocationPreview()
+  const allocatedTotal = Object.values(allocated).reduce((sum, value) => sum + value, 0)
 
   const handleRecordPayment = async () => {
     if (!selectedSupplier || !paymentAmount) return
@@ -212,6 +244,10 @@ export default function SuppliersPage() {
       toast.error('Select a payment account')
       return
     }
+    if (allocationMode === 'MANUAL' && allocatedTotal > parseFloat(paymentAmount)) {
+      toast.error('The amounts allocated to orders are more than the payment')
+      return
+    }
     setIsPaymentSubmitting(true)
     try {
       const userStr = localStorage.getItem('user')
@@ -222,11 +258,23 @@ export default function SuppliersPage() {
         paymentDate,
         notes: paymentNotes,
         recordedBy: user?._id || user?.id,
-        method: 'Account Transfer'
+        method: 'Account Transfer',
+        allocations:
+          allocationMode === 'MANUAL'
+            ? Object.entries(allocated)
+                .filter(([, value]) => value > 0)
+                .map(([purchaseOrder, value]) => ({ purchaseOrder, amount: value }))
+            : undefined
       })
 
       if (result.success) {
-        toast.success('Supplier payment recorded')
+        toast.success(
+          result.allocations?.length
+            ? `Supplier payment recorded against ${result.allocations
+                .map((entry: any) => entry.poNumber)
+                .join(', ')}`
+            : 'Supplier payment recorded'
+        )
         setIsPaymentOpen(false)
         setPaymentAmount('')
         setPaymentNotes('')
@@ -573,6 +621,64 @@ export default function SuppliersPage() {
                 </SelectContent>
               </Select>
             </div>
+            {openOrders.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-xs font-semibold text-muted-foreground">
+                    Allocate to Purchase Orders
+                  </label>
+                  <Select
+                    value={allocationMode}
+                    onValueChange={(value) => setAllocationMode(value as 'OLDEST' | 'MANUAL')}
+                  >
+                    <SelectTrigger className="h-8 w-[150px] bg-muted border-border text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover border-border text-popover-foreground">
+                      <SelectItem value="OLDEST">Oldest first</SelectItem>
+                      <SelectItem value="MANUAL">Choose orders</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="rounded-lg border border-border divide-y divide-border max-h-[220px] overflow-y-auto">
+                  {openOrders.map((order) => (
+                    <div key={order._id} className="flex items-center gap-3 p-2 text-sm">
+                      <div className="flex-1">
+                        <div className="font-semibold">{order.poNumber}</div>
+                        <div className="text-xs text-muted-foreground">
+                          Due Rs. {order.dueAmount.toLocaleString()}
+                        </div>
+                      </div>
+                      {allocationMode === 'MANUAL' ? (
+                        <Input
+                          type="number"
+                          min={0}
+                          max={order.dueAmount}
+                          value={manualAllocations[order._id] ?? ''}
+                          onChange={(e) =>
+                            setManualAllocations((prev) => ({
+                              ...prev,
+                              [order._id]: e.target.value
+                            }))
+                          }
+                          placeholder="0"
+                          className="h-8 w-[120px] text-right"
+                        />
+                      ) : (
+                        <span className="font-mono text-xs">
+                          Rs. {(allocated[order._id] || 0).toLocaleString()}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Allocated Rs. {allocatedTotal.toLocaleString()}
+                  {(Number(paymentAmount) || 0) > allocatedTotal &&
+                    ` - Rs. ${((Number(paymentAmount) || 0) - allocatedTotal).toLocaleString()} goes to the balance not tied to an order`}
+                </div>
+              </div>
+            )}
             <div className="space-y-2">
               <label className="text-xs font-semibold text-muted-foreground">
                 Notes (Optional)
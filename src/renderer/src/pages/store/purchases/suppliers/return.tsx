@@ -0,0 +1,337 @@
+import { useEffect, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { format } from 'date-fns'
+import { ChevronLeft, PackageMinus } from 'lucide-react'
+import { Button } from '@renderer/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@renderer/components/ui/card'
+import { Input } from '@renderer/components/ui/input'
+import { Label } from '@renderer/components/ui/label'
+import { LoadingButton } from '@renderer/components/ui/loading-button'
+import { Textarea } from '@renderer/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue
+} from '@renderer/components/ui/select'
+import { toast } from 'sonner'
+import { printSupplierReturn, SUPPLIER_RETURN_REASONS } from '@renderer/lib/supplier-returns'
+
+type ReturnSources = {
+  purchaseOrders: Array<{
+    _id: string
+    poNumber: string
+    purchaseDate: string
+    items: Array<{
+      product: string
+      productName: string
+      unit: string
+      unitCost: number
+      returnable: number
+    }>
+  }>
+  stockEntries: Array<{
+    _id: string
+    entryType: string
+    invoiceNumber?: string
+    purchaseDate: string
+    product: string
+    productName: string
+    unit: string
+    unitCost: number
+    returnable: number
+  }>
+}
+
+export default function SupplierReturnPage() {
+  const { id } = useParams()
+  const navigate = useNavigate()
+  const [supplier, setSupplier] = useState<any>(null)
+  const [sources, setSources] = useState<ReturnSources>({ purchaseOrders: [], stockEntries: [] })
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [source, setSource] = useState('')
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+  const [reason, setReason] = useState('DEFECTIVE')
+  const [returnDate, setReturnDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [notes, setNotes] = useState('')
+
+  useEffect(() => {
+    const loadData = async () => {
+      if (!id) return
+      setIsLoading(true)
+      try {
+        const [supplierResult, sourcesResult] = await Promise.all([
+          window.api.suppliers.getById(id),
+          window.api.supplierReturns.getSources({ supplierId: id })
+        ])
+        if (supplierResult.success) setSupplier(supplierResult.data)
+        else toast.error('Failed to load supplier: ' + supplierResult.error)
+        if (sourcesResult.success) setSources(sourcesResult.data)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    loadData()
+  }, [id])
+
+  const [sourceType, sourceId] = source.split(':')
+  const selectedOrder =
+    sourceType === 'po' ? sources.purchaseOrders.find((po) => po._id === sourceId) : undefined
+  const selectedEntry =
+    sourceType === 'entry'
+      ? sources.stockEntries.find((entry) => entry._id === sourceId)
+      : undefined
+  const lines = selectedOrder ? selectedOrder.items : selectedEntry ? [selectedEntry] : []
+
+  const returnTotal = lines.reduce(
+    (sum, line) => sum + (Number(quantities[line.product]) || 0) * line.unitCost,
+    0
+  )
+  const hasInvalidLine = lines.some((line) => {
+    const quantity = Number(quantities[line.product]) || 0
+    return quantity < 0 || quantity > line.returnable
+  })
+
+  const handleSubmit = async () => {
+    const items = lines
+      .map((line) => ({ product: line.product, quantity: Number(quantities[line.product]) || 0 }))
+      .filter((line) => line.quantity > 0)
+    if (!source) {
+      toast.error('Choose what the goods are being returned from')
+      return
+    }
+    if (items.length === 0) {
+      toast.error('Enter the quantity to return for at least one item')
+      return
+    }
+    if (hasInvalidLine) {
+      toast.error('Return quantities cannot exceed what was received')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const user = JSON.parse(localStorage.getItem('user') || '{}')
+      const result = await window.api.supplierReturns.create({
+        storeId: supplier.store,
+        supplierId: supplier._id,
+        purchaseOrderId: selectedOrder?._id,
+        stockEntryId: selectedEntry?._id,
+        items,
+        reason,
+        notes: notes.trim() || undefined,
+        returnDate: new Date(returnDate).toISOString(),
+        createdBy: user._id || user.id
+      })
+      if (result.success) {
+        toast.success(`Return ${result.data.returnNumber} recorded`)
+        printSupplierReturn(
+          { ...result.data, purchaseOrder: selectedOrder && { poNumber: selectedOrder.poNumber } },
+          supplier.name
+        )
+        navigate(`/dashboard/purchases/suppliers/${supplier._id}`)
+      } else {
+        toast.error(result.error || 'Failed to record return')
+      }
+    } catch (error: any) {
+      toast.error('Error: ' + error.message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    )
+  }
+
+  if (!supplier) return null
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate(`/dashboard/purchases/suppliers/${supplier._id}`)}
+          className="hover:bg-accent"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Return to Supplier</h1>
+          <p className="text-sm text-muted-foreground">
+            {supplier.name} &middot; Balance Rs. {(supplier.currentBalance || 0).toLocaleString()}
+          </p>
+        </div>
+      </div>
+
+      <Card className="bg-card border-border text-foreground">
+        <CardHeader className="border-b border-border py-4">
+          <CardTitle className="text-lg">Return Details</CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6 grid gap-4 md:grid-cols-3">
+          <div className="space-y-2 md:col-span-3">
+            <Label className="text-xs uppercase font-bold text-muted-foreground">
+              Returning From
+            </Label>
+            <Select
+              value={source}
+              onValueChange={(value) => {
+                setSource(value)
+                setQuantities({})
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a purchase order or restock" />
+              </SelectTrigger>
+              <SelectContent>
+                {sources.purchaseOrders.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Purchase Orders</SelectLabel>
+                    {sources.purchaseOrders.map((po) => (
+                      <SelectItem key={po._id} value={`po:${po._id}`}>
+                        {po.poNumber} &middot; {format(new Date(po.purchaseDate), 'MMM dd, yyyy')}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+                {sources.stockEntries.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Restocks</SelectLabel>
+                    {sources.stockEntries.map((entry) => (
+                      <SelectItem key={entry._id} value={`entry:${entry._id}`}>
+                        {entry.productName} &middot; {entry.returnable} {entry.unit} &middot;{' '}
+                        {format(new Date(entry.purchaseDate), 'MMM dd, yyyy')}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+            {sources.purchaseOrders.length === 0 && sources.stockEntries.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Nothing received from this supplier can be returned.
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs uppercase font-bold text-muted-foreground">Reason</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SUPPLIER_RETURN_REASONS).map(([key, label]) => (
+                  <SelectItem key={key} value={key}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs uppercase font-bold text-muted-foreground">Return Date</Label>
+            <Input
+              type="date"
+              value={returnDate}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setReturnDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs uppercase font-bold text-muted-foreground">Notes</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Colour bleeding on two rolls"
+              rows={1}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {lines.length > 0 && (
+        <Card className="bg-card border-border text-foreground">
+          <CardHeader className="border-b border-border py-4">
+            <CardTitle className="text-lg">Items</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs uppercase bg-muted/50 text-muted-foreground border-b border-border">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Product</th>
+                  <th className="px-4 py-3 font-medium text-right">Unit Cost</th>
+                  <th className="px-4 py-3 font-medium text-right">Returnable</th>
+                  <th className="px-4 py-3 font-medium text-right w-[160px]">Return Qty</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {lines.map((line) => {
+                  const quantity = Number(quantities[line.product]) || 0
+                  const invalid = quantity < 0 || quantity > line.returnable
+                  return (
+                    <tr key={line.product}>
+                      <td className="px-4 py-3 font-medium">{line.productName}</td>
+                      <td className="px-4 py-3 text-right">Rs. {line.unitCost.toLocaleString()}</td>
+                      <td className="px-4 py-3 text-right font-mono">
+                        {line.returnable} {line.unit}
+                      </td>
+                      <td className="px-4 py-3">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={line.returnable}
+                          step={line.unit === 'meter' ? '0.01' : '1'}
+                          value={quantities[line.product] ?? ''}
+                          onChange={(e) =>
+                            setQuantities((prev) => ({ ...prev, [line.product]: e.target.value }))
+                          }
+                          placeholder="0"
+                          className={`text-right ${invalid ? 'border-red-500' : ''}`}
+                        />
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="bg-card border-border text-foreground">
+        <CardContent className="pt-6 flex items-center justify-between">
+          <div>
+            <div className="text-xs uppercase font-bold text-muted-foreground">
+              Debit Note Total
+            </div>
+            <div className="text-2xl font-bold text-[#4ade80]">
+              Rs. {returnTotal.toLocaleString()}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Comes off what is owed to {supplier.name}
+            </div>
+          </div>
+          <LoadingButton
+            isLoading={isSubmitting}
+            loadingText="Recording..."
+            disabled={hasInvalidLine || !source}
+            onClick={handleSubmit}
+            className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-semibold"
+          >
+            <PackageMinus className="w-4 h-4 mr-2" />
+            Record Return
+          </LoadingButton>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
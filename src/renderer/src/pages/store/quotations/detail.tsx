@@ -0,0 +1,361 @@
+import { useEffect, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { format } from 'date-fns'
+import { ChevronLeft, Printer, ShoppingCart } from 'lucide-react'
+import { Button } from '@renderer/components/ui/button'
+import { Badge } from '@renderer/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@renderer/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@renderer/components/ui/table'
+import { printContent } from '@renderer/lib/print-utils'
+import { comboSelectionLabel, type ComboSelection } from '@renderer/lib/combos'
+import { formatQuantity } from '@renderer/lib/quantities'
+import { netLineAmount } from '@renderer/lib/discounts'
+import { taxLineLabel, type TaxLine } from '@renderer/lib/tax'
+import {
+  quotationStatusLabel,
+  quotationStatusTone,
+  type QuotationStatus
+} from '@renderer/lib/quotations'
+import { toast } from 'sonner'
+
+interface QuotationItem {
+  productName: string
+  quantity: number
+  comboSelection?: ComboSelection
+  listPrice?: number
+  sellingPrice: number
+  discountAmount?: number
+  totalAmount: number
+}
+
+interface QuotationDetail {
+  _id: string
+  quotationNumber: string
+  customer?: { name?: string; phone?: string }
+  customerName?: string
+  items: QuotationItem[]
+  subtotal: number
+  discountAmount?: number
+  taxAmount?: number
+  taxBreakdown?: TaxLine[]
+  pricesIncludeTax?: boolean
+  totalAmount: number
+  validUntil: string
+  status: QuotationStatus
+  sale?: { _id: string; invoiceNumber?: string }
+  acceptedAt?: string
+  notes?: string
+  createdBy?: { fullName?: string }
+  createdAt: string
+}
+
+const formatCurrency = (value?: number) => `Rs. ${Number(value || 0).toLocaleString()}`
+
+const formatItemQuantity = (item: QuotationItem) =>
+  formatQuantity(item.quantity, !Number.isInteger(item.quantity))
+
+export default function QuotationDetailPage() {
+  const { id } = useParams()
+  const navigate = useNavigate()
+  const [quotation, setQuotation] = useState<QuotationDetail | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const loadQuotation = async () => {
+    if (!id) return
+    setIsLoading(true)
+    try {
+      const result = await window.api.quotations.getById(id)
+      if (result.success) {
+        setQuotation(result.data)
+      } else {
+        toast.error(result.error || 'Quotation not found')
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load quotation')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadQuotation()
+  }, [id])
+
+  const taxRows = (quote: QuotationDetail) =>
+    (quote.taxBreakdown || [])
+      .filter((line) => line.taxAmount > 0)
+      .map((line) => ({
+        label: `${taxLineLabel(line)}${quote.pricesIncludeTax ? ' (incl.)' : ''}`,
+        amount: line.taxAmount
+      }))
+
+  const customerLabel = (quote: QuotationDetail) =>
+    quote.customer?.name || quote.customerName || 'Walk-in customer'
+
+  const handlePrint = () => {
+    if (!quotation) return
+    const storeData = localStorage.getItem('selectedStore')
+    const store = storeData ? JSON.parse(storeData) : null
+    const content = `
+      <div style="font-family: 'Inter', sans-serif; padding: 20px; color: #111;">
+        <h2 style="margin: 0 0 4px;">Quotation</h2>
+        ${store?.name ? `<div style="font-size: 13px; font-weight: bold;">${store.name}</div>` : ''}
+        ${store?.address ? `<div style="font-size: 12px; color: #6b7280;">${store.address}</div>` : ''}
+        ${store?.phone ? `<div style="font-size: 12px; color: #6b7280;">${store.phone}</div>` : ''}
+
+        <div style="margin-top: 12px; border-top: 1px solid #e5e7eb; padding-top: 12px; font-size: 12px;">
+          <div><strong>Quotation:</strong> ${quotation.quotationNumber}</div>
+          <div><strong>Date:</strong> ${format(new Date(quotation.createdAt), 'MMM dd, yyyy')}</div>
+          <div><strong>Valid until:</strong> ${format(
+            new Date(quotation.validUntil),
+            'MMM dd, yyyy'
+          )}</div>
+          <div><strong>Customer:</strong> ${customerLabel(quotation)}${
+            quotation.customer?.phone ? ` (${quotation.customer.phone})` : ''
+          }</div>
+        </div>
+
+        <table style="width: 100%; border-collapse: collapse; margin-top: 16px; font-size: 12px;">
+          <thead>
+            <tr style="background: #f3f4f6; text-align: left;">
+              <th style="padding: 8px;">Item</th>
+              <th style="padding: 8px; text-align: center;">Qty</th>
+              <th style="padding: 8px; text-align: right;">Price</th>
+              <th style="padding: 8px; text-align: right;">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${quotation.items
+              .map(
+                (item) => `
+                  <tr style="border-bottom: 1px solid #e5e7eb;">
+                    <td style="padding: 8px;">${item.productName}${
+                      item.comboSelection
+                        ? `<div style="font-size: 11px; color: #6b7280;">${comboSelectionLabel(
+                            item.comboSelection
+                          )}</div>`
+                        : ''
+                    }</td>
+                    <td style="padding: 8px; text-align: center;">${formatItemQuantity(item)}</td>
+                    <td style="padding: 8px; text-align: right;">${formatCurrency(
+                      item.sellingPrice
+                    )}</td>
+                    <td style="padding: 8px; text-align: right;">${formatCurrency(
+                      netLineAmount(item)
+                    )}${
+                      item.discountAmount
+                        ? `<div style="font-size: 11px; color: #ef4444;">-${formatCurrency(
+                            item.discountAmount
+                          )} discount</div>`
+                        : ''
+                    }</td>
+                  </tr>
+                `
+              )
+              .join('')}
+          </tbody>
+        </table>
+
+        <div style="margin-top: 12px; margin-left: auto; width: 280px; font-size: 12px;">
+          <div style="display: flex; justify-content: space-between; padding: 2px 0;">
+            <span>Subtotal</span><span>${formatCurrency(quotation.subtotal)}</span>
+          </div>
+          ${
+            (quotation.discountAmount || 0) > 0
+              ? `<div style="display: flex; justify-content: space-between; padding: 2px 0;">
+                  <span>Discount</span><span>-${formatCurrency(quotation.discountAmount)}</span>
+                </div>`
+              : ''
+          }
+          ${taxRows(quotation)
+            .map(
+              (row) => `<div style="display: flex; justify-content: space-between; padding: 2px 0;">
+                  <span>${row.label}</span><span>${formatCurrency(row.amount)}</span>
+                </div>`
+            )
+            .join('')}
+          <div style="display: flex; justify-content: space-between; padding: 4px 0; border-top: 1px solid #e5e7eb; font-weight: bold;">
+            <span>Total</span><span>${formatCurrency(quotation.totalAmount)}</span>
+          </div>
+        </div>
+
+        ${
+          quotation.notes
+            ? `<div style="margin-top: 16px; font-size: 12px;"><strong>Notes:</strong> ${quotation.notes}</div>`
+            : ''
+        }
+        <div style="margin-top: 16px; font-size: 11px; color: #6b7280;">
+          Prices are held until the validity date. Items are subject to availability.
+        </div>
+      </div>
+    `
+    void printContent({ title: `Quotation ${quotation.quotationNumber}`, content })
+  }
+
+  const handleConvert = () => {
+    if (!quotation) return
+    navigate('/dashboard/pos', { state: { quotationId: quotation._id } })
+  }
+
+  if (isLoading) {
+    return <div className="p-8 text-center text-muted-foreground">Loading quotation...</div>
+  }
+
+  if (!quotation) {
+    return <div className="p-8 text-center text-muted-foreground">Quotation not found.</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate('/dashboard/quotations')}
+            className="hover:bg-accent"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl font-bold text-foreground">{quotation.quotationNumber}</h1>
+              <Badge variant="outline" className={quotationStatusTone(quotation.status)}>
+                {quotationStatusLabel(quotation.status)}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {customerLabel(quotation)} • valid until{' '}
+              {format(new Date(quotation.validUntil), 'MMM dd, yyyy')}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" className="border-border" onClick={handlePrint}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+          {quotation.status === 'OPEN' && (
+            <Button className="bg-[#4ade80] text-black hover:bg-[#22c55e]" onClick={handleConvert}>
+              <ShoppingCart className="h-4 w-4 mr-2" />
+              Convert to Sale
+            </Button>
+          )}
+          {quotation.sale && (
+            <Button
+              variant="outline"
+              className="border-border"
+              onClick={() => navigate(`/dashboard/reports/sales/${quotation.sale?._id}`)}
+            >
+              View Sale {quotation.sale.invoiceNumber}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="border-border lg:col-span-2">
+          <CardHeader className="border-b border-border">
+            <CardTitle className="text-sm font-black uppercase tracking-widest text-muted-foreground">
+              Items
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-center">Qty</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {quotation.items.map((item, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <div className="font-semibold">{item.productName}</div>
+                      {item.comboSelection && (
+                        <div className="text-xs text-muted-foreground">
+                          {comboSelectionLabel(item.comboSelection)}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">{formatItemQuantity(item)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(item.sellingPrice)}
+                      {item.listPrice !== undefined && item.listPrice !== item.sellingPrice && (
+                        <div className="text-xs text-muted-foreground line-through">
+                          {formatCurrency(item.listPrice)}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-bold">
+                      {formatCurrency(netLineAmount(item))}
+                      {(item.discountAmount || 0) > 0 && (
+                        <div className="text-xs font-normal text-red-500">
+                          -{formatCurrency(item.discountAmount)} discount
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card className="border-border">
+          <CardHeader className="border-b border-border">
+            <CardTitle className="text-sm font-black uppercase tracking-widest text-muted-foreground">
+              Summary
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-3 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Subtotal</span>
+              <span className="font-semibold">{formatCurrency(quotation.subtotal)}</span>
+            </div>
+            {(quotation.discountAmount || 0) > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Discount</span>
+                <span className="font-semibold text-red-500">
+                  -{formatCurrency(quotation.discountAmount)}
+                </span>
+              </div>
+            )}
+            {taxRows(quotation).map((row) => (
+              <div key={row.label} className="flex justify-between">
+                <span className="text-muted-foreground">{row.label}</span>
+                <span className="font-semibold">{formatCurrency(row.amount)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between border-t border-border pt-3 text-base">
+              <span className="font-bold">Total</span>
+              <span className="font-black text-[#4ade80]">
+                {formatCurrency(quotation.totalAmount)}
+              </span>
+            </div>
+            <div className="border-t border-border pt-3 space-y-1 text-xs text-muted-foreground">
+              <div>
+                Created {format(new Date(quotation.createdAt), 'MMM dd, yyyy HH:mm')}
+                {quotation.createdBy?.fullName ? ` by ${quotation.createdBy.fullName}` : ''}
+              </div>
+              {quotation.acceptedAt && (
+                <div>Sold {format(new Date(quotation.acceptedAt), 'MMM dd, yyyy HH:mm')}</div>
+              )}
+              {quotation.notes && <div>Notes: {quotation.notes}</div>}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { format } from 'date-fns'
+import { Eye, FileText, Search } from 'lucide-react'
+import { Button } from '@renderer/components/ui/button'
+import { Badge } from '@renderer/components/ui/badge'
+import { Card, CardContent } from '@renderer/components/ui/card'
+import { Input } from '@renderer/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@renderer/components/ui/table'
+import {
+  quotationStatusLabel,
+  quotationStatusTone,
+  type QuotationStatus
+} from '@renderer/lib/quotations'
+import { toast } from 'sonner'
+
+type QuotationRow = {
+  _id: string
+  quotationNumber: string
+  customer?: { name?: string; phone?: string }
+  customerName?: string
+  items: unknown[]
+  totalAmount: number
+  validUntil: string
+  status: QuotationStatus
+  sale?: { _id: string; invoiceNumber?: string }
+  createdBy?: { fullName?: string }
+  createdAt: string
+}
+
+const STATUS_FILTERS: { value: QuotationStatus | ''; label: string }[] = [
+  { value: '', label: 'All' },
+  { value: 'OPEN', label: 'Open' },
+  { value: 'ACCEPTED', label: 'Accepted' },
+  { value: 'EXPIRED', label: 'Expired' }
+]
+
+const formatCurrency = (value?: number) => `Rs. ${Number(value || 0).toLocaleString()}`
+
+export default function QuotationsPage() {
+  const navigate = useNavigate()
+  const [quotations, setQuotations] = useState<QuotationRow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [status, setStatus] = useState<QuotationStatus | ''>('')
+  const [search, setSearch] = useState('')
+
+  const loadQuotations = async () => {
+    const storeData = localStorage.getItem('selectedStore')
+    const store = storeData ? JSON.parse(storeData) : null
+    if (!store?._id) return
+    setIsLoading(true)
+    try {
+      const result = await window.api.quotations.getAll({
+        storeId: store._id,
+        status: status || undefined,
+        search: search.trim() || undefined
+      })
+      if (result.success) setQuotations(result.data)
+      else toast.error(result.error || 'Failed to load quotations')
+    } catch (error: any) {
+      toast.error('Failed to load quotations: ' + error.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    const timer = setTimeout(loadQuotations, 300)
+    return () => clearTimeout(timer)
+  }, [status, search])
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Quotations</h1>
+          <p className="text-sm text-muted-foreground">
+            Priced estimates for customers. An open quotation can be sold from the POS until its
+            validity date.
+          </p>
+        </div>
+        <Button
+          className="h-10 bg-[#4ade80] text-black hover:bg-[#22c55e]"
+          onClick={() => navigate('/dashboard/pos')}
+        >
+          <FileText className="h-4 w-4 mr-2" />
+          New Quotation
+        </Button>
+      </div>
+
+      <Card className="bg-card border-border text-foreground">
+        <CardContent className="pt-6 flex flex-wrap items-center gap-4">
+          <div className="relative flex-1 min-w-[240px]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by quotation number or customer..."
+              className="pl-9"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            {STATUS_FILTERS.map((filter) => (
+              <Button
+                key={filter.label}
+                variant={status === filter.value ? 'default' : 'outline'}
+                className={
+                  status === filter.value ? 'bg-[#4ade80] text-black hover:bg-[#22c55e]' : ''
+                }
+                onClick={() => setStatus(filter.value)}
+              >
+                {filter.label}
+              </Button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border text-foreground">
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Quotation</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Valid Until</TableHead>
+                <TableHead className="text-center">Items</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-center">Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                    Loading quotations...
+                  </TableCell>
+                </TableRow>
+              ) : quotations.length > 0 ? (
+                quotations.map((quotation) => (
+                  <TableRow key={quotation._id}>
+                    <TableCell className="font-semibold">{quotation.quotationNumber}</TableCell>
+                    <TableCell>
+                      {quotation.customer?.name || quotation.customerName || 'Walk-in'}
+                    </TableCell>
+                    <TableCell>{format(new Date(quotation.createdAt), 'MMM dd, yyyy')}</TableCell>
+                    <TableCell>{format(new Date(quotation.validUntil), 'MMM dd, yyyy')}</TableCell>
+                    <TableCell className="text-center">{quotation.items.length}</TableCell>
+                    <TableCell className="text-right font-bold">
+                      {formatCurrency(quotation.totalAmount)}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Badge variant="outline" className={quotationStatusTone(quotation.status)}>
+                        {quotationStatusLabel(quotation.status)}
+                        {quotation.sale?.invoiceNumber ? ` • ${quotation.sale.invoiceNumber}` : ''}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => navigate(`/dashboard/quotations/${quotation._id}`)}
+                      >
+                        <Eye className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                    No quotations found.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,329 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { format, startOfMonth } from 'date-fns'
+import { ChevronLeft, FileSpreadsheet, FileText } from 'lucide-react'
+import { Badge } from '@renderer/components/ui/badge'
+import { Button } from '@renderer/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@renderer/components/ui/card'
+import { Input } from '@renderer/components/ui/input'
+import { Label } from '@renderer/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@renderer/components/ui/table'
+import { exportToExcel, exportToPDF } from '@renderer/lib/export'
+import { formatQuantity } from '@renderer/lib/quantities'
+import { toast } from 'sonner'
+
+type DiscountType = 'LINE_DISCOUNT' | 'PRICE_OVERRIDE' | 'CART_DISCOUNT'
+
+type DiscountRow = {
+  sale: string
+  invoiceNumber: string
+  saleDate: string
+  soldBy: string
+  type: DiscountType
+  productName: string
+  quantity: number
+  listPrice: number
+  sellingPrice: number
+  amount: number
+}
+
+type DiscountReport = {
+  rows: DiscountRow[]
+  totals: {
+    lineDiscounts: number
+    priceOverrides: number
+    cartDiscounts: number
+    total: number
+    sales: number
+  }
+  bySeller: Array<{ name: string; sales: number; amount: number }>
+}
+
+const TYPE_LABELS: Record<DiscountType, string> = {
+  LINE_DISCOUNT: 'Line Discount',
+  PRICE_OVERRIDE: 'Price Override',
+  CART_DISCOUNT: 'Cart Discount'
+}
+
+const formatCurrency = (value?: number) => `Rs. ${Number(value || 0).toLocaleString()}`
+
+export default function DiscountReportPage() {
+  const navigate = useNavigate()
+  const [report, setReport] = useState<DiscountReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [startDate, setStartDate] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'))
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+
+  useEffect(() => {
+    loadReport()
+  }, [startDate, endDate])
+
+  const loadReport = async () => {
+    const storeData = localStorage.getItem('selectedStore')
+    const store = storeData ? JSON.parse(storeData) : null
+    if (!store?._id || !startDate || !endDate) return
+    setIsLoading(true)
+    try {
+      const end = new Date(endDate)
+      end.setHours(23, 59, 59, 999)
+      const result = await window.api.sales.getDiscountReport({
+        storeId: store._id,
+        startDate: new Date(startDate).toISOString(),
+        endDate: end.toISOString()
+      })
+      if (result.success) setReport(result.data)
+      else toast.error(result.error || 'Failed to load discount report')
+    } catch (error: any) {
+      toast.error('Failed to load discount report: ' + error.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const rows = report?.rows || []
+
+  const buildExportRows = () => [
+    ...rows.map((row) => ({
+      Date: format(new Date(row.saleDate), 'yyyy-MM-dd'),
+      Invoice: row.invoiceNumber,
+      'Sold By': row.soldBy,
+      Type: TYPE_LABELS[row.type],
+      Item: row.productName,
+      Qty: row.quantity ? formatQuantity(row.quantity) : '',
+      'List Price': row.quantity ? formatCurrency(row.listPrice) : '',
+      'Sold At': row.quantity ? formatCurrency(row.sellingPrice) : '',
+      Amount: formatCurrency(row.amount)
+    })),
+    {
+      Date: 'TOTAL',
+      Invoice: `${report?.totals.sales || 0} sales`,
+      'Sold By': '',
+      Type: '',
+      Item: '',
+      Qty: '',
+      'List Price': '',
+      'Sold At': '',
+      Amount: formatCurrency(report?.totals.total)
+    }
+  ]
+
+  const fileName = `discount_report_${startDate.replace(/-/g, '')}_${endDate.replace(/-/g, '')}`
+  const title = `Discount Report (${format(new Date(startDate), 'MMM dd, yyyy')} - ${format(
+    new Date(endDate),
+    'MMM dd, yyyy'
+  )})`
+
+  const handleDownloadPdf = () => {
+    if (!rows.length) {
+      toast.error('No report data to download')
+      return
+    }
+    exportToPDF(buildExportRows(), fileName, title)
+  }
+
+  const handleDownloadExcel = () => {
+    if (!rows.length) {
+      toast.error('No report data to download')
+      return
+    }
+    void exportToExcel(buildExportRows(), fileName, 'Discounts')
+  }
+
+  const summary = [
+    { label: 'Line Discounts', amount: report?.totals.lineDiscounts },
+    { label: 'Price Overrides', amount: report?.totals.priceOverrides },
+    { label: 'Cart Discounts', amount: report?.totals.cartDiscounts },
+    { label: 'Total Given', amount: report?.totals.total }
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate('/dashboard/reports/sales')}
+            className="hover:bg-accent"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Discount Report</h1>
+            <p className="text-sm text-muted-foreground">
+              Line discounts, prices overridden below list and cart discounts given on sales.
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" className="h-10 border-border" onClick={handleDownloadExcel}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Download Excel
+          </Button>
+          <Button
+            className="h-10 bg-[#4ade80] text-black hover:bg-[#22c55e]"
+            onClick={handleDownloadPdf}
+          >
+            <FileText className="h-4 w-4 mr-2" />
+            Download PDF
+          </Button>
+        </div>
+      </div>
+
+      <Card className="bg-card border-border text-foreground">
+        <CardContent className="pt-6 grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label className="text-xs uppercase font-bold text-muted-foreground">From</Label>
+            <Input
+              type="date"
+              value={startDate}
+              max={endDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs uppercase font-bold text-muted-foreground">To</Label>
+            <Input
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <div className="text-xs uppercase font-bold text-muted-foreground">
+              Sales With Discounts
+            </div>
+            <div className="text-xl font-bold">{report?.totals.sales || 0}</div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {summary.map((item) => (
+          <Card key={item.label} className="bg-card border-border text-foreground">
+            <CardContent className="pt-6">
+              <div className="text-xs uppercase font-bold text-muted-foreground">{item.label}</div>
+              <div
+                className={`text-xl font-bold ${(item.amount || 0) > 0 ? 'text-red-400' : 'text-foreground'}`}
+              >
+                {formatCurrency(item.amount)}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="bg-card border-border text-foreground">
+        <CardHeader className="border-b border-border py-4">
+          <CardTitle className="text-lg">By Seller</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sold By</TableHead>
+                <TableHead className="text-center">Sales</TableHead>
+                <TableHead className="text-right">Given Away</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(report?.bySeller || []).length > 0 ? (
+                report?.bySeller.map((seller) => (
+                  <TableRow key={seller.name}>
+                    <TableCell className="font-semibold">{seller.name}</TableCell>
+                    <TableCell className="text-center">{seller.sales}</TableCell>
+                    <TableCell className="text-right font-bold">
+                      {formatCurrency(seller.amount)}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-muted-foreground py-8">
+                    {isLoading ? 'Loading report...' : 'No discounts given in this period.'}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border text-foreground">
+        <CardHeader className="border-b border-border py-4">
+          <CardTitle className="text-lg">Discounts Given</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Invoice</TableHead>
+                <TableHead>Sold By</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-center">Qty</TableHead>
+                <TableHead className="text-right">List Price</TableHead>
+                <TableHead className="text-right">Sold At</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center text-muted-foreground py-8">
+                    Loading report...
+                  </TableCell>
+                </TableRow>
+              ) : rows.length > 0 ? (
+                rows.map((row, index) => (
+                  <TableRow
+                    key={`${row.sale}-${index}`}
+                    className="cursor-pointer hover:bg-muted/50"
+                    onClick={() => navigate(`/dashboard/reports/sales/${row.sale}`)}
+                  >
+                    <TableCell>{format(new Date(row.saleDate), 'MMM dd, yyyy')}</TableCell>
+                    <TableCell className="font-mono">{row.invoiceNumber}</TableCell>
+                    <TableCell>{row.soldBy}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="border-border">
+                        {TYPE_LABELS[row.type]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{row.productName}</TableCell>
+                    <TableCell className="text-center">
+                      {row.quantity ? formatQuantity(row.quantity) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.quantity ? formatCurrency(row.listPrice) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.quantity ? formatCurrency(row.sellingPrice) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right font-bold text-red-400">
+                      {formatCurrency(row.amount)}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center text-muted-foreground py-8">
+                    No discounts given in this period.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -31,6 +31,18 @@ import {
   TableRow
 } from '@renderer/components/ui/table'
 import { printContent } from '@renderer/lib/print-utils'
+import { comboPiecesKey, comboSelectionLabel, type ComboSelection } from '@renderer/lib/combos'
+import { formatQuantity, roundQuantity } from '@renderer/lib/quantities'
+import { netLineAmount } from '@renderer/lib/discounts'
+import { linePaidAmount, taxLineLabel, type TaxLine } from '@renderer/lib/tax'
+import { tenderLabel } from '@renderer/lib/tenders'
+import {
+  installmentFrequencyLabel,
+  installmentStatus,
+  installmentStatusTone,
+  type Installment,
+  type InstallmentFrequency
+} from '@renderer/lib/installments'
 
 interface SaleItem {
   productName?: string
@@ -38,16 +50,22 @@ interface SaleItem {
   quantity: number
   sellingPrice?: number
   price?: number
+  discountAmount?: number
   totalAmount: number
+  taxableAmount?: number
+  taxAmount?: number
   productKind?: 'SIMPLE' | 'RAW_MATERIAL' | 'COMBO_SET'
   baseUnit?: string
   sellByUnit?: string
+  comboSelection?: ComboSelection
 }
 
 interface PaymentRecord {
   date: string
   amount: number
   method: string
+  channel?: string
+  atSale?: boolean
   notes?: string
   recordedBy?: { fullName?: string }
 }
@@ -62,6 +80,8 @@ interface SaleDetail {
   items: SaleItem[]
   subtotal?: number
   taxAmount?: number
+  taxBreakdown?: TaxLine[]
+  pricesIncludeTax?: boolean
   discountAmount?: number
   totalAmount: number
   paidAmount?: number
@@ -69,13 +89,23 @@ interface SaleDetail {
   paymentStatus: 'PAID' | 'PENDING' | 'PARTIAL'
   paymentMethod: string
   paymentChannel?: string
+  changeGiven?: number
   paymentHistory?: PaymentRecord[]
+  installmentPlan?: {
+    downPayment: number
+    financedAmount: number
+    markupPercent: number
+    markupAmount: number
+    numberOfInstallments: number
+    frequency: InstallmentFrequency
+    installments: Installment[]
+  }
   refundHistory?: Array<{
     date: string
     amount: number
     method: string
     reason?: string
-    items: Array<{ product: string; quantity: number; amount: number }>
+    items: Array<{ product: string; comboPieces?: string[]; quantity: number; amount: number }>
   }>
 }
 
@@ -110,12 +140,31 @@ export default function SalesDetailPage() {
     return Math.max(0, (sale.paidAmount || 0) - refundedAmount)
   }, [sale, refundedAmount])
 
-  const refundedQtyByProduct = useMemo(() => {
+  // Lines are keyed by product and combo pieces, so a set and a single piece of it refund apart
+  const lineKey = (product: unknown, pieces?: string[]) =>
+    `${String(product)}|${comboPiecesKey(pieces)}`
+
+  // A refund gives back what each unit was actually charged, discounts off and tax included
+  const refundUnitPrice = (item: SaleItem) =>
+    item.quantity > 0 ? linePaidAmount(item) / item.quantity : item.sellingPrice || item.price || 0
+
+  // Sales from before tax classes carry one hand-typed tax figure and no breakdown
+  const taxRows = (sale: SaleDetail) =>
+    sale.taxBreakdown?.length
+      ? sale.taxBreakdown
+          .filter((line) => line.taxAmount > 0)
+          .map((line) => ({
+            label: `${taxLineLabel(line)}${sale.pricesIncludeTax ? ' (incl.)' : ''}`,
+            amount: line.taxAmount
+          }))
+      : [{ label: 'Tax', amount: sale.taxAmount || 0 }]
+
+  const refundedQtyByLine = useMemo(() => {
     const map = new Map<string, number>()
     sale?.refundHistory?.forEach((record) => {
       record.items?.forEach((item) => {
-        const key = String(item.product)
-        map.set(key, (map.get(key) || 0) + item.quantity)
+        const key = lineKey(item.product, item.comboPieces)
+        map.set(key, roundQuantity((map.get(key) || 0) + item.quantity))
       })
     })
     return map
@@ -124,9 +173,8 @@ export default function SalesDetailPage() {
   const refundTotal = useMemo(() => {
     if (!sale) return 0
     return sale.items.reduce((sum, item: any) => {
-      const qty = refundItems[String(item.product)] || 0
-      const price = item.sellingPrice || item.price || 0
-      return sum + qty * price
+      const qty = refundItems[lineKey(item.product, item.comboSelection?.pieces)] || 0
+      return sum + Math.round(qty * refundUnitPrice(item) * 100) / 100
     }, 0)
   }, [refundItems, sale])
 
@@ -167,6 +215,9 @@ export default function SalesDetailPage() {
     return item.baseUnit || 'pcs'
   }
 
+  const formatItemQuantity = (item: SaleItem) =>
+    formatQuantity(item.quantity, item.productKind === 'RAW_MATERIAL')
+
   const handlePrint = () => {
     if (!sale) return
     const content = `
@@ -201,20 +252,55 @@ export default function SalesDetailPage() {
               .map(
                 (item) => `
                   <tr style="border-bottom: 1px solid #e5e7eb;">
-                    <td style="padding: 8px;">${item.productName || item.product?.name || '-'}</td>
-                    <td style="padding: 8px; text-align: center;">${item.quantity}</td>
+                    <td style="padding: 8px;">${item.productName || item.product?.name || '-'}${
+                      item.comboSelection
+                        ? `<div style="font-size: 11px; color: #6b7280;">${comboSelectionLabel(
+                            item.comboSelection
+                          )}</div>`
+                        : ''
+                    }</td>
+                    <td style="padding: 8px; text-align: center;">${formatItemQuantity(item)}</td>
                     <td style="padding: 8px; text-align: right;">${formatCurrency(
                       item.sellingPrice || item.price || 0
                     )}</td>
                     <td style="padding: 8px; text-align: right;">${formatCurrency(
-                      item.totalAmount
-                    )}</td>
+                      netLineAmount(item)
+                    )}${
+                      item.discountAmount
+                        ? `<div style="font-size: 11px; color: #ef4444;">-${formatCurrency(
+                            item.discountAmount
+                          )} discount</div>`
+                        : ''
+                    }</td>
                   </tr>
                 `
               )
               .join('')}
           </tbody>
         </table>
+
+        <div style="margin-top: 12px; margin-left: auto; width: 280px; font-size: 12px;">
+          <div style="display: flex; justify-content: space-between; padding: 2px 0;">
+            <span>Subtotal</span><span>${formatCurrency(sale.subtotal)}</span>
+          </div>
+          ${
+            (sale.discountAmount || 0) > 0
+              ? `<div style="display: flex; justify-content: space-between; padding: 2px 0;">
+                  <span>Discount</span><span>-${formatCurrency(sale.discountAmount)}</span>
+                </div>`
+              : ''
+          }
+          ${taxRows(sale)
+            .map(
+              (row) => `<div style="display: flex; justify-content: space-between; padding: 2px 0;">
+                  <span>${row.label}</span><span>${formatCurrency(row.amount)}</span>
+                </div>`
+            )
+            .join('')}
+          <div style="display: flex; justify-content: space-between; padding: 4px 0; border-top: 1px solid #e5e7eb; font-weight: bold;">
+            <span>Total</span><span>${formatCurrency(sale.totalAmount)}</span>
+          </div>
+        </div>
       </div>
     `
     void printContent({ title: 'Sale Detail', content })
@@ -224,7 +310,7 @@ export default function SalesDetailPage() {
     if (!sale) return
     const defaults: Record<string, number> = {}
     sale.items.forEach((item: any) => {
-      defaults[String(item.product)] = 0
+      defaults[lineKey(item.product, item.comboSelection?.pieces)] = 0
     })
     setRefundItems(defaults)
     setRefundReason('')
@@ -241,9 +327,13 @@ export default function SalesDetailPage() {
       return
     }
 
-    const items = Object.entries(refundItems)
-      .filter(([_, qty]) => qty > 0)
-      .map(([product, quantity]) => ({ product, quantity }))
+    const items = sale.items
+      .map((item: any) => ({
+        product: String(item.product),
+        comboPieces: item.comboSelection?.pieces,
+        quantity: refundItems[lineKey(item.product, item.comboSelection?.pieces)] || 0
+      }))
+      .filter((item) => item.quantity > 0)
 
     if (items.length === 0) {
       toast.error('Select at least one item to refund.')
@@ -370,6 +460,11 @@ export default function SalesDetailPage() {
                       {sale.paymentChannel}
                     </div>
                   )}
+                  {(sale.changeGiven || 0) > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      Change given {formatCurrency(sale.changeGiven)}
+                    </div>
+                  )}
                 </div>
               </div>
               <div>
@@ -417,16 +512,18 @@ export default function SalesDetailPage() {
               <span className="text-muted-foreground">Subtotal</span>
               <span className="font-semibold">{formatCurrency(sale.subtotal)}</span>
             </div>
-            <div className="flex justify-between">
-              <span className="text-muted-foreground">Tax</span>
-              <span className="font-semibold">{formatCurrency(sale.taxAmount)}</span>
-            </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Discount</span>
               <span className="font-semibold text-red-500">
                 -{formatCurrency(sale.discountAmount)}
               </span>
             </div>
+            {taxRows(sale).map((row) => (
+              <div key={row.label} className="flex justify-between">
+                <span className="text-muted-foreground">{row.label}</span>
+                <span className="font-semibold">{formatCurrency(row.amount)}</span>
+              </div>
+            ))}
             <div className="border-t border-border pt-3 flex justify-between text-base font-black">
               <span>Total</span>
               <span>{formatCurrency(sale.totalAmount)}</span>
@@ -454,15 +551,27 @@ export default function SalesDetailPage() {
             <TableBody>
               {sale.items?.map((item, idx) => (
                 <TableRow key={idx}>
-                  <TableCell>{item.productName || item.product?.name || '-'}</TableCell>
+                  <TableCell>
+                    <div>{item.productName || item.product?.name || '-'}</div>
+                    {item.comboSelection && (
+                      <div className="text-xs text-muted-foreground">
+                        {comboSelectionLabel(item.comboSelection)}
+                      </div>
+                    )}
+                  </TableCell>
                   <TableCell className="text-center">
-                    {item.quantity} {getUnitLabel(item)}
+                    {formatItemQuantity(item)} {getUnitLabel(item)}
                   </TableCell>
                   <TableCell className="text-right font-mono">
                     {formatCurrency(item.sellingPrice || item.price || 0)}
                   </TableCell>
                   <TableCell className="text-right font-mono">
-                    {formatCurrency(item.totalAmount)}
+                    <div>{formatCurrency(netLineAmount(item))}</div>
+                    {(item.discountAmount || 0) > 0 && (
+                      <div className="text-xs text-red-500">
+                        -{formatCurrency(item.discountAmount)} discount
+                      </div>
+                    )}
                   </TableCell>
                 </TableRow>
               ))}
@@ -471,6 +580,59 @@ export default function SalesDetailPage() {
         </CardContent>
       </Card>
 
+      {sale.installmentPlan && (
+        <Card className="border-border">
+          <CardHeader className="border-b border-border">
+            <CardTitle className="text-sm font-black uppercase tracking-widest text-muted-foreground">
+              Installment Schedule
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Down payment {formatCurrency(sale.installmentPlan.downPayment)} · financed{' '}
+              {formatCurrency(sale.installmentPlan.financedAmount)}
+              {sale.installmentPlan.markupAmount > 0 &&
+                ` + ${sale.installmentPlan.markupPercent}% markup (${formatCurrency(sale.installmentPlan.markupAmount)})`}{' '}
+              · {sale.installmentPlan.numberOfInstallments}{' '}
+              {installmentFrequencyLabel(sale.installmentPlan.frequency).toLowerCase()} instalments
+            </p>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Due Date</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-center">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sale.installmentPlan.installments.map((installment) => {
+                  const status = installmentStatus(installment)
+                  return (
+                    <TableRow key={installment.number}>
+                      <TableCell>{installment.number}</TableCell>
+                      <TableCell>{format(new Date(installment.dueDate), 'MMM dd, yyyy')}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatCurrency(installment.amount)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatCurrency(installment.paidAmount)}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Badge variant="outline" className={installmentStatusTone(status)}>
+                          {status}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       <Card className="border-border">
         <CardHeader className="border-b border-border">
           <CardTitle className="text-sm font-black uppercase tracking-widest text-muted-foreground">
@@ -492,7 +654,16 @@ export default function SalesDetailPage() {
                 sale.paymentHistory.map((record, idx) => (
                   <TableRow key={idx}>
                     <TableCell>{format(new Date(record.date), 'MMM dd, yyyy HH:mm')}</TableCell>
-                    <TableCell>{record.method}</TableCell>
+                    <TableCell>
+                      <div>{tenderLabel(record)}</div>
+                      {(record.atSale || record.notes) && (
+                        <div className="text-xs text-muted-foreground">
+                          {[record.atSale ? 'At sale' : '', record.notes]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </div>
+                      )}
+                    </TableCell>
                     <TableCell>{record.recordedBy?.fullName || '—'}</TableCell>
                     <TableCell className="text-right font-mono">
                       {formatCurrency(record.amount)}
@@ -555,7 +726,9 @@ export default function SalesDetailPage() {
                       <div className="space-y-1">
                         {record.items.map((item: any, itemIdx: number) => {
                           const saleItem = sale.items.find(
-                            (si: any) => String(si.product) === String(item.product)
+                            (si: any) =>
+                              lineKey(si.product, si.comboSelection?.pieces) ===
+                              lineKey(item.product, item.comboPieces)
                           )
                           return (
                             <div
@@ -566,11 +739,16 @@ export default function SalesDetailPage() {
                                 {saleItem?.productName ||
                                   saleItem?.product?.name ||
                                   'Unknown Product'}
+                                {saleItem?.comboSelection &&
+                                  ` (${comboSelectionLabel(saleItem.comboSelection)})`}
                               </span>
                               <div className="flex items-center gap-3">
                                 <span className="text-xs text-muted-foreground">
                                   {saleItem?.productKind === 'RAW_MATERIAL' ? 'Meters' : 'Qty'}:{' '}
-                                  {item.quantity}
+                                  {formatQuantity(
+                                    item.quantity,
+                                    saleItem?.productKind === 'RAW_MATERIAL'
+                                  )}
                                 </span>
                                 <span className="font-semibold">{formatCurrency(item.amount)}</span>
                               </div>
@@ -640,11 +818,12 @@ export default function SalesDetailPage() {
               </h3>
               <div className="space-y-2">
                 {sale.items.map((item: any, idx: number) => {
-                  const key = String(item.product)
-                  const refundedQty = refundedQtyByProduct.get(key) || 0
-                  const available = Math.max(0, item.quantity - refundedQty)
+                  const key = lineKey(item.product, item.comboSelection?.pieces)
+                  const refundedQty = refundedQtyByLine.get(key) || 0
+                  const available = Math.max(0, roundQuantity(item.quantity - refundedQty))
+                  const isMeters = item.productKind === 'RAW_MATERIAL'
                   const currentRefundQty = refundItems[key] || 0
-                  const itemRefundAmount = (item.sellingPrice || item.price || 0) * currentRefundQty
+                  const itemRefundAmount = refundUnitPrice(item) * currentRefundQty
 
                   return (
                     <Card
@@ -659,22 +838,27 @@ export default function SalesDetailPage() {
                             <h4 className="font-semibold truncate">
                               {item.productName || item.product?.name}
                             </h4>
+                            {item.comboSelection && (
+                              <div className="text-xs text-purple-500 font-medium">
+                                {comboSelectionLabel(item.comboSelection)}
+                              </div>
+                            )}
                             <div className="flex items-center gap-4 mt-1 text-sm text-muted-foreground">
                               <span>
-                                Sold: {item.quantity} {getUnitLabel(item)}
+                                Sold: {formatItemQuantity(item)} {getUnitLabel(item)}
                               </span>
                               <span>•</span>
                               <span>
-                                Available: {available} {getUnitLabel(item)}
+                                Available: {formatQuantity(available, isMeters)}{' '}
+                                {getUnitLabel(item)}
                               </span>
                               <span>•</span>
-                              <span>
-                                Price: {formatCurrency(item.sellingPrice || item.price || 0)}
-                              </span>
+                              <span>Price: {formatCurrency(refundUnitPrice(item))}</span>
                             </div>
                             {refundedQty > 0 && (
                               <div className="text-xs text-amber-600 mt-1">
-                                Already refunded: {refundedQty} {getUnitLabel(item)}
+                                Already refunded: {formatQuantity(refundedQty, isMeters)}{' '}
+                                {getUnitLabel(item)}
                               </div>
                             )}
                           </div>
@@ -695,6 +879,7 @@ export default function SalesDetailPage() {
                                 type="number"
                                 min={0}
                                 max={available}
+                                step={isMeters ? '0.01' : '1'}
                                 value={refundItems[key] || ''}
                                 onChange={(e) => {
                                   const next = Number(e.target.value || 0)
@@ -727,13 +912,13 @@ export default function SalesDetailPage() {
                   <div className="space-y-2">
                     {sale.items
                       .filter((item: any) => {
-                        const key = String(item.product)
+                        const key = lineKey(item.product, item.comboSelection?.pieces)
                         return (refundItems[key] || 0) > 0
                       })
                       .map((item: any, idx: number) => {
-                        const key = String(item.product)
+                        const key = lineKey(item.product, item.comboSelection?.pieces)
                         const qty = refundItems[key]
-                        const amount = (item.sellingPrice || item.price || 0) * qty
+                        const amount = refundUnitPrice(item) * qty
                         return (
                           <div key={idx} className="flex justify-between text-sm">
                             <span className="text-muted-foreground">
@@ -4,7 +4,7 @@ import { useState, useEffect } from 'react'
 import { DataPage } from '@renderer/components/shared/data-page'
 import { Badge } from '@renderer/components/ui/badge'
 import { format } from 'date-fns'
-import { Eye, Trash2, MoreVertical, FileText } from 'lucide-react'
+import { Eye, Trash2, MoreVertical, FileText, Percent, Receipt } from 'lucide-react'
 import {
   Dialog,
   DialogContent,
@@ -291,6 +291,22 @@ export default function SalesReportsPage() {
             <FileText className="w-4 h-4 mr-2" />
             Generate Report
           </Button>
+          <Button
+            variant="outline"
+            className="border-border"
+            onClick={() => navigate('/dashboard/reports/discounts')}
+          >
+            <Percent className="w-4 h-4 mr-2" />
+            Discount Report
+          </Button>
+          <Button
+            variant="outline"
+            className="border-border"
+            onClick={() => navigate('/dashboard/reports/tax')}
+          >
+            <Receipt className="w-4 h-4 mr-2" />
+            Tax Summary
+          </Button>
         </div>
         <Select value={statusFilter} onValueChange={setStatusFilter}>
           <SelectTrigger className="w-[180px] bg-background border-border">
@@ -0,0 +1,242 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { format, startOfMonth } from 'date-fns'
+import { ChevronLeft, FileSpreadsheet, FileText } from 'lucide-react'
+import { Button } from '@renderer/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@renderer/components/ui/card'
+import { Input } from '@renderer/components/ui/input'
+import { Label } from '@renderer/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@renderer/components/ui/table'
+import { exportToExcel, exportToPDF } from '@renderer/lib/export'
+import { taxLineLabel } from '@renderer/lib/tax'
+import { toast } from 'sonner'
+
+type TaxRow = {
+  taxClass: string | null
+  rate: number | null
+  sales: number
+  taxableAmount: number
+  taxAmount: number
+  refundedTax: number
+  netTax: number
+}
+
+type TaxReport = {
+  rows: TaxRow[]
+  totals: { taxableAmount: number; taxAmount: number; refundedTax: number; netTax: number }
+}
+
+const formatCurrency = (value?: number) => `Rs. ${Number(value || 0).toLocaleString()}`
+
+export default function TaxReportPage() {
+  const navigate = useNavigate()
+  const [report, setReport] = useState<TaxReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [startDate, setStartDate] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'))
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+
+  useEffect(() => {
+    loadReport()
+  }, [startDate, endDate])
+
+  const loadReport = async () => {
+    const storeData = localStorage.getItem('selectedStore')
+    const store = storeData ? JSON.parse(storeData) : null
+    if (!store?._id || !startDate || !endDate) return
+    setIsLoading(true)
+    try {
+      const end = new Date(endDate)
+      end.setHours(23, 59, 59, 999)
+      const result = await window.api.sales.getTaxReport({
+        storeId: store._id,
+        startDate: new Date(startDate).toISOString(),
+        endDate: end.toISOString()
+      })
+      if (result.success) setReport(result.data)
+      else toast.error(result.error || 'Failed to load tax report')
+    } catch (error: any) {
+      toast.error('Failed to load tax report: ' + error.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const rows = report?.rows || []
+
+  const buildExportRows = () => [
+    ...rows.map((row) => ({
+      Rate: taxLineLabel(row),
+      Sales: String(row.sales),
+      Taxable: formatCurrency(row.taxableAmount),
+      'Tax Charged': formatCurrency(row.taxAmount),
+      'Tax Refunded': formatCurrency(row.refundedTax),
+      'Net Tax': formatCurrency(row.netTax)
+    })),
+    {
+      Rate: 'TOTAL',
+      Sales: '',
+      Taxable: formatCurrency(report?.totals.taxableAmount),
+      'Tax Charged': formatCurrency(report?.totals.taxAmount),
+      'Tax Refunded': formatCurrency(report?.totals.refundedTax),
+      'Net Tax': formatCurrency(report?.totals.netTax)
+    }
+  ]
+
+  const fileName = `tax_summary_${startDate.replace(/-/g, '')}_${endDate.replace(/-/g, '')}`
+  const title = `Tax Summary (${format(new Date(startDate), 'MMM dd, yyyy')} - ${format(
+    new Date(endDate),
+    'MMM dd, yyyy'
+  )})`
+
+  const handleDownloadPdf = () => {
+    if (!rows.length) {
+      toast.error('No report data to download')
+      return
+    }
+    exportToPDF(buildExportRows(), fileName, title)
+  }
+
+  const handleDownloadExcel = () => {
+    if (!rows.length) {
+      toast.error('No report data to download')
+      return
+    }
+    void exportToExcel(buildExportRows(), fileName, 'Tax Summary')
+  }
+
+  const summary = [
+    { label: 'Taxable Sales', amount: report?.totals.taxableAmount },
+    { label: 'Tax Charged', amount: report?.totals.taxAmount },
+    { label: 'Tax Refunded', amount: report?.totals.refundedTax },
+    { label: 'Net Tax Payable', amount: report?.totals.netTax }
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate('/dashboard/reports/sales')}
+            className="hover:bg-accent"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Tax Summary</h1>
+            <p className="text-sm text-muted-foreground">
+              Tax charged on sales in the period by class and rate, less tax on refunds.
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" className="h-10 border-border" onClick={handleDownloadExcel}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Download Excel
+          </Button>
+          <Button
+            className="h-10 bg-[#4ade80] text-black hover:bg-[#22c55e]"
+            onClick={handleDownloadPdf}
+          >
+            <FileText className="h-4 w-4 mr-2" />
+            Download PDF
+          </Button>
+        </div>
+      </div>
+
+      <Card className="bg-card border-border text-foreground">
+        <CardContent className="pt-6 grid gap-4 md:grid-cols-2 max-w-xl">
+          <div className="space-y-2">
+            <Label className="text-xs uppercase font-bold text-muted-foreground">From</Label>
+            <Input
+              type="date"
+              value={startDate}
+              max={endDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs uppercase font-bold text-muted-foreground">To</Label>
+            <Input
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {summary.map((item) => (
+          <Card key={item.label} className="bg-card border-border text-foreground">
+            <CardContent className="pt-6">
+              <div className="text-xs uppercase font-bold text-muted-foreground">{item.label}</div>
+              <div className="text-xl font-bold">{formatCurrency(item.amount)}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="bg-card border-border text-foreground">
+        <CardHeader className="border-b border-border py-4">
+          <CardTitle className="text-lg">By Rate</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tax Class</TableHead>
+                <TableHead className="text-center">Sales</TableHead>
+                <TableHead className="text-right">Taxable</TableHead>
+                <TableHead className="text-right">Tax Charged</TableHead>
+                <TableHead className="text-right">Tax Refunded</TableHead>
+                <TableHead className="text-right">Net Tax</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    Loading report...
+                  </TableCell>
+                </TableRow>
+              ) : rows.length > 0 ? (
+                rows.map((row) => (
+                  <TableRow key={`${row.taxClass}-${row.rate}`}>
+                    <TableCell className="font-semibold">{taxLineLabel(row)}</TableCell>
+                    <TableCell className="text-center">{row.sales}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(row.taxableAmount)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.taxAmount)}</TableCell>
+                    <TableCell className="text-right text-red-400">
+                      {row.refundedTax > 0 ? `-${formatCurrency(row.refundedTax)}` : '-'}
+                    </TableCell>
+                    <TableCell className="text-right font-bold">
+                      {formatCurrency(row.netTax)}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    No sales in this period.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -26,6 +26,7 @@ import {
   TableRow
 } from '@renderer/components/ui/table'
 import { useNavigate } from 'react-router-dom'
+import { tenderLabel } from '@renderer/lib/tenders'
 
 type GroupBy = 'day' | 'week' | 'month'
 
@@ -64,8 +65,17 @@ interface SaleItem {
   customer?: { name?: string; phone?: string }
 }
 
+// Money the till took in the range by method and transfer channel
+interface TenderTotal {
+  method: string
+  channel?: string
+  count: number
+  amount: number
+}
+
 interface SalesReportData {
   summary: ReportSummary
+  tenders: TenderTotal[]
   grouped: ReportGroup[]
   sales: SaleItem[]
 }
@@ -221,6 +231,34 @@ export default function SalesPage() {
           </div>
         </div>
 
+        <div style="margin-top: 20px;">
+          <h3 style="margin: 0 0 8px; font-size: 14px;">Takings by Tender</h3>
+          <table style="width: 100%; border-collapse: collapse; font-size: 12px;">
+            <thead>
+              <tr style="background: #f3f4f6; text-align: left;">
+                <th style="padding: 8px;">Tender</th>
+                <th style="padding: 8px; text-align: right;">Payments</th>
+                <th style="padding: 8px; text-align: right;">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${(report.tenders || [])
+                .map(
+                  (tender) => `
+                    <tr style="border-bottom: 1px solid #e5e7eb;">
+                      <td style="padding: 8px;">${tenderLabel(tender)}</td>
+                      <td style="padding: 8px; text-align: right;">${tender.count}</td>
+                      <td style="padding: 8px; text-align: right;">${formatCurrency(
+                        tender.amount
+                      )}</td>
+                    </tr>
+                  `
+                )
+                .join('')}
+            </tbody>
+          </table>
+        </div>
+
         <div style="margin-top: 20px;">
           <h3 style="margin: 0 0 8px; font-size: 14px;">Sales Summary</h3>
           <table style="width: 100%; border-collapse: collapse; font-size: 12px;">
@@ -555,6 +593,44 @@ export default function SalesPage() {
           </CardContent>
         </Card>
       </div>
+
+      <Card className="border-border">
+        <CardHeader className="border-b border-border">
+          <CardTitle className="text-sm font-black uppercase tracking-widest text-muted-foreground">
+            Takings by Tender
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tender</TableHead>
+                <TableHead className="text-right">Payments</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report?.tenders?.length ? (
+                report.tenders.map((tender) => (
+                  <TableRow key={tenderLabel(tender)}>
+                    <TableCell className="font-semibold">{tenderLabel(tender)}</TableCell>
+                    <TableCell className="text-right font-mono">{tender.count}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatCurrency(tender.amount)}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-muted-foreground py-12">
+                    No payments taken in the selected range.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
     </div>
   )
 }
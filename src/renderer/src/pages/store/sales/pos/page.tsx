@@ -9,7 +9,12 @@ import {
   Edit3,
   Printer,
   ShoppingBag,
-  SearchX
+  SearchX,
+  Pause,
+  ClipboardList,
+  FileText,
+  Vault,
+  X
 } from 'lucide-react'
 import { LoadingButton } from '@renderer/components/ui/loading-button'
 import { Button } from '@renderer/components/ui/button'
@@ -40,16 +45,66 @@ import {
   TableHeader,
   TableRow
 } from '@renderer/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@renderer/components/ui/select'
 import { toast } from 'sonner'
-import { format } from 'date-fns'
+import { addDays, addMonths, format } from 'date-fns'
 import { z } from 'zod'
 import { useForm, useWatch, type Resolver } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { Form, FormControl, FormField, FormItem } from '@renderer/components/ui/form'
 import { Label } from '@renderer/components/ui/label'
 import { SearchableSelect } from '@renderer/components/shared/searchable-select'
-import { useNavigate } from 'react-router-dom'
+import { useLocation, useNavigate } from 'react-router-dom'
 import { printContent } from '@renderer/lib/print-utils'
+import {
+  comboAvailable,
+  comboOptions,
+  comboPiecesKey,
+  comboSelectionLabel,
+  type ComboOption,
+  type ComboSelection
+} from '@renderer/lib/combos'
+import {
+  formatQuantity,
+  meterStepFor,
+  roundQuantity,
+  roundUpToStep
+} from '@renderer/lib/quantities'
+import {
+  lineDiscountAmount,
+  netLineAmount,
+  percentBelowList,
+  roundMoney,
+  type LineDiscount
+} from '@renderer/lib/discounts'
+import {
+  taxClassOf,
+  taxLineLabel,
+  taxLines,
+  taxSettingsFrom,
+  type TaxClass,
+  type TaxLine
+} from '@renderer/lib/tax'
+import {
+  INSTALLMENT_FREQUENCY_OPTIONS,
+  installmentFrequencyLabel,
+  previewInstallments,
+  type Installment,
+  type InstallmentFrequency
+} from '@renderer/lib/installments'
+import {
+  TENDER_METHODS,
+  tenderLabel,
+  tenderSummary,
+  type Tender,
+  type TenderMethod
+} from '@renderer/lib/tenders'
 
 const bankTransferOptions = ['JazzCash', 'EasyPaisa', 'Bank', 'Other'] as const
 
@@ -58,8 +113,7 @@ const checkoutSchema = z
     customerId: z.string().default(''),
     discountPercent: z.coerce.number().min(0).max(100).default(0),
     discountAmount: z.coerce.number().min(0).default(0),
-    taxAmount: z.coerce.number().min(0).default(0),
-    paymentMethod: z.enum(['Cash', 'Bank Transfer', 'Credit']),
+    paymentMethod: z.enum(['Cash', 'Bank Transfer', 'Split', 'Credit', 'Installment']),
     paymentChannel: z.enum(bankTransferOptions).optional(),
     creditPaidAmount: z.coerce.number().min(0).default(0)
   })
@@ -83,9 +137,15 @@ interface Product {
   buyingPrice?: number
   sellingPrice: number
   stockLevel: number
-  productKind: 'SIMPLE' | 'RAW_MATERIAL'
+  productKind: 'SIMPLE' | 'RAW_MATERIAL' | 'COMBO_SET'
+  minCutLength?: number
+  comboComponents?: Array<{ name: string; sellingPrice?: number; stockLevel: number }>
+  canSellSeparate?: boolean
+  canSellPartialSet?: boolean
+  twoComponentPrices?: Array<{ components: string[]; sellingPrice: number }>
   isActive?: boolean
-  category?: { name: string }
+  taxClass?: TaxClass | null
+  category?: { name: string; taxClass?: TaxClass }
   images?: string[]
   description?: string
   quantity?: number // For meter entry logic
@@ -93,6 +153,12 @@ interface Product {
 
 interface CartItem extends Product {
   quantity: number
+  // The product id, or product and pieces for combo sets sold in parts
+  lineId: string
+  comboSelection?: ComboSelection
+  // Price when the line was added; sellingPrice differs from it once the cashier overrides it
+  listPrice: number
+  discount?: LineDiscount
 }
 
 interface Store {
@@ -100,6 +166,7 @@ interface Store {
   name: string
   address?: string
   phone?: string
+  settings?: { meterStep?: number }
 }
 
 interface Customer {
@@ -107,15 +174,59 @@ interface Customer {
   name: string
   phone: string
   email?: string
+  balance?: number
+  creditLimit?: number | null
+  maxDaysOverdue?: number | null
 }
 
 interface SaleItem {
   productName: string
+  comboSelection?: ComboSelection
   quantity: number
+  listPrice?: number
   sellingPrice: number
+  discountAmount?: number
   totalAmount: number
 }
 
+interface HeldCart {
+  _id: string
+  label: string
+  customer?: { _id: string; name: string; phone?: string }
+  items: Array<{
+    product: string
+    productName: string
+    quantity: number
+    comboSelection?: ComboSelection
+    listPrice: number
+    sellingPrice: number
+    discount?: LineDiscount
+  }>
+  discountAmount: number
+  discountPercent: number
+  heldBy?: { fullName: string }
+  expiresAt: string
+  createdAt: string
+}
+
+interface Quotation {
+  _id: string
+  quotationNumber: string
+  status: 'OPEN' | 'ACCEPTED' | 'EXPIRED'
+  customer?: { _id: string; name: string }
+  items: Array<{
+    product: string
+    productName: string
+    quantity: number
+    comboSelection?: ComboSelection
+    sellingPrice: number
+    discountAmount?: number
+    discountPercent?: number
+  }>
+  discountAmount: number
+  discountPercent?: number
+}
+
 interface Sale {
   invoiceNumber: string
   saleDate: Date
@@ -123,15 +234,39 @@ interface Sale {
   items: SaleItem[]
   subtotal: number
   taxAmount: number
+  taxBreakdown?: TaxLine[]
+  pricesIncludeTax?: boolean
   discountAmount: number
   totalAmount: number
   paymentMethod: string
   paymentChannel?: string
   paymentStatus: string
+  paymentHistory?: Array<{ method: string; channel?: string; amount: number; atSale?: boolean }>
+  changeGiven?: number
+  installmentPlan?: {
+    numberOfInstallments: number
+    frequency: InstallmentFrequency
+    markupAmount: number
+    installments: Installment[]
+  }
 }
 
+// How long a quotation made at the POS stays valid unless the cashier picks another date
+const QUOTATION_VALID_DAYS = 7
+
+// Payment methods that leave part of the sale on the customer's account
+const ON_ACCOUNT_METHODS = ['Credit', 'Installment']
+
+const defaultInstallmentPlan = () => ({
+  numberOfInstallments: 3,
+  frequency: 'MONTHLY' as InstallmentFrequency,
+  markupPercent: 0,
+  firstDueDate: format(addMonths(new Date(), 1), 'yyyy-MM-dd')
+})
+
 export default function POSPage() {
   const navigate = useNavigate()
+  const location = useLocation()
   const [cart, setCart] = useState<CartItem[]>([])
   const [search, setSearch] = useState('')
   const [products, setProducts] = useState<Product[]>([])
@@ -148,8 +283,38 @@ export default function POSPage() {
   const [meterProduct, setMeterProduct] = useState<Product | null>(null)
   const [meterInput, setMeterInput] = useState('')
   const [isEditingMeters, setIsEditingMeters] = useState(false)
+  // Combo set waiting for the cashier to pick full set, a piece or a pair
+  const [comboProduct, setComboProduct] = useState<Product | null>(null)
   const meterInputRef = useRef<HTMLInputElement>(null)
   const [creditDialogOpen, setCreditDialogOpen] = useState(false)
+  // Set when the customer's credit rules refuse this sale; a manager can approve it anyway
+  const [creditBlock, setCreditBlock] = useState<{ rule: string; message: string } | null>(null)
+  const [managerApproval, setManagerApproval] = useState({ email: '', password: '', reason: '' })
+  // Cash handed over for a cash sale, and the tenders of a sale paid several ways
+  const [cashReceived, setCashReceived] = useState('')
+  const [tenders, setTenders] = useState<Tender[]>([])
+  // Repayment terms for an instalment sale; the down payment is what is paid now
+  const [installmentPlan, setInstallmentPlan] = useState(defaultInstallmentPlan)
+  // Largest discount below list price this cashier may give; null until it has loaded
+  const [maxDiscountPercent, setMaxDiscountPercent] = useState<number | null>(null)
+  // Tax rates are read fresh from the store, so the till works out tax as the sale will book it
+  const [taxSettings, setTaxSettings] = useState(taxSettingsFrom())
+  // Carts parked at any terminal of the store, and the stock they hold back
+  // The cashier's open till shift; sales can only be taken while one is open
+  const [currentShift, setCurrentShift] = useState<{ _id: string; shiftNumber: string } | null>(
+    null
+  )
+  const [heldCarts, setHeldCarts] = useState<HeldCart[]>([])
+  const [heldStock, setHeldStock] = useState<Record<string, number>>({})
+  const [heldCartsOpen, setHeldCartsOpen] = useState(false)
+  const [holdDialogOpen, setHoldDialogOpen] = useState(false)
+  const [holdLabel, setHoldLabel] = useState('')
+  const [isHolding, setIsHolding] = useState(false)
+  // Estimate for a customer, priced from the cart; and the quotation being sold, if any
+  const [quoteDialogOpen, setQuoteDialogOpen] = useState(false)
+  const [quoteForm, setQuoteForm] = useState({ customerName: '', validUntil: '', notes: '' })
+  const [isSavingQuote, setIsSavingQuote] = useState(false)
+  const [quotation, setQuotation] = useState<{ _id: string; quotationNumber: string } | null>(null)
 
   // Receipt state
   const [lastSale, setLastSale] = useState<Sale | null>(null)
@@ -240,12 +405,56 @@ export default function POSPage() {
     }
   }
 
+  const loadHeldCarts = async () => {
+    if (!currentStore?._id) return
+    try {
+      const [cartsResult, stockResult] = await Promise.all([
+        window.api.heldCarts.getAll(currentStore._id),
+        window.api.heldCarts.getHeldStock(currentStore._id)
+      ])
+      if (cartsResult.success) setHeldCarts(cartsResult.data)
+      if (stockResult.success) setHeldStock(stockResult.data)
+    } catch (error) {
+      toast.error('Error loading held carts')
+    }
+  }
+
   useEffect(() => {
     if (currentStore?._id) {
       loadProducts()
+      loadHeldCarts()
     }
   }, [currentStore?._id])
 
+  useEffect(() => {
+    const userStr = localStorage.getItem('user')
+    const user = userStr ? JSON.parse(userStr) : null
+    if (!currentStore?._id || !user) return
+    window.api.sales
+      .getDiscountLimit({ storeId: currentStore._id, userId: user.id || user._id })
+      .then((result) => {
+        if (result.success) setMaxDiscountPercent(result.data.maxDiscountPercent)
+      })
+  }, [currentStore?._id])
+
+  useEffect(() => {
+    const userStr = localStorage.getItem('user')
+    const user = userStr ? JSON.parse(userStr) : null
+    if (!currentStore?._id || !user) return
+    window.api.shifts
+      .getCurrent({ storeId: currentStore._id, userId: user.id || user._id })
+      .then((result) => {
+        if (result.success) setCurrentShift(result.data)
+      })
+  }, [currentStore?._id])
+
+  useEffect(() => {
+    if (!currentStore?._id) return
+    window.api.stores.getById(currentStore._id).then((result) => {
+      if (result.success) setTaxSettings(taxSettingsFrom(result.data.settings))
+    })
+  }, [currentStore?._id])
+
   useEffect(() => {
     if (meterSheetOpen) {
       setTimeout(() => meterInputRef.current?.focus(), 0)
@@ -253,12 +462,16 @@ export default function POSPage() {
   }, [meterSheetOpen])
 
   const manualRefresh = async () => {
-    await loadProducts()
+    await Promise.all([loadProducts(), loadHeldCarts()])
     toast.success('Product prices refreshed')
   }
 
   const sellableProducts = products.filter(
-    (p) => (p.productKind === 'SIMPLE' || p.productKind === 'RAW_MATERIAL') && p.isActive !== false
+    (p) =>
+      (p.productKind === 'SIMPLE' ||
+        p.productKind === 'RAW_MATERIAL' ||
+        (p.productKind === 'COMBO_SET' && (p.comboComponents?.length || 0) > 0)) &&
+      p.isActive !== false
   )
 
   const filteredProducts = sellableProducts.filter(
@@ -342,6 +555,16 @@ export default function POSPage() {
     setSelectedIndex(0)
   }
 
+  // Held stock is only a heads-up: the cart that holds it may never come back
+  const warnIfHeld = (product: Product, quantity: number) => {
+    const held = heldStock[product._id] || 0
+    if (held > 0 && quantity > (product.stockLevel || 0) - held) {
+      toast.warning(
+        `${formatQuantity(held, product.productKind === 'RAW_MATERIAL')} of ${product.name} is held in a parked cart`
+      )
+    }
+  }
+
   const openMetersSheet = (product: Product, isEdit = false) => {
     setMeterProduct(product)
     setMeterInput(isEdit ? String(product.quantity ?? '') : '')
@@ -356,7 +579,7 @@ export default function POSPage() {
       return false
     }
     const existingItem = cart.find((item) => item._id === product._id)
-    const nextQuantity = existingItem ? existingItem.quantity + meters : meters
+    const nextQuantity = roundQuantity(existingItem ? existingItem.quantity + meters : meters)
 
     if (nextQuantity > stock) {
       setStockAlert({
@@ -367,17 +590,20 @@ export default function POSPage() {
       return false
     }
 
+    warnIfHeld(product, nextQuantity)
     if (existingItem) {
       setCart(
         cart.map((item) => (item._id === product._id ? { ...item, quantity: nextQuantity } : item))
       )
-      toast.success(`Added ${meters} meter(s) of ${product.name}`)
+      toast.success(`Added ${formatQuantity(meters, true)} meter(s) of ${product.name}`)
     } else {
       setCart([
         ...cart,
         {
           ...product,
+          lineId: product._id,
           quantity: meters,
+          listPrice: product.sellingPrice || product.buyingPrice || 0,
           sellingPrice: product.sellingPrice || product.buyingPrice || 0
         } as CartItem
       ])
@@ -387,9 +613,26 @@ export default function POSPage() {
     return true
   }
 
+  const meterStep = meterStepFor(currentStore)
+
   const confirmMeters = () => {
     if (!meterProduct) return
-    const meters = Number(meterInput)
+    const entered = Number(meterInput)
+    if (!(entered > 0)) {
+      toast.error('Please enter a valid meters quantity')
+      return
+    }
+    // Cuts are sold in whole steps and never shorter than the product's minimum cut
+    const meters = roundUpToStep(entered, meterStep)
+    if (meterProduct.minCutLength && meters < meterProduct.minCutLength) {
+      toast.error(
+        `The shortest cut of ${meterProduct.name} is ${formatQuantity(meterProduct.minCutLength, true)} m`
+      )
+      return
+    }
+    if (meters !== roundQuantity(entered)) {
+      toast.info(`Rounded up to ${formatQuantity(meters, true)} m`)
+    }
     const success = isEditingMeters
       ? updateMetersDirect(meterProduct._id, meters)
       : addRawMaterialToCart(meterProduct, meters)
@@ -415,6 +658,10 @@ export default function POSPage() {
       openMetersSheet(product)
       return
     }
+    if (product.productKind === 'COMBO_SET') {
+      setComboProduct(product)
+      return
+    }
     const stock = product.stockLevel || 0
     if (stock <= 0) {
       setStockAlert({
@@ -435,6 +682,7 @@ export default function POSPage() {
         })
         return
       }
+      warnIfHeld(product, existingItem.quantity + 1)
       setCart(
         cart.map((item) =>
           item._id === product._id ? { ...item, quantity: item.quantity + 1 } : item
@@ -442,11 +690,14 @@ export default function POSPage() {
       )
       toast.success(`Added ${product.name} to cart`)
     } else {
+      warnIfHeld(product, 1)
       setCart([
         ...cart,
         {
           ...product,
+          lineId: product._id,
           quantity: 1,
+          listPrice: product.sellingPrice || product.buyingPrice || 0,
           sellingPrice: product.sellingPrice || product.buyingPrice || 0
         } as CartItem
       ])
@@ -454,16 +705,68 @@ export default function POSPage() {
     }
   }
 
+  // Pieces of the same combo set can be on several lines, so stock is what the
+  // components have left after the other lines
+  const comboStockFor = (product: Product, pieces: string[], lineId: string) =>
+    comboAvailable(
+      product,
+      pieces,
+      cart
+        .filter((item) => item._id === product._id && item.lineId !== lineId)
+        .map((item) => ({ pieces: item.comboSelection?.pieces || [], quantity: item.quantity }))
+    )
+
+  const addComboToCart = (product: Product, option: ComboOption) => {
+    const lineId = `${product._id}:${option.key}`
+    const existingItem = cart.find((item) => item.lineId === lineId)
+    const nextQuantity = (existingItem?.quantity || 0) + 1
+    if (nextQuantity > comboStockFor(product, option.pieces, lineId)) {
+      setStockAlert({
+        open: true,
+        message: existingItem
+          ? 'You cannot add more of this item. Maximum stock level reached.'
+          : 'This item is currently out of stock.',
+        product: product
+      })
+      return
+    }
+
+    const label = option.mode === 'FULL_SET' ? product.name : `${product.name} (${option.label})`
+    if (existingItem) {
+      setCart(
+        cart.map((item) => (item.lineId === lineId ? { ...item, quantity: nextQuantity } : item))
+      )
+      toast.success(`Added ${label} to cart`)
+    } else {
+      setCart([
+        ...cart,
+        {
+          ...product,
+          lineId,
+          comboSelection: { mode: option.mode, pieces: option.pieces },
+          quantity: 1,
+          listPrice: option.price,
+          sellingPrice: option.price
+        } as CartItem
+      ])
+      toast.success(`${label} added to cart`)
+    }
+    setComboProduct(null)
+  }
+
   const updateQuantity = (id: string, delta: number) => {
     setCart(
       cart.map((item) => {
-        if (item._id === id) {
+        if (item.lineId === id) {
           if (item.productKind === 'RAW_MATERIAL') return item
           const newQty = item.quantity + delta
-          const product = products.find((p) => p._id === id)
+          const product = products.find((p) => p._id === item._id)
           if (!product) return item
 
-          if (newQty > (product.stockLevel || 0)) {
+          const stock = item.comboSelection
+            ? comboStockFor(product, item.comboSelection.pieces, item.lineId)
+            : product.stockLevel || 0
+          if (newQty > stock) {
             setStockAlert({
               open: true,
               message: 'Maximum available stock reached for this item.',
@@ -478,10 +781,6 @@ export default function POSPage() {
     )
   }
 
-  const updatePrice = (id: string, newPrice: number) => {
-    setCart(cart.map((item) => (item._id === id ? { ...item, sellingPrice: newPrice } : item)))
-  }
-
   const updateMetersDirect = (id: string, meters: number) => {
     if (Number.isNaN(meters) || meters <= 0) return false
     const product = products.find((p) => p._id === id)
@@ -565,14 +864,31 @@ export default function POSPage() {
     return () => window.removeEventListener('keydown', handleMeterShortcuts)
   }, [meterSheetOpen, confirmMeters, handleMeterKey, handleMeterSheetChange])
 
-  const formatQuantity = (item: CartItem) =>
-    item.productKind === 'RAW_MATERIAL' ? item.quantity.toFixed(1) : item.quantity
+  const formatCartQuantity = (item: CartItem) =>
+    formatQuantity(item.quantity, item.productKind === 'RAW_MATERIAL')
 
   const formatSaleQuantity = (quantity: number) =>
-    Number.isInteger(quantity) ? quantity : quantity.toFixed(1)
+    formatQuantity(quantity, !Number.isInteger(quantity))
 
   const removeFromCart = (id: string) => {
-    setCart(cart.filter((item) => item._id !== id))
+    setCart(cart.filter((item) => item.lineId !== id))
+  }
+
+  const updatePrice = (id: string, newPrice: number) => {
+    setCart(cart.map((item) => (item.lineId === id ? { ...item, sellingPrice: newPrice } : item)))
+  }
+
+  const updateLineDiscount = (id: string, changes: Partial<LineDiscount>) => {
+    setCart(
+      cart.map((item) =>
+        item.lineId === id
+          ? {
+              ...item,
+              discount: { type: 'AMOUNT', value: 0, ...item.discount, ...changes }
+            }
+          : item
+      )
+    )
   }
 
   const form = useForm<CheckoutFormValues>({
@@ -581,22 +897,43 @@ export default function POSPage() {
       customerId: '',
       discountPercent: 0,
       discountAmount: 0,
-      taxAmount: 0,
       paymentMethod: 'Cash',
       creditPaidAmount: 0
     }
   })
 
   const formValues = useWatch({ control: form.control })
-  const { discountPercent, discountAmount, taxAmount, paymentMethod } = formValues
-
-  const subtotal = cart.reduce((sum, item) => sum + item.sellingPrice * item.quantity, 0)
+  const { discountPercent, discountAmount, paymentMethod } = formValues
+
+  // Fractional meters can leave sub-paisa amounts, so each line is kept to 2 decimals
+  const lineGross = (item: CartItem) => roundMoney(item.sellingPrice * item.quantity)
+  const lineDiscount = (item: CartItem) => lineDiscountAmount(lineGross(item), item.discount)
+  const lineTotal = (item: CartItem) => roundMoney(lineGross(item) - lineDiscount(item))
+  const lineBelowList = (item: CartItem) =>
+    percentBelowList(roundMoney(item.listPrice * item.quantity), lineTotal(item))
+  const subtotal = roundMoney(cart.reduce((sum, item) => sum + lineTotal(item), 0))
   const effectiveDiscount =
-    (discountAmount || 0) > 0 ? discountAmount || 0 : subtotal * ((discountPercent || 0) / 100)
-  const total = subtotal - effectiveDiscount + (taxAmount || 0)
+    (discountAmount || 0) > 0
+      ? discountAmount || 0
+      : roundMoney(subtotal * ((discountPercent || 0) / 100))
+  const tax = taxLines(
+    cart.map((item) => ({ amount: lineTotal(item), taxClass: taxClassOf(item) })),
+    effectiveDiscount,
+    taxSettings
+  )
+  // Tax-inclusive prices already carry the tax; otherwise it is added on top
+  const total = roundMoney(
+    subtotal - effectiveDiscount + (taxSettings.pricesIncludeTax ? 0 : tax.taxAmount)
+  )
+  const saleBelowList = percentBelowList(
+    roundMoney(cart.reduce((sum, item) => sum + item.listPrice * item.quantity, 0)),
+    subtotal - effectiveDiscount
+  )
+  const overDiscountLimit = (percent: number) =>
+    maxDiscountPercent !== null && percent > maxDiscountPercent
 
   useEffect(() => {
-    if (paymentMethod === 'Credit') {
+    if (paymentMethod && ON_ACCOUNT_METHODS.includes(paymentMethod)) {
       setCreditDialogOpen(true)
     }
   }, [paymentMethod])
@@ -630,21 +967,99 @@ export default function POSPage() {
   }, [creditDialogOpen])
 
   const selectedCustomer = customers.find((customer) => customer._id === selectedCustomerId)
+  const unpaidAtSale = Math.max(0, total - Math.min(formValues.creditPaidAmount || 0, total))
+  const installmentFirstDue = new Date(`${installmentPlan.firstDueDate}T00:00:00`)
+  const hasInstallmentFirstDue = !Number.isNaN(installmentFirstDue.getTime())
+  const installmentPreview = previewInstallments({
+    financedAmount: unpaidAtSale,
+    markupPercent: installmentPlan.markupPercent,
+    numberOfInstallments: installmentPlan.numberOfInstallments,
+    frequency: installmentPlan.frequency,
+    firstDueDate: hasInstallmentFirstDue ? installmentFirstDue : new Date()
+  })
+  // The instalment markup is owed on top of the unpaid part of the sale
+  const amountOnAccount = roundMoney(
+    unpaidAtSale + (paymentMethod === 'Installment' ? installmentPreview.markupAmount : 0)
+  )
+
+  const cashTender = tenderSummary(
+    [{ method: 'Cash', amount: Number(cashReceived) || total }],
+    total
+  )
+  const splitTender = tenderSummary(tenders, total)
+
+  const updateTender = (index: number, changes: Partial<Tender>) =>
+    setTenders((prev) =>
+      prev.map((tender, position) => (position === index ? { ...tender, ...changes } : tender))
+    )
+
+  const addTender = () =>
+    setTenders((prev) => [
+      ...prev,
+      {
+        method: prev.some((tender) => tender.method === 'Cash') ? 'Card' : 'Cash',
+        amount: tenderSummary(prev, total).remaining
+      }
+    ])
+
+  // What the customer paid with, for the main process to settle and book per account
+  const saleTenders = (values: CheckoutFormValues): Tender[] | undefined => {
+    if (values.paymentMethod === 'Cash') {
+      return [{ method: 'Cash', amount: Number(cashReceived) || total }]
+    }
+    if (values.paymentMethod === 'Bank Transfer') {
+      return [{ method: 'Bank Transfer', channel: values.paymentChannel, amount: total }]
+    }
+    if (values.paymentMethod === 'Split') return tenders.filter((tender) => tender.amount > 0)
+    return undefined
+  }
+
+  useEffect(() => {
+    if (!creditDialogOpen || customerMode !== 'existing' || !selectedCustomerId) {
+      setCreditBlock(null)
+      return
+    }
+    const checkCredit = async () => {
+      const result = await window.api.customers.checkCredit({
+        customerId: selectedCustomerId,
+        amount: amountOnAccount
+      })
+      if (result.success) {
+        setCreditBlock(result.data.allowed ? null : result.data)
+      }
+    }
+    void checkCredit()
+  }, [creditDialogOpen, customerMode, selectedCustomerId, amountOnAccount])
 
   const handleCreditSave = async () => {
     const isValid = await form.trigger(['creditPaidAmount'])
     if (!isValid) return
 
-    if (paymentMethod !== 'Credit') {
+    if (!paymentMethod || !ON_ACCOUNT_METHODS.includes(paymentMethod)) {
       setCreditDialogOpen(false)
       return
     }
 
+    if (paymentMethod === 'Installment') {
+      if (!hasInstallmentFirstDue) {
+        toast.error('Pick the date the first instalment is due.')
+        return
+      }
+      if (unpaidAtSale <= 0) {
+        toast.error('The down payment covers the whole sale. Take it as a cash sale instead.')
+        return
+      }
+    }
+
     if (customerMode === 'existing') {
       if (!selectedCustomerId) {
         toast.error('Please select a customer for credit sales.')
         return
       }
+      if (creditBlock && (!managerApproval.email.trim() || !managerApproval.password)) {
+        toast.error('This sale is outside the customer credit terms. A manager must approve it.')
+        return
+      }
       form.setValue('customerId', selectedCustomerId)
       setCreditDialogOpen(false)
       return
@@ -686,16 +1101,65 @@ export default function POSPage() {
     }
   }
 
+  // The cart as sale or quotation lines, with the prices and totals the main process re-checks
+  const saleItems = () =>
+    cart.map((item) => ({
+      product: item._id,
+      productName: item.name,
+      comboSelection: item.comboSelection,
+      quantity: item.quantity,
+      listPrice: item.listPrice,
+      sellingPrice: item.sellingPrice,
+      discountAmount: item.discount?.type === 'AMOUNT' ? lineDiscount(item) : 0,
+      discountPercent: item.discount?.type === 'PERCENT' ? Math.min(item.discount.value, 100) : 0,
+      totalAmount: lineGross(item)
+    }))
+
   const onSubmit = async (values: CheckoutFormValues) => {
     if (cart.length === 0) return
     if (!currentStore?._id) return
 
+    if (!currentShift) {
+      toast.error('Open a till shift before taking sales.', {
+        action: { label: 'Open Shift', onClick: () => navigate('/dashboard/shifts') }
+      })
+      return
+    }
+
+    const overLimitItem = cart.find((item) => overDiscountLimit(lineBelowList(item)))
+    if (overLimitItem || overDiscountLimit(saleBelowList)) {
+      toast.error(
+        `${overLimitItem ? overLimitItem.name : 'This sale'} is discounted more than the ${maxDiscountPercent}% you may give.`
+      )
+      return
+    }
+
     if (values.paymentMethod === 'Bank Transfer' && !values.paymentChannel) {
       toast.error('Please select a bank transfer method.')
       return
     }
 
-    if (values.paymentMethod === 'Credit') {
+    if (values.paymentMethod === 'Cash' && cashTender.remaining > 0) {
+      toast.error(`Cash received is Rs. ${cashTender.remaining.toLocaleString()} short.`)
+      return
+    }
+
+    if (values.paymentMethod === 'Split') {
+      if (splitTender.remaining > 0) {
+        toast.error(`Rs. ${splitTender.remaining.toLocaleString()} is still to be paid.`)
+        return
+      }
+      if (splitTender.changeExceedsCash) {
+        toast.error('Card and transfer payments cannot be more than the amount due.')
+        return
+      }
+      if (tenders.some((tender) => tender.method === 'Bank Transfer' && !tender.channel)) {
+        toast.error('Please select a bank transfer method.')
+        return
+      }
+    }
+
+    if (ON_ACCOUNT_METHODS.includes(values.paymentMethod)) {
       if (!values.customerId?.trim()) {
         toast.error('Customer ID is required for credit sales.')
         setCreditDialogOpen(true)
@@ -713,60 +1177,56 @@ export default function POSPage() {
 
     setIsSubmitting(true)
     try {
-      // Calculate total profit
-      let totalProfit = 0
-
-      const items = cart.map((item) => {
-        const costPrice = item.buyingPrice || 0
-        const profit = (item.sellingPrice - costPrice) * item.quantity
-        totalProfit += profit
-
-        return {
-          product: item._id,
-          productName: item.name,
-          quantity: item.quantity,
-          sellingPrice: item.sellingPrice,
-          costPrice: costPrice,
-          totalAmount: item.sellingPrice * item.quantity,
-          profitAmount: profit,
-          discountAmount: 0
-        }
-      })
-
-      // Adjust total profit with global discount
-      if (effectiveDiscount > 0) {
-        totalProfit -= effectiveDiscount
-      }
+      // Cost and profit are worked out by the main process; prices and totals are sent so
+      // it can refuse the sale if this screen is out of date
+      const items = saleItems()
 
       const creditPaidAmount = Math.min(values.creditPaidAmount || 0, total)
-      const paidAmount = values.paymentMethod === 'Credit' ? creditPaidAmount : total
-      const paymentStatus =
-        values.paymentMethod === 'Credit'
-          ? paidAmount >= total
-            ? 'PAID'
-            : paidAmount > 0
-              ? 'PARTIAL'
-              : 'PENDING'
-          : 'PAID'
+      const onAccount = ON_ACCOUNT_METHODS.includes(values.paymentMethod)
+      const paidAmount = onAccount ? creditPaidAmount : total
+      const paymentStatus = onAccount
+        ? paidAmount >= total
+          ? 'PAID'
+          : paidAmount > 0
+            ? 'PARTIAL'
+            : 'PENDING'
+        : 'PAID'
 
       const salePayload = {
         store: currentStore._id,
         soldBy: user.id || user._id,
-        invoiceNumber: `INV-${Date.now()}`,
         customer: values.customerId || undefined,
         items: items,
         totalAmount: total,
         subtotal: subtotal,
-        taxAmount: values.taxAmount,
+        taxAmount: tax.taxAmount,
         discountAmount: effectiveDiscount,
         discountPercent: values.discountPercent,
         paidAmount: paidAmount,
         paymentMethod: values.paymentMethod,
         paymentChannel:
           values.paymentMethod === 'Bank Transfer' ? values.paymentChannel : undefined,
+        tenders: saleTenders(values),
         paymentStatus: paymentStatus,
-        profitAmount: totalProfit,
-        saleDate: new Date()
+        saleDate: new Date(),
+        quotation: quotation?._id,
+        installmentPlan:
+          values.paymentMethod === 'Installment'
+            ? {
+                numberOfInstallments: installmentPlan.numberOfInstallments,
+                frequency: installmentPlan.frequency,
+                markupPercent: installmentPlan.markupPercent,
+                firstDueDate: installmentFirstDue
+              }
+            : undefined,
+        creditOverride:
+          onAccount && creditBlock && managerApproval.email.trim()
+            ? {
+                email: managerApproval.email.trim(),
+                password: managerApproval.password,
+                reason: managerApproval.reason.trim()
+              }
+            : undefined
       }
 
       const result = await window.api.sales.create(salePayload)
@@ -778,13 +1238,30 @@ export default function POSPage() {
           customerId: '',
           discountPercent: 0,
           discountAmount: 0,
-          taxAmount: 0,
           paymentMethod: 'Cash',
           creditPaidAmount: 0
         })
-        setLastSale(salePayload)
+        setCreditBlock(null)
+        setManagerApproval({ email: '', password: '', reason: '' })
+        setInstallmentPlan(defaultInstallmentPlan())
+        setCashReceived('')
+        setTenders([])
+        setQuotation(null)
+        // The receipt shows the sale as booked, not as this screen priced it
+        setLastSale({ ...salePayload, ...result.data, customer: salePayload.customer })
         setShowReceipt(true)
         loadProducts()
+      } else if (result.creditBlocked) {
+        // Keep the original reason on screen when it was the manager login that failed
+        if (!salePayload.creditOverride) {
+          setCreditBlock({ rule: result.rule, message: result.error })
+        }
+        setManagerApproval((prev) => ({ ...prev, password: '' }))
+        setCreditDialogOpen(true)
+        toast.error(result.error)
+      } else if (result.rolledBack) {
+        // Nothing was written: stock, balances and ledger are unchanged, cart is kept
+        toast.error(result.error)
       } else {
         toast.error('Sale failed: ' + result.error)
       }
@@ -815,6 +1292,267 @@ export default function POSPage() {
     setLastSale(null)
   }
 
+  const handleHold = async () => {
+    if (!currentStore?._id || cart.length === 0) return
+    if (!holdLabel.trim()) {
+      toast.error('Enter the customer name or a note to hold the cart under')
+      return
+    }
+    const userStr = localStorage.getItem('user')
+    const user = userStr ? JSON.parse(userStr) : null
+    if (!user) {
+      toast.error('User session not found. Please login again.')
+      return
+    }
+
+    setIsHolding(true)
+    try {
+      const result = await window.api.heldCarts.hold({
+        storeId: currentStore._id,
+        label: holdLabel.trim(),
+        customer: formValues.customerId || undefined,
+        items: cart.map((item) => ({
+          product: item._id,
+          quantity: item.quantity,
+          comboSelection: item.comboSelection,
+          listPrice: item.listPrice,
+          sellingPrice: item.sellingPrice,
+          discount: item.discount?.value ? item.discount : undefined
+        })),
+        discountAmount: discountAmount || 0,
+        discountPercent: discountPercent || 0,
+        heldBy: user.id || user._id
+      })
+      if (!result.success) {
+        toast.error(result.error || 'Failed to hold cart')
+        return
+      }
+      toast.success(`Cart held for ${result.data.label}`)
+      setCart([])
+      form.reset({
+        customerId: '',
+        discountPercent: 0,
+        discountAmount: 0,
+        paymentMethod: 'Cash',
+        creditPaidAmount: 0
+      })
+      setHoldLabel('')
+      setHoldDialogOpen(false)
+      setQuotation(null)
+      loadHeldCarts()
+    } catch (error: any) {
+      toast.error('Error: ' + error.message)
+    } finally {
+      setIsHolding(false)
+    }
+  }
+
+  // Lines come back at today's list price unless a price is passed to keep, such as one the
+  // cashier had overridden or one a quotation promised
+  const cartItemFrom = (
+    item: {
+      product: string
+      quantity: number
+      comboSelection?: ComboSelection
+      discount?: LineDiscount
+    },
+    keptPrice?: number
+  ): CartItem | null => {
+    const product = sellableProducts.find((p) => p._id === item.product)
+    if (!product) return null
+    const option = item.comboSelection
+      ? comboOptions(product).find(
+          (candidate) =>
+            candidate.mode === item.comboSelection?.mode &&
+            candidate.key === comboPiecesKey(item.comboSelection?.pieces)
+        )
+      : undefined
+    if (item.comboSelection && !option) return null
+    const listPrice = option ? option.price : product.sellingPrice || product.buyingPrice || 0
+    return {
+      ...product,
+      lineId: option ? `${product._id}:${option.key}` : product._id,
+      comboSelection: item.comboSelection,
+      quantity: item.quantity,
+      listPrice,
+      sellingPrice: keptPrice ?? listPrice,
+      discount: item.discount
+    }
+  }
+
+  const handleResume = async (held: HeldCart) => {
+    if (cart.length > 0) {
+      toast.error('Complete or hold the current order before resuming another')
+      return
+    }
+    try {
+      const result = await window.api.heldCarts.resume(held._id)
+      if (!result.success) {
+        toast.error(result.error || 'Failed to resume cart')
+        loadHeldCarts()
+        return
+      }
+      const resumed = result.data as HeldCart
+      const items = resumed.items.map((item) =>
+        cartItemFrom(item, item.sellingPrice !== item.listPrice ? item.sellingPrice : undefined)
+      )
+      const missing = resumed.items.filter((_item, index) => !items[index])
+      setCart(items.filter((item): item is CartItem => item !== null))
+      form.reset({
+        customerId: resumed.customer?._id || '',
+        discountPercent: resumed.discountPercent || 0,
+        discountAmount: resumed.discountAmount || 0,
+        paymentMethod: 'Cash',
+        creditPaidAmount: 0
+      })
+      if (missing.length > 0) {
+        toast.warning(
+          `No longer for sale, left out: ${missing.map((item) => item.productName).join(', ')}`
+        )
+      }
+      setQuotation(null)
+      toast.success(`Resumed cart for ${resumed.label}`)
+      setHeldCartsOpen(false)
+      loadHeldCarts()
+    } catch (error: any) {
+      toast.error('Error: ' + error.message)
+    }
+  }
+
+  const openQuoteDialog = () => {
+    setQuoteForm({
+      customerName: selectedCustomer?.name || '',
+      validUntil: format(addDays(new Date(), QUOTATION_VALID_DAYS), 'yyyy-MM-dd'),
+      notes: ''
+    })
+    setQuoteDialogOpen(true)
+  }
+
+  const handleSaveQuote = async () => {
+    if (!currentStore?._id || cart.length === 0) return
+    if (!quoteForm.validUntil) {
+      toast.error('Enter the date the quote is valid until')
+      return
+    }
+    const userStr = localStorage.getItem('user')
+    const user = userStr ? JSON.parse(userStr) : null
+    if (!user) {
+      toast.error('User session not found. Please login again.')
+      return
+    }
+
+    setIsSavingQuote(true)
+    try {
+      const result = await window.api.quotations.create({
+        store: currentStore._id,
+        createdBy: user.id || user._id,
+        customer: formValues.customerId || undefined,
+        customerName: quoteForm.customerName.trim() || undefined,
+        items: saleItems(),
+        subtotal,
+        taxAmount: tax.taxAmount,
+        discountAmount: effectiveDiscount,
+        discountPercent: discountPercent || 0,
+        totalAmount: total,
+        validUntil: quoteForm.validUntil,
+        notes: quoteForm.notes.trim() || undefined
+      })
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save quotation')
+        return
+      }
+      const saved = result.data
+      toast.success(`Quotation ${saved.quotationNumber} saved`, {
+        action: {
+          label: 'View',
+          onClick: () => navigate(`/dashboard/quotations/${saved._id}`)
+        }
+      })
+      setCart([])
+      form.reset({
+        customerId: '',
+        discountPercent: 0,
+        discountAmount: 0,
+        paymentMethod: 'Cash',
+        creditPaidAmount: 0
+      })
+      setQuoteDialogOpen(false)
+    } catch (error: any) {
+      toast.error('Error: ' + error.message)
+    } finally {
+      setIsSavingQuote(false)
+    }
+  }
+
+  // "Convert to sale" on a quotation opens the POS with its lines at the quoted prices;
+  // Place Order then books it through the usual checks
+  const loadQuotation = async (quotationId: string) => {
+    try {
+      const result = await window.api.quotations.getById(quotationId)
+      if (!result.success) {
+        toast.error(result.error || 'Quotation not found')
+        return
+      }
+      const quote = result.data as Quotation
+      if (quote.status !== 'OPEN') {
+        toast.error(`Quotation ${quote.quotationNumber} is ${quote.status.toLowerCase()}`)
+        return
+      }
+      const items = quote.items.map((item) =>
+        cartItemFrom(
+          {
+            ...item,
+            discount: item.discountPercent
+              ? { type: 'PERCENT', value: item.discountPercent }
+              : item.discountAmount
+                ? { type: 'AMOUNT', value: item.discountAmount }
+                : undefined
+          },
+          item.sellingPrice
+        )
+      )
+      const missing = quote.items.filter((_item, index) => !items[index])
+      setCart(items.filter((item): item is CartItem => item !== null))
+      form.reset({
+        customerId: quote.customer?._id || '',
+        discountPercent: quote.discountPercent || 0,
+        discountAmount: quote.discountPercent ? 0 : quote.discountAmount || 0,
+        paymentMethod: 'Cash',
+        creditPaidAmount: 0
+      })
+      setQuotation({ _id: quote._id, quotationNumber: quote.quotationNumber })
+      if (missing.length > 0) {
+        toast.warning(
+          `No longer for sale, left out: ${missing.map((item) => item.productName).join(', ')}`
+        )
+      }
+    } catch (error: any) {
+      toast.error('Error: ' + error.message)
+    }
+  }
+
+  useEffect(() => {
+    const quotationId = (location.state as { quotationId?: string } | null)?.quotationId
+    if (!quotationId || products.length === 0) return
+    navigate(location.pathname, { replace: true, state: null })
+    void loadQuotation(quotationId)
+  }, [location.state, products])
+
+  const handleDeleteHeld = async (held: HeldCart) => {
+    if (!confirm(`Discard the cart held for ${held.label}?`)) return
+    try {
+      const result = await window.api.heldCarts.delete(held._id)
+      if (!result.success) {
+        toast.error(result.error || 'Failed to discard cart')
+        return
+      }
+      toast.success('Held cart discarded')
+      loadHeldCarts()
+    } catch (error: any) {
+      toast.error('Error: ' + error.message)
+    }
+  }
+
   if (!currentStore) {
     return (
       <div className="flex flex-col items-center justify-center h-[calc(100vh-120px)] text-muted-foreground p-8">
@@ -908,7 +1646,16 @@ export default function POSPage() {
                           >
                             {product.stockLevel} IN STOCK
                           </Badge>
-                        </div>
+                          {(heldStock[product._id] || 0) > 0 && (
+                            <Badge
+                              variant="outline"
+                              className="text-[9px] font-black h-4 px-1 text-amber-500 border-amber-500/20"
+                              title="Held in parked carts; still on the shelf"
+                            >
+                              {heldStock[product._id]} HELD
+                            </Badge>
+                          )}
+                        </div>
                       </div>
                       <Plus className="w-4 h-4 text-[#4ade80]" />
                     </div>
@@ -938,6 +1685,36 @@ export default function POSPage() {
           )}
         </div>
 
+        <Button
+          onClick={() =>
+            navigate(currentShift ? `/dashboard/shifts/${currentShift._id}` : '/dashboard/shifts')
+          }
+          className={`h-14 px-4 border rounded-xl font-bold ${
+            currentShift
+              ? 'bg-card hover:bg-accent text-foreground border-border'
+              : 'bg-red-500/10 hover:bg-red-500/20 text-red-500 border-red-500/20'
+          }`}
+          title={currentShift ? 'Pay in/out or close the shift' : 'Open a till shift'}
+        >
+          <Vault className="w-5 h-5 mr-2" />
+          {currentShift ? currentShift.shiftNumber : 'No Shift'}
+        </Button>
+        <Button
+          onClick={() => {
+            setHeldCartsOpen(true)
+            loadHeldCarts()
+          }}
+          className="h-14 px-4 bg-card hover:bg-accent text-foreground border border-border rounded-xl font-bold"
+          title="Held carts"
+        >
+          <ClipboardList className="w-5 h-5 mr-2" />
+          Held
+          {heldCarts.length > 0 && (
+            <Badge className="ml-2 bg-amber-500 text-black hover:bg-amber-500 font-black">
+              {heldCarts.length}
+            </Badge>
+          )}
+        </Button>
         <Button
           onClick={manualRefresh}
           className="h-14 w-14 bg-card hover:bg-accent text-foreground border border-border rounded-xl"
@@ -961,6 +1738,23 @@ export default function POSPage() {
               <ShoppingCart className="w-6 h-6 text-[#4ade80]" />
               Current Order
             </h2>
+            {quotation && (
+              <Badge
+                variant="outline"
+                className="h-8 px-3 text-sm font-black text-[#4ade80] border-[#4ade80]/40 gap-2"
+              >
+                <FileText className="w-4 h-4" />
+                From {quotation.quotationNumber}
+                <button
+                  type="button"
+                  className="hover:text-red-500"
+                  title="Sell without the quotation"
+                  onClick={() => setQuotation(null)}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </Badge>
+            )}
             <Badge className="bg-[#4ade80] text-black hover:bg-[#4ade80] font-black h-8 px-4 text-sm">
               {cart.length} {cart.length === 1 ? 'ITEM' : 'ITEMS'}
             </Badge>
@@ -993,7 +1787,7 @@ export default function POSPage() {
                   </div>
                   {cart.map((item) => (
                     <div
-                      key={item._id}
+                      key={item.lineId}
                       className="grid grid-cols-1 md:grid-cols-12 gap-4 items-center bg-card p-4 rounded-xl border border-border hover:border-[#4ade80]/50 transition-all group relative"
                     >
                       <div className="col-span-6 flex items-center gap-4">
@@ -1012,15 +1806,53 @@ export default function POSPage() {
                           <h4 className="font-black text-foreground text-sm truncate">
                             {item.name}
                           </h4>
+                          {item.comboSelection && (
+                            <p className="text-[10px] text-purple-500 font-bold uppercase tracking-tighter">
+                              {comboSelectionLabel(item.comboSelection)}
+                            </p>
+                          )}
                           <p className="text-[10px] text-muted-foreground font-bold uppercase tracking-tighter">
                             {item.sku || 'No SKU'} • {item.category?.name || 'General'}
                           </p>
+                          <div className="flex items-center gap-1 mt-1">
+                            <span className="text-[10px] font-black uppercase text-muted-foreground">
+                              Discount
+                            </span>
+                            <input
+                              type="number"
+                              min="0"
+                              className={`h-6 w-16 rounded border bg-background px-1 text-xs font-bold text-right focus:outline-none ${
+                                overDiscountLimit(lineBelowList(item))
+                                  ? 'border-red-500 text-red-500'
+                                  : 'border-border'
+                              }`}
+                              value={item.discount?.value ? item.discount.value : ''}
+                              placeholder="0"
+                              onChange={(e) =>
+                                updateLineDiscount(item.lineId, {
+                                  value: Math.max(0, Number(e.target.value) || 0)
+                                })
+                              }
+                              onFocus={(e) => e.target.select()}
+                            />
+                            <button
+                              type="button"
+                              className="h-6 px-2 rounded border border-border text-[10px] font-black text-[#4ade80] hover:bg-muted"
+                              onClick={() =>
+                                updateLineDiscount(item.lineId, {
+                                  type: item.discount?.type === 'PERCENT' ? 'AMOUNT' : 'PERCENT'
+                                })
+                              }
+                            >
+                              {item.discount?.type === 'PERCENT' ? '%' : 'Rs.'}
+                            </button>
+                          </div>
                         </div>
                         <Button
                           variant="ghost"
                           size="icon"
                           className="h-8 w-8 text-red-500/50 hover:text-red-500 hover:bg-red-500/10 md:hidden absolute top-2 right-2"
-                          onClick={() => removeFromCart(item._id)}
+                          onClick={() => removeFromCart(item.lineId)}
                         >
                           <Trash2 className="w-4 h-4" />
                         </Button>
@@ -1031,24 +1863,33 @@ export default function POSPage() {
                           <span className="text-xs font-black text-[#4ade80]">Rs.</span>
                           <input
                             type="number"
+                            min="0"
                             className="w-full bg-transparent text-sm font-black text-foreground focus:outline-none"
                             value={item.sellingPrice === 0 ? '' : item.sellingPrice}
                             onChange={(e) =>
                               updatePrice(
-                                item._id,
-                                e.target.value === '' ? 0 : Number(e.target.value)
+                                item.lineId,
+                                e.target.value === '' ? 0 : Math.max(0, Number(e.target.value))
                               )
                             }
                             onFocus={(e) => e.target.select()}
                           />
                         </div>
+                        {item.sellingPrice !== item.listPrice && (
+                          <p className="text-[10px] text-muted-foreground font-bold mt-1 text-center">
+                            List{' '}
+                            <span className="line-through">
+                              Rs. {item.listPrice.toLocaleString()}
+                            </span>
+                          </p>
+                        )}
                       </div>
 
                       <div className="col-span-2 flex justify-center">
                         {item.productKind === 'RAW_MATERIAL' ? (
                           <div className="flex items-center gap-2 bg-muted rounded-lg border border-border px-3 py-2">
                             <span className="text-sm font-black text-foreground">
-                              {formatQuantity(item)}
+                              {formatCartQuantity(item)}
                             </span>
                             <span className="text-[10px] font-bold uppercase text-muted-foreground">
                               m
@@ -1065,16 +1906,16 @@ export default function POSPage() {
                         ) : (
                           <div className="flex items-center bg-muted rounded-lg border border-border p-1">
                             <button
-                              onClick={() => updateQuantity(item._id, -1)}
+                              onClick={() => updateQuantity(item.lineId, -1)}
                               className="h-8 w-8 rounded-md hover:bg-background flex items-center justify-center transition-colors text-[#4ade80]"
                             >
                               <Minus className="w-4 h-4" />
                             </button>
                             <span className="w-10 text-center text-sm font-black text-foreground">
-                              {formatQuantity(item)}
+                              {formatCartQuantity(item)}
                             </span>
                             <button
-                              onClick={() => updateQuantity(item._id, 1)}
+                              onClick={() => updateQuantity(item.lineId, 1)}
                               className="h-8 w-8 rounded-md hover:bg-background flex items-center justify-center transition-colors text-[#4ade80]"
                             >
                               <Plus className="w-4 h-4" />
@@ -1088,13 +1929,18 @@ export default function POSPage() {
                           Subtotal
                         </span>
                         <span className="text-lg font-black text-foreground">
-                          Rs. {(item.sellingPrice * item.quantity).toLocaleString()}
+                          Rs. {lineTotal(item).toLocaleString()}
                         </span>
+                        {lineDiscount(item) > 0 && (
+                          <span className="text-[10px] font-bold text-red-500">
+                            -Rs. {lineDiscount(item).toLocaleString()} off
+                          </span>
+                        )}
                         <Button
                           variant="ghost"
                           size="icon"
                           className="h-8 w-8 text-red-500/50 hover:text-red-500 hover:bg-red-500/10 hidden md:flex"
-                          onClick={() => removeFromCart(item._id)}
+                          onClick={() => removeFromCart(item.lineId)}
                         >
                           <Trash2 className="w-4 h-4" />
                         </Button>
@@ -1129,29 +1975,6 @@ export default function POSPage() {
                     </span>
                   </div>
 
-                  <div className="flex items-center justify-between">
-                    <span className="text-xs font-bold uppercase text-muted-foreground">
-                      Tax Amount
-                    </span>
-                    <FormField
-                      control={form.control}
-                      name="taxAmount"
-                      render={({ field }) => (
-                        <FormControl>
-                          <Input
-                            type="number"
-                            value={field.value === 0 ? '' : field.value}
-                            onChange={(e) =>
-                              field.onChange(e.target.value === '' ? 0 : Number(e.target.value))
-                            }
-                            className="h-9 w-28 bg-background border-border text-right font-black"
-                            placeholder="0"
-                          />
-                        </FormControl>
-                      )}
-                    />
-                  </div>
-
                   <div className="flex items-center justify-between">
                     <span className="text-xs font-bold uppercase text-muted-foreground">
                       Discount (Rs.)
@@ -1177,6 +2000,33 @@ export default function POSPage() {
                       )}
                     />
                   </div>
+                  {maxDiscountPercent !== null && maxDiscountPercent < 100 && (
+                    <p
+                      className={`text-[11px] font-bold ${
+                        overDiscountLimit(saleBelowList) ? 'text-red-500' : 'text-muted-foreground'
+                      }`}
+                    >
+                      {saleBelowList > 0 ? `${saleBelowList}% below list price. ` : ''}You may give
+                      up to {maxDiscountPercent}% off.
+                    </p>
+                  )}
+
+                  {tax.breakdown
+                    .filter((line) => line.taxAmount > 0)
+                    .map((line) => (
+                      <div
+                        key={`${line.taxClass}-${line.rate}`}
+                        className="flex justify-between items-center"
+                      >
+                        <span className="text-xs font-bold uppercase text-muted-foreground">
+                          {taxLineLabel(line)}
+                          {taxSettings.pricesIncludeTax ? ' (incl.)' : ''}
+                        </span>
+                        <span className="font-black text-foreground">
+                          Rs. {line.taxAmount.toLocaleString()}
+                        </span>
+                      </div>
+                    ))}
 
                   <div className="pt-4 border-t border-border flex justify-between items-center">
                     <span className="text-sm font-black uppercase tracking-widest text-[#4ade80]">
@@ -1197,34 +2047,173 @@ export default function POSPage() {
                     control={form.control}
                     name="paymentMethod"
                     render={({ field }) => (
-                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
-                        {['Cash', 'Bank Transfer', 'Credit'].map((method) => (
+                      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                        {['Cash', 'Bank Transfer', 'Split', 'Credit', 'Installment'].map(
+                          (method) => (
+                            <Button
+                              key={method}
+                              type="button"
+                              variant="outline"
+                              className={`h-12 px-3 text-xs sm:text-[11px] font-black leading-snug whitespace-normal border-2 transition-all duration-200 ${
+                                field.value === method
+                                  ? 'text-[#4ade80] border-[#4ade80] hover:bg-[#4ade80] hover:text-[#4ade80] hover:border-[#4ade80]'
+                                  : 'text-foreground border-border hover:bg-muted'
+                              }`}
+                              onClick={() => {
+                                field.onChange(method)
+                                if (method !== 'Bank Transfer') {
+                                  form.setValue('paymentChannel', undefined)
+                                }
+                                if (method === 'Split' && tenders.length === 0) {
+                                  setTenders([
+                                    { method: 'Cash', amount: 0 },
+                                    { method: 'Card', amount: 0 }
+                                  ])
+                                }
+                                if (ON_ACCOUNT_METHODS.includes(method)) {
+                                  setCreditDialogOpen(true)
+                                }
+                              }}
+                            >
+                              {method.toUpperCase()}
+                            </Button>
+                          )
+                        )}
+                      </div>
+                    )}
+                  />
+                </div>
+
+                {paymentMethod === 'Cash' && (
+                  <div className="space-y-2">
+                    <h4 className="text-xs font-black text-muted-foreground uppercase tracking-widest border-l-4 border-[#4ade80] pl-3">
+                      Cash Received
+                    </h4>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={cashReceived}
+                      onChange={(e) => setCashReceived(e.target.value)}
+                      placeholder={`Rs. ${total.toLocaleString()}`}
+                      className="h-11 bg-muted/50 border-border font-bold"
+                    />
+                    {cashTender.change > 0 && (
+                      <div className="flex justify-between text-sm font-black">
+                        <span>Change</span>
+                        <span className="text-[#4ade80]">
+                          Rs. {cashTender.change.toLocaleString()}
+                        </span>
+                      </div>
+                    )}
+                    {cashTender.remaining > 0 && (
+                      <div className="text-xs font-bold text-red-500">
+                        Rs. {cashTender.remaining.toLocaleString()} short
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {paymentMethod === 'Split' && (
+                  <div className="space-y-3">
+                    <h4 className="text-xs font-black text-muted-foreground uppercase tracking-widest border-l-4 border-[#4ade80] pl-3">
+                      Tenders
+                    </h4>
+                    {tenders.map((tender, index) => (
+                      <div key={index} className="space-y-2 rounded-xl border border-border p-3">
+                        <div className="flex items-center gap-2">
+                          <Select
+                            value={tender.method}
+                            onValueChange={(value) =>
+                              updateTender(index, {
+                                method: value as TenderMethod,
+                                channel: undefined
+                              })
+                            }
+                          >
+                            <SelectTrigger className="h-10 flex-1 font-bold">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {TENDER_METHODS.map((method) => (
+                                <SelectItem key={method} value={method}>
+                                  {method}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={tender.amount || ''}
+                            onChange={(e) =>
+                              updateTender(index, { amount: Number(e.target.value) || 0 })
+                            }
+                            placeholder="Amount"
+                            className="h-10 w-32 bg-muted/50 border-border font-bold"
+                          />
                           <Button
-                            key={method}
                             type="button"
-                            variant="outline"
-                            className={`h-12 px-3 text-xs sm:text-[11px] font-black leading-snug whitespace-normal border-2 transition-all duration-200 ${
-                              field.value === method
-                                ? 'text-[#4ade80] border-[#4ade80] hover:bg-[#4ade80] hover:text-[#4ade80] hover:border-[#4ade80]'
-                                : 'text-foreground border-border hover:bg-muted'
-                            }`}
-                            onClick={() => {
-                              field.onChange(method)
-                              if (method !== 'Bank Transfer') {
-                                form.setValue('paymentChannel', undefined)
-                              }
-                              if (method === 'Credit') {
-                                setCreditDialogOpen(true)
-                              }
-                            }}
+                            variant="ghost"
+                            size="icon"
+                            disabled={tenders.length <= 1}
+                            onClick={() =>
+                              setTenders((prev) => prev.filter((_, position) => position !== index))
+                            }
                           >
-                            {method.toUpperCase()}
+                            <X className="w-4 h-4" />
                           </Button>
-                        ))}
+                        </div>
+                        {tender.method === 'Bank Transfer' && (
+                          <Select
+                            value={tender.channel || ''}
+                            onValueChange={(value) => updateTender(index, { channel: value })}
+                          >
+                            <SelectTrigger className="h-10 font-bold">
+                              <SelectValue placeholder="Transfer method" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {bankTransferOptions.map((channel) => (
+                                <SelectItem key={channel} value={channel}>
+                                  {channel}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
                       </div>
-                    )}
-                  />
-                </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="w-full h-10 font-black uppercase border-border"
+                      onClick={addTender}
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Payment
+                    </Button>
+                    <div className="space-y-1 rounded-xl border border-border bg-muted/20 p-3 text-sm">
+                      <div className="flex justify-between font-bold">
+                        <span>Tendered</span>
+                        <span>Rs. {splitTender.tendered.toLocaleString()}</span>
+                      </div>
+                      {splitTender.remaining > 0 ? (
+                        <div className="flex justify-between font-black text-red-500">
+                          <span>Still to pay</span>
+                          <span>Rs. {splitTender.remaining.toLocaleString()}</span>
+                        </div>
+                      ) : (
+                        <div
+                          className={`flex justify-between font-black ${
+                            splitTender.changeExceedsCash ? 'text-red-500' : 'text-[#4ade80]'
+                          }`}
+                        >
+                          <span>Change{splitTender.changeExceedsCash ? ' (cash only)' : ''}</span>
+                          <span>Rs. {splitTender.change.toLocaleString()}</span>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
 
                 {paymentMethod === 'Bank Transfer' && (
                   <div className="space-y-4">
@@ -1257,19 +2246,31 @@ export default function POSPage() {
                   </div>
                 )}
 
-                {paymentMethod === 'Credit' && formValues.customerId && (
-                  <div className="space-y-2 rounded-xl border border-border bg-muted/20 p-4">
-                    <div className="text-xs font-black uppercase tracking-widest text-muted-foreground">
-                      Customer Summary
-                    </div>
-                    <div className="text-sm font-bold text-foreground">
-                      {selectedCustomer?.name || 'Customer'}
-                    </div>
-                    <div className="text-xs text-muted-foreground">
-                      {selectedCustomer?.phone || `ID: ${formValues.customerId}`}
+                {paymentMethod &&
+                  ON_ACCOUNT_METHODS.includes(paymentMethod) &&
+                  formValues.customerId && (
+                    <div className="space-y-2 rounded-xl border border-border bg-muted/20 p-4">
+                      <div className="text-xs font-black uppercase tracking-widest text-muted-foreground">
+                        Customer Summary
+                      </div>
+                      <div className="text-sm font-bold text-foreground">
+                        {selectedCustomer?.name || 'Customer'}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {selectedCustomer?.phone || `ID: ${formValues.customerId}`}
+                      </div>
+                      {paymentMethod === 'Installment' && (
+                        <div className="text-xs font-bold text-foreground">
+                          {installmentPreview.installments.length} ×{' '}
+                          {installmentFrequencyLabel(installmentPlan.frequency).toLowerCase()}{' '}
+                          instalments of Rs.{' '}
+                          {installmentPreview.installments[0]?.amount.toLocaleString()}
+                          {installmentPreview.markupAmount > 0 &&
+                            ` (markup Rs. ${installmentPreview.markupAmount.toLocaleString()})`}
+                        </div>
+                      )}
                     </div>
-                  </div>
-                )}
+                  )}
 
                 <LoadingButton
                   type="submit"
@@ -1281,12 +2282,223 @@ export default function POSPage() {
                   <ShoppingBag className="w-6 h-6 mr-2" />
                   Place Order
                 </LoadingButton>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="h-11 font-black uppercase tracking-widest border-border"
+                    disabled={cart.length === 0}
+                    onClick={() => {
+                      setHoldLabel(selectedCustomer?.name || '')
+                      setHoldDialogOpen(true)
+                    }}
+                  >
+                    <Pause className="w-4 h-4 mr-2" />
+                    Hold
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="h-11 font-black uppercase tracking-widest border-border"
+                    disabled={cart.length === 0 || !!quotation}
+                    onClick={openQuoteDialog}
+                  >
+                    <FileText className="w-4 h-4 mr-2" />
+                    Quote
+                  </Button>
+                </div>
               </form>
             </Form>
           </CardContent>
         </Card>
       </div>
 
+      {/* Hold Order Dialog */}
+      <Dialog open={holdDialogOpen} onOpenChange={setHoldDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Hold Order</DialogTitle>
+            <DialogDescription>
+              Park this cart so it can be finished later from any till in the store.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="hold-label">Customer name or note</Label>
+            <Input
+              id="hold-label"
+              value={holdLabel}
+              onChange={(e) => setHoldLabel(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault()
+                  handleHold()
+                }
+              }}
+              placeholder="e.g. Ali - blue shirt, back in 10 min"
+              autoFocus
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" type="button" onClick={() => setHoldDialogOpen(false)}>
+              Cancel
+            </Button>
+            <LoadingButton
+              type="button"
+              className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-bold"
+              isLoading={isHolding}
+              loadingText="Holding..."
+              onClick={handleHold}
+            >
+              Hold
+            </LoadingButton>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Quotation Dialog */}
+      <Dialog open={quoteDialogOpen} onOpenChange={setQuoteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save as Quotation</DialogTitle>
+            <DialogDescription>
+              Price this cart for the customer without selling it. Stock is checked when the
+              quotation is converted to a sale.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="quote-customer">Customer name</Label>
+              <Input
+                id="quote-customer"
+                value={quoteForm.customerName}
+                onChange={(e) =>
+                  setQuoteForm((prev) => ({ ...prev, customerName: e.target.value }))
+                }
+                placeholder="Optional"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quote-valid-until">Valid until</Label>
+              <Input
+                id="quote-valid-until"
+                type="date"
+                min={format(new Date(), 'yyyy-MM-dd')}
+                value={quoteForm.validUntil}
+                onChange={(e) => setQuoteForm((prev) => ({ ...prev, validUntil: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quote-notes">Notes</Label>
+              <Input
+                id="quote-notes"
+                value={quoteForm.notes}
+                onChange={(e) => setQuoteForm((prev) => ({ ...prev, notes: e.target.value }))}
+                placeholder="Optional, printed on the quotation"
+              />
+            </div>
+            <div className="flex justify-between text-sm font-bold">
+              <span className="text-muted-foreground uppercase">Quoted total</span>
+              <span className="text-[#4ade80]">Rs. {total.toLocaleString()}</span>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" type="button" onClick={() => setQuoteDialogOpen(false)}>
+              Cancel
+            </Button>
+            <LoadingButton
+              type="button"
+              className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-bold"
+              isLoading={isSavingQuote}
+              loadingText="Saving..."
+              onClick={handleSaveQuote}
+            >
+              Save Quotation
+            </LoadingButton>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Held Carts Dialog */}
+      <Dialog open={heldCartsOpen} onOpenChange={setHeldCartsOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Held Carts</DialogTitle>
+            <DialogDescription>
+              Carts parked at any till in this store. They are discarded once they expire.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Held For</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Held By</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {heldCarts.length > 0 ? (
+                  heldCarts.map((held) => (
+                    <TableRow key={held._id}>
+                      <TableCell>
+                        <div className="font-bold">{held.label}</div>
+                        {held.customer && (
+                          <div className="text-xs text-muted-foreground">
+                            {held.customer.name}
+                            {held.customer.phone ? ` • ${held.customer.phone}` : ''}
+                          </div>
+                        )}
+                        <div className="text-xs text-muted-foreground">
+                          {format(new Date(held.createdAt), 'MMM dd, hh:mm a')}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {held.items
+                          .map(
+                            (item) => `${item.productName} × ${formatSaleQuantity(item.quantity)}`
+                          )
+                          .join(', ')}
+                      </TableCell>
+                      <TableCell className="text-xs">{held.heldBy?.fullName || '-'}</TableCell>
+                      <TableCell className="text-xs">
+                        {format(new Date(held.expiresAt), 'MMM dd, hh:mm a')}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            size="sm"
+                            className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-bold"
+                            onClick={() => handleResume(held)}
+                          >
+                            Resume
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8 text-red-500/70 hover:text-red-500 hover:bg-red-500/10"
+                            onClick={() => handleDeleteHeld(held)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                      No carts are on hold.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Stock Alert Dialog */}
       <Dialog
         open={stockAlert.open}
@@ -1300,6 +2512,48 @@ export default function POSPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Combo Set Options */}
+      <Dialog open={!!comboProduct} onOpenChange={(open) => !open && setComboProduct(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{comboProduct?.name}</DialogTitle>
+            <DialogDescription>
+              Sell the full set, a single piece or a 2-piece pair.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            {comboProduct &&
+              comboOptions(comboProduct).map((option) => {
+                const stock = comboStockFor(
+                  comboProduct,
+                  option.pieces,
+                  `${comboProduct._id}:${option.key}`
+                )
+                return (
+                  <button
+                    key={option.key}
+                    type="button"
+                    disabled={stock <= 0}
+                    onClick={() => addComboToCart(comboProduct, option)}
+                    className="w-full flex items-center justify-between p-3 rounded-lg border border-border hover:border-[#4ade80] hover:bg-[#4ade80]/10 transition-all disabled:opacity-40 disabled:pointer-events-none"
+                  >
+                    <div className="text-left">
+                      <div className="font-bold text-sm text-foreground">{option.label}</div>
+                      <div className="text-[10px] text-muted-foreground uppercase">
+                        {option.mode === 'FULL_SET' && `${option.pieces.join(', ')} • `}
+                        {stock} in stock
+                      </div>
+                    </div>
+                    <span className="font-black text-sm text-[#4ade80]">
+                      Rs. {option.price.toLocaleString()}
+                    </span>
+                  </button>
+                )
+              })}
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Receipt Modal - Keep your existing receipt code here */}
       <Dialog open={showReceipt} onOpenChange={setShowReceipt}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -1365,6 +2619,16 @@ export default function POSPage() {
                       <TableCell className="font-medium">
                         <div>
                           <div className="font-black">{item.productName}</div>
+                          {item.comboSelection && (
+                            <div className="text-xs text-muted-foreground">
+                              {comboSelectionLabel(item.comboSelection)}
+                            </div>
+                          )}
+                          {(item.discountAmount || 0) > 0 && (
+                            <div className="text-xs text-red-500">
+                              Discount -Rs. {item.discountAmount?.toLocaleString()}
+                            </div>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell className="text-center font-black">
@@ -1374,7 +2638,7 @@ export default function POSPage() {
                         Rs. {item.sellingPrice.toLocaleString()}
                       </TableCell>
                       <TableCell className="text-right font-mono font-black">
-                        Rs. {item.totalAmount.toLocaleString()}
+                        Rs. {netLineAmount(item).toLocaleString()}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -1388,12 +2652,6 @@ export default function POSPage() {
                 <span className="font-bold">Subtotal:</span>
                 <span className="font-mono">Rs. {lastSale?.subtotal?.toLocaleString() || '0'}</span>
               </div>
-              {lastSale && lastSale.taxAmount > 0 && (
-                <div className="flex justify-between items-center">
-                  <span className="font-bold">Tax:</span>
-                  <span className="font-mono">Rs. {lastSale.taxAmount.toLocaleString()}</span>
-                </div>
-              )}
               {lastSale && lastSale.discountAmount > 0 && (
                 <div className="flex justify-between items-center">
                   <span className="font-bold">Discount:</span>
@@ -1402,6 +2660,21 @@ export default function POSPage() {
                   </span>
                 </div>
               )}
+              {(lastSale?.taxBreakdown || [])
+                .filter((line) => line.taxAmount > 0)
+                .map((line) => (
+                  <div
+                    key={`${line.taxClass}-${line.rate}`}
+                    className="flex justify-between items-center"
+                  >
+                    <span className="font-bold">
+                      {taxLineLabel(line)}
+                      {lastSale?.pricesIncludeTax ? ' (incl.)' : ''} on Rs.{' '}
+                      {line.taxableAmount.toLocaleString()}:
+                    </span>
+                    <span className="font-mono">Rs. {line.taxAmount.toLocaleString()}</span>
+                  </div>
+                ))}
               <div className="flex justify-between items-center text-xl font-black text-[#4ade80] border-t-2 border-dashed pt-2">
                 <span>Total:</span>
                 <span>Rs. {lastSale?.totalAmount?.toLocaleString() || '0'}</span>
@@ -1420,6 +2693,21 @@ export default function POSPage() {
                   <span className="font-black uppercase">{lastSale.paymentChannel}</span>
                 </div>
               )}
+              {lastSale?.paymentMethod === 'Split' &&
+                (lastSale.paymentHistory || [])
+                  .filter((payment) => payment.atSale)
+                  .map((payment, index) => (
+                    <div key={index} className="flex justify-between items-center">
+                      <span className="font-bold">{tenderLabel(payment)}:</span>
+                      <span className="font-mono">Rs. {payment.amount.toLocaleString()}</span>
+                    </div>
+                  ))}
+              {(lastSale?.changeGiven || 0) > 0 && (
+                <div className="flex justify-between items-center">
+                  <span className="font-bold">Change:</span>
+                  <span className="font-mono">Rs. {lastSale?.changeGiven?.toLocaleString()}</span>
+                </div>
+              )}
               <div className="flex justify-between items-center">
                 <span className="font-bold">Status:</span>
                 <span
@@ -1428,6 +2716,22 @@ export default function POSPage() {
                   {lastSale?.paymentStatus || 'PAID'}
                 </span>
               </div>
+              {lastSale?.installmentPlan && (
+                <div className="mt-2 space-y-1">
+                  <div className="font-bold">
+                    Instalments ({installmentFrequencyLabel(lastSale.installmentPlan.frequency)}):
+                  </div>
+                  {lastSale.installmentPlan.installments.map((installment) => (
+                    <div key={installment.number} className="flex justify-between items-center">
+                      <span>
+                        #{installment.number} due{' '}
+                        {format(new Date(installment.dueDate), 'MMM dd, yyyy')}
+                      </span>
+                      <span className="font-mono">Rs. {installment.amount.toLocaleString()}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Footer */}
@@ -1455,8 +2759,14 @@ export default function POSPage() {
       <Dialog open={creditDialogOpen} onOpenChange={setCreditDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Credit Customer Details</DialogTitle>
-            <DialogDescription>Capture customer information for credit sales.</DialogDescription>
+            <DialogTitle>
+              {paymentMethod === 'Installment' ? 'Installment Plan' : 'Credit Customer Details'}
+            </DialogTitle>
+            <DialogDescription>
+              {paymentMethod === 'Installment'
+                ? 'Choose the customer, down payment and how the rest is paid back.'
+                : 'Capture customer information for credit sales.'}
+            </DialogDescription>
           </DialogHeader>
           <Form {...form}>
             <div className="space-y-4">
@@ -1503,6 +2813,17 @@ export default function POSPage() {
                     emptyText="No customers found"
                     disabled={isCustomersLoading}
                   />
+                  {selectedCustomer && (
+                    <div className="text-xs text-muted-foreground">
+                      Balance Rs. {(selectedCustomer.balance || 0).toLocaleString()}
+                      {selectedCustomer.creditLimit !== null &&
+                        selectedCustomer.creditLimit !== undefined &&
+                        ` · Limit Rs. ${selectedCustomer.creditLimit.toLocaleString()}`}
+                      {selectedCustomer.maxDaysOverdue !== null &&
+                        selectedCustomer.maxDaysOverdue !== undefined &&
+                        ` · Max ${selectedCustomer.maxDaysOverdue} days overdue`}
+                    </div>
+                  )}
                 </div>
               ) : (
                 <div className="space-y-3">
@@ -1560,13 +2881,165 @@ export default function POSPage() {
                         onChange={(e) =>
                           field.onChange(e.target.value === '' ? 0 : Number(e.target.value))
                         }
-                        placeholder="Paid now (optional)"
+                        placeholder={
+                          paymentMethod === 'Installment'
+                            ? 'Down payment (optional)'
+                            : 'Paid now (optional)'
+                        }
                         className="h-11 bg-muted/50 border-border font-bold"
                       />
                     </FormControl>
                   </FormItem>
                 )}
               />
+
+              {paymentMethod === 'Installment' && (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label className="text-xs font-bold uppercase text-muted-foreground">
+                        Instalments
+                      </Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={60}
+                        step={1}
+                        value={installmentPlan.numberOfInstallments || ''}
+                        onChange={(e) =>
+                          setInstallmentPlan((prev) => ({
+                            ...prev,
+                            numberOfInstallments: Math.floor(Number(e.target.value) || 0)
+                          }))
+                        }
+                        className="h-11 bg-muted/50 border-border font-bold"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label className="text-xs font-bold uppercase text-muted-foreground">
+                        Markup %
+                      </Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step="0.01"
+                        value={installmentPlan.markupPercent || ''}
+                        onChange={(e) =>
+                          setInstallmentPlan((prev) => ({
+                            ...prev,
+                            markupPercent: Number(e.target.value) || 0
+                          }))
+                        }
+                        placeholder="0"
+                        className="h-11 bg-muted/50 border-border font-bold"
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    {INSTALLMENT_FREQUENCY_OPTIONS.map((option) => (
+                      <Button
+                        key={option.value}
+                        type="button"
+                        variant="outline"
+                        className={`h-10 text-xs font-black uppercase border-2 transition-all ${
+                          installmentPlan.frequency === option.value
+                            ? 'bg-[#4ade80] text-black border-[#4ade80]'
+                            : 'bg-transparent text-foreground border-border'
+                        }`}
+                        onClick={() =>
+                          setInstallmentPlan((prev) => ({ ...prev, frequency: option.value }))
+                        }
+                      >
+                        {option.label}
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-xs font-bold uppercase text-muted-foreground">
+                      First Instalment Due
+                    </Label>
+                    <Input
+                      type="date"
+                      min={format(new Date(), 'yyyy-MM-dd')}
+                      value={installmentPlan.firstDueDate}
+                      onChange={(e) =>
+                        setInstallmentPlan((prev) => ({ ...prev, firstDueDate: e.target.value }))
+                      }
+                      className="h-11 bg-muted/50 border-border font-bold"
+                    />
+                  </div>
+                  {hasInstallmentFirstDue && unpaidAtSale > 0 && (
+                    <div className="rounded-xl border border-border bg-muted/20 p-3 space-y-1">
+                      <div className="max-h-40 overflow-y-auto space-y-1">
+                        {installmentPreview.installments.map((installment) => (
+                          <div
+                            key={installment.number}
+                            className="flex justify-between text-xs text-muted-foreground"
+                          >
+                            <span>
+                              #{installment.number} ·{' '}
+                              {format(new Date(installment.dueDate), 'MMM dd, yyyy')}
+                            </span>
+                            <span className="font-mono">
+                              Rs. {installment.amount.toLocaleString()}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex justify-between border-t border-border pt-1 text-sm font-bold">
+                        <span>
+                          To repay
+                          {installmentPreview.markupAmount > 0 &&
+                            ` (incl. Rs. ${installmentPreview.markupAmount.toLocaleString()} markup)`}
+                        </span>
+                        <span className="font-mono">
+                          Rs. {installmentPreview.repayable.toLocaleString()}
+                        </span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {creditBlock && (
+                <div className="space-y-3 rounded-xl border border-red-500/50 bg-red-500/10 p-4">
+                  <div>
+                    <div className="text-xs font-black uppercase tracking-widest text-red-500">
+                      {creditBlock.rule === 'OVERDUE' ? 'Overdue Invoices' : 'Over Credit Limit'}
+                    </div>
+                    <p className="text-sm text-foreground mt-1">{creditBlock.message}</p>
+                  </div>
+                  <div className="text-xs font-bold uppercase text-muted-foreground">
+                    Manager Override
+                  </div>
+                  <Input
+                    placeholder="Manager email"
+                    value={managerApproval.email}
+                    onChange={(e) =>
+                      setManagerApproval((prev) => ({ ...prev, email: e.target.value }))
+                    }
+                    className="h-11 bg-muted/50 border-border font-bold"
+                  />
+                  <Input
+                    type="password"
+                    placeholder="Manager password"
+                    value={managerApproval.password}
+                    onChange={(e) =>
+                      setManagerApproval((prev) => ({ ...prev, password: e.target.value }))
+                    }
+                    className="h-11 bg-muted/50 border-border font-bold"
+                  />
+                  <Input
+                    placeholder="Reason for override"
+                    value={managerApproval.reason}
+                    onChange={(e) =>
+                      setManagerApproval((prev) => ({ ...prev, reason: e.target.value }))
+                    }
+                    className="h-11 bg-muted/50 border-border font-bold"
+                  />
+                </div>
+              )}
             </div>
             <div className="flex justify-end gap-2 pt-4">
               <Button variant="outline" onClick={() => setCreditDialogOpen(false)} type="button">
@@ -1597,8 +3070,8 @@ export default function POSPage() {
               <label className="text-xs font-bold uppercase text-muted-foreground">Meters</label>
               <Input
                 type="number"
-                min="0.1"
-                step="0.1"
+                min={meterProduct?.minCutLength || meterStep}
+                step={meterStep}
                 value={meterInput}
                 onChange={(e) => setMeterInput(e.target.value)}
                 placeholder="e.g. 3.5"
@@ -1606,9 +3079,14 @@ export default function POSPage() {
                 ref={meterInputRef}
               />
             </div>
-            <div className="text-xs text-muted-foreground">
-              Available stock:{' '}
-              {meterProduct?.stockLevel?.toFixed?.(1) || meterProduct?.stockLevel || 0} m
+            <div className="text-xs text-muted-foreground space-y-1">
+              <div>Available stock: {formatQuantity(meterProduct?.stockLevel || 0, true)} m</div>
+              <div>
+                Cut in steps of {meterStep} m
+                {meterProduct?.minCutLength
+                  ? ` • shortest cut ${formatQuantity(meterProduct.minCutLength, true)} m`
+                  : ''}
+              </div>
             </div>
             <div className="grid grid-cols-3 gap-2">
               {['7', '8', '9', '4', '5', '6', '1', '2', '3', '.', '0', 'back'].map((key) => (
@@ -11,9 +11,91 @@ import {
 import { Button } from '@renderer/components/ui/button'
 import { Input } from '@renderer/components/ui/input'
 import { Label } from '@renderer/components/ui/label'
-import { Lock, Save, Loader2, User } from 'lucide-react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@renderer/components/ui/select'
+import { Switch } from '@renderer/components/ui/switch'
+import {
+  Clock,
+  Hash,
+  Layers,
+  Lock,
+  Percent,
+  Receipt,
+  Ruler,
+  Save,
+  Loader2,
+  User
+} from 'lucide-react'
 import { toast } from 'sonner'
 import { useNavigate } from 'react-router-dom'
+import { DEFAULT_METER_STEP } from '@renderer/lib/quantities'
+
+const METER_STEPS = [
+  { value: '0.01', label: '1 cm (no rounding)' },
+  { value: '0.05', label: '5 cm' },
+  { value: '0.1', label: '10 cm' },
+  { value: '0.25', label: 'Quarter meter (0.25 m)' },
+  { value: '0.5', label: 'Half meter (0.5 m)' }
+]
+
+type DocumentNumbering = { prefix: string; padding: number; yearlyReset: boolean }
+type NumberedDocument =
+  | 'invoice'
+  | 'purchaseOrder'
+  | 'expense'
+  | 'quotation'
+  | 'shift'
+  | 'stockCount'
+  | 'goodsReceipt'
+  | 'supplierReturn'
+
+// A blank prefix numbers from the store code, e.g. LHR-2026-000123 or LHR-PO-2026-000045
+const NUMBERED_DOCUMENTS: { key: NumberedDocument; label: string; defaultSuffix: string }[] = [
+  { key: 'invoice', label: 'Sale Invoices', defaultSuffix: '' },
+  { key: 'purchaseOrder', label: 'Purchase Orders', defaultSuffix: '-PO' },
+  { key: 'expense', label: 'Expenses', defaultSuffix: '-EXP' },
+  { key: 'quotation', label: 'Quotations', defaultSuffix: '-QT' },
+  { key: 'shift', label: 'Till Shifts', defaultSuffix: '-Z' },
+  { key: 'stockCount', label: 'Stock Counts', defaultSuffix: '-SC' },
+  { key: 'goodsReceipt', label: 'Goods Receipts', defaultSuffix: '-GRN' },
+  { key: 'supplierReturn', label: 'Supplier Returns', defaultSuffix: '-RTN' }
+]
+
+const DEFAULT_NUMBERING: DocumentNumbering = { prefix: '', padding: 6, yearlyReset: true }
+
+const numberingFrom = (settings?: any): Record<NumberedDocument, DocumentNumbering> => ({
+  invoice: { ...DEFAULT_NUMBERING, ...settings?.numbering?.invoice },
+  purchaseOrder: { ...DEFAULT_NUMBERING, ...settings?.numbering?.purchaseOrder },
+  expense: { ...DEFAULT_NUMBERING, ...settings?.numbering?.expense },
+  quotation: { ...DEFAULT_NUMBERING, ...settings?.numbering?.quotation },
+  shift: { ...DEFAULT_NUMBERING, ...settings?.numbering?.shift },
+  stockCount: { ...DEFAULT_NUMBERING, ...settings?.numbering?.stockCount },
+  goodsReceipt: { ...DEFAULT_NUMBERING, ...settings?.numbering?.goodsReceipt },
+  supplierReturn: { ...DEFAULT_NUMBERING, ...settings?.numbering?.supplierReturn }
+})
+
+type StoreRole = 'OWNER' | 'MANAGER' | 'CASHIER'
+
+// The most each store role may take off list price, through line, cart or price overrides
+const DISCOUNT_ROLES: { key: StoreRole; label: string }[] = [
+  { key: 'OWNER', label: 'Owner' },
+  { key: 'MANAGER', label: 'Manager' },
+  { key: 'CASHIER', label: 'Cashier' }
+]
+
+const DEFAULT_HELD_CART_HOURS = 24
+
+const DEFAULT_MAX_DISCOUNT: Record<StoreRole, number> = { OWNER: 100, MANAGER: 25, CASHIER: 10 }
+
+const discountLimitsFrom = (settings?: any): Record<StoreRole, number> => ({
+  ...DEFAULT_MAX_DISCOUNT,
+  ...settings?.maxDiscountPercent
+})
 
 export default function SettingsPage() {
   const navigate = useNavigate()
@@ -25,13 +107,254 @@ export default function SettingsPage() {
     confirmPassword: ''
   })
 
+  const [currentStore, setCurrentStore] = useState<any>(null)
+  const [costingMethod, setCostingMethod] = useState('WEIGHTED_AVERAGE')
+  const [isSavingCosting, setIsSavingCosting] = useState(false)
+  const [meterStep, setMeterStep] = useState(String(DEFAULT_METER_STEP))
+  const [isSavingMeterStep, setIsSavingMeterStep] = useState(false)
+  const [numbering, setNumbering] = useState(numberingFrom())
+  const [isSavingNumbering, setIsSavingNumbering] = useState(false)
+  const [discountLimits, setDiscountLimits] = useState(discountLimitsFrom())
+  const [isSavingDiscounts, setIsSavingDiscounts] = useState(false)
+  const [taxForm, setTaxForm] = useState({ taxRate: 0, reducedTaxRate: 0, pricesIncludeTax: false })
+  const [isSavingTax, setIsSavingTax] = useState(false)
+  const [heldCartHours, setHeldCartHours] = useState(String(DEFAULT_HELD_CART_HOURS))
+  const [isSavingHeldCarts, setIsSavingHeldCarts] = useState(false)
+
   useEffect(() => {
     const userStr = localStorage.getItem('user')
     if (userStr) {
       setCurrentUser(JSON.parse(userStr))
     }
+
+    const storeStr = localStorage.getItem('selectedStore')
+    if (storeStr) {
+      const store = JSON.parse(storeStr)
+      window.api.stores.getById(store._id).then((result) => {
+        if (result.success) {
+          setCurrentStore(result.data)
+          setCostingMethod(result.data.settings?.costingMethod || 'WEIGHTED_AVERAGE')
+          setMeterStep(String(result.data.settings?.meterStep || DEFAULT_METER_STEP))
+          setNumbering(numberingFrom(result.data.settings))
+          setDiscountLimits(discountLimitsFrom(result.data.settings))
+          setTaxForm({
+            taxRate: result.data.settings?.taxRate || 0,
+            reducedTaxRate: result.data.settings?.reducedTaxRate || 0,
+            pricesIncludeTax: Boolean(result.data.settings?.pricesIncludeTax)
+          })
+          setHeldCartHours(String(result.data.settings?.heldCartHours || DEFAULT_HELD_CART_HOURS))
+        }
+      })
+    }
   }, [])
 
+  const handleCostingSave = async () => {
+    if (!currentStore) return
+
+    setIsSavingCosting(true)
+    try {
+      const result = await window.api.stores.update(currentStore._id, {
+        'settings.costingMethod': costingMethod
+      })
+      if (result.success) {
+        setCurrentStore(result.data)
+        const storeStr = localStorage.getItem('selectedStore')
+        if (storeStr) {
+          localStorage.setItem(
+            'selectedStore',
+            JSON.stringify({ ...JSON.parse(storeStr), settings: result.data.settings })
+          )
+        }
+        toast.success('Costing method updated')
+      } else {
+        toast.error(result.error || 'Failed to update costing method')
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'An error occurred')
+    } finally {
+      setIsSavingCosting(false)
+    }
+  }
+
+  const handleMeterStepSave = async () => {
+    if (!currentStore) return
+
+    setIsSavingMeterStep(true)
+    try {
+      const result = await window.api.stores.update(currentStore._id, {
+        'settings.meterStep': Number(meterStep)
+      })
+      if (result.success) {
+        setCurrentStore(result.data)
+        const storeStr = localStorage.getItem('selectedStore')
+        if (storeStr) {
+          localStorage.setItem(
+            'selectedStore',
+            JSON.stringify({ ...JSON.parse(storeStr), settings: result.data.settings })
+          )
+        }
+        toast.success('Meter rounding updated')
+      } else {
+        toast.error(result.error || 'Failed to update meter rounding')
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'An error occurred')
+    } finally {
+      setIsSavingMeterStep(false)
+    }
+  }
+
+  const updateNumbering = (key: NumberedDocument, changes: Partial<DocumentNumbering>) =>
+    setNumbering((prev) => ({ ...prev, [key]: { ...prev[key], ...changes } }))
+
+  const defaultPrefix = (key: NumberedDocument) =>
+    `${currentStore?.code || ''}${NUMBERED_DOCUMENTS.find((doc) => doc.key === key)?.defaultSuffix || ''}`
+
+  const numberingPreview = (key: NumberedDocument, config: DocumentNumbering) =>
+    [
+      config.prefix.trim().toUpperCase() || defaultPrefix(key),
+      config.yearlyReset ? new Date().getFullYear() : null,
+      '1'.padStart(config.padding || 1, '0')
+    ]
+      .filter(Boolean)
+      .join('-')
+
+  const handleNumberingSave = async () => {
+    if (!currentStore) return
+
+    setIsSavingNumbering(true)
+    try {
+      const result = await window.api.stores.update(currentStore._id, {
+        'settings.numbering': Object.fromEntries(
+          NUMBERED_DOCUMENTS.map(({ key }) => [
+            key,
+            {
+              prefix: numbering[key].prefix.trim(),
+              padding: Math.min(10, Math.max(1, Math.round(Number(numbering[key].padding) || 6))),
+              yearlyReset: numbering[key].yearlyReset
+            }
+          ])
+        )
+      })
+      if (result.success) {
+        setCurrentStore(result.data)
+        setNumbering(numberingFrom(result.data.settings))
+        const storeStr = localStorage.getItem('selectedStore')
+        if (storeStr) {
+          localStorage.setItem(
+            'selectedStore',
+            JSON.stringify({ ...JSON.parse(storeStr), settings: result.data.settings })
+          )
+        }
+        toast.success('Document numbering updated')
+      } else {
+        toast.error(result.error || 'Failed to update document numbering')
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'An error occurred')
+    } finally {
+      setIsSavingNumbering(false)
+    }
+  }
+
+  const handleDiscountLimitsSave = async () => {
+    if (!currentStore) return
+
+    setIsSavingDiscounts(true)
+    try {
+      const result = await window.api.stores.update(currentStore._id, {
+        'settings.maxDiscountPercent': Object.fromEntries(
+          DISCOUNT_ROLES.map(({ key }) => [
+            key,
+            Math.min(100, Math.max(0, Number(discountLimits[key]) || 0))
+          ])
+        )
+      })
+      if (result.success) {
+        setCurrentStore(result.data)
+        setDiscountLimits(discountLimitsFrom(result.data.settings))
+        const storeStr = localStorage.getItem('selectedStore')
+        if (storeStr) {
+          localStorage.setItem(
+            'selectedStore',
+            JSON.stringify({ ...JSON.parse(storeStr), settings: result.data.settings })
+          )
+        }
+        toast.success('Discount limits updated')
+      } else {
+        toast.error(result.error || 'Failed to update discount limits')
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'An error occurred')
+    } finally {
+      setIsSavingDiscounts(false)
+    }
+  }
+
+  const handleTaxSave = async () => {
+    if (!currentStore) return
+
+    setIsSavingTax(true)
+    try {
+      const clampRate = (value: number) => Math.min(100, Math.max(0, Number(value) || 0))
+      const result = await window.api.stores.update(currentStore._id, {
+        'settings.taxRate': clampRate(taxForm.taxRate),
+        'settings.reducedTaxRate': clampRate(taxForm.reducedTaxRate),
+        'settings.pricesIncludeTax': taxForm.pricesIncludeTax
+      })
+      if (result.success) {
+        setCurrentStore(result.data)
+        const storeStr = localStorage.getItem('selectedStore')
+        if (storeStr) {
+          localStorage.setItem(
+            'selectedStore',
+            JSON.stringify({ ...JSON.parse(storeStr), settings: result.data.settings })
+          )
+        }
+        toast.success('Tax settings updated')
+      } else {
+        toast.error(result.error || 'Failed to update tax settings')
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'An error occurred')
+    } finally {
+      setIsSavingTax(false)
+    }
+  }
+
+  const handleHeldCartsSave = async () => {
+    if (!currentStore) return
+    const hours = Math.round(Number(heldCartHours))
+    if (!(hours >= 1)) {
+      toast.error('Held carts must be kept for at least 1 hour')
+      return
+    }
+
+    setIsSavingHeldCarts(true)
+    try {
+      const result = await window.api.stores.update(currentStore._id, {
+        'settings.heldCartHours': hours
+      })
+      if (result.success) {
+        setCurrentStore(result.data)
+        const storeStr = localStorage.getItem('selectedStore')
+        if (storeStr) {
+          localStorage.setItem(
+            'selectedStore',
+            JSON.stringify({ ...JSON.parse(storeStr), settings: result.data.settings })
+          )
+        }
+        toast.success('Held cart expiry updated')
+      } else {
+        toast.error(result.error || 'Failed to update held cart expiry')
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'An error occurred')
+    } finally {
+      setIsSavingHeldCarts(false)
+    }
+  }
+
   const handlePasswordChange = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!currentUser) return
@@ -167,6 +490,366 @@ export default function SettingsPage() {
             </form>
           </CardContent>
         </Card>
+
+        {currentStore && (
+          <Card className="bg-card border-border text-foreground shadow-xl shadow-black/5">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 font-black uppercase text-lg">
+                <Layers className="w-5 h-5 text-[#4ade80]" />
+                Inventory Costing
+              </CardTitle>
+              <CardDescription className="text-muted-foreground text-xs font-bold uppercase opacity-70">
+                How {currentStore.name} values the cost of goods sold and stock written off.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4 max-w-md">
+              <div className="space-y-2">
+                <Label className="text-[10px] font-black uppercase text-muted-foreground">
+                  Costing Method
+                </Label>
+                <Select value={costingMethod} onValueChange={setCostingMethod}>
+                  <SelectTrigger className="bg-muted/30 border-border font-bold h-11">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="WEIGHTED_AVERAGE">Weighted average</SelectItem>
+                    <SelectItem value="FIFO">FIFO (first in, first out)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-[11px] text-muted-foreground">
+                  {costingMethod === 'FIFO'
+                    ? 'Each sale is costed at what the oldest remaining purchase lot actually cost.'
+                    : 'Each sale is costed at the running average of everything purchased.'}{' '}
+                  Applies to sales made from now on.
+                </p>
+              </div>
+              <Button
+                type="button"
+                onClick={handleCostingSave}
+                disabled={
+                  isSavingCosting ||
+                  costingMethod === (currentStore.settings?.costingMethod || 'WEIGHTED_AVERAGE')
+                }
+                className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-black uppercase text-xs tracking-widest h-11 px-6 shadow-lg shadow-[#4ade80]/20"
+              >
+                {isSavingCosting ? (
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                Save Costing Method
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {currentStore && (
+          <Card className="bg-card border-border text-foreground shadow-xl shadow-black/5">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 font-black uppercase text-lg">
+                <Ruler className="w-5 h-5 text-[#4ade80]" />
+                Fabric Cutting
+              </CardTitle>
+              <CardDescription className="text-muted-foreground text-xs font-bold uppercase opacity-70">
+                How lengths of raw material are rounded when sold by the meter.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4 max-w-md">
+              <div className="space-y-2">
+                <Label className="text-[10px] font-black uppercase text-muted-foreground">
+                  Round Cuts Up To
+                </Label>
+                <Select value={meterStep} onValueChange={setMeterStep}>
+                  <SelectTrigger className="bg-muted/30 border-border font-bold h-11">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {METER_STEPS.map((step) => (
+                      <SelectItem key={step.value} value={step.value}>
+                        {step.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-[11px] text-muted-foreground">
+                  A length entered at the POS is rounded up to the next step. Minimum cut lengths
+                  are set on each raw material product.
+                </p>
+              </div>
+              <Button
+                type="button"
+                onClick={handleMeterStepSave}
+                disabled={
+                  isSavingMeterStep ||
+                  Number(meterStep) === (currentStore.settings?.meterStep || DEFAULT_METER_STEP)
+                }
+                className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-black uppercase text-xs tracking-widest h-11 px-6 shadow-lg shadow-[#4ade80]/20"
+              >
+                {isSavingMeterStep ? (
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                Save Meter Rounding
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {currentStore && (
+          <Card className="bg-card border-border text-foreground shadow-xl shadow-black/5">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 font-black uppercase text-lg">
+                <Clock className="w-5 h-5 text-[#4ade80]" />
+                Held Carts
+              </CardTitle>
+              <CardDescription className="text-muted-foreground text-xs font-bold uppercase opacity-70">
+                How long an order put on hold at the POS is kept.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4 max-w-md">
+              <div className="space-y-2">
+                <Label className="text-[10px] font-black uppercase text-muted-foreground">
+                  Discard After (Hours)
+                </Label>
+                <Input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={heldCartHours}
+                  onChange={(e) => setHeldCartHours(e.target.value)}
+                  className="bg-muted/30 border-border focus-visible:ring-[#4ade80] font-bold h-11"
+                />
+                <p className="text-[11px] text-muted-foreground">
+                  Applies to carts held from now on. Stock in a held cart stays on the shelf and is
+                  only flagged as held at the POS.
+                </p>
+              </div>
+              <Button
+                type="button"
+                onClick={handleHeldCartsSave}
+                disabled={isSavingHeldCarts}
+                className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-black uppercase text-xs tracking-widest h-11 px-6 shadow-lg shadow-[#4ade80]/20"
+              >
+                {isSavingHeldCarts ? (
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                Save Held Cart Expiry
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {currentStore && (
+          <Card className="bg-card border-border text-foreground shadow-xl shadow-black/5">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 font-black uppercase text-lg">
+                <Hash className="w-5 h-5 text-[#4ade80]" />
+                Document Numbering
+              </CardTitle>
+              <CardDescription className="text-muted-foreground text-xs font-bold uppercase opacity-70">
+                How the invoices, orders and other documents of this store are numbered.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {NUMBERED_DOCUMENTS.map(({ key, label }) => (
+                <div
+                  key={key}
+                  className="grid gap-4 md:grid-cols-4 items-end border-b border-border pb-4"
+                >
+                  <div className="space-y-2">
+                    <Label className="text-[10px] font-black uppercase text-muted-foreground">
+                      {label} Prefix
+                    </Label>
+                    <Input
+                      value={numbering[key].prefix}
+                      onChange={(e) => updateNumbering(key, { prefix: e.target.value })}
+                      placeholder={defaultPrefix(key)}
+                      className="bg-muted/30 border-border focus-visible:ring-[#4ade80] font-bold h-11 uppercase"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-[10px] font-black uppercase text-muted-foreground">
+                      Digits
+                    </Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={numbering[key].padding}
+                      onChange={(e) => updateNumbering(key, { padding: Number(e.target.value) })}
+                      className="bg-muted/30 border-border focus-visible:ring-[#4ade80] font-bold h-11"
+                    />
+                  </div>
+                  <div className="flex items-center gap-3 h-11">
+                    <Switch
+                      checked={numbering[key].yearlyReset}
+                      onCheckedChange={(checked) => updateNumbering(key, { yearlyReset: checked })}
+                    />
+                    <Label className="text-xs font-bold">Restart every year</Label>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="text-[10px] font-black uppercase text-muted-foreground">
+                      Next looks like
+                    </div>
+                    <div className="font-mono font-bold">
+                      {numberingPreview(key, numbering[key])}
+                    </div>
+                  </div>
+                </div>
+              ))}
+              <p className="text-[11px] text-muted-foreground">
+                Numbers are handed out one after another per store, so two tills never share one.
+                Changes apply to documents created from now on.
+              </p>
+              <Button
+                type="button"
+                onClick={handleNumberingSave}
+                disabled={isSavingNumbering}
+                className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-black uppercase text-xs tracking-widest h-11 px-6 shadow-lg shadow-[#4ade80]/20"
+              >
+                {isSavingNumbering ? (
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                Save Numbering
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {currentStore && (
+          <Card className="bg-card border-border text-foreground shadow-xl shadow-black/5">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 font-black uppercase text-lg">
+                <Receipt className="w-5 h-5 text-[#4ade80]" />
+                Tax
+              </CardTitle>
+              <CardDescription className="text-muted-foreground text-xs font-bold uppercase opacity-70">
+                Rates for each tax class and how selling prices are treated at the POS.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3 max-w-2xl items-end">
+                <div className="space-y-2">
+                  <Label className="text-[10px] font-black uppercase text-muted-foreground">
+                    Standard Rate (%)
+                  </Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="any"
+                    value={taxForm.taxRate}
+                    onChange={(e) =>
+                      setTaxForm((prev) => ({ ...prev, taxRate: Number(e.target.value) }))
+                    }
+                    className="bg-muted/30 border-border focus-visible:ring-[#4ade80] font-bold h-11"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-[10px] font-black uppercase text-muted-foreground">
+                    Reduced Rate (%)
+                  </Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="any"
+                    value={taxForm.reducedTaxRate}
+                    onChange={(e) =>
+                      setTaxForm((prev) => ({ ...prev, reducedTaxRate: Number(e.target.value) }))
+                    }
+                    className="bg-muted/30 border-border focus-visible:ring-[#4ade80] font-bold h-11"
+                  />
+                </div>
+                <div className="flex items-center gap-3 h-11">
+                  <Switch
+                    checked={taxForm.pricesIncludeTax}
+                    onCheckedChange={(checked) =>
+                      setTaxForm((prev) => ({ ...prev, pricesIncludeTax: checked }))
+                    }
+                  />
+                  <Label className="text-xs font-bold">Prices include tax</Label>
+                </div>
+              </div>
+              <p className="text-[11px] text-muted-foreground">
+                Exempt items are never taxed. Each category has a tax class, and a product can set
+                its own. With prices including tax, the tax is worked out of the selling price
+                instead of being added on top.
+              </p>
+              <Button
+                type="button"
+                onClick={handleTaxSave}
+                disabled={isSavingTax}
+                className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-black uppercase text-xs tracking-widest h-11 px-6 shadow-lg shadow-[#4ade80]/20"
+              >
+                {isSavingTax ? (
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                Save Tax Settings
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {currentStore && (
+          <Card className="bg-card border-border text-foreground shadow-xl shadow-black/5">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 font-black uppercase text-lg">
+                <Percent className="w-5 h-5 text-[#4ade80]" />
+                Discount Limits
+              </CardTitle>
+              <CardDescription className="text-muted-foreground text-xs font-bold uppercase opacity-70">
+                The most each role may sell below list price at the POS.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3 max-w-2xl">
+                {DISCOUNT_ROLES.map(({ key, label }) => (
+                  <div key={key} className="space-y-2">
+                    <Label className="text-[10px] font-black uppercase text-muted-foreground">
+                      {label} (% off)
+                    </Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step="any"
+                      value={discountLimits[key]}
+                      onChange={(e) =>
+                        setDiscountLimits((prev) => ({ ...prev, [key]: Number(e.target.value) }))
+                      }
+                      className="bg-muted/30 border-border focus-visible:ring-[#4ade80] font-bold h-11"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-[11px] text-muted-foreground">
+                Counts line discounts, prices overridden below list and the cart discount together.
+                Admins are not limited.
+              </p>
+              <Button
+                type="button"
+                onClick={handleDiscountLimitsSave}
+                disabled={isSavingDiscounts}
+                className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-black uppercase text-xs tracking-widest h-11 px-6 shadow-lg shadow-[#4ade80]/20"
+              >
+                {isSavingDiscounts ? (
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                Save Discount Limits
+              </Button>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,673 @@
+import { useEffect, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { format } from 'date-fns'
+import { ArrowDownCircle, ArrowUpCircle, ChevronLeft, Lock, Printer } from 'lucide-react'
+import { Button } from '@renderer/components/ui/button'
+import { Badge } from '@renderer/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@renderer/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@renderer/components/ui/dialog'
+import { Input } from '@renderer/components/ui/input'
+import { Label } from '@renderer/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@renderer/components/ui/table'
+import { printContent } from '@renderer/lib/print-utils'
+import { tenderLabel } from '@renderer/lib/tenders'
+import {
+  DENOMINATIONS,
+  countedTotal,
+  overShortLabel,
+  overShortTone,
+  shiftStatusTone,
+  type DenominationCount,
+  type MethodTotal,
+  type Shift,
+  type ShiftReport
+} from '@renderer/lib/shifts'
+import { toast } from 'sonner'
+
+const formatCurrency = (value?: number) => `Rs. ${Number(value || 0).toLocaleString()}`
+
+const emptyCounts = (): DenominationCount[] => DENOMINATIONS.map((value) => ({ value, count: 0 }))
+
+export default function ShiftDetailPage() {
+  const { id } = useParams()
+  const navigate = useNavigate()
+  const [shift, setShift] = useState<Shift | null>(null)
+  const [report, setReport] = useState<ShiftReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [movementType, setMovementType] = useState<'PAY_IN' | 'PAY_OUT' | null>(null)
+  const [movementAmount, setMovementAmount] = useState('')
+  const [movementReason, setMovementReason] = useState('')
+  const [isCloseOpen, setIsCloseOpen] = useState(false)
+  const [counts, setCounts] = useState<DenominationCount[]>(emptyCounts)
+  const [closingNotes, setClosingNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadShift = async () => {
+    if (!id) return
+    setIsLoading(true)
+    try {
+      const result = await window.api.shifts.getReport(id)
+      if (result.success) {
+        setShift(result.data.shift)
+        setReport(result.data.report)
+      } else {
+        toast.error(result.error || 'Shift not found')
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load shift')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadShift()
+  }, [id])
+
+  const getUserId = () => {
+    const userData = localStorage.getItem('user')
+    const user = userData ? JSON.parse(userData) : null
+    return user?._id || user?.id
+  }
+
+  const openMovement = (type: 'PAY_IN' | 'PAY_OUT') => {
+    setMovementAmount('')
+    setMovementReason('')
+    setMovementType(type)
+  }
+
+  const handleMovement = async () => {
+    if (!shift || !movementType) return
+    const userId = getUserId()
+    if (!userId) {
+      toast.error('User session not found.')
+      return
+    }
+    setIsSaving(true)
+    try {
+      const result = await window.api.shifts.recordCashMovement({
+        shiftId: shift._id,
+        type: movementType,
+        amount: Number(movementAmount) || 0,
+        reason: movementReason,
+        userId
+      })
+      if (result.success) {
+        toast.success(movementType === 'PAY_IN' ? 'Pay in recorded' : 'Pay out recorded')
+        setMovementType(null)
+        loadShift()
+      } else {
+        toast.error(result.error || 'Failed to record cash movement')
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to record cash movement')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const openClose = () => {
+    setCounts(emptyCounts())
+    setClosingNotes('')
+    setIsCloseOpen(true)
+    // The drawer keeps moving until the count starts, so the expected figure is refreshed
+    loadShift()
+  }
+
+  const setCount = (value: number, count: string) =>
+    setCounts((current) =>
+      current.map((line) =>
+        line.value === value
+          ? { ...line, count: Math.max(0, Math.floor(Number(count) || 0)) }
+          : line
+      )
+    )
+
+  const counted = countedTotal(counts)
+  const expected = report?.cash.expected || 0
+  const difference = Math.round((counted - expected) * 100) / 100
+
+  const handleClose = async () => {
+    if (!shift) return
+    const userId = getUserId()
+    if (!userId) {
+      toast.error('User session not found.')
+      return
+    }
+    setIsSaving(true)
+    try {
+      const result = await window.api.shifts.close({
+        shiftId: shift._id,
+        denominations: counts.filter((line) => line.count > 0),
+        notes: closingNotes || undefined,
+        userId
+      })
+      if (result.success) {
+        toast.success(`Shift ${shift.shiftNumber} closed`)
+        setIsCloseOpen(false)
+        loadShift()
+      } else {
+        toast.error(result.error || 'Failed to close shift')
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to close shift')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const cashRows = (data: ShiftReport) => [
+    { label: 'Opening float', amount: data.cash.openingFloat },
+    { label: 'Cash sales', amount: data.cash.sales },
+    { label: 'Down payments', amount: data.cash.downPayments },
+    { label: 'Cash payments received', amount: data.cash.payments },
+    { label: 'Pay ins', amount: data.cash.payIns },
+    { label: 'Pay outs', amount: -data.cash.payOuts },
+    { label: 'Cash refunds', amount: -data.cash.refunds }
+  ]
+
+  const handlePrint = () => {
+    if (!shift || !report) return
+    const storeData = localStorage.getItem('selectedStore')
+    const store = storeData ? JSON.parse(storeData) : null
+    const title = shift.status === 'CLOSED' ? 'Z Report' : 'X Report'
+    const row = (label: string, value: string, bold = false) =>
+      `<div style="display: flex; justify-content: space-between; padding: 2px 0;${bold ? ' font-weight: bold;' : ''}">
+        <span>${label}</span><span>${value}</span>
+      </div>`
+    const section = (heading: string, totals: MethodTotal[], empty: string) => `
+      <div style="margin-top: 12px; border-top: 1px solid #e5e7eb; padding-top: 8px;">
+        <div style="font-weight: bold; margin-bottom: 4px;">${heading}</div>
+        ${
+          totals.length
+            ? totals
+                .map((total) =>
+                  row(`${tenderLabel(total)} (${total.count})`, formatCurrency(total.amount))
+                )
+                .join('')
+            : `<div style="color: #6b7280;">${empty}</div>`
+        }
+      </div>`
+
+    const content = `
+      <div style="font-family: 'Inter', sans-serif; padding: 20px; color: #111; font-size: 12px;">
+        <h2 style="margin: 0 0 4px;">${title}</h2>
+        ${store?.name ? `<div style="font-size: 13px; font-weight: bold;">${store.name}</div>` : ''}
+        <div style="margin-top: 12px; border-top: 1px solid #e5e7eb; padding-top: 12px;">
+          <div><strong>Shift:</strong> ${shift.shiftNumber}</div>
+          <div><strong>Cashier:</strong> ${shift.openedBy?.fullName || '-'}</div>
+          <div><strong>Opened:</strong> ${format(new Date(shift.openedAt), 'MMM dd, yyyy HH:mm')}</div>
+          ${
+            shift.closedAt
+              ? `<div><strong>Closed:</strong> ${format(new Date(shift.closedAt), 'MMM dd, yyyy HH:mm')}${
+                  shift.closedBy?.fullName ? ` by ${shift.closedBy.fullName}` : ''
+                }</div>`
+              : `<div><strong>Printed:</strong> ${format(new Date(), 'MMM dd, yyyy HH:mm')}</div>`
+          }
+        </div>
+
+        <div style="margin-top: 12px; border-top: 1px solid #e5e7eb; padding-top: 8px;">
+          <div style="font-weight: bold; margin-bottom: 4px;">Sales (${report.sales.count})</div>
+          ${row('Subtotal', formatCurrency(report.sales.subtotal))}
+          ${row('Discounts', `-${formatCurrency(report.sales.discountAmount)}`)}
+          ${row('Tax', formatCurrency(report.sales.taxAmount))}
+          ${row('Total sales', formatCurrency(report.sales.totalAmount), true)}
+          ${row('Down payments', formatCurrency(report.sales.downPayments))}
+          ${row('On account', formatCurrency(report.sales.onAccount))}
+        </div>
+        ${section('Sales by Payment Method', report.tenders, 'No sales taken')}
+        ${section('Payments Received', report.payments, 'No payments received')}
+        ${section('Refunds', report.refunds, 'No refunds')}
+
+        <div style="margin-top: 12px; border-top: 1px solid #e5e7eb; padding-top: 8px;">
+          <div style="font-weight: bold; margin-bottom: 4px;">Cash Drawer</div>
+          ${cashRows(report)
+            .map((line) => row(line.label, formatCurrency(line.amount)))
+            .join('')}
+          ${row('Expected cash', formatCurrency(report.cash.expected), true)}
+          ${
+            shift.status === 'CLOSED'
+              ? `${row('Counted cash', formatCurrency(shift.countedCash), true)}
+                 ${row(overShortLabel(shift.overShort || 0), formatCurrency(Math.abs(shift.overShort || 0)), true)}`
+              : ''
+          }
+        </div>
+
+        ${
+          shift.denominations?.length
+            ? `<div style="margin-top: 12px; border-top: 1px solid #e5e7eb; padding-top: 8px;">
+                <div style="font-weight: bold; margin-bottom: 4px;">Cash Count</div>
+                ${shift.denominations
+                  .map((line) =>
+                    row(
+                      `${formatCurrency(line.value)} x ${line.count}`,
+                      formatCurrency(line.value * line.count)
+                    )
+                  )
+                  .join('')}
+              </div>`
+            : ''
+        }
+        ${
+          shift.notes
+            ? `<div style="margin-top: 12px;"><strong>Notes:</strong> ${shift.notes}</div>`
+            : ''
+        }
+      </div>
+    `
+    void printContent({ title: `${title} ${shift.shiftNumber}`, content })
+  }
+
+  const renderTotals = (totals: MethodTotal[], empty: string) =>
+    totals.length > 0 ? (
+      totals.map((total) => (
+        <div key={`${total.method}-${total.channel || ''}`} className="flex justify-between">
+          <span className="text-muted-foreground">
+            {tenderLabel(total)} ({total.count})
+          </span>
+          <span className="font-semibold">{formatCurrency(total.amount)}</span>
+        </div>
+      ))
+    ) : (
+      <div className="text-muted-foreground">{empty}</div>
+    )
+
+  if (isLoading && !shift) {
+    return <div className="p-8 text-center text-muted-foreground">Loading shift...</div>
+  }
+
+  if (!shift || !report) {
+    return <div className="p-8 text-center text-muted-foreground">Shift not found.</div>
+  }
+
+  const isOpen = shift.status === 'OPEN'
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate('/dashboard/shifts')}
+            className="hover:bg-accent"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl font-bold text-foreground">{shift.shiftNumber}</h1>
+              <Badge variant="outline" className={shiftStatusTone(shift.status)}>
+                {isOpen ? 'Open' : 'Closed'}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {shift.openedBy?.fullName || 'Cashier'} • opened{' '}
+              {format(new Date(shift.openedAt), 'MMM dd, yyyy HH:mm')}
+              {shift.closedAt
+                ? ` • closed ${format(new Date(shift.closedAt), 'MMM dd, yyyy HH:mm')}`
+                : ''}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" className="border-border" onClick={handlePrint}>
+            <Printer className="h-4 w-4 mr-2" />
+            {isOpen ? 'Print X Report' : 'Print Z Report'}
+          </Button>
+          {isOpen && (
+            <>
+              <Button
+                variant="outline"
+                className="border-border"
+                onClick={() => openMovement('PAY_IN')}
+              >
+                <ArrowDownCircle className="h-4 w-4 mr-2" />
+                Pay In
+              </Button>
+              <Button
+                variant="outline"
+                className="border-border"
+                onClick={() => openMovement('PAY_OUT')}
+              >
+                <ArrowUpCircle className="h-4 w-4 mr-2" />
+                Pay Out
+              </Button>
+              <Button className="bg-[#4ade80] text-black hover:bg-[#22c55e]" onClick={openClose}>
+                <Lock className="h-4 w-4 mr-2" />
+                Close Shift
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="border-border">
+          <CardHeader className="border-b border-border">
+            <CardTitle className="text-sm font-black uppercase tracking-widest text-muted-foreground">
+              Sales ({report.sales.count})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-3 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Subtotal</span>
+              <span className="font-semibold">{formatCurrency(report.sales.subtotal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Discounts</span>
+              <span className="font-semibold text-red-500">
+                -{formatCurrency(report.sales.discountAmount)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Tax</span>
+              <span className="font-semibold">{formatCurrency(report.sales.taxAmount)}</span>
+            </div>
+            <div className="flex justify-between border-t border-border pt-3 text-base">
+              <span className="font-bold">Total sales</span>
+              <span className="font-black text-[#4ade80]">
+                {formatCurrency(report.sales.totalAmount)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Down payments</span>
+              <span className="font-semibold">{formatCurrency(report.sales.downPayments)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">On account</span>
+              <span className="font-semibold">{formatCurrency(report.sales.onAccount)}</span>
+            </div>
+            <div className="border-t border-border pt-3 space-y-2">
+              <div className="text-xs font-bold uppercase text-muted-foreground">
+                By payment method
+              </div>
+              {renderTotals(report.tenders, 'No sales taken yet.')}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="border-border">
+          <CardHeader className="border-b border-border">
+            <CardTitle className="text-sm font-black uppercase tracking-widest text-muted-foreground">
+              Payments & Refunds
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-3 text-sm">
+            <div className="text-xs font-bold uppercase text-muted-foreground">
+              Payments received
+            </div>
+            {renderTotals(report.payments, 'No payments received.')}
+            <div className="border-t border-border pt-3 text-xs font-bold uppercase text-muted-foreground">
+              Refunds
+            </div>
+            {renderTotals(report.refunds, 'No refunds.')}
+          </CardContent>
+        </Card>
+
+        <Card className="border-border">
+          <CardHeader className="border-b border-border">
+            <CardTitle className="text-sm font-black uppercase tracking-widest text-muted-foreground">
+              Cash Drawer
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-3 text-sm">
+            {cashRows(report).map((line) => (
+              <div key={line.label} className="flex justify-between">
+                <span className="text-muted-foreground">{line.label}</span>
+                <span className={`font-semibold ${line.amount < 0 ? 'text-red-500' : ''}`}>
+                  {formatCurrency(line.amount)}
+                </span>
+              </div>
+            ))}
+            <div className="flex justify-between border-t border-border pt-3 text-base">
+              <span className="font-bold">Expected cash</span>
+              <span className="font-black">{formatCurrency(report.cash.expected)}</span>
+            </div>
+            {!isOpen && (
+              <>
+                <div className="flex justify-between text-base">
+                  <span className="font-bold">Counted cash</span>
+                  <span className="font-black">{formatCurrency(shift.countedCash)}</span>
+                </div>
+                <div
+                  className={`flex justify-between text-base font-black ${overShortTone(shift.overShort || 0)}`}
+                >
+                  <span>{overShortLabel(shift.overShort || 0)}</span>
+                  <span>{formatCurrency(Math.abs(shift.overShort || 0))}</span>
+                </div>
+                {shift.notes && (
+                  <div className="border-t border-border pt-3 text-xs text-muted-foreground">
+                    Notes: {shift.notes}
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="border-border">
+        <CardHeader className="border-b border-border">
+          <CardTitle className="text-sm font-black uppercase tracking-widest text-muted-foreground">
+            Pay Ins & Pay Outs
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Recorded By</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shift.cashMovements.length > 0 ? (
+                shift.cashMovements.map((movement, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{format(new Date(movement.date), 'MMM dd, HH:mm')}</TableCell>
+                    <TableCell>{movement.type === 'PAY_IN' ? 'Pay in' : 'Pay out'}</TableCell>
+                    <TableCell>{movement.reason}</TableCell>
+                    <TableCell>{movement.recordedBy?.fullName || '—'}</TableCell>
+                    <TableCell
+                      className={`text-right font-bold ${movement.type === 'PAY_OUT' ? 'text-red-500' : ''}`}
+                    >
+                      {movement.type === 'PAY_OUT' ? '-' : ''}
+                      {formatCurrency(movement.amount)}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                    No cash has been paid in or out.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {!isOpen && shift.denominations && shift.denominations.length > 0 && (
+        <Card className="border-border">
+          <CardHeader className="border-b border-border">
+            <CardTitle className="text-sm font-black uppercase tracking-widest text-muted-foreground">
+              Cash Count
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Denomination</TableHead>
+                  <TableHead className="text-center">Count</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shift.denominations.map((line) => (
+                  <TableRow key={line.value}>
+                    <TableCell>{formatCurrency(line.value)}</TableCell>
+                    <TableCell className="text-center">{line.count}</TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {formatCurrency(line.value * line.count)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={movementType !== null} onOpenChange={(open) => !open && setMovementType(null)}>
+        <DialogContent className="bg-background border-border text-foreground sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-black">
+              {movementType === 'PAY_IN' ? 'Pay In' : 'Pay Out'}
+            </DialogTitle>
+            <p className="text-sm text-muted-foreground">
+              {movementType === 'PAY_IN'
+                ? 'Cash added to the drawer, such as extra change from the safe.'
+                : 'Cash taken from the drawer, such as petty expenses or a bank drop.'}
+            </p>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div>
+              <Label className="text-sm font-semibold">Amount *</Label>
+              <Input
+                type="number"
+                min={0}
+                value={movementAmount}
+                onChange={(e) => setMovementAmount(e.target.value)}
+                className="bg-muted border-border mt-1"
+              />
+            </div>
+            <div>
+              <Label className="text-sm font-semibold">Reason *</Label>
+              <Input
+                value={movementReason}
+                onChange={(e) => setMovementReason(e.target.value)}
+                className="bg-muted border-border mt-1"
+                placeholder="e.g., Change from safe, Tea and snacks"
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button
+              variant="outline"
+              onClick={() => setMovementType(null)}
+              className="border-border"
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button
+              className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-semibold"
+              onClick={handleMovement}
+              disabled={isSaving || !(Number(movementAmount) > 0) || !movementReason.trim()}
+            >
+              {isSaving ? 'Saving...' : 'Record'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isCloseOpen} onOpenChange={setIsCloseOpen}>
+        <DialogContent className="bg-background border-border text-foreground sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-black">
+              Close Shift {shift.shiftNumber}
+            </DialogTitle>
+            <p className="text-sm text-muted-foreground">
+              Count the notes and coins in the drawer. The difference from the expected cash is
+              booked as over or short.
+            </p>
+          </DialogHeader>
+
+          <div className="space-y-6 py-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {counts.map((line) => (
+                <div key={line.value}>
+                  <Label className="text-xs font-semibold">{formatCurrency(line.value)}</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={line.count || ''}
+                    onChange={(e) => setCount(line.value, e.target.value)}
+                    className="bg-muted border-border mt-1"
+                    placeholder="0"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <Card className="border-border bg-muted/50">
+              <CardContent className="p-4 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Expected cash</span>
+                  <span className="font-semibold">{formatCurrency(expected)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Counted cash</span>
+                  <span className="font-semibold">{formatCurrency(counted)}</span>
+                </div>
+                <div
+                  className={`flex justify-between border-t border-border pt-2 text-base font-black ${overShortTone(difference)}`}
+                >
+                  <span>{overShortLabel(difference)}</span>
+                  <span>{formatCurrency(Math.abs(difference))}</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            <div>
+              <Label className="text-sm font-semibold">Notes (optional)</Label>
+              <Input
+                value={closingNotes}
+                onChange={(e) => setClosingNotes(e.target.value)}
+                className="bg-muted border-border mt-1"
+                placeholder="e.g., Short explained by a miscounted refund"
+              />
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button
+              variant="outline"
+              onClick={() => setIsCloseOpen(false)}
+              className="border-border"
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button
+              className="bg-[#4ade80] hover:bg-[#22c55e] text-black font-semibold"
+              onClick={handleClose}
+              disabled={isSaving}
+            >
+              {isSaving ? 'Closing...' : 'Close Shift'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
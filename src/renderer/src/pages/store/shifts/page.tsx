@@ -0,0 +1,262 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { format } from 'date-fns'
+import { Eye, Lock, PlayCircle } from 'lucide-react'
+import { Button } from '@renderer/components/ui/button'
+import { Badge } from '@renderer/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@renderer/components/ui/card'
+import { Input } from '@renderer/components/ui/input'
+import { Label } from '@renderer/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@renderer/components/ui/table'
+import {
+  overShortLabel,
+  overShortTone,
+  shiftStatusTone,
+  type Shift,
+  type ShiftStatus
+} from '@renderer/lib/shifts'
+import { toast } from 'sonner'
+
+const STATUS_FILTERS: { value: ShiftStatus | ''; label: string }[] = [
+  { value: '', label: 'All' },
+  { value: 'OPEN', label: 'Open' },
+  { value: 'CLOSED', label: 'Closed' }
+]
+
+const formatCurrency = (value?: number) => `Rs. ${Number(value || 0).toLocaleString()}`
+
+export default function ShiftsPage() {
+  const navigate = useNavigate()
+  const [shifts, setShifts] = useState<Shift[]>([])
+  const [currentShift, setCurrentShift] = useState<Shift | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [status, setStatus] = useState<ShiftStatus | ''>('')
+  const [openingFloat, setOpeningFloat] = useState('')
+  const [isOpening, setIsOpening] = useState(false)
+
+  const getSession = () => {
+    const storeData = localStorage.getItem('selectedStore')
+    const userData = localStorage.getItem('user')
+    const store = storeData ? JSON.parse(storeData) : null
+    const user = userData ? JSON.parse(userData) : null
+    return { storeId: store?._id, userId: user?._id || user?.id }
+  }
+
+  const loadShifts = async () => {
+    const { storeId, userId } = getSession()
+    if (!storeId) return
+    setIsLoading(true)
+    try {
+      const [listResult, currentResult] = await Promise.all([
+        window.api.shifts.getAll({ storeId, status: status || undefined }),
+        userId ? window.api.shifts.getCurrent({ storeId, userId }) : null
+      ])
+      if (listResult.success) setShifts(listResult.data)
+      else toast.error(listResult.error || 'Failed to load shifts')
+      setCurrentShift(currentResult?.success ? currentResult.data : null)
+    } catch (error: any) {
+      toast.error('Failed to load shifts: ' + error.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadShifts()
+  }, [status])
+
+  const handleOpenShift = async () => {
+    const { storeId, userId } = getSession()
+    if (!storeId || !userId) {
+      toast.error('User session not found.')
+      return
+    }
+    const float = Number(openingFloat) || 0
+    if (float < 0) {
+      toast.error('Opening float cannot be negative')
+      return
+    }
+
+    setIsOpening(true)
+    try {
+      const result = await window.api.shifts.open({ storeId, userId, openingFloat: float })
+      if (result.success) {
+        toast.success(`Shift ${result.data.shiftNumber} opened`)
+        setOpeningFloat('')
+        navigate(`/dashboard/shifts/${result.data._id}`)
+      } else {
+        toast.error(result.error || 'Failed to open shift')
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to open shift')
+    } finally {
+      setIsOpening(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Till Shifts</h1>
+        <p className="text-sm text-muted-foreground">
+          Open a shift with the float in the drawer before taking sales, and cash up against the
+          expected amount when you close it.
+        </p>
+      </div>
+
+      <Card className="bg-card border-border text-foreground">
+        <CardHeader className="border-b border-border">
+          <CardTitle className="text-sm font-black uppercase tracking-widest text-muted-foreground">
+            Your Shift
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6">
+          {currentShift ? (
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-3">
+                  <span className="text-lg font-bold">{currentShift.shiftNumber}</span>
+                  <Badge variant="outline" className={shiftStatusTone(currentShift.status)}>
+                    Open
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Opened {format(new Date(currentShift.openedAt), 'MMM dd, yyyy HH:mm')} with a
+                  float of {formatCurrency(currentShift.openingFloat)}
+                </p>
+              </div>
+              <Button
+                className="bg-[#4ade80] text-black hover:bg-[#22c55e]"
+                onClick={() => navigate(`/dashboard/shifts/${currentShift._id}`)}
+              >
+                <Lock className="h-4 w-4 mr-2" />
+                Pay In/Out or Close
+              </Button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="w-64">
+                <Label className="text-sm font-semibold">Opening float</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={openingFloat}
+                  onChange={(e) => setOpeningFloat(e.target.value)}
+                  className="bg-muted border-border mt-1"
+                  placeholder="Cash in the drawer"
+                />
+              </div>
+              <Button
+                className="bg-[#4ade80] text-black hover:bg-[#22c55e]"
+                onClick={handleOpenShift}
+                disabled={isOpening}
+              >
+                <PlayCircle className="h-4 w-4 mr-2" />
+                {isOpening ? 'Opening...' : 'Open Shift'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border text-foreground">
+        <CardHeader className="flex flex-row items-center justify-between border-b border-border py-4">
+          <CardTitle className="text-lg">Shift History</CardTitle>
+          <div className="flex gap-2">
+            {STATUS_FILTERS.map((filter) => (
+              <Button
+                key={filter.label}
+                variant={status === filter.value ? 'default' : 'outline'}
+                className={
+                  status === filter.value ? 'bg-[#4ade80] text-black hover:bg-[#22c55e]' : ''
+                }
+                onClick={() => setStatus(filter.value)}
+              >
+                {filter.label}
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Shift</TableHead>
+                <TableHead>Cashier</TableHead>
+                <TableHead>Opened</TableHead>
+                <TableHead>Closed</TableHead>
+                <TableHead className="text-right">Expected</TableHead>
+                <TableHead className="text-right">Counted</TableHead>
+                <TableHead className="text-right">Over/Short</TableHead>
+                <TableHead className="text-center">Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center text-muted-foreground py-8">
+                    Loading shifts...
+                  </TableCell>
+                </TableRow>
+              ) : shifts.length > 0 ? (
+                shifts.map((shift) => (
+                  <TableRow key={shift._id}>
+                    <TableCell className="font-semibold">{shift.shiftNumber}</TableCell>
+                    <TableCell>{shift.openedBy?.fullName || '—'}</TableCell>
+                    <TableCell>{format(new Date(shift.openedAt), 'MMM dd, yyyy HH:mm')}</TableCell>
+                    <TableCell>
+                      {shift.closedAt
+                        ? format(new Date(shift.closedAt), 'MMM dd, yyyy HH:mm')
+                        : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {shift.status === 'CLOSED' ? formatCurrency(shift.expectedCash) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {shift.status === 'CLOSED' ? formatCurrency(shift.countedCash) : '—'}
+                    </TableCell>
+                    <TableCell
+                      className={`text-right font-bold ${overShortTone(shift.overShort || 0)}`}
+                    >
+                      {shift.status === 'CLOSED'
+                        ? `${overShortLabel(shift.overShort || 0)} ${formatCurrency(Math.abs(shift.overShort || 0))}`
+                        : '—'}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Badge variant="outline" className={shiftStatusTone(shift.status)}>
+                        {shift.status === 'OPEN' ? 'Open' : 'Closed'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => navigate(`/dashboard/shifts/${shift._id}`)}
+                      >
+                        <Eye className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center text-muted-foreground py-8">
+                    No shifts found.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}